@@ -5,6 +5,12 @@ export declare class Architect {
     scheduleTarget(target: Target, overrides?: json.JsonObject, scheduleOptions?: ScheduleOptions): Promise<BuilderRun>;
 }
 
+export interface BuilderBudgetEvent extends BuilderEventBase {
+    readonly kind: BuilderEventKind.Budget;
+    readonly message: string;
+    readonly severity: string;
+}
+
 export interface BuilderContext {
     readonly analytics: analytics.Analytics;
     builder: BuilderInfo;
@@ -26,6 +32,28 @@ export interface BuilderContext {
     validateOptions<T extends json.JsonObject = json.JsonObject>(options: json.JsonObject, builderName: string): Promise<T>;
 }
 
+export interface BuilderErrorEvent extends BuilderEventBase {
+    readonly kind: BuilderEventKind.Error;
+    readonly message: string;
+    readonly stack?: string;
+}
+
+export declare type BuilderEvent = BuilderProgressEvent | BuilderLogEvent | BuilderResultEvent | BuilderBudgetEvent | BuilderErrorEvent;
+
+export interface BuilderEventBase {
+    readonly kind: BuilderEventKind;
+    readonly target?: string;
+    readonly timestamp: number;
+}
+
+export declare enum BuilderEventKind {
+    Progress = "progress",
+    Log = "log",
+    Result = "result",
+    Budget = "budget",
+    Error = "error"
+}
+
 export interface BuilderHandlerFn<A extends json.JsonObject> {
     (input: A, context: BuilderContext): BuilderOutputLike;
 }
@@ -38,12 +66,30 @@ export declare type BuilderInfo = json.JsonObject & {
 
 export declare type BuilderInput = json.JsonObject & RealBuilderInput;
 
+export interface BuilderLogEvent extends BuilderEventBase {
+    readonly kind: BuilderEventKind.Log;
+    readonly level: logging.LogLevel;
+    readonly logger: string;
+    readonly message: string;
+}
+
 export declare type BuilderOutput = json.JsonObject & RealBuilderOutput;
 
 export declare type BuilderOutputLike = AsyncIterable<BuilderOutput> | SubscribableOrPromise<BuilderOutput> | BuilderOutput;
 
 export declare type BuilderProgress = json.JsonObject & RealBuilderProgress & TypedBuilderProgress;
 
+export interface BuilderProgressEvent extends BuilderEventBase {
+    readonly builder: string;
+    readonly current?: number;
+    readonly error?: json.JsonValue;
+    readonly id: number;
+    readonly kind: BuilderEventKind.Progress;
+    readonly state: BuilderProgressState;
+    readonly status?: string;
+    readonly total?: number;
+}
+
 export declare type BuilderProgressReport = BuilderProgress & ({
     target?: Target;
     builder: BuilderInfo;
@@ -51,6 +97,13 @@ export declare type BuilderProgressReport = BuilderProgress & ({
 
 export declare type BuilderRegistry = experimental.jobs.Registry<json.JsonObject, BuilderInput, BuilderOutput>;
 
+export interface BuilderResultEvent extends BuilderEventBase {
+    readonly error?: string;
+    readonly kind: BuilderEventKind.Result;
+    readonly output: json.JsonObject;
+    readonly success: boolean;
+}
+
 export interface BuilderRun {
     id: number;
     info: BuilderInfo;
@@ -62,6 +115,14 @@ export interface BuilderRun {
 
 export declare function createBuilder<OptT extends json.JsonObject, OutT extends BuilderOutput = BuilderOutput>(fn: BuilderHandlerFn<OptT>): Builder<OptT>;
 
+export declare function createErrorEvent(error: unknown, target?: Target): BuilderErrorEvent;
+
+export declare function createLogEvent(entry: logging.LogEntry, target?: Target): BuilderLogEvent;
+
+export declare function createOutputEvents(output: BuilderOutput, target?: Target): BuilderEvent[];
+
+export declare function createProgressEvent(report: BuilderProgressReport): BuilderProgressEvent;
+
 export declare function fromAsyncIterable<T>(iterable: AsyncIterable<T>): Observable<T>;
 
 export declare function isBuilderOutput(obj: any): obj is BuilderOutput;
@@ -93,3 +154,7 @@ export declare type TypedBuilderProgress = ({
     current: number;
     total?: number;
 });
+
+export declare function writeEvent(event: BuilderEvent, output?: {
+    write(chunk: string): boolean;
+}): void;
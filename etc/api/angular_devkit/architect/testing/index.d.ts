@@ -4,14 +4,19 @@ export declare class TestingArchitectHost implements ArchitectHost {
     constructor(workspaceRoot?: string, currentDirectory?: string, _backendHost?: ArchitectHost | null);
     addBuilder(builderName: string, builder: Builder, description?: string, optionSchema?: json.schema.JsonSchema): void;
     addBuilderFromPackage(packageName: string): Promise<void>;
-    addTarget(target: Target, builderName: string, options?: json.JsonObject): void;
+    addTarget(target: Target, builderName: string, options?: json.JsonObject, dependsOn?: Target[]): void;
     getBuilderNameForTarget(target: Target): Promise<string | null>;
     getCurrentDirectory(): Promise<string>;
+    getDependenciesForTarget(target: Target): Promise<Target[]>;
+    getLastTargetHash(target: Target): Promise<string | null>;
     getOptionsForTarget(target: Target): Promise<json.JsonObject | null>;
     getProjectMetadata(target: Target | string): Promise<json.JsonObject | null>;
+    getTargetHash(target: Target, options: json.JsonObject): Promise<string | null>;
     getWorkspaceRoot(): Promise<string>;
     loadBuilder(info: BuilderInfo): Promise<Builder | null>;
     resolveBuilder(builderName: string): Promise<BuilderInfo | null>;
+    setLastTargetHash(target: Target, hash: string): Promise<void>;
+    setTargetInputs(target: Target, inputs: string | undefined): void;
 }
 
 export declare class TestProjectHost extends NodeJsSyncHost {
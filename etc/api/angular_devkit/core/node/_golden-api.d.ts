@@ -1,9 +1,21 @@
 export declare function createConsoleLogger(verbose?: boolean, stdout?: ProcessOutput, stderr?: ProcessOutput, colors?: Partial<Record<logging.LogLevel, (s: string) => string>>): logging.Logger;
 
+export declare function createStdioJobTransport(): JobTransport;
+
+export declare function createStreamJobTransport(readable: NodeJS.ReadableStream, writable: NodeJS.WritableStream): JobTransport;
+
+export declare function deserializeError({ name, message, stack }: RemoteJobMessageError['error']): Error;
+
 export declare function isDirectory(filePath: string): boolean;
 
 export declare function isFile(filePath: string): boolean;
 
+export interface JobTransport {
+    readonly messages: Observable<RemoteJobMessage>;
+    close(): void;
+    send(message: RemoteJobMessage): void;
+}
+
 export declare class NodeJsAsyncHost implements virtualFs.Host<fs.Stats> {
     get capabilities(): virtualFs.HostCapabilities;
     delete(path: Path): Observable<void>;
@@ -40,3 +52,81 @@ export declare class NodeModuleJobRegistry<MinimumArgumentValueT extends JsonVal
 export interface ProcessOutput {
     write(buffer: string | Buffer): boolean;
 }
+
+export declare type RemoteJobMessage = RemoteJobMessageDescribe | RemoteJobMessageSchedule | RemoteJobMessageInbound | RemoteJobMessageUnsubscribe | RemoteJobMessageDescription | RemoteJobMessageOutbound | RemoteJobMessageError | RemoteJobMessageComplete;
+
+export interface RemoteJobMessageBase {
+    readonly id: number;
+    readonly kind: RemoteJobMessageKind;
+}
+
+export interface RemoteJobMessageComplete extends RemoteJobMessageBase {
+    readonly kind: RemoteJobMessageKind.Complete;
+}
+
+export interface RemoteJobMessageDescribe extends RemoteJobMessageBase {
+    readonly kind: RemoteJobMessageKind.Describe;
+    readonly name: core_experimental.jobs.JobName;
+}
+
+export interface RemoteJobMessageDescription extends RemoteJobMessageBase {
+    readonly description: core_experimental.jobs.JobDescription | null;
+    readonly kind: RemoteJobMessageKind.Description;
+}
+
+export interface RemoteJobMessageError extends RemoteJobMessageBase {
+    readonly error: {
+        name: string;
+        message: string;
+        stack?: string;
+    };
+    readonly kind: RemoteJobMessageKind.Error;
+}
+
+export interface RemoteJobMessageInbound extends RemoteJobMessageBase {
+    readonly kind: RemoteJobMessageKind.Inbound;
+    readonly message: core_experimental.jobs.JobInboundMessage<JsonValue>;
+}
+
+export declare enum RemoteJobMessageKind {
+    Describe = "d",
+    Schedule = "s",
+    Inbound = "i",
+    Unsubscribe = "u",
+    Description = "dd",
+    Outbound = "o",
+    Error = "e",
+    Complete = "c"
+}
+
+export interface RemoteJobMessageOutbound extends RemoteJobMessageBase {
+    readonly kind: RemoteJobMessageKind.Outbound;
+    readonly message: core_experimental.jobs.JobOutboundMessage<JsonValue>;
+}
+
+export interface RemoteJobMessageSchedule extends RemoteJobMessageBase {
+    readonly argument: JsonValue;
+    readonly kind: RemoteJobMessageKind.Schedule;
+    readonly name: core_experimental.jobs.JobName;
+}
+
+export interface RemoteJobMessageUnsubscribe extends RemoteJobMessageBase {
+    readonly kind: RemoteJobMessageKind.Unsubscribe;
+}
+
+export declare class RemoteJobRegistry<MinimumArgumentValueT extends JsonValue = JsonValue, MinimumInputValueT extends JsonValue = JsonValue, MinimumOutputValueT extends JsonValue = JsonValue> implements core_experimental.jobs.Registry<MinimumArgumentValueT, MinimumInputValueT, MinimumOutputValueT> {
+    protected _transport: JobTransport;
+    constructor(_transport: JobTransport);
+    protected _createHandler<A extends JsonValue, I extends JsonValue, O extends JsonValue>(description: core_experimental.jobs.JobDescription): core_experimental.jobs.JobHandler<A, I, O>;
+    protected _describe(name: core_experimental.jobs.JobName): Observable<AnyJobHandler | null>;
+    protected _receive(id: number, name: core_experimental.jobs.JobName): Observable<RemoteJobMessage>;
+    get<A extends MinimumArgumentValueT, I extends MinimumInputValueT, O extends MinimumOutputValueT>(name: core_experimental.jobs.JobName): Observable<core_experimental.jobs.JobHandler<A, I, O> | null>;
+}
+
+export declare function serializeError(error: unknown): RemoteJobMessageError['error'];
+
+export declare function serveJobs(transport: JobTransport, registry: core_experimental.jobs.Registry, schemaRegistry?: schema.SchemaRegistry): Subscription;
+
+export declare function spawnJobWorker(modulePath: string, args?: string[]): JobTransport & {
+    readonly process: ChildProcess;
+};
@@ -978,6 +978,8 @@ export declare class SynchronousDelegateExpectedException extends BaseException
 export interface TargetDefinition {
     builder: string;
     configurations?: Record<string, Record<string, JsonValue | undefined> | undefined>;
+    dependsOn?: string[];
+    inputs?: string[];
     options?: Record<string, JsonValue | undefined>;
 }
 
@@ -1128,7 +1130,9 @@ export interface WorkspaceDefinition {
 }
 
 export declare enum WorkspaceFormat {
-    JSON = 0
+    JSON = 0,
+    JSONC = 1,
+    YAML = 2
 }
 
 export interface WorkspaceHost {
@@ -98,6 +98,8 @@ export declare class CollectionImpl<CollectionT extends object, SchematicT exten
     listSchematicNames(): string[];
 }
 
+export declare function colorizeUnifiedDiff(diff: string, colors: UnifiedDiffColors): string;
+
 export declare function composeFileOperators(operators: FileOperator[]): FileOperator;
 
 export declare class ContentHasMutatedException extends BaseException {
@@ -111,6 +113,8 @@ export interface CreateFileAction extends ActionBase {
     readonly kind: 'c';
 }
 
+export declare function createUnifiedDiff(path: string, original: string | undefined, modified: string | undefined, context?: number): string;
+
 export declare class DelegateTree implements Tree {
     protected _other: Tree;
     get actions(): Action[];
@@ -174,17 +178,20 @@ export interface DryRunRenameEvent {
 export declare class DryRunSink extends HostSink {
     protected _fileAlreadyExistExceptionSet: Set<string>;
     protected _fileDoesNotExistExceptionSet: Set<string>;
+    protected _originalContent: Map<Path, Buffer>;
     protected _subject: Subject<DryRunEvent>;
     readonly reporter: Observable<DryRunEvent>;
     constructor(host: virtualFs.Host, force?: boolean);
     _done(): Observable<void>;
     protected _fileAlreadyExistException(path: string): void;
     protected _fileDoesNotExistException(path: string): void;
+    protected _overwriteFile(path: Path, content: Buffer): Observable<void>;
 }
 
 export interface DryRunUpdateEvent {
     content: Buffer;
     kind: 'update';
+    original?: Buffer;
     path: string;
 }
 
@@ -468,6 +475,8 @@ export declare class SchematicImpl<CollectionT extends object, SchematicT extend
 export declare class SchematicsException extends BaseException {
 }
 
+export declare function serializeDryRunEvent(event: DryRunEvent): JsonObject;
+
 export declare abstract class SimpleSinkBase implements Sink {
     postCommit: () => void | Observable<void>;
     postCommitAction: (action: Action) => void | Observable<void>;
@@ -561,6 +570,12 @@ export interface TypedSchematicContext<CollectionMetadataT extends object, Schem
     addTask<T>(task: TaskConfigurationGenerator<T>, dependencies?: Array<TaskId>): TaskId;
 }
 
+export interface UnifiedDiffColors {
+    added(line: string): string;
+    hunk(line: string): string;
+    removed(line: string): string;
+}
+
 export declare class UnimplementedException extends BaseException {
     constructor();
 }
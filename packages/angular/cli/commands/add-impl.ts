@@ -15,6 +15,7 @@ import { Arguments } from '../models/interface';
 import { RunSchematicOptions, SchematicCommand } from '../models/schematic-command';
 import { colors } from '../utilities/color';
 import { installPackage, installTempPackage } from '../utilities/install-package';
+import { OfflineRegistry, startOfflineRegistry } from '../utilities/offline-registry';
 import { getPackageManager } from '../utilities/package-manager';
 import {
   NgAddSaveDepedency,
@@ -29,7 +30,14 @@ const npa = require('npm-package-arg');
 export class AddCommand extends SchematicCommand<AddCommandSchema> {
   readonly allowPrivateSchematics = true;
 
+  private offlineRegistry?: OfflineRegistry;
+
   async initialize(options: AddCommandSchema & Arguments) {
+    if (options.offlineSource) {
+      this.offlineRegistry = await startOfflineRegistry(options.offlineSource, this.logger);
+      options.registry = this.offlineRegistry.url;
+    }
+
     if (options.registry) {
       return super.initialize({ ...options, packageRegistry: options.registry });
     } else {
@@ -38,6 +46,17 @@ export class AddCommand extends SchematicCommand<AddCommandSchema> {
   }
 
   async run(options: AddCommandSchema & Arguments) {
+    try {
+      return await this.addPackage(options);
+    } finally {
+      if (this.offlineRegistry) {
+        this.offlineRegistry.restoreLockFiles(this.context.root, this.logger);
+        await this.offlineRegistry.close();
+      }
+    }
+  }
+
+  private async addPackage(options: AddCommandSchema & Arguments) {
     if (!options.collection) {
       this.logger.fatal(
         `The "ng add" command requires a name argument to be specified eg. ` +
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve } from 'path';
+import * as rimraf from 'rimraf';
+import { Command } from '../models/command';
+import { Arguments } from '../models/interface';
+import { Action, Schema as CacheCommandSchema } from './cache';
+
+/**
+ * Determines the location of the Angular compiler cache with the resolver of the
+ * `@angular-devkit/build-angular` package installed in the workspace, so the cleaned directory is
+ * the one used by the builds.
+ * @returns The location of the cache, `undefined` when caching is disabled, or `null` when the
+ * package is not installed.
+ */
+function findCompilerCachePath(root: string): string | undefined | null {
+  let cachePathModule;
+  let environmentOptionsModule;
+  try {
+    cachePathModule = require.resolve('@angular-devkit/build-angular/src/utils/cache-path', { paths: [root] });
+    environmentOptionsModule = require.resolve(
+      '@angular-devkit/build-angular/src/utils/environment-options',
+      { paths: [root] },
+    );
+  } catch {
+    return null;
+  }
+
+  const { cachingDisabled } = require(environmentOptionsModule) as { cachingDisabled: boolean };
+  if (cachingDisabled) {
+    return undefined;
+  }
+
+  const { findCachePath } = require(cachePathModule) as { findCachePath(name: string): string };
+
+  return findCachePath('angular-compiler');
+}
+
+export class CacheCommand extends Command<CacheCommandSchema> {
+  public async run(options: CacheCommandSchema & Arguments) {
+    // Positional enums are not validated by the parser
+    if (options.action !== Action.Clean) {
+      if (options['--']) {
+        this.logger.error(`Argument ${JSON.stringify(options['--'][0])} is invalid.`);
+        this.logger.error(`Please provide one of the following value: clean.`);
+
+        return 1;
+      }
+
+      await this.printHelp();
+
+      return 2;
+    }
+
+    let cachePath;
+    try {
+      cachePath = findCompilerCachePath(this.context.root);
+    } catch (e) {
+      // The build options are invalid, such as a relative "NG_BUILD_CACHE" path.
+      this.logger.error(e.message);
+
+      return 1;
+    }
+
+    if (cachePath === null) {
+      this.logger.info('The build cache is not used, as "@angular-devkit/build-angular" is not installed.');
+
+      return 0;
+    } else if (cachePath === undefined) {
+      this.logger.info('The build cache is disabled by the "NG_BUILD_CACHE" environment variable.');
+
+      return 0;
+    } else if (resolve(cachePath) === resolve(tmpdir())) {
+      // Without a writable "node_modules" directory, the cache entries are stored directly in the
+      // temporary directory of the system, which must not be removed.
+      this.logger.warn(
+        `The build cache is located in the temporary directory of the system '${cachePath}' ` +
+          'and cannot be removed separately.',
+      );
+
+      return 0;
+    }
+
+    if (!existsSync(cachePath)) {
+      this.logger.info('The build cache is empty.');
+
+      return 0;
+    }
+
+    rimraf.sync(cachePath);
+    this.logger.info(`Removed the build cache at '${cachePath}'.`);
+
+    return 0;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { NodeWorkflow } from '@angular-devkit/schematics/tools';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import * as path from 'path';
+import { Command } from '../models/command';
+import { Arguments } from '../models/interface';
+import { CompletionSources, getCompletions, splitCommandLine } from '../utilities/completion';
+import { getWorkspaceRaw } from '../utilities/config';
+import { getProjectDependencies } from '../utilities/package-tree';
+import { Schema as CompletionCommandSchema, Shell } from './completion';
+import { ConfigCommand } from './config-impl';
+
+// Bash splits the words on colons and equal signs, so the candidates are reduced to the part of
+// the word which follows the last of them.
+const bashScript = `
+###-begin-ng-completion-###
+_ng_completion() {
+  local IFS=$'\\n'
+  local line="\${COMP_LINE:0:COMP_POINT}"
+  local word="\${line##*[[:space:]]}"
+  local prefix="\${word%"\${word##*[:=]}"}"
+  local candidates=($(COMP_LINE="$line" ng completion --query 2>/dev/null))
+  COMPREPLY=("\${candidates[@]#"$prefix"}")
+}
+complete -o default -F _ng_completion ng
+###-end-ng-completion-###
+`;
+
+const zshScript = `
+###-begin-ng-completion-###
+if ! (( $+functions[compdef] )); then
+  autoload -Uz compinit && compinit
+fi
+
+_ng_completion() {
+  local -a candidates
+  candidates=("\${(@f)$(COMP_LINE="\${words[1,CURRENT]}" ng completion --query 2>/dev/null)}")
+  compadd -- \${candidates:#}
+}
+compdef _ng_completion ng
+###-end-ng-completion-###
+`;
+
+const fishScript = `
+###-begin-ng-completion-###
+function __ng_completion
+  set -lx COMP_LINE (commandline -cp)
+  ng completion --query 2>/dev/null
+end
+complete -c ng -f -a '(__ng_completion)'
+###-end-ng-completion-###
+`;
+
+const shells: Record<Shell, { script: string; rcFile: () => string; loadLine: string }> = {
+  [Shell.Bash]: {
+    script: bashScript,
+    rcFile: () => path.join(homedir(), '.bashrc'),
+    loadLine: 'source <(ng completion bash --print)',
+  },
+  [Shell.Zsh]: {
+    script: zshScript,
+    rcFile: () => path.join(process.env['ZDOTDIR'] || homedir(), '.zshrc'),
+    loadLine: 'source <(ng completion zsh --print)',
+  },
+  [Shell.Fish]: {
+    script: fishScript,
+    rcFile: () => path.join(process.env['XDG_CONFIG_HOME'] || path.join(homedir(), '.config'), 'fish', 'config.fish'),
+    loadLine: 'ng completion fish --print | source',
+  },
+};
+
+/**
+ * List the names of the dependencies of a workspace which provide schematics.
+ */
+async function findSchematicPackages(root: string): Promise<string[]> {
+  try {
+    const dependencies = await getProjectDependencies(root);
+
+    return [...dependencies.values()].filter(node => node.package?.schematics).map(node => node.name);
+  } catch {
+    return [];
+  }
+}
+
+export class CompletionCommand extends Command<CompletionCommandSchema> {
+  public async run(options: CompletionCommandSchema & Arguments) {
+    if (options.query) {
+      return this.query();
+    }
+
+    const shell = options.shell || path.basename(process.env['SHELL'] || '');
+    if (!(Object.values(Shell) as string[]).includes(shell)) {
+      // Positional enums are not validated by the parser
+      this.logger.error(
+        options.shell
+          ? `Shell ${JSON.stringify(shell)} is not supported. Please provide one of the following value: bash, zsh, fish.`
+          : 'Could not determine the shell. Please provide one of the following value: bash, zsh, fish.',
+      );
+
+      return 1;
+    }
+
+    const { script, rcFile, loadLine } = shells[shell as Shell];
+    if (options.print) {
+      this.logger.info(script.trim());
+
+      return 0;
+    }
+
+    const rcPath = rcFile();
+    const rcContent = existsSync(rcPath) ? readFileSync(rcPath, 'utf-8') : '';
+    if (rcContent.includes(loadLine)) {
+      this.logger.info(`Completion is already installed in "${rcPath}".`);
+
+      return 0;
+    }
+
+    try {
+      mkdirSync(path.dirname(rcPath), { recursive: true });
+      const separator = rcContent === '' ? '' : rcContent.endsWith('\n') ? '\n' : '\n\n';
+      writeFileSync(rcPath, `${separator}# Load Angular CLI autocompletion.\n${loadLine}\n`, { flag: 'a' });
+    } catch (e) {
+      this.logger.error(`Could not install completion in "${rcPath}": ${e.message}`);
+
+      return 1;
+    }
+
+    this.logger.info(`Completion was installed in "${rcPath}".`);
+    this.logger.info('Restart your terminal or run the following command to enable it in the current shell:');
+    this.logger.info(`    ${loadLine}`);
+
+    return 0;
+  }
+
+  private async query() {
+    const line = process.env['COMP_LINE'];
+    if (line === undefined) {
+      this.logger.error('The "--query" option requires the "COMP_LINE" environment variable.');
+
+      return 1;
+    }
+
+    const commands = await Command.commandMap();
+    // The first word is the binary.
+    const words = splitCommandLine(line).slice(1);
+
+    for (const candidate of await getCompletions(words, commands, this.createSources())) {
+      this.logger.info(candidate);
+    }
+
+    return 0;
+  }
+
+  private createSources(): CompletionSources {
+    const workspace = this.workspace;
+
+    return {
+      projects: async () => workspace ? [...workspace.projects.keys()] : [],
+      targets: async () => {
+        const targets: string[] = [];
+        for (const [projectName, project] of workspace ? workspace.projects : []) {
+          targets.push(...[...project.targets.keys()].map(target => `${projectName}:${target}`));
+        }
+
+        return targets;
+      },
+      schematics: async () => this.listSchematics(),
+      configKeys: async partial => {
+        const commands = await Command.commandMap();
+        const configCommand = new ConfigCommand(this.context, commands['config'], this.logger);
+
+        return configCommand.getCompletions(getWorkspaceRaw('local')[0], partial);
+      },
+    };
+  }
+
+  private async listSchematics(): Promise<string[]> {
+    const root = this.context.root;
+    const workflow = new NodeWorkflow(root, { resolvePaths: [process.cwd(), root, __dirname] });
+
+    const defaultCollection = this.getDefaultCollection();
+    const collectionNames = new Set([defaultCollection, ...(await findSchematicPackages(root))]);
+
+    const schematics: string[] = [];
+    for (const collectionName of collectionNames) {
+      try {
+        const collection = workflow.engine.createCollection(collectionName);
+        for (const name of collection.listSchematicNames()) {
+          schematics.push(collectionName === defaultCollection ? name : `${collectionName}:${name}`);
+        }
+      } catch {
+        // Packages can declare schematics which cannot be loaded.
+      }
+    }
+
+    return schematics;
+  }
+
+  private getDefaultCollection(): string {
+    for (const level of ['local', 'global'] as const) {
+      const [config] = getWorkspaceRaw(level);
+      const value = config?.get(['cli', 'defaultCollection']);
+      if (typeof value === 'string') {
+        return value;
+      }
+    }
+
+    return '@schematics/angular';
+  }
+}
@@ -6,7 +6,8 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { JsonValue, tags } from '@angular-devkit/core';
+import { WorkspaceNodeModulesArchitectHost } from '@angular-devkit/architect/node';
+import { JsonValue, json, tags } from '@angular-devkit/core';
 import { v4 as uuidV4 } from 'uuid';
 import { Command } from '../models/command';
 import { Arguments, CommandScope } from '../models/interface';
@@ -14,8 +15,10 @@ import {
   getWorkspaceRaw,
   migrateLegacyGlobalConfig,
   validateWorkspace,
+  workspaceSchemaPath,
 } from '../utilities/config';
-import { JSONFile, parseJson } from '../utilities/json-file';
+import { JSONFile, parseJson, readAndParseJson } from '../utilities/json-file';
+import { getSchemaKeys, getSchemaTypes } from '../utilities/schema-keys';
 import { Schema as ConfigCommandSchema } from './config';
 
 const validCliPaths = new Map<string, ((arg: string | number | boolean | undefined) => string) | undefined>([
@@ -55,7 +58,7 @@ function parseJsonPath(path: string): (string | number)[] {
       const indices = match[2]
         .slice(1, -1)
         .split('][')
-        .map(x => (/^\d$/.test(x) ? +x : x.replace(/\"|\'/g, '')));
+        .map(x => (/^\d+$/.test(x) ? +x : x.replace(/\"|\'/g, '')));
       result.push(...indices);
     }
   }
@@ -71,15 +74,69 @@ function normalizeValue(value: string | undefined | boolean | number): JsonValue
     return false;
   } else if (isFinite(+valueString)) {
     return +valueString;
+  } else if (valueString.startsWith('{') || valueString.startsWith('[')) {
+    // Objects and arrays, such as asset patterns.
+    try {
+      return JSON.parse(valueString);
+    } catch {}
   }
 
   return value || undefined;
 }
 
+interface TargetPath {
+  project: string;
+  /** The name of the targets property of the project, either `architect` or `targets`. */
+  targets: string;
+  target: string;
+  /** The configuration, when the path is in the `configurations` of the target. */
+  configuration?: string;
+  /** The path in the options, when the path is in the `options` or a configuration of the target. */
+  optionsPath?: (string | number)[];
+}
+
+/**
+ * Find the target of a JSON path in the workspace file, such as
+ * `projects.app.architect.build.options.styles`.
+ */
+function getTargetPath(jsonPath: (string | number)[]): TargetPath | undefined {
+  const [projects, project, targets, target, section, ...rest] = jsonPath;
+  if (
+    projects !== 'projects' ||
+    typeof project !== 'string' ||
+    (targets !== 'architect' && targets !== 'targets') ||
+    typeof target !== 'string'
+  ) {
+    return undefined;
+  }
+
+  if (section === 'options') {
+    return { project, targets, target, optionsPath: rest };
+  } else if (section === 'configurations' && typeof rest[0] === 'string') {
+    return { project, targets, target, configuration: rest[0], optionsPath: rest.slice(1) };
+  }
+
+  return { project, targets, target };
+}
+
+function getObject(value: unknown, ...jsonPath: (string | number)[]): json.JsonObject | undefined {
+  let current = value as JsonValue | undefined;
+  for (const fragment of jsonPath) {
+    current = current && typeof current === 'object' ? (current as json.JsonObject)[fragment] : undefined;
+  }
+
+  return current !== undefined && json.isJsonObject(current) ? current : undefined;
+}
+
 export class ConfigCommand extends Command<ConfigCommandSchema> {
   public async run(options: ConfigCommandSchema & Arguments) {
     const level = options.global ? 'global' : 'local';
 
+    if (options.complete) {
+      // Completion lists the keys of the workspace schema outside of workspaces too.
+      return this.complete(getWorkspaceRaw(level)[0], options);
+    }
+
     if (!options.global) {
       await this.validateScope(CommandScope.InProject);
     }
@@ -97,7 +154,27 @@ export class ConfigCommand extends Command<ConfigCommandSchema> {
       } catch { }
     }
 
-    if (options.value == undefined) {
+    if ([options.delete, options.push, options.insert].filter(Boolean).length > 1) {
+      this.logger.error('Only one of the "--delete", "--push" and "--insert" options can be used.');
+
+      return 1;
+    }
+
+    if (options.delete) {
+      if (options.value != undefined) {
+        this.logger.error('A value cannot be used with the "--delete" option.');
+
+        return 1;
+      }
+
+      return this.set(options);
+    } else if (options.value == undefined) {
+      if (options.push || options.insert) {
+        this.logger.error('A value is required with the "--push" and "--insert" options.');
+
+        return 1;
+      }
+
       if (!config) {
         this.logger.error('No config found.');
 
@@ -152,8 +229,50 @@ export class ConfigCommand extends Command<ConfigCommandSchema> {
     }
 
     const jsonPath = parseJsonPath(options.jsonPath);
-    const value = validCliPaths.get(options.jsonPath)?.(options.value) ?? options.value;
-    const modified = config.modify(jsonPath, normalizeValue(value));
+    let modified: boolean;
+
+    if (options.delete) {
+      modified = config.modify(jsonPath, undefined);
+    } else {
+      const rawValue = validCliPaths.get(options.jsonPath)?.(options.value) ?? options.value;
+      const value = await this.coerceValue(
+        config,
+        options.push ? [...jsonPath, 0] : jsonPath,
+        normalizeValue(rawValue),
+      );
+      if (value === undefined && (options.push || options.insert)) {
+        this.logger.error('A value is required with the "--push" and "--insert" options.');
+
+        return 1;
+      }
+
+      if (value === undefined) {
+        // Empty values remove the key.
+        modified = config.modify(jsonPath, undefined);
+      } else if (options.push) {
+        const array = config.get(jsonPath);
+        if (array !== undefined && !Array.isArray(array)) {
+          this.logger.error('Value cannot be pushed as the configuration key is not an array.');
+
+          return 1;
+        }
+
+        modified = array === undefined
+          ? config.modify(jsonPath, [value])
+          : config.insert([...jsonPath, array.length], value);
+      } else if (options.insert) {
+        modified = config.insert(jsonPath, value);
+        if (!modified) {
+          this.logger.error(
+            'Value cannot be inserted. The configuration key must be an index of an array, such as "styles[0]".',
+          );
+
+          return 1;
+        }
+      } else {
+        modified = config.modify(jsonPath, value);
+      }
+    }
 
     if (!modified) {
       this.logger.error('Value cannot be found.');
@@ -162,7 +281,11 @@ export class ConfigCommand extends Command<ConfigCommandSchema> {
     }
 
     try {
-      await validateWorkspace(parseJson(config.content));
+      const content = parseJson(config.content);
+      await validateWorkspace(content);
+      if (!options.global) {
+        await this.validateTarget(content, jsonPath);
+      }
     } catch (error) {
       this.logger.fatal(error.message);
 
@@ -173,4 +296,147 @@ export class ConfigCommand extends Command<ConfigCommandSchema> {
 
     return 0;
   }
+
+  /**
+   * Keep values as strings when the schema only allows strings, as the values given on the
+   * command line are converted to numbers and booleans when possible.
+   */
+  private async coerceValue(
+    config: JSONFile,
+    jsonPath: (string | number)[],
+    value: JsonValue | undefined,
+  ): Promise<JsonValue | undefined> {
+    if (value === undefined || typeof value === 'string' || typeof value === 'object') {
+      return value;
+    }
+
+    const types = await this.getValueTypes(config, jsonPath);
+    if (types.length > 0 && types.every(type => type === 'string')) {
+      return `${value}`;
+    }
+
+    return value;
+  }
+
+  private async getValueTypes(config: JSONFile, jsonPath: (string | number)[]): Promise<string[]> {
+    const targetPath = getTargetPath(jsonPath);
+    if (targetPath?.optionsPath) {
+      const schema = await this.getTargetSchema(config.get([]), targetPath);
+
+      return schema ? getSchemaTypes(schema, targetPath.optionsPath) : [];
+    }
+
+    return getSchemaTypes(readAndParseJson(workspaceSchemaPath), jsonPath);
+  }
+
+  /**
+   * Get the options schema of the builder of a target, undefined when the builder is not
+   * installed.
+   */
+  private async getTargetSchema(
+    content: unknown,
+    { project, targets, target }: TargetPath,
+  ): Promise<json.JsonObject | undefined> {
+    const builder = getObject(content, 'projects', project, targets, target)?.builder;
+    if (!this.workspace || typeof builder !== 'string') {
+      return undefined;
+    }
+
+    try {
+      const host = new WorkspaceNodeModulesArchitectHost(this.workspace, this.workspace.basePath);
+      const { optionSchema } = await host.resolveBuilder(builder);
+
+      return json.isJsonObject(optionSchema) ? optionSchema : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Validate the options of the target of a modified JSON path against the schema of its builder.
+   * Each configuration is validated merged with the options, as when running the target.
+   */
+  private async validateTarget(content: json.JsonObject, jsonPath: (string | number)[]): Promise<void> {
+    const targetPath = getTargetPath(jsonPath);
+    if (!targetPath) {
+      return;
+    }
+
+    const { project, targets, target, configuration } = targetPath;
+    const targetDefinition = getObject(content, 'projects', project, targets, target);
+    const schema = await this.getTargetSchema(content, targetPath);
+    if (!targetDefinition || !schema) {
+      return;
+    }
+
+    const options = getObject(targetDefinition, 'options') || {};
+    const configurations = getObject(targetDefinition, 'configurations') || {};
+    const configurationNames = configuration !== undefined ? [configuration] : Object.keys(configurations);
+
+    const values = configuration !== undefined ? [] : [options];
+    for (const name of configurationNames) {
+      values.push({ ...options, ...getObject(configurations, name) });
+    }
+
+    const { formats } = await import('@angular-devkit/schematics');
+    const registry = new json.schema.CoreSchemaRegistry(formats.standardFormats);
+    const validator = await registry.compile(schema).toPromise();
+
+    for (const value of values) {
+      const { success, errors } = await validator(value).toPromise();
+      if (!success) {
+        throw new json.schema.SchemaValidationException(
+          errors,
+          `Options of target "${project}:${target}" do not match the schema of its builder:`,
+        );
+      }
+    }
+  }
+
+  /**
+   * List the keys of the workspace and the options of the builders which start with a key.
+   */
+  private async complete(config: JSONFile | null, options: ConfigCommandSchema) {
+    for (const key of await this.getCompletions(config, options.jsonPath || '')) {
+      this.logger.info(key);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Get the keys of the workspace and the options of the builders which start with a partial
+   * JSON path, such as `projects.app.archi`.
+   */
+  async getCompletions(config: JSONFile | null, partial: string): Promise<string[]> {
+    const separator = partial.lastIndexOf('.');
+    const parent = separator === -1 ? '' : partial.slice(0, separator);
+    const prefix = partial.slice(separator + 1);
+
+    let parentPath: (string | number)[];
+    try {
+      parentPath = parent ? parseJsonPath(parent) : [];
+    } catch {
+      return [];
+    }
+
+    const keys = new Set<string>();
+    const content = config?.get([]);
+    Object.keys(getObject(content, ...parentPath) || {}).forEach(key => keys.add(key));
+
+    const targetPath = getTargetPath(parentPath);
+    if (targetPath?.optionsPath) {
+      const schema = await this.getTargetSchema(content, targetPath);
+      if (schema) {
+        getSchemaKeys(schema, targetPath.optionsPath).forEach(key => keys.add(key));
+      }
+    } else {
+      getSchemaKeys(readAndParseJson(workspaceSchemaPath), parentPath).forEach(key => keys.add(key));
+    }
+
+    return [...keys]
+      .filter(key => key.startsWith(prefix))
+      .sort()
+      .map(key => parent ? `${parent}.${key}` : key);
+  }
 }
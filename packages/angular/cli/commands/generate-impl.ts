@@ -70,6 +70,7 @@ export class GenerateCommand extends SchematicCommand<GenerateCommandSchema> {
       schematicOptions: options['--'] || [],
       debug: !!options.debug || false,
       dryRun: !!options.dryRun || false,
+      dryRunFormat: options.dryRunFormat,
       force: !!options.force || false,
     });
   }
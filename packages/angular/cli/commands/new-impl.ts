@@ -33,6 +33,7 @@ export class NewCommand extends SchematicCommand<NewCommandSchema> {
       schematicOptions: options['--'] || [],
       debug: !!options.debug,
       dryRun: !!options.dryRun,
+      dryRunFormat: options.dryRunFormat,
       force: !!options.force,
     });
   }
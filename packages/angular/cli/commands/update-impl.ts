@@ -15,9 +15,11 @@ import { PackageManager } from '../lib/config/schema';
 import { Command } from '../models/command';
 import { Arguments } from '../models/interface';
 import { colors } from '../utilities/color';
+import { FileSnapshot } from '../utilities/file-snapshot';
 import { runTempPackageBin } from '../utilities/install-package';
 import { writeErrorToLogFile } from '../utilities/log-file';
-import { getPackageManager } from '../utilities/package-manager';
+import { OfflineRegistry, startOfflineRegistry } from '../utilities/offline-registry';
+import { getPackageManager, isYarnBerry } from '../utilities/package-manager';
 import {
   PackageIdentifier,
   PackageManifest,
@@ -56,17 +58,32 @@ const disableVersionCheck =
   disableVersionCheckEnv !== '0' &&
   disableVersionCheckEnv.toLowerCase() !== 'false';
 
+interface MigrationResult {
+  package: string;
+  name: string;
+  status: 'completed' | 'failed' | 'skipped';
+}
+
 export class UpdateCommand extends Command<UpdateCommandSchema> {
   public readonly allowMissingWorkspace = true;
   private workflow!: NodeWorkflow;
   private packageManager = PackageManager.Npm;
+  private offlineRegistry?: OfflineRegistry;
+  /** The original content of the files changed by the migrations, to revert them on failure. */
+  private migrationSnapshot = new FileSnapshot(this.context.root);
+  private migrationResults: MigrationResult[] = [];
 
-  async initialize() {
+  async initialize(options: UpdateCommandSchema & Arguments) {
     this.packageManager = await getPackageManager(this.context.root);
+    if (options.offlineSource) {
+      this.offlineRegistry = await startOfflineRegistry(options.offlineSource, this.logger);
+    }
+
     this.workflow = new NodeWorkflow(
       this.context.root,
       {
         packageManager: this.packageManager,
+        packageRegistry: this.offlineRegistry?.url,
         // __dirname -> favor @schematics/update from this package
         // Otherwise, use packages from the active workspace (migrations)
         resolvePaths: [__dirname, this.context.root],
@@ -79,6 +96,7 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
     collection: string,
     schematic: string,
     options = {},
+    snapshot?: FileSnapshot,
   ): Promise<{ success: boolean; files: Set<string> }> {
     let error = false;
     let logs: string[] = [];
@@ -88,6 +106,11 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
       // Strip leading slash to prevent confusion.
       const eventPath = event.path.startsWith('/') ? event.path.substr(1) : event.path;
 
+      // Events are reported before the changes are written to disk.
+      if (event.kind !== 'error') {
+        snapshot?.record(eventPath);
+      }
+
       switch (event.kind) {
         case 'error':
           error = true;
@@ -110,6 +133,7 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
           const eventToPath = event.to.startsWith('/') ? event.to.substr(1) : event.to;
           logs.push(`${colors.blue('RENAME')} ${eventPath} => ${eventToPath}`);
           files.add(eventPath);
+          snapshot?.record(eventToPath);
           break;
       }
     });
@@ -225,7 +249,22 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
     packageName: string,
     commit = false,
   ): Promise<boolean> {
-    for (const migration of migrations) {
+    const pending = [...migrations];
+    const skip = () => {
+      for (const { name } of pending) {
+        this.migrationResults.push({ package: packageName, name, status: 'skipped' });
+      }
+
+      return false;
+    };
+
+    // The migrations following a failed migration are not executed, as they could depend on it.
+    if (this.migrationResults.some(result => result.status === 'failed')) {
+      return skip();
+    }
+
+    while (pending.length) {
+      const migration = pending.shift() as typeof pending[0];
       const [title, ...description] = migration.description.split('. ');
 
       this.logger.info(
@@ -237,11 +276,19 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
         this.logger.info('  ' + description.join('.\n  '));
       }
 
-      const result = await this.executeSchematic(migration.collection.name, migration.name);
+      const result = await this.executeSchematic(
+        migration.collection.name,
+        migration.name,
+        {},
+        this.migrationSnapshot,
+      );
       if (!result.success) {
-        return false;
+        this.migrationResults.push({ package: packageName, name: migration.name, status: 'failed' });
+
+        return skip();
       }
 
+      this.migrationResults.push({ package: packageName, name: migration.name, status: 'completed' });
       this.logger.info('  Migration completed.');
 
       // Commit migration
@@ -253,8 +300,13 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
         const committed = this.commit(commitMessage);
         if (!committed) {
           // Failed to commit, something went wrong. Abort the update.
-          return false;
+          this.migrationResults[this.migrationResults.length - 1].status = 'failed';
+
+          return skip();
         }
+
+        // The committed changes can be reverted with Git.
+        this.migrationSnapshot.clear();
       }
 
       this.logger.info(''); // Extra trailing newline.
@@ -263,8 +315,58 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
     return true;
   }
 
-  // tslint:disable-next-line:no-big-function
+  /**
+   * Revert the changes of the migrations when one of them failed, so the workspace is not left
+   * partially migrated, and report the result of each migration.
+   * @return Whether or not all the migrations were performed successfully.
+   */
+  private completeMigrations(): boolean {
+    const results = this.migrationResults;
+    this.migrationResults = [];
+    if (results.length === 0) {
+      return true;
+    }
+
+    const success = results.every(result => result.status === 'completed');
+    if (!success) {
+      // Committed migrations were cleared from the snapshot and are kept.
+      const files = this.migrationSnapshot.restore();
+      if (files.length) {
+        this.logger.error(
+          `Reverted the changes of the migrations to ${files.length} file(s) as a migration failed.`,
+        );
+      }
+    } else {
+      this.migrationSnapshot.clear();
+    }
+
+    const symbols: Record<MigrationResult['status'], string> = {
+      completed: colors.green(colors.symbols.check),
+      failed: colors.red(colors.symbols.cross),
+      skipped: colors.yellow('-'),
+    };
+    this.logger.info('Migrations:');
+    for (const result of results) {
+      this.logger.info(`  ${symbols[result.status]} ${result.package}: ${result.name} (${result.status})`);
+    }
+    this.logger.info(''); // Extra trailing newline.
+
+    return success;
+  }
+
   async run(options: UpdateCommandSchema & Arguments) {
+    try {
+      return await this.update(options);
+    } finally {
+      if (this.offlineRegistry) {
+        this.offlineRegistry.restoreLockFiles(this.context.root, this.logger);
+        await this.offlineRegistry.close();
+      }
+    }
+  }
+
+  // tslint:disable-next-line:no-big-function
+  private async update(options: UpdateCommandSchema & Arguments) {
     // Check if the @angular-devkit/schematics package can be resolved from the workspace root
     // This works around issues with packages containing migrations that cannot directly depend on the package
     // This check can be removed once the schematic runtime handles this situation
@@ -288,7 +390,12 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
     }
 
     // Check if the current installed CLI version is older than the latest version.
-    if (!disableVersionCheck && await this.checkCLILatestVersion(options.verbose, options.next)) {
+    // The temporary installation of the latest version would need the network.
+    if (
+      !disableVersionCheck &&
+      !this.offlineRegistry &&
+      await this.checkCLILatestVersion(options.verbose, options.next)
+    ) {
       this.logger.warn(
         `The installed local Angular CLI version is older than the latest ${options.next ? 'pre-release' : 'stable'} version.\n` +
         'Installing a temporary version to perform the update.',
@@ -303,9 +410,12 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
     }
 
     if (options.all) {
-      const updateCmd = this.packageManager === PackageManager.Yarn
-        ? `'yarn upgrade-interactive' or 'yarn upgrade'`
-        : `'${this.packageManager} update'`;
+      let updateCmd = `'${this.packageManager} update'`;
+      if (this.packageManager === PackageManager.Yarn) {
+        updateCmd = isYarnBerry(this.context.root)
+          ? `'yarn upgrade-interactive' or 'yarn up'`
+          : `'yarn upgrade-interactive' or 'yarn upgrade'`;
+      }
 
       this.logger.warn(`
         '--all' functionality has been removed as updating multiple packages at once is not recommended.
@@ -402,6 +512,7 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
         verbose: options.verbose || false,
         packageManager: this.packageManager,
         packages: [],
+        registry: this.offlineRegistry?.url,
       });
 
       return success ? 0 : 1;
@@ -527,6 +638,7 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
         );
       }
 
+      success = this.completeMigrations() && success;
       if (success) {
         if (
           packageName === '@angular/core'
@@ -582,6 +694,7 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
         // does not result in additional network traffic
         metadata = await fetchPackageMetadata(packageName, this.logger, {
           verbose: options.verbose,
+          registry: this.offlineRegistry?.url,
         });
       } catch (e) {
         this.logger.error(`Error fetching metadata for '${packageName}': ` + e.message);
@@ -649,6 +762,7 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
       packageManager: this.packageManager,
       packages: packagesToUpdate,
       migrateExternal: true,
+      registry: this.offlineRegistry?.url,
     });
 
     if (success && options.createCommits) {
@@ -670,7 +784,8 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
 
     if (success && migrations) {
       for (const migration of migrations) {
-        const result = await this.executeMigrations(
+        // The migrations of the remaining packages are reported as skipped after a failure.
+        await this.executeMigrations(
           migration.package,
           // Resolve the collection from the workspace root, as otherwise it will be resolved from the temp
           // installed CLI version.
@@ -678,10 +793,10 @@ export class UpdateCommand extends Command<UpdateCommandSchema> {
           new semver.Range('>' + migration.from + ' <=' + migration.to),
           options.createCommits,
         );
+      }
 
-        if (!result) {
-          return 0;
-        }
+      if (!this.completeMigrations()) {
+        return 1;
       }
 
       if (migrations.some(m => m.package === '@angular/core' && m.to.split('.')[0] === '9' && +m.from.split('.')[0] < 9)) {
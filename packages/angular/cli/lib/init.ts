@@ -14,6 +14,7 @@ import { SemVer } from 'semver';
 import { Duplex } from 'stream';
 import { colors } from '../utilities/color';
 import { isWarningEnabled } from '../utilities/config';
+import { findPnpFile, isPnpEnabled } from '../utilities/package-manager';
 
 // Check if we need to profile this CLI run.
 if (process.env['NG_CLI_PROFILING']) {
@@ -60,6 +61,14 @@ if (process.env['NG_CLI_PROFILING']) {
    */
   process.env.BROWSERSLIST_IGNORE_OLD_DATA = '1';
 
+  // Yarn Plug'n'Play projects do not have a `node_modules` directory. Their packages, such as
+  // the local CLI, builders and schematics, are only resolvable once the runtime of the project
+  // is set up; which is already the case when using `yarn ng`.
+  const pnpFile = findPnpFile(process.cwd());
+  if (pnpFile && !isPnpEnabled()) {
+    require(pnpFile).setup();
+  }
+
   const disableVersionCheckEnv = process.env['NG_DISABLE_VERSION_CHECK'];
   /**
    * Disable CLI version mismatch checks and forces usage of the invoked CLI
@@ -5,9 +5,18 @@
  * Use of this source code is governed by an MIT-style license that can be
  * found in the LICENSE file at https://angular.io/license
  */
-import { Architect, Target } from '@angular-devkit/architect';
+import {
+  Architect,
+  Target,
+  createErrorEvent,
+  createLogEvent,
+  createOutputEvents,
+  createProgressEvent,
+  writeEvent,
+} from '@angular-devkit/architect';
 import { WorkspaceNodeModulesArchitectHost } from '@angular-devkit/architect/node';
-import { json, schema, tags } from '@angular-devkit/core';
+import { json, logging, schema, tags } from '@angular-devkit/core';
+import { findAffectedProjects, getChangedFiles } from '../utilities/affected-projects';
 import { parseJsonSchemaToOptions } from '../utilities/json-schema';
 import { isPackageNameSafeForAnalytics } from './analytics';
 import { BaseCommandOptions, Command } from './command';
@@ -19,6 +28,8 @@ export interface ArchitectCommandOptions extends BaseCommandOptions {
   configuration?: string;
   prod?: boolean;
   target?: string;
+  affected?: string;
+  json?: boolean;
 }
 
 export abstract class ArchitectCommand<
@@ -35,6 +46,9 @@ export abstract class ArchitectCommand<
   target: string | undefined;
   missingTargetError: string | undefined;
 
+  // The logger used when the command outputs JSON events instead of text.
+  private eventLogger: logging.Logger | undefined;
+
   public async initialize(options: T & Arguments): Promise<void> {
     await super.initialize(options);
 
@@ -68,6 +82,13 @@ export abstract class ArchitectCommand<
       throw new Error(`Project '${projectName}' does not exist.`);
     }
 
+    if (projectName && options.affected !== undefined) {
+      throw new Error(`The 'affected' option cannot be used when a project name is specified.`);
+    }
+
+    // Affected projects are only known when running, all candidates are handled as multiple targets
+    const multiTarget = this.multiTarget || options.affected !== undefined;
+
     const commandLeftovers = options['--'];
     const targetProjectNames: string[] = [];
     for (const [name, project] of this.workspace.projects) {
@@ -95,7 +116,7 @@ export abstract class ArchitectCommand<
           target: this.target,
         });
 
-        if (this.multiTarget) {
+        if (multiTarget) {
           builderNames.add(builderName);
         }
 
@@ -140,7 +161,7 @@ export abstract class ArchitectCommand<
         }
       }
 
-      if (!projectName && this.multiTarget && builderNames.size > 1) {
+      if (!projectName && multiTarget && builderNames.size > 1) {
         throw new Error(tags.oneLine`
           Architect commands with command line overrides cannot target different builders. The
           '${this.target}' target would run on projects ${targetProjectNames.join()} which have the
@@ -149,7 +170,7 @@ export abstract class ArchitectCommand<
       }
     }
 
-    if (!projectName && !this.multiTarget) {
+    if (!projectName && !multiTarget) {
       const defaultProjectName = this.workspace.extensions['defaultProject'] as string;
       if (targetProjectNames.length === 1) {
         projectName = targetProjectNames[0];
@@ -194,6 +215,7 @@ export abstract class ArchitectCommand<
     target: Target,
     targetOptions: string[],
   ) {
+    const eventLogger = this.eventLogger;
     // We need to build the builderSpec twice because architect does not understand
     // overrides separately (getting the configuration builds the whole project, including
     // overrides).
@@ -203,14 +225,14 @@ export abstract class ArchitectCommand<
       this._registry,
       builderDesc.optionSchema as json.JsonObject,
     );
-    const overrides = parseArguments(targetOptions, targetOptionArray, this.logger);
+    const overrides = parseArguments(targetOptions, targetOptionArray, eventLogger || this.logger);
 
     const allowAdditionalProperties =
       typeof builderDesc.optionSchema === 'object' && builderDesc.optionSchema.additionalProperties;
 
     if (overrides['--'] && !allowAdditionalProperties) {
       (overrides['--'] || []).forEach(additional => {
-        this.logger.fatal(`Unknown option: '${additional.split(/=/)[0]}'`);
+        (eventLogger || this.logger).fatal(`Unknown option: '${additional.split(/=/)[0]}'`);
       });
 
       return 1;
@@ -221,15 +243,26 @@ export abstract class ArchitectCommand<
       ...overrides,
     });
 
+    let logger = this.logger;
+    if (eventLogger) {
+      logger = new logging.Logger(builderConf);
+      logger.subscribe(entry => writeEvent(createLogEvent(entry, target)));
+    }
+
     const run = await this._architect.scheduleTarget(target, overrides as json.JsonObject, {
-      logger: this.logger,
+      logger,
       analytics: isPackageNameSafeForAnalytics(builderConf) ? this.analytics : undefined,
     });
 
+    if (eventLogger) {
+      run.progress.subscribe(report => writeEvent(createProgressEvent(report)));
+      run.output.subscribe(output => createOutputEvents(output, target).forEach(event => writeEvent(event)));
+    }
+
     const { error, success } = await run.output.toPromise();
     await run.stop();
 
-    if (error) {
+    if (error && !eventLogger) {
       this.logger.error(error);
     }
 
@@ -241,13 +274,22 @@ export abstract class ArchitectCommand<
   ): Promise<number> {
     const extra = options['--'] || [];
 
+    if (options.json) {
+      this.eventLogger = new logging.Logger('ng');
+      this.eventLogger.subscribe(entry => writeEvent(createLogEvent(entry)));
+    }
+    const logger = this.eventLogger || this.logger;
+
     try {
       const targetSpec = this._makeTargetSpecifier(options);
       if (!targetSpec.project && this.target) {
         // This runs each target sequentially.
         // Running them in parallel would jumble the log messages.
         let result = 0;
-        for (const project of this.getProjectNamesByTarget(this.target)) {
+        const projectNames = options.affected === undefined
+          ? this.getProjectNamesByTarget(this.target)
+          : this.getAffectedProjectNamesByTarget(this.target, options.affected);
+        for (const project of projectNames) {
           result |= await this.runSingleTarget(
             { ...targetSpec, project } as Target,
             extra,
@@ -266,7 +308,7 @@ export abstract class ArchitectCommand<
             const unknownProperty = schemaError.params.additionalProperty;
             if (unknownProperty in options) {
               const dashes = unknownProperty.length === 1 ? '-' : '--';
-              this.logger.fatal(`Unknown option: '${dashes}${unknownProperty}'`);
+              logger.fatal(`Unknown option: '${dashes}${unknownProperty}'`);
               continue;
             }
           }
@@ -274,9 +316,13 @@ export abstract class ArchitectCommand<
         }
 
         if (newErrors.length > 0) {
-          this.logger.error(new schema.SchemaValidationException(newErrors).message);
+          logger.error(new schema.SchemaValidationException(newErrors).message);
         }
 
+        return 1;
+      } else if (this.eventLogger) {
+        writeEvent(createErrorEvent(e));
+
         return 1;
       } else {
         throw e;
@@ -313,6 +359,32 @@ export abstract class ArchitectCommand<
     }
   }
 
+  private getAffectedProjectNamesByTarget(targetName: string, base: string): string[] {
+    // tslint:disable-next-line: no-non-null-assertion
+    const workspace = this.workspace!;
+    const changedFiles = getChangedFiles(workspace.basePath, base);
+    const affectedProjects = findAffectedProjects(
+      workspace.projects,
+      workspace.basePath,
+      changedFiles,
+    );
+
+    const projectNames: string[] = [];
+    for (const [name, project] of workspace.projects) {
+      if (affectedProjects.has(name) && project.targets.has(targetName)) {
+        projectNames.push(name);
+      }
+    }
+
+    if (projectNames.length === 0) {
+      (this.eventLogger || this.logger).info(`No projects with a '${targetName}' target are affected by changes since '${base}'.`);
+    } else {
+      (this.eventLogger || this.logger).info(`Affected projects: ${projectNames.join(', ')}`);
+    }
+
+    return projectNames;
+  }
+
   private _makeTargetSpecifier(commandOptions: ArchitectCommandOptions): Target {
     let project, target, configuration;
 
@@ -35,6 +35,8 @@ const standardCommands = {
   'add': '../commands/add.json',
   'analytics': '../commands/analytics.json',
   'build': '../commands/build.json',
+  'cache': '../commands/cache.json',
+  'completion': '../commands/completion.json',
   'deploy': '../commands/deploy.json',
   'config': '../commands/config.json',
   'doc': '../commands/doc.json',
@@ -233,7 +235,10 @@ export async function runCommand(
 
     const analytics =
       options.analytics ||
-      (await _createAnalytics(!!workspace, description.name === 'update'));
+      (await _createAnalytics(
+        !!workspace,
+        description.name === 'update' || description.name === 'completion',
+      ));
     const context = {
       workspace,
       analytics,
@@ -6,6 +6,7 @@
  * found in the LICENSE file at https://angular.io/license
  */
 import {
+  JsonObject,
   logging,
   normalize,
   schema,
@@ -16,7 +17,10 @@ import {
 import {
   DryRunEvent,
   UnsuccessfulWorkflowExecution,
+  colorizeUnifiedDiff,
+  createUnifiedDiff,
   formats,
+  serializeDryRunEvent,
   workflow,
 } from '@angular-devkit/schematics';
 import {
@@ -41,6 +45,7 @@ import { parseArguments, parseFreeFormArguments } from './parser';
 export interface BaseSchematicSchema {
   debug?: boolean;
   dryRun?: boolean;
+  dryRunFormat?: 'summary' | 'diff' | 'json';
   force?: boolean;
   interactive?: boolean;
   defaults?: boolean;
@@ -61,6 +66,8 @@ export class UnknownCollectionError extends Error {
   }
 }
 
+const diffColors = { added: colors.green, removed: colors.red, hunk: colors.cyan };
+
 export abstract class SchematicCommand<
   T extends BaseSchematicSchema & BaseCommandOptions
 > extends Command<T> {
@@ -413,11 +420,13 @@ export abstract class SchematicCommand<
   }
 
   protected async runSchematic(options: RunSchematicOptions) {
-    const { schematicOptions, debug, dryRun } = options;
+    const { schematicOptions, debug, dryRun, dryRunFormat = 'summary' } = options;
     let { collectionName, schematicName } = options;
 
     let nothingDone = true;
     let loggingQueue: string[] = [];
+    let eventQueue: JsonObject[] = [];
+    const reportedEvents: JsonObject[] = [];
     let error = false;
 
     const workflow = this._workflow;
@@ -475,21 +484,42 @@ export abstract class SchematicCommand<
       // Strip leading slash to prevent confusion.
       const eventPath = event.path.startsWith('/') ? event.path.substr(1) : event.path;
 
+      if (event.kind === 'error') {
+        error = true;
+        const desc = event.description == 'alreadyExist' ? 'already exists' : 'does not exist.';
+        this.logger.warn(`ERROR! ${eventPath} ${desc}.`);
+
+        return;
+      }
+
+      if (dryRunFormat === 'json') {
+        eventQueue.push(serializeDryRunEvent(event));
+
+        return;
+      }
+
       switch (event.kind) {
-        case 'error':
-          error = true;
-          const desc = event.description == 'alreadyExist' ? 'already exists' : 'does not exist.';
-          this.logger.warn(`ERROR! ${eventPath} ${desc}.`);
-          break;
         case 'update':
           loggingQueue.push(tags.oneLine`
             ${colors.cyan('UPDATE')} ${eventPath} (${event.content.length} bytes)
           `);
+          if (dryRunFormat === 'diff' && event.original) {
+            loggingQueue.push(colorizeUnifiedDiff(
+              createUnifiedDiff(eventPath, event.original.toString(), event.content.toString()),
+              diffColors,
+            ));
+          }
           break;
         case 'create':
           loggingQueue.push(tags.oneLine`
             ${colors.green('CREATE')} ${eventPath} (${event.content.length} bytes)
           `);
+          if (dryRunFormat === 'diff') {
+            loggingQueue.push(colorizeUnifiedDiff(
+              createUnifiedDiff(eventPath, undefined, event.content.toString()),
+              diffColors,
+            ));
+          }
           break;
         case 'delete':
           loggingQueue.push(`${colors.yellow('DELETE')} ${eventPath}`);
@@ -506,13 +536,29 @@ export abstract class SchematicCommand<
         if (!error) {
           // Output the logging queue, no error happened.
           loggingQueue.forEach(log => this.logger.info(log));
+          reportedEvents.push(...eventQueue);
         }
 
         loggingQueue = [];
+        eventQueue = [];
         error = false;
       }
     });
 
+    // The JSON output is the only content written to the standard output. Informational messages
+    // of the schematic are written to the standard error instead.
+    let schematicLogger: logging.Logger = this.logger;
+    if (dryRunFormat === 'json') {
+      schematicLogger = new logging.Logger('schematic');
+      schematicLogger.subscribe(entry => {
+        if (entry.level === 'info') {
+          process.stderr.write(entry.message + '\n');
+        } else {
+          this.logger.log(entry.level, entry.message);
+        }
+      });
+    }
+
     return new Promise<number | void>(resolve => {
       workflow
         .execute({
@@ -520,7 +566,7 @@ export abstract class SchematicCommand<
           schematic: schematicName,
           options: input,
           debug: debug,
-          logger: this.logger,
+          logger: schematicLogger,
           allowPrivate: this.allowPrivateSchematics,
         })
         .subscribe({
@@ -539,7 +585,9 @@ export abstract class SchematicCommand<
           },
           complete: () => {
             const showNothingDone = !(options.showNothingDone === false);
-            if (nothingDone && showNothingDone) {
+            if (dryRunFormat === 'json') {
+              this.logger.info(JSON.stringify(reportedEvents, null, 2));
+            } else if (nothingDone && showNothingDone) {
               this.logger.info('Nothing to be done.');
             }
             if (dryRun) {
@@ -0,0 +1,363 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { json, workspaces } from '@angular-devkit/core';
+import { spawnSync } from 'child_process';
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import * as path from 'path';
+import { parseJson } from './json-file';
+
+/**
+ * Workspace level files that are not owned by a project but influence the output of all of them.
+ */
+const globalFilePattern = /^(\.?angular\.(json|jsonc|ya?ml)|package(-lock)?\.json|yarn\.lock|pnpm-lock\.yaml|tsconfig(\..+)?\.json|\.browserslistrc)$/;
+
+const sourceFilePattern = /\.[jt]sx?$/;
+const importSpecifierPattern = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"\n]+)['"]/g;
+
+function git(root: string, args: string[]): string {
+  const result = spawnSync('git', args, { cwd: root, encoding: 'utf8', stdio: 'pipe' });
+  if (result.error) {
+    throw result.error;
+  }
+
+  if (result.status !== 0) {
+    throw new Error(`Command 'git ${args.join(' ')}' failed.\n${result.stderr.trim()}`);
+  }
+
+  return result.stdout;
+}
+
+/**
+ * Lists the files that changed since the common ancestor of a git reference and `HEAD`.
+ * Uncommitted and untracked files are included.
+ *
+ * @param root The workspace root. Returned paths are relative to this directory.
+ * @param base The git reference to compare against.
+ */
+export function getChangedFiles(root: string, base: string): string[] {
+  const mergeBase = git(root, ['merge-base', base, 'HEAD']).trim();
+
+  const files = [
+    ...git(root, ['diff', '--name-only', '--relative', '-z', mergeBase]).split('\0'),
+    ...git(root, ['ls-files', '--others', '--exclude-standard', '-z']).split('\0'),
+  ];
+
+  return [...new Set(files.filter(file => file !== ''))];
+}
+
+function isInside(base: string, potential: string): boolean {
+  const relative = path.relative(base, potential);
+
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Finds the project owning a file. When several project directories contain the file, the deepest
+ * directory wins.
+ */
+function findOwningProject(
+  projects: workspaces.ProjectDefinitionCollection,
+  root: string,
+  file: string,
+): string | undefined {
+  const directories = new Map<string, string[]>();
+  for (const [name, project] of projects) {
+    directories.set(
+      name,
+      [project.root, project.sourceRoot]
+        .filter((directory): directory is string => directory !== undefined)
+        .map(directory => path.resolve(root, directory)),
+    );
+  }
+
+  return findProjectByLocation(directories, file);
+}
+
+function readJsonFile(file: string): json.JsonObject | undefined {
+  if (!existsSync(file)) {
+    return undefined;
+  }
+
+  const content = parseJson(readFileSync(file, 'utf-8'));
+
+  return json.isJsonObject(content) ? content : undefined;
+}
+
+/**
+ * Collects the target option values of all configurations of a project for the given option name.
+ */
+function getTargetOptionValues(project: workspaces.ProjectDefinition, option: string): string[] {
+  const values: string[] = [];
+
+  for (const target of project.targets.values()) {
+    for (const options of [target.options, ...Object.values(target.configurations || {})]) {
+      const value = options?.[option];
+      if (typeof value === 'string') {
+        values.push(value);
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Determines the directories that contain a project's files and build outputs.
+ * Path mappings to any of these directories are considered references to the project.
+ */
+function getProjectLocations(project: workspaces.ProjectDefinition, root: string): string[] {
+  const locations = [path.resolve(root, project.root)];
+  if (project.sourceRoot !== undefined) {
+    locations.push(path.resolve(root, project.sourceRoot));
+  }
+
+  for (const outputPath of getTargetOptionValues(project, 'outputPath')) {
+    locations.push(path.resolve(root, outputPath));
+  }
+
+  // Libraries built with ng-packagr define their output path in the ng-package configuration
+  for (const ngPackagePath of getTargetOptionValues(project, 'project')) {
+    const ngPackageFile = path.resolve(root, ngPackagePath);
+    const ngPackage = readJsonFile(ngPackageFile);
+    if (ngPackage) {
+      const dest = typeof ngPackage.dest === 'string' ? ngPackage.dest : 'dist';
+      locations.push(path.resolve(path.dirname(ngPackageFile), dest));
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Finds the project with the deepest location containing a path.
+ */
+function findProjectByLocation(
+  locations: Map<string, string[]>,
+  file: string,
+): string | undefined {
+  let found: string | undefined;
+  let foundDepth = -1;
+
+  for (const [name, projectLocations] of locations) {
+    for (const location of projectLocations) {
+      if (isInside(location, file) && location.length > foundDepth) {
+        found = name;
+        foundDepth = location.length;
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Reads the path mappings of a TypeScript configuration including all relatively extended
+ * configurations. The returned mapping targets are absolute paths.
+ */
+function readPathMappings(tsConfigFile: string, seen = new Set<string>()): Map<string, string[]> {
+  let mappings = new Map<string, string[]>();
+  if (seen.has(tsConfigFile)) {
+    return mappings;
+  }
+  seen.add(tsConfigFile);
+
+  const tsConfig = readJsonFile(tsConfigFile);
+  if (!tsConfig) {
+    return mappings;
+  }
+
+  const directory = path.dirname(tsConfigFile);
+  if (typeof tsConfig.extends === 'string' && tsConfig.extends.startsWith('.')) {
+    let extendedFile = path.resolve(directory, tsConfig.extends);
+    if (!extendedFile.endsWith('.json')) {
+      extendedFile += '.json';
+    }
+    mappings = readPathMappings(extendedFile, seen);
+  }
+
+  const compilerOptions = tsConfig.compilerOptions;
+  if (json.isJsonObject(compilerOptions) && json.isJsonObject(compilerOptions.paths)) {
+    // The paths of an extended configuration replace the inherited paths
+    mappings = new Map<string, string[]>();
+
+    const baseUrl = typeof compilerOptions.baseUrl === 'string' ? compilerOptions.baseUrl : '';
+    for (const [key, targets] of Object.entries(compilerOptions.paths)) {
+      if (!Array.isArray(targets)) {
+        continue;
+      }
+
+      mappings.set(
+        key,
+        targets
+          .filter((target): target is string => typeof target === 'string')
+          .map(target => path.resolve(directory, baseUrl, target.replace(/\*.*$/, ''))),
+      );
+    }
+  }
+
+  return mappings;
+}
+
+function matchesPathMappingKey(key: string, specifier: string): boolean {
+  const wildcard = key.indexOf('*');
+  if (wildcard === -1) {
+    return key === specifier;
+  }
+
+  const prefix = key.slice(0, wildcard);
+  const suffix = key.slice(wildcard + 1);
+
+  return (
+    specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+  );
+}
+
+function* findSourceFiles(directory: string, excludedDirectories: Set<string>): Iterable<string> {
+  for (const entry of readdirSync(directory)) {
+    const entryPath = path.join(directory, entry);
+    if (entry === 'node_modules' || entry.startsWith('.') || excludedDirectories.has(entryPath)) {
+      continue;
+    }
+
+    if (statSync(entryPath).isDirectory()) {
+      yield* findSourceFiles(entryPath, excludedDirectories);
+    } else if (sourceFilePattern.test(entry) && !entry.endsWith('.d.ts')) {
+      yield entryPath;
+    }
+  }
+}
+
+function findImportSpecifiers(directory: string, excludedDirectories: Set<string>): Set<string> {
+  const specifiers = new Set<string>();
+  if (!existsSync(directory)) {
+    return specifiers;
+  }
+
+  for (const file of findSourceFiles(directory, excludedDirectories)) {
+    const content = readFileSync(file, 'utf-8');
+    importSpecifierPattern.lastIndex = 0;
+    let match = importSpecifierPattern.exec(content);
+    while (match) {
+      specifiers.add(match[1]);
+      match = importSpecifierPattern.exec(content);
+    }
+  }
+
+  return specifiers;
+}
+
+/**
+ * Determines the library projects that each project imports through TypeScript path mappings.
+ *
+ * @return A map of project names to the names of the projects they depend on.
+ */
+export function getProjectDependencies(
+  projects: workspaces.ProjectDefinitionCollection,
+  root: string,
+): Map<string, Set<string>> {
+  const locations = new Map<string, string[]>();
+  for (const [name, project] of projects) {
+    locations.set(name, getProjectLocations(project, root));
+  }
+
+  const dependencies = new Map<string, Set<string>>();
+  for (const [name, project] of projects) {
+    const projectDependencies = new Set<string>();
+    dependencies.set(name, projectDependencies);
+
+    // Find the projects that are referenced by the path mappings of the project
+    const mappedProjects = new Map<string, Set<string>>();
+    for (const tsConfig of new Set(getTargetOptionValues(project, 'tsConfig'))) {
+      for (const [key, targets] of readPathMappings(path.resolve(root, tsConfig))) {
+        for (const target of targets) {
+          const mappedProject = findProjectByLocation(locations, target);
+          if (mappedProject !== undefined && mappedProject !== name) {
+            const mapped = mappedProjects.get(key) || new Set<string>();
+            mapped.add(mappedProject);
+            mappedProjects.set(key, mapped);
+          }
+        }
+      }
+    }
+
+    if (mappedProjects.size === 0) {
+      continue;
+    }
+
+    // Only path mappings that are imported by a source file of the project create a dependency.
+    // Nested projects are analyzed separately.
+    const sourceDirectory = path.resolve(root, project.sourceRoot ?? project.root);
+    const nestedProjectDirectories = new Set<string>();
+    for (const [otherName, otherProject] of projects) {
+      const otherDirectory = path.resolve(root, otherProject.root);
+      if (otherName !== name && otherDirectory !== sourceDirectory) {
+        nestedProjectDirectories.add(otherDirectory);
+      }
+    }
+
+    for (const specifier of findImportSpecifiers(sourceDirectory, nestedProjectDirectories)) {
+      for (const [key, mapped] of mappedProjects) {
+        if (matchesPathMappingKey(key, specifier)) {
+          mapped.forEach(dependency => projectDependencies.add(dependency));
+        }
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Finds the projects affected by a set of changed files. A project is affected if it contains
+ * a changed file or if it depends on an affected project. Changes to workspace level
+ * configuration files affect all projects.
+ *
+ * @param projects The workspace projects.
+ * @param root The workspace root.
+ * @param changedFiles The changed files relative to the workspace root.
+ */
+export function findAffectedProjects(
+  projects: workspaces.ProjectDefinitionCollection,
+  root: string,
+  changedFiles: string[],
+): Set<string> {
+  const affected = new Set<string>();
+
+  for (const file of changedFiles) {
+    if (!file.includes('/') && globalFilePattern.test(file)) {
+      return new Set(projects.keys());
+    }
+
+    const owner = findOwningProject(projects, root, path.resolve(root, file));
+    if (owner !== undefined) {
+      affected.add(owner);
+    }
+  }
+
+  if (affected.size === 0) {
+    return affected;
+  }
+
+  // Add all projects that depend on an affected project
+  const dependencies = getProjectDependencies(projects, root);
+  const pending = [...affected];
+  while (pending.length > 0) {
+    // tslint:disable-next-line: no-non-null-assertion
+    const current = pending.pop()!;
+    for (const [name, projectDependencies] of dependencies) {
+      if (!affected.has(name) && projectDependencies.has(current)) {
+        affected.add(name);
+        pending.push(name);
+      }
+    }
+  }
+
+  return affected;
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { workspaces } from '@angular-devkit/core';
+import { execSync } from 'child_process';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { findAffectedProjects, getChangedFiles } from './affected-projects';
+
+describe('findAffectedProjects', () => {
+  let root: string;
+  let projects: workspaces.ProjectDefinitionCollection;
+
+  function writeFiles(files: Record<string, string>) {
+    for (const [file, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(root, file)), { recursive: true });
+      writeFileSync(join(root, file), content);
+    }
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'angular-cli-affected-'));
+
+    writeFiles({
+      'tsconfig.json': JSON.stringify({
+        compilerOptions: {
+          baseUrl: './',
+          paths: {
+            'lib-a': ['dist/lib-a'],
+            'lib-b': ['projects/lib-b/src/public-api'],
+            '@shared/*': ['projects/shared/src/*'],
+          },
+        },
+      }),
+      'projects/app/tsconfig.app.json': '{ /* comment */ "extends": "../../tsconfig.json" }',
+      'projects/app/src/main.ts': `import { a } from 'lib-a';\nimport { b } from '@shared/utils';`,
+      'projects/other-app/tsconfig.app.json': '{ "extends": "../../tsconfig.json" }',
+      'projects/other-app/src/main.ts': `import { b } from 'lib-b';`,
+      'projects/lib-a/ng-package.json': JSON.stringify({ dest: '../../dist/lib-a' }),
+      'projects/lib-a/tsconfig.lib.json': '{ "extends": "../../tsconfig.json" }',
+      'projects/lib-a/src/public-api.ts': `export * from './lib/a';`,
+      'projects/lib-b/tsconfig.lib.json': '{ "extends": "../../tsconfig.json" }',
+      'projects/lib-b/src/public-api.ts': `export * from 'lib-a';`,
+      'projects/shared/src/utils.ts': `export const b = 1;`,
+    });
+
+    projects = new workspaces.ProjectDefinitionCollection({
+      'app': {
+        root: 'projects/app',
+        sourceRoot: 'projects/app/src',
+        extensions: {},
+        targets: new workspaces.TargetDefinitionCollection({
+          build: {
+            builder: '@angular-devkit/build-angular:browser',
+            options: { tsConfig: 'projects/app/tsconfig.app.json', outputPath: 'dist/app' },
+          },
+        }),
+      },
+      'other-app': {
+        root: 'projects/other-app',
+        extensions: {},
+        targets: new workspaces.TargetDefinitionCollection({
+          build: {
+            builder: '@angular-devkit/build-angular:browser',
+            options: { tsConfig: 'projects/other-app/tsconfig.app.json' },
+          },
+        }),
+      },
+      'lib-a': {
+        root: 'projects/lib-a',
+        sourceRoot: 'projects/lib-a/src',
+        extensions: {},
+        targets: new workspaces.TargetDefinitionCollection({
+          build: {
+            builder: '@angular-devkit/build-angular:ng-packagr',
+            options: {
+              project: 'projects/lib-a/ng-package.json',
+              tsConfig: 'projects/lib-a/tsconfig.lib.json',
+            },
+          },
+        }),
+      },
+      'lib-b': {
+        root: 'projects/lib-b',
+        sourceRoot: 'projects/lib-b/src',
+        extensions: {},
+        targets: new workspaces.TargetDefinitionCollection({
+          build: {
+            builder: '@angular-devkit/build-angular:ng-packagr',
+            options: { tsConfig: 'projects/lib-b/tsconfig.lib.json' },
+          },
+        }),
+      },
+      'shared': {
+        root: 'projects/shared',
+        extensions: {},
+        targets: new workspaces.TargetDefinitionCollection(),
+      },
+    });
+  });
+
+  it('returns the projects containing the changed files', () => {
+    const affected = findAffectedProjects(projects, root, ['projects/other-app/src/main.ts']);
+    expect([...affected]).toEqual(['other-app']);
+  });
+
+  it('includes projects importing an affected library through a path mapping', () => {
+    const affected = findAffectedProjects(projects, root, ['projects/lib-b/src/public-api.ts']);
+    expect([...affected].sort()).toEqual(['lib-b', 'other-app']);
+  });
+
+  it('includes projects that transitively depend on an affected library', () => {
+    const affected = findAffectedProjects(projects, root, ['projects/lib-a/src/lib/a.ts']);
+    expect([...affected].sort()).toEqual(['app', 'lib-a', 'lib-b', 'other-app']);
+  });
+
+  it('supports path mappings with wildcards', () => {
+    const affected = findAffectedProjects(projects, root, ['projects/shared/src/utils.ts']);
+    expect([...affected].sort()).toEqual(['app', 'shared']);
+  });
+
+  it('returns all projects when a workspace configuration file changed', () => {
+    const affected = findAffectedProjects(projects, root, ['README.md', 'package.json']);
+    expect(affected.size).toBe(5);
+  });
+
+  it('ignores files outside of projects', () => {
+    const affected = findAffectedProjects(projects, root, ['README.md', 'docs/tsconfig.json']);
+    expect(affected.size).toBe(0);
+  });
+});
+
+describe('getChangedFiles', () => {
+  it('lists committed, uncommitted and untracked changes since the base reference', () => {
+    const root = mkdtempSync(join(tmpdir(), 'angular-cli-affected-git-'));
+    const git = (command: string) => execSync(
+      `git -c user.name=test -c user.email=test@example.com ${command}`,
+      { cwd: root, stdio: 'pipe' },
+    );
+
+    writeFileSync(join(root, 'unchanged.ts'), '');
+    writeFileSync(join(root, 'modified.ts'), '');
+    git('init');
+    git('add -A');
+    git('commit -m initial');
+    git('tag base');
+
+    writeFileSync(join(root, 'committed.ts'), '');
+    git('add -A');
+    git('commit -m second');
+    writeFileSync(join(root, 'modified.ts'), 'changed');
+    writeFileSync(join(root, 'untracked.ts'), '');
+
+    expect(getChangedFiles(root, 'base').sort())
+      .toEqual(['committed.ts', 'modified.ts', 'untracked.ts']);
+  });
+});
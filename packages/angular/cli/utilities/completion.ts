@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { strings } from '@angular-devkit/core';
+import { CommandDescription, CommandDescriptionMap, Option, OptionType } from '../models/interface';
+
+/**
+ * The candidates which depend on the workspace and on the installed packages. They are only
+ * computed when the word being completed needs them.
+ */
+export interface CompletionSources {
+  /** The names of the projects of the workspace. */
+  projects(): Promise<string[]>;
+  /** The targets of the workspace, as `project:target`. */
+  targets(): Promise<string[]>;
+  /** The names of the schematics, as `schematic` for the default collection or `collection:schematic`. */
+  schematics(): Promise<string[]>;
+  /** The configuration keys starting with a partial JSON path. */
+  configKeys(partial: string): Promise<string[]>;
+}
+
+/**
+ * Split a command line into words, the last word being the word to complete. A command line which
+ * ends with a whitespace completes an empty word.
+ */
+export function splitCommandLine(line: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let quote: string | undefined;
+
+  for (const char of line) {
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === `'`) {
+      quote = char;
+    } else if (/\s/.test(char)) {
+      if (word) {
+        words.push(word);
+        word = '';
+      }
+    } else {
+      word += char;
+    }
+  }
+  words.push(word);
+
+  return words;
+}
+
+function findCommand(commands: CommandDescriptionMap, name: string): CommandDescription | undefined {
+  return commands[name] || Object.values(commands).find(command => command.aliases.includes(name));
+}
+
+function findOption(options: Option[], flag: string): Option | undefined {
+  if (flag.startsWith('--')) {
+    const name = strings.camelize(flag.slice(2).replace(/^no-/, ''));
+
+    return options.find(option => option.name === name || option.aliases.includes(name));
+  }
+
+  const alias = flag.slice(1);
+
+  return options.find(option => option.aliases.includes(alias));
+}
+
+function takesValue(option: Option | undefined): boolean {
+  return !!option && option.type !== OptionType.Boolean;
+}
+
+function getOptionNames(options: Option[]): string[] {
+  return options
+    .filter(option => !option.hidden && option.positional === undefined)
+    .map(option => `--${strings.dasherize(option.name)}`);
+}
+
+function getEnumValues(option: Option): string[] {
+  return (option.enum || []).map(value => `${value}`);
+}
+
+async function getValues(
+  command: CommandDescription,
+  option: Option,
+  word: string,
+  sources: CompletionSources,
+): Promise<string[]> {
+  if (option.enum) {
+    return getEnumValues(option);
+  } else if (option.type === OptionType.Boolean) {
+    return ['true', 'false'];
+  } else if (option.name === 'project') {
+    return sources.projects();
+  } else if (command.name === 'run' && option.name === 'target') {
+    return sources.targets();
+  } else if (command.name === 'generate' && option.name === 'schematic') {
+    return sources.schematics();
+  } else if (command.name === 'config' && option.name === 'jsonPath') {
+    return sources.configKeys(word);
+  }
+
+  return [];
+}
+
+/**
+ * Get the candidates to complete the last word of a command line.
+ * @param words The words of the command line, without the `ng` binary.
+ * @param commands The descriptions of the commands.
+ * @param sources The candidates which depend on the workspace.
+ */
+export async function getCompletions(
+  words: string[],
+  commands: CommandDescriptionMap,
+  sources: CompletionSources,
+): Promise<string[]> {
+  const previousWords = words.slice(0, -1);
+  const word = words[words.length - 1] || '';
+
+  // Like the command runner, the first word which is not an option is the command.
+  const commandIndex = previousWords.findIndex(w => !w.startsWith('-'));
+  const command = commandIndex === -1 ? undefined : findCommand(commands, previousWords[commandIndex]);
+
+  let candidates: string[] = [];
+  if (commandIndex === -1) {
+    if (word.startsWith('-')) {
+      candidates = ['--help', '--version'];
+    } else {
+      for (const description of Object.values(commands)) {
+        if (!description.hidden) {
+          candidates.push(description.name, ...description.aliases);
+        }
+      }
+    }
+  } else if (command) {
+    const options = command.options;
+    const equalIndex = word.indexOf('=');
+    const previous = previousWords[previousWords.length - 1];
+    const previousOption = previous && previous.startsWith('-') && !previous.includes('=')
+      ? findOption(options, previous)
+      : undefined;
+
+    if (word.startsWith('--') && equalIndex !== -1) {
+      const flag = word.slice(0, equalIndex);
+      const option = findOption(options, flag);
+      if (option) {
+        const values = await getValues(command, option, word.slice(equalIndex + 1), sources);
+        candidates = values.map(value => `${flag}=${value}`);
+      }
+    } else if (word.startsWith('-')) {
+      candidates = getOptionNames(options);
+    } else if (previousOption && takesValue(previousOption)) {
+      candidates = await getValues(command, previousOption, word, sources);
+    } else {
+      // Count the arguments given after the command, skipping the options and their values.
+      let position = 0;
+      const args = previousWords.slice(commandIndex + 1);
+      for (let i = 0; i < args.length; i++) {
+        if (!args[i].startsWith('-')) {
+          position++;
+        } else if (!args[i].includes('=') && takesValue(findOption(options, args[i]))) {
+          i++;
+        }
+      }
+
+      const positional = options.find(option => option.positional === position);
+      if (positional) {
+        candidates = await getValues(command, positional, word, sources);
+      }
+    }
+  }
+
+  return [...new Set(candidates)].filter(candidate => candidate.startsWith(word)).sort();
+}
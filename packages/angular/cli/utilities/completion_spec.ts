@@ -0,0 +1,112 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { CommandDescription, CommandDescriptionMap, Option, OptionType } from '../models/interface';
+import { CompletionSources, getCompletions, splitCommandLine } from './completion';
+
+function createOption(name: string, type: OptionType, extra: Partial<Option> = {}): Option {
+  return { name, type, description: '', aliases: [], ...extra };
+}
+
+function createCommand(
+  name: string,
+  options: Option[],
+  extra: Partial<CommandDescription> = {},
+): CommandDescription {
+  return { name, options, description: '', aliases: [], hidden: false, ...extra } as CommandDescription;
+}
+
+describe('completion', () => {
+  const commands: CommandDescriptionMap = {
+    build: createCommand('build', [
+      createOption('project', OptionType.String, { positional: 0 }),
+      createOption('configuration', OptionType.String, { aliases: ['c'] }),
+      createOption('prod', OptionType.Boolean),
+      createOption('help', OptionType.Boolean, { hidden: true }),
+    ], { aliases: ['b'] }),
+    config: createCommand('config', [
+      createOption('jsonPath', OptionType.String, { positional: 0 }),
+    ]),
+    generate: createCommand('generate', [
+      createOption('schematic', OptionType.String, { positional: 0 }),
+      createOption('dryRun', OptionType.Boolean, { aliases: ['d'] }),
+    ], { aliases: ['g'] }),
+    'make-this-awesome': createCommand('make-this-awesome', [], { hidden: true }),
+    new: createCommand('new', [
+      createOption('name', OptionType.String, { positional: 0 }),
+      createOption('style', OptionType.String, { enum: ['css', 'scss', 'sass', 'less'] }),
+      createOption('packageManager', OptionType.String, { enum: ['npm', 'yarn'] }),
+    ]),
+    run: createCommand('run', [
+      createOption('target', OptionType.String, { positional: 0 }),
+    ]),
+  };
+
+  const sources: CompletionSources = {
+    projects: async () => ['app', 'lib'],
+    targets: async () => ['app:build', 'app:serve', 'lib:build'],
+    schematics: async () => ['class', 'component', '@angular/material:table'],
+    configKeys: async partial => ['cli', 'projects', 'version'].filter(key => key.startsWith(partial)),
+  };
+
+  function complete(line: string) {
+    return getCompletions(splitCommandLine(line).slice(1), commands, sources);
+  }
+
+  describe('splitCommandLine()', () => {
+    it('splits the words and removes the quotes', () => {
+      expect(splitCommandLine(`ng  generate "my component"`)).toEqual(['ng', 'generate', 'my component']);
+    });
+
+    it('completes an empty word after a whitespace', () => {
+      expect(splitCommandLine('ng build ')).toEqual(['ng', 'build', '']);
+    });
+  });
+
+  describe('getCompletions()', () => {
+    it('completes the names and aliases of the visible commands', async () => {
+      expect(await complete('ng ')).toEqual(['b', 'build', 'config', 'g', 'generate', 'new', 'run']);
+      expect(await complete('ng g')).toEqual(['g', 'generate']);
+    });
+
+    it('completes the visible options of a command', async () => {
+      expect(await complete('ng build --')).toEqual(['--configuration', '--prod']);
+      expect(await complete('ng b --c')).toEqual(['--configuration']);
+    });
+
+    it('completes the values of enum options', async () => {
+      expect(await complete('ng new my-app --style s')).toEqual(['sass', 'scss']);
+      expect(await complete('ng new my-app --package-manager=')).toEqual([
+        '--package-manager=npm',
+        '--package-manager=yarn',
+      ]);
+    });
+
+    it('completes the project names', async () => {
+      expect(await complete('ng build ')).toEqual(['app', 'lib']);
+      expect(await complete('ng build --prod -c production l')).toEqual(['lib']);
+    });
+
+    it('completes the targets for the run command', async () => {
+      expect(await complete('ng run app:')).toEqual(['app:build', 'app:serve']);
+    });
+
+    it('completes the schematics for the generate command', async () => {
+      expect(await complete('ng g -d c')).toEqual(['class', 'component']);
+      expect(await complete('ng generate @angular/')).toEqual(['@angular/material:table']);
+    });
+
+    it('completes the configuration keys for the config command', async () => {
+      expect(await complete('ng config pro')).toEqual(['projects']);
+    });
+
+    it('completes nothing after the arguments of a command', async () => {
+      expect(await complete('ng run app:build ')).toEqual([]);
+      expect(await complete('ng unknown ')).toEqual([]);
+    });
+  });
+});
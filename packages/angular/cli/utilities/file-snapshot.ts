@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import * as path from 'path';
+
+/**
+ * The original content of the files of a directory, recorded before they are changed so the
+ * changes can be reverted.
+ */
+export class FileSnapshot {
+  /** The original content of the recorded files, or `null` for files which did not exist. */
+  private readonly originals = new Map<string, Buffer | null>();
+
+  constructor(private readonly root: string) {}
+
+  /**
+   * The recorded files, relative to the root.
+   */
+  get files(): string[] {
+    return [...this.originals.keys()];
+  }
+
+  /**
+   * Record the content of a file before it is changed. Only the first recording of a file is
+   * kept, so the snapshot reverts to the content before all the changes.
+   * @param file The path of the file, relative to the root.
+   */
+  record(file: string): void {
+    const normalizedFile = path.normalize(file.replace(/^\/+/, ''));
+    if (this.originals.has(normalizedFile)) {
+      return;
+    }
+
+    const filePath = path.join(this.root, normalizedFile);
+    this.originals.set(normalizedFile, existsSync(filePath) ? readFileSync(filePath) : null);
+  }
+
+  /**
+   * Revert the recorded files to their original content, and clear the snapshot.
+   * @returns The reverted files, relative to the root.
+   */
+  restore(): string[] {
+    const files = this.files;
+    for (const [file, content] of this.originals) {
+      const filePath = path.join(this.root, file);
+      if (content === null) {
+        if (existsSync(filePath)) {
+          unlinkSync(filePath);
+        }
+      } else {
+        mkdirSync(path.dirname(filePath), { recursive: true });
+        writeFileSync(filePath, content);
+      }
+    }
+    this.clear();
+
+    return files;
+  }
+
+  /**
+   * Forget the recorded files, keeping the changes.
+   */
+  clear(): void {
+    this.originals.clear();
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as rimraf from 'rimraf';
+import { FileSnapshot } from './file-snapshot';
+
+describe('FileSnapshot', () => {
+  let root: string;
+  let snapshot: FileSnapshot;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(realpathSync(tmpdir()), 'angular-cli-file-snapshot-'));
+    mkdirSync(join(root, 'src'));
+    writeFileSync(join(root, 'src/main.ts'), 'main');
+    writeFileSync(join(root, 'angular.json'), '{}');
+    snapshot = new FileSnapshot(root);
+  });
+
+  afterEach(() => rimraf.sync(root));
+
+  it('restores the updated and deleted files', () => {
+    snapshot.record('/src/main.ts');
+    writeFileSync(join(root, 'src/main.ts'), 'updated');
+    snapshot.record('angular.json');
+    unlinkSync(join(root, 'angular.json'));
+
+    expect(snapshot.restore().sort()).toEqual(['angular.json', join('src', 'main.ts')]);
+    expect(readFileSync(join(root, 'src/main.ts'), 'utf-8')).toBe('main');
+    expect(readFileSync(join(root, 'angular.json'), 'utf-8')).toBe('{}');
+  });
+
+  it('removes the created files', () => {
+    snapshot.record('src/app.ts');
+    writeFileSync(join(root, 'src/app.ts'), 'app');
+
+    snapshot.restore();
+
+    expect(existsSync(join(root, 'src/app.ts'))).toBe(false);
+  });
+
+  it('keeps the content of the first recording', () => {
+    snapshot.record('src/main.ts');
+    writeFileSync(join(root, 'src/main.ts'), 'first');
+    snapshot.record('src/main.ts');
+    writeFileSync(join(root, 'src/main.ts'), 'second');
+
+    snapshot.restore();
+
+    expect(readFileSync(join(root, 'src/main.ts'), 'utf-8')).toBe('main');
+  });
+
+  it('keeps the changes once cleared', () => {
+    snapshot.record('src/main.ts');
+    writeFileSync(join(root, 'src/main.ts'), 'updated');
+
+    snapshot.clear();
+
+    expect(snapshot.restore()).toEqual([]);
+    expect(readFileSync(join(root, 'src/main.ts'), 'utf-8')).toBe('updated');
+  });
+});
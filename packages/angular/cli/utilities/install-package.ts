@@ -14,14 +14,15 @@ import { join, resolve } from 'path';
 import * as rimraf from 'rimraf';
 import { PackageManager } from '../lib/config/schema';
 import { colors } from '../utilities/color';
+import { isYarnBerry } from '../utilities/package-manager';
 import { NgAddSaveDepedency } from '../utilities/package-metadata';
 
-interface PackageManagerOptions {
-  silent: string;
+export interface PackageManagerOptions {
+  silent?: string;
   saveDev: string;
   install: string;
-  prefix: string;
-  noLockfile: string;
+  prefix?: string;
+  noLockfile?: string;
 }
 
 export function installPackage(
@@ -32,13 +33,13 @@ export function installPackage(
   extraArgs: string[] = [],
   cwd = process.cwd(),
 ) {
-  const packageManagerArgs = getPackageManagerArguments(packageManager);
+  const yarnBerry = packageManager === PackageManager.Yarn && isYarnBerry(cwd);
+  const packageManagerArgs = getPackageManagerArguments(packageManager, yarnBerry);
 
-  const installArgs: string[] = [
-    packageManagerArgs.install,
-    packageName,
-    packageManagerArgs.silent,
-  ];
+  const installArgs: string[] = [packageManagerArgs.install, packageName];
+  if (packageManagerArgs.silent) {
+    installArgs.push(packageManagerArgs.silent);
+  }
 
   logger.info(colors.green(`Installing packages for tooling via ${packageManager}.`));
 
@@ -46,11 +47,26 @@ export function installPackage(
     installArgs.push(packageManagerArgs.saveDev);
   }
 
+  const env = { ...process.env };
+  if (yarnBerry) {
+    // Yarn 2+ does not support the `--registry` option, the registry is configured with
+    // an environment variable instead.
+    extraArgs = extraArgs.filter(arg => {
+      const match = arg.match(/^--registry=["']?(.*?)["']?$/);
+      if (match) {
+        env['YARN_NPM_REGISTRY_SERVER'] = match[1];
+      }
+
+      return !match;
+    });
+  }
+
   const { status, stderr, stdout, error } = spawnSync(packageManager, [...installArgs, ...extraArgs], {
     stdio: 'pipe',
     shell: true,
     encoding: 'utf8',
     cwd,
+    env,
   });
 
   if (status !== 0) {
@@ -95,16 +111,24 @@ export function installTempPackage(
     license: 'MIT',
   }));
 
-  // setup prefix/global modules path
-  const packageManagerArgs = getPackageManagerArguments(packageManager);
   const tempNodeModules = join(tempPath, 'node_modules');
-  // Yarn will not append 'node_modules' to the path
-  const prefixPath = packageManager === PackageManager.Yarn ? tempNodeModules : tempPath;
-  const installArgs: string[] = [
-    ...(extraArgs || []),
-    `${packageManagerArgs.prefix}="${prefixPath}"`,
-    packageManagerArgs.noLockfile,
-  ];
+  const installArgs: string[] = [...(extraArgs || [])];
+
+  if (packageManager === PackageManager.Yarn && isYarnBerry(tempPath)) {
+    // Yarn 2+ has no options to choose the install location; the temporary directory is made
+    // the root of a project which installs its packages in a `node_modules` directory.
+    writeFileSync(join(tempPath, '.yarnrc.yml'), 'nodeLinker: node-modules\n');
+    writeFileSync(join(tempPath, 'yarn.lock'), '');
+  } else {
+    // setup prefix/global modules path
+    const packageManagerArgs = getPackageManagerArguments(packageManager, false);
+    // Yarn will not append 'node_modules' to the path
+    const prefixPath = packageManager === PackageManager.Yarn ? tempNodeModules : tempPath;
+    installArgs.push(`${packageManagerArgs.prefix}="${prefixPath}"`);
+    if (packageManagerArgs.noLockfile) {
+      installArgs.push(packageManagerArgs.noLockfile);
+    }
+  }
 
   installPackage(packageName, logger, packageManager, true, installArgs, tempPath);
 
@@ -162,9 +186,16 @@ export function runTempPackageBin(
   return status || 0;
 }
 
-function getPackageManagerArguments(packageManager: PackageManager): PackageManagerOptions {
+export function getPackageManagerArguments(packageManager: PackageManager, yarnBerry: boolean): PackageManagerOptions {
   switch (packageManager) {
     case PackageManager.Yarn:
+      if (yarnBerry) {
+        return {
+          saveDev: '--dev',
+          install: 'add',
+        };
+      }
+
       return {
         silent: '--silent',
         saveDev: '--dev',
@@ -177,7 +208,7 @@ function getPackageManagerArguments(packageManager: PackageManager): PackageMana
         silent: '--silent',
         saveDev: '--save-dev',
         install: 'add',
-        prefix: '--prefix',
+        prefix: '--dir',
         noLockfile: '--no-lockfile',
       };
     default:
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { PackageManager } from '../lib/config/schema';
+import { getPackageManagerArguments } from './install-package';
+
+describe('getPackageManagerArguments()', () => {
+  it('returns the command line options of pnpm', () => {
+    expect(getPackageManagerArguments(PackageManager.Pnpm, false)).toEqual({
+      silent: '--silent',
+      saveDev: '--save-dev',
+      install: 'add',
+      prefix: '--dir',
+      noLockfile: '--no-lockfile',
+    });
+  });
+
+  it('returns the command line options of Yarn 1', () => {
+    expect(getPackageManagerArguments(PackageManager.Yarn, false)).toEqual({
+      silent: '--silent',
+      saveDev: '--dev',
+      install: 'add',
+      prefix: '--modules-folder',
+      noLockfile: '--no-lockfile',
+    });
+  });
+
+  it('omits the options that Yarn Berry does not support', () => {
+    expect(getPackageManagerArguments(PackageManager.Yarn, true)).toEqual({
+      saveDev: '--dev',
+      install: 'add',
+    });
+  });
+});
@@ -98,6 +98,36 @@ export class JSONFile {
     return true;
   }
 
+  /**
+   * Insert a value in an array, at the index of the last fragment of the path. An index equal to
+   * the length of the array appends the value.
+   */
+  insert(jsonPath: JSONPath, value: JsonValue): boolean {
+    const index = jsonPath[jsonPath.length - 1];
+    const array = this.get(jsonPath.slice(0, -1));
+    if (typeof index !== 'number' || !Array.isArray(array) || index < 0 || index > array.length) {
+      return false;
+    }
+
+    const edits = modify(
+      this.content,
+      jsonPath,
+      value,
+      {
+        isArrayInsertion: true,
+        formattingOptions: {
+          insertSpaces: true,
+          tabSize: 2,
+        },
+      },
+    );
+
+    this.content = applyEdits(this.content, edits);
+    this._jsonAst = undefined;
+
+    return true;
+  }
+
   save(): void {
     writeFileSync(this.path, this.content);
   }
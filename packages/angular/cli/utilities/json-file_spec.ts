@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { mkdtempSync, realpathSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as rimraf from 'rimraf';
+import { JSONFile } from './json-file';
+
+describe('JSONFile', () => {
+  let root: string;
+  let file: JSONFile;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(realpathSync(tmpdir()), 'angular-cli-json-file-'));
+    const filePath = join(root, 'angular.json');
+    writeFileSync(filePath, JSON.stringify({ styles: ['a.css', 'b.css'], index: 'index.html' }, null, 2));
+    file = new JSONFile(filePath);
+  });
+
+  afterEach(() => rimraf.sync(root));
+
+  describe('insert()', () => {
+    it('inserts the value before the index', () => {
+      expect(file.insert(['styles', 1], 'c.css')).toBe(true);
+      expect(file.get(['styles'])).toEqual(['a.css', 'c.css', 'b.css']);
+    });
+
+    it('appends the value at the length of the array', () => {
+      expect(file.insert(['styles', 2], 'c.css')).toBe(true);
+      expect(file.get(['styles'])).toEqual(['a.css', 'b.css', 'c.css']);
+    });
+
+    it('does not insert at indices out of the range of the array', () => {
+      expect(file.insert(['styles', 3], 'c.css')).toBe(false);
+      expect(file.insert(['styles', -1], 'c.css')).toBe(false);
+      expect(file.get(['styles'])).toEqual(['a.css', 'b.css']);
+    });
+
+    it('does not insert in values which are not arrays', () => {
+      expect(file.insert(['index', 0], 'c.css')).toBe(false);
+      expect(file.insert(['scripts', 0], 'c.js')).toBe(false);
+      expect(file.get(['index'])).toBe('index.html');
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { logging } from '@angular-devkit/core';
+import { createHash } from 'crypto';
+import { createReadStream, existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import * as semver from 'semver';
+import { URL } from 'url';
+import { getConfiguredRegistry } from './package-metadata';
+
+const pacote = require('pacote');
+
+interface PackumentVersion {
+  name: string;
+  version: string;
+  dist?: {
+    tarball?: string;
+    integrity?: string;
+    shasum?: string;
+  };
+  [key: string]: unknown;
+}
+
+interface Packument {
+  name: string;
+  'dist-tags': Record<string, string>;
+  versions: Record<string, PackumentVersion>;
+  [key: string]: unknown;
+}
+
+/** The registries the package managers record in their lock files when none is configured. */
+const publicRegistries: Record<string, string> = {
+  'package-lock.json': 'https://registry.npmjs.org',
+  'pnpm-lock.yaml': 'https://registry.npmjs.org',
+  'yarn.lock': 'https://registry.yarnpkg.com',
+};
+
+interface OfflinePackage {
+  packument: Packument;
+  /** The tarball files of the versions, when available locally. */
+  tarballs: Map<string, string>;
+}
+
+function getTarballUrl(registry: string, name: string, version: string): string {
+  const unscopedName = name.replace(/^@[^\/]+\//, '');
+
+  return `${registry}/${name}/-/${unscopedName}-${version}.tgz`;
+}
+
+function findTarballs(directory: string): string[] {
+  const tarballs: string[] = [];
+  for (const entry of readdirSync(directory)) {
+    const entryPath = path.join(directory, entry);
+    const stats = statSync(entryPath);
+    if (stats.isDirectory()) {
+      tarballs.push(...findTarballs(entryPath));
+    } else if (stats.isFile() && /\.(tgz|tar\.gz)$/.test(entry)) {
+      tarballs.push(entryPath);
+    }
+  }
+
+  return tarballs;
+}
+
+/**
+ * Compute the dist-tags of a package from its versions, as the registry does when publishing:
+ * `latest` is the greatest stable version and `next` the greatest prerelease, when newer.
+ */
+function computeDistTags(versions: string[]): Record<string, string> {
+  const sorted = [...versions].sort(semver.rcompare);
+  const latest = sorted.find(version => !semver.prerelease(version)) || sorted[0];
+  const tags: Record<string, string> = { latest };
+  if (semver.gt(sorted[0], latest)) {
+    tags['next'] = sorted[0];
+  }
+
+  return tags;
+}
+
+async function readTarballDirectory(directory: string): Promise<Map<string, OfflinePackage>> {
+  const packages = new Map<string, OfflinePackage>();
+  for (const tarball of findTarballs(directory)) {
+    const content = readFileSync(tarball);
+    const manifest: Record<string, unknown> = await pacote.manifest(tarball, { fullMetadata: true });
+    const { name, version } = manifest as { name: string; version: string };
+
+    const packageVersion: PackumentVersion = { name, version };
+    for (const [key, value] of Object.entries(manifest)) {
+      // Remove the resolution fields added by pacote
+      if (!key.startsWith('_')) {
+        packageVersion[key] = value;
+      }
+    }
+    packageVersion.dist = {
+      integrity: 'sha512-' + createHash('sha512').update(content).digest('base64'),
+      shasum: createHash('sha1').update(content).digest('hex'),
+    };
+
+    let offlinePackage = packages.get(name);
+    if (!offlinePackage) {
+      offlinePackage = { packument: { name, 'dist-tags': {}, versions: {} }, tarballs: new Map() };
+      packages.set(name, offlinePackage);
+    }
+    offlinePackage.packument.versions[version] = packageVersion;
+    offlinePackage.tarballs.set(version, tarball);
+  }
+
+  for (const { packument } of packages.values()) {
+    packument['dist-tags'] = computeDistTags(Object.keys(packument.versions));
+  }
+
+  return packages;
+}
+
+async function readSnapshotFile(file: string): Promise<Map<string, OfflinePackage>> {
+  const snapshot = JSON.parse(readFileSync(file, 'utf-8')) as Record<string, Packument>;
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) {
+    throw new Error(`Registry snapshot "${file}" must be an object of package metadata keyed by package name.`);
+  }
+
+  const packages = new Map<string, OfflinePackage>();
+  for (const [name, packument] of Object.entries(snapshot)) {
+    if (!packument || typeof packument.versions !== 'object') {
+      throw new Error(`Registry snapshot "${file}" has no versions for package "${name}".`);
+    }
+
+    const tarballs = new Map<string, string>();
+    for (const [version, packageVersion] of Object.entries(packument.versions)) {
+      const tarball = packageVersion.dist?.tarball;
+      // Tarballs are either local files, relative to the snapshot, or remote URLs.
+      if (tarball && !/^[a-z][a-z0-9+.-]+:\/\//i.test(tarball)) {
+        tarballs.set(version, path.resolve(path.dirname(file), tarball));
+      }
+    }
+
+    packages.set(name, {
+      packument: {
+        ...packument,
+        name,
+        'dist-tags': packument['dist-tags'] || computeDistTags(Object.keys(packument.versions)),
+      },
+      tarballs,
+    });
+  }
+
+  return packages;
+}
+
+/**
+ * A package registry serving the packages of a directory of tarballs or of a registry snapshot
+ * file on the loopback interface. Both the metadata requests and the package managers use it
+ * as the registry, so packages resolve and install without network access.
+ */
+export class OfflineRegistry {
+  private server: http.Server | undefined;
+
+  private constructor(private readonly packages: Map<string, OfflinePackage>) {}
+
+  /**
+   * Load the packages of a source.
+   * @param source A directory containing package tarballs, such as the ones created by
+   * `npm pack`, or a JSON file of registry metadata keyed by package name.
+   */
+  static async load(source: string): Promise<OfflineRegistry> {
+    const packages = statSync(source).isDirectory()
+      ? await readTarballDirectory(source)
+      : await readSnapshotFile(source);
+
+    return new OfflineRegistry(packages);
+  }
+
+  /**
+   * Load the packages of a source and start serving them.
+   */
+  static async start(source: string): Promise<OfflineRegistry> {
+    const registry = await OfflineRegistry.load(source);
+    await registry.listen();
+
+    return registry;
+  }
+
+  get packageCount(): number {
+    return this.packages.size;
+  }
+
+  /**
+   * The URL of the registry, once started.
+   */
+  get url(): string {
+    const { port } = (this.server as http.Server).address() as AddressInfo;
+
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Start the registry.
+   * @returns The URL of the registry.
+   */
+  async listen(): Promise<string> {
+    const server = http.createServer((request, response) => this.handle(request, response));
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    return this.url;
+  }
+
+  /**
+   * Point the lock file entries of the packages installed from the registry to the registry
+   * configured for the project, or the public registry when none is, as the address of the
+   * registry is only valid while it runs. The tarballs are served with the layout of the public
+   * registry, so the entries stay valid.
+   */
+  restoreLockFiles(root: string, logger: logging.LoggerApi): void {
+    for (const [lockFile, publicRegistry] of Object.entries(publicRegistries)) {
+      const lockFilePath = path.join(root, lockFile);
+      if (!existsSync(lockFilePath)) {
+        continue;
+      }
+
+      const registry = getConfiguredRegistry(logger, lockFile === 'yarn.lock') || publicRegistry;
+      const content = readFileSync(lockFilePath, 'utf-8');
+      const restoredContent = content.split(this.url + '/').join(registry + '/');
+      if (restoredContent !== content) {
+        writeFileSync(lockFilePath, restoredContent);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise(resolve => server.close(resolve));
+    }
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const pathname = decodeURIComponent(new URL(request.url || '/', this.url).pathname).slice(1);
+
+    // Tarballs use the layout of the public registry: `<name>/-/<unscoped name>-<version>.tgz`.
+    const tarballMatch = pathname.match(/^(.+)\/-\/([^\/]+)\.tgz$/);
+    if (tarballMatch) {
+      const [, name, fileName] = tarballMatch;
+      const unscopedName = name.replace(/^@[^\/]+\//, '');
+      const version = fileName.startsWith(unscopedName + '-') ? fileName.slice(unscopedName.length + 1) : '';
+      const tarball = this.packages.get(name)?.tarballs.get(version);
+      if (tarball) {
+        response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        createReadStream(tarball)
+          .on('error', () => response.destroy())
+          .pipe(response);
+
+        return;
+      }
+    } else {
+      const offlinePackage = this.packages.get(pathname);
+      if (offlinePackage) {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(this.servePackument(offlinePackage)));
+
+        return;
+      }
+    }
+
+    response.writeHead(404, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ error: 'Not found' }));
+  }
+
+  /**
+   * Point the tarballs of the local files to the registry.
+   */
+  private servePackument({ packument, tarballs }: OfflinePackage): Packument {
+    const versions: Record<string, PackumentVersion> = {};
+    for (const [version, packageVersion] of Object.entries(packument.versions)) {
+      versions[version] = tarballs.has(version)
+        ? {
+            ...packageVersion,
+            dist: {
+              ...packageVersion.dist,
+              tarball: getTarballUrl(this.url, packument.name, version),
+            },
+          }
+        : packageVersion;
+    }
+
+    return { ...packument, versions };
+  }
+}
+
+/**
+ * Start serving the packages of an offline source for a command, failing the command when the
+ * source cannot be read.
+ */
+export async function startOfflineRegistry(
+  source: string,
+  logger: logging.LoggerApi,
+): Promise<OfflineRegistry> {
+  let registry: OfflineRegistry;
+  try {
+    registry = await OfflineRegistry.start(source);
+  } catch (e) {
+    logger.fatal(`Cannot use "${source}" as the package source: ${e.message}`);
+    throw 1;
+  }
+
+  logger.info(`Using ${registry.packageCount} package(s) of "${source}" as the package registry.`);
+
+  return registry;
+}
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { logging } from '@angular-devkit/core';
+import { createHash } from 'crypto';
+import { mkdirSync, mkdtempSync, readFileSync, realpathSync, writeFileSync } from 'fs';
+import * as http from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as rimraf from 'rimraf';
+import { OfflineRegistry } from './offline-registry';
+
+// tslint:disable-next-line:no-implicit-dependencies
+const tar = require('tar');
+
+function get(url: string): Promise<{ statusCode?: number; body: Buffer }> {
+  return new Promise((resolve, reject) => {
+    http.get(url, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => resolve({ statusCode: response.statusCode, body: Buffer.concat(chunks) }));
+    }).on('error', reject);
+  });
+}
+
+describe('OfflineRegistry', () => {
+  let root: string;
+  let registry: OfflineRegistry | undefined;
+
+  function pack(directory: string, manifest: { name: string; version: string; [key: string]: unknown }): string {
+    const packageDir = join(root, 'package');
+    mkdirSync(packageDir, { recursive: true });
+    writeFileSync(join(packageDir, 'package.json'), JSON.stringify(manifest));
+
+    const file = join(directory, `${manifest.name.replace(/[@\/]/g, '-')}-${manifest.version}.tgz`);
+    tar.c({ gzip: true, file, cwd: root, sync: true, portable: true }, ['package']);
+    rimraf.sync(packageDir);
+
+    return file;
+  }
+
+  async function getPackument(name: string) {
+    const { statusCode, body } = await get(`${(registry as OfflineRegistry).url}/${encodeURIComponent(name)}`);
+
+    return { statusCode, packument: JSON.parse(body.toString()) };
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(realpathSync(tmpdir()), 'angular-cli-offline-registry-'));
+  });
+
+  afterEach(async () => {
+    await registry?.close();
+    registry = undefined;
+    rimraf.sync(root);
+  });
+
+  describe('with a directory of tarballs', () => {
+    let tarballsDir: string;
+
+    beforeEach(() => {
+      tarballsDir = join(root, 'tarballs');
+      mkdirSync(join(tarballsDir, 'nested'), { recursive: true });
+      pack(tarballsDir, { name: '@scope/pkg', version: '1.0.0' });
+      pack(tarballsDir, { name: '@scope/pkg', version: '1.1.0', 'ng-update': { migrations: './m.json' } });
+      pack(join(tarballsDir, 'nested'), { name: '@scope/pkg', version: '2.0.0-rc.0' });
+      pack(tarballsDir, { name: 'other', version: '3.0.0' });
+    });
+
+    it('serves the metadata of the packages', async () => {
+      registry = await OfflineRegistry.start(tarballsDir);
+      expect(registry.packageCount).toBe(2);
+
+      const { statusCode, packument } = await getPackument('@scope/pkg');
+      expect(statusCode).toBe(200);
+      expect(packument.name).toBe('@scope/pkg');
+      expect(Object.keys(packument.versions).sort()).toEqual(['1.0.0', '1.1.0', '2.0.0-rc.0']);
+      expect(packument['dist-tags']).toEqual({ latest: '1.1.0', next: '2.0.0-rc.0' });
+      expect(packument.versions['1.1.0']['ng-update']).toEqual({ migrations: './m.json' });
+      expect(packument.versions['1.1.0']._resolved).toBeUndefined();
+    });
+
+    it('serves the tarballs of the packages', async () => {
+      registry = await OfflineRegistry.start(tarballsDir);
+
+      const { packument } = await getPackument('@scope/pkg');
+      const { dist } = packument.versions['1.0.0'];
+      const { statusCode, body } = await get(dist.tarball);
+
+      expect(dist.tarball).toBe(`${registry.url}/@scope/pkg/-/pkg-1.0.0.tgz`);
+      expect(statusCode).toBe(200);
+      expect(body).toEqual(readFileSync(join(tarballsDir, '-scope-pkg-1.0.0.tgz')));
+      expect(dist.integrity).toBe('sha512-' + createHash('sha512').update(body).digest('base64'));
+    });
+
+    it('points the lock file entries to the public registry', async () => {
+      spyOn(process, 'cwd').and.returnValue(root);
+      registry = await OfflineRegistry.start(tarballsDir);
+      const lockFilePath = join(root, 'package-lock.json');
+      writeFileSync(lockFilePath, `"resolved": "${registry.url}/other/-/other-3.0.0.tgz"`);
+
+      registry.restoreLockFiles(root, new logging.NullLogger());
+
+      expect(readFileSync(lockFilePath, 'utf-8')).toBe('"resolved": "https://registry.npmjs.org/other/-/other-3.0.0.tgz"');
+    });
+
+    it('points the lock file entries to the registry configured for the project', async () => {
+      spyOn(process, 'cwd').and.returnValue(root);
+      writeFileSync(join(root, '.npmrc'), 'registry=https://registry.example.com/\n');
+      registry = await OfflineRegistry.start(tarballsDir);
+      const lockFilePath = join(root, 'package-lock.json');
+      writeFileSync(lockFilePath, `"resolved": "${registry.url}/other/-/other-3.0.0.tgz"`);
+
+      registry.restoreLockFiles(root, new logging.NullLogger());
+
+      expect(readFileSync(lockFilePath, 'utf-8')).toBe('"resolved": "https://registry.example.com/other/-/other-3.0.0.tgz"');
+    });
+
+    it('points the pnpm lock file entries to the public registry', async () => {
+      spyOn(process, 'cwd').and.returnValue(root);
+      registry = await OfflineRegistry.start(tarballsDir);
+      const lockFilePath = join(root, 'pnpm-lock.yaml');
+      writeFileSync(lockFilePath, `resolution: {tarball: ${registry.url}/other/-/other-3.0.0.tgz}`);
+
+      registry.restoreLockFiles(root, new logging.NullLogger());
+
+      expect(readFileSync(lockFilePath, 'utf-8')).toBe('resolution: {tarball: https://registry.npmjs.org/other/-/other-3.0.0.tgz}');
+    });
+
+    it('responds with 404 for unknown packages', async () => {
+      registry = await OfflineRegistry.start(tarballsDir);
+
+      expect((await getPackument('unknown')).statusCode).toBe(404);
+    });
+  });
+
+  describe('with a registry snapshot', () => {
+    it('serves the snapshot and its local tarballs', async () => {
+      const tarball = pack(root, { name: 'pkg', version: '1.0.0' });
+      const snapshotPath = join(root, 'snapshot.json');
+      writeFileSync(snapshotPath, JSON.stringify({
+        pkg: {
+          'dist-tags': { latest: '1.0.0' },
+          versions: {
+            '1.0.0': { name: 'pkg', version: '1.0.0', dist: { tarball: './pkg-1.0.0.tgz' } },
+            '0.9.0': { name: 'pkg', version: '0.9.0', dist: { tarball: 'https://registry.npmjs.org/pkg/-/pkg-0.9.0.tgz' } },
+          },
+        },
+      }));
+
+      registry = await OfflineRegistry.start(snapshotPath);
+
+      const { packument } = await getPackument('pkg');
+      expect(packument['dist-tags']).toEqual({ latest: '1.0.0' });
+      expect(packument.versions['0.9.0'].dist.tarball).toBe('https://registry.npmjs.org/pkg/-/pkg-0.9.0.tgz');
+
+      const { body } = await get(packument.versions['1.0.0'].dist.tarball);
+      expect(body).toEqual(readFileSync(tarball));
+    });
+
+    it('throws for invalid snapshots', async () => {
+      const snapshotPath = join(root, 'snapshot.json');
+      writeFileSync(snapshotPath, JSON.stringify({ pkg: {} }));
+
+      await expectAsync(OfflineRegistry.start(snapshotPath)).toBeRejectedWithError(/has no versions/);
+    });
+  });
+});
@@ -10,6 +10,7 @@ import { existsSync } from 'fs';
 import { join } from 'path';
 import { PackageManager } from '../lib/config/schema';
 import { getConfiguredPackageManager } from './config';
+import { findUp } from './find-up';
 
 function supports(name: string): boolean {
   try {
@@ -29,28 +30,76 @@ export function supportsNpm(): boolean {
   return supports('npm');
 }
 
+export function supportsPnpm(): boolean {
+  return supports('pnpm');
+}
+
+/**
+ * Get the version of a package manager, as used within a directory. Yarn, for instance, can
+ * run the release configured in a `.yarnrc.yml` file instead of the globally installed one.
+ */
+export function getPackageManagerVersion(name: string, cwd = process.cwd()): string | undefined {
+  try {
+    return execSync(`${name} --version`, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether Yarn 2 or later (Berry) is used within a directory. Berry projects are configured
+ * with a `.yarnrc.yml` file, and do not support most of the command line options of Yarn 1.
+ */
+export function isYarnBerry(cwd = process.cwd()): boolean {
+  if (existsSync(join(cwd, '.yarnrc.yml'))) {
+    return true;
+  }
+
+  const version = getPackageManagerVersion('yarn', cwd);
+
+  return !!version && +version.split('.')[0] >= 2;
+}
+
+/**
+ * Find the Plug'n'Play runtime of a Yarn project, which resolves the packages of the project
+ * when they are not installed in a `node_modules` directory.
+ */
+export function findPnpFile(cwd = process.cwd()): string | null {
+  return findUp(['.pnp.cjs', '.pnp.js'], cwd);
+}
+
+/**
+ * Whether the Plug'n'Play runtime of a Yarn project is set up in the current process.
+ */
+export function isPnpEnabled(): boolean {
+  return 'pnp' in process.versions;
+}
+
 export async function getPackageManager(root: string): Promise<PackageManager> {
-  let packageManager = await getConfiguredPackageManager() as PackageManager | null;
+  const packageManager = await getConfiguredPackageManager() as PackageManager | null;
   if (packageManager) {
     return packageManager;
   }
 
-  const hasYarn = supportsYarn();
-  const hasYarnLock = existsSync(join(root, 'yarn.lock'));
-  const hasNpm = supportsNpm();
+  const hasYarnLock = existsSync(join(root, 'yarn.lock')) || existsSync(join(root, '.yarnrc.yml'));
+  const hasPnpmLock = existsSync(join(root, 'pnpm-lock.yaml'));
   const hasNpmLock = existsSync(join(root, 'package-lock.json'));
 
-  if (hasYarn && hasYarnLock && !hasNpmLock) {
-    packageManager = PackageManager.Yarn;
-  } else if (hasNpm && hasNpmLock && !hasYarnLock) {
-    packageManager = PackageManager.Npm;
-  } else if (hasYarn && !hasNpm) {
-    packageManager = PackageManager.Yarn;
-  } else if (hasNpm && !hasYarn) {
-    packageManager = PackageManager.Npm;
+  if (hasYarnLock && !hasPnpmLock && !hasNpmLock && supportsYarn()) {
+    return PackageManager.Yarn;
+  } else if (hasPnpmLock && !hasYarnLock && !hasNpmLock && supportsPnpm()) {
+    return PackageManager.Pnpm;
+  } else if (hasNpmLock && !hasYarnLock && !hasPnpmLock && supportsNpm()) {
+    return PackageManager.Npm;
+  }
+
+  const hasYarn = supportsYarn();
+  const hasNpm = supportsNpm();
+  if (hasYarn && !hasNpm) {
+    return PackageManager.Yarn;
   }
 
   // TODO: This should eventually inform the user of ambiguous package manager usage.
   //       Potentially with a prompt to choose and optionally set as the default.
-  return packageManager || PackageManager.Npm;
+  return PackageManager.Npm;
 }
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as childProcess from 'child_process';
+import { mkdirSync, mkdtempSync, realpathSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as rimraf from 'rimraf';
+import { PackageManager } from '../lib/config/schema';
+import * as config from './config';
+import { findPnpFile, getPackageManager, isYarnBerry } from './package-manager';
+
+describe('package-manager', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(realpathSync(tmpdir()), 'angular-cli-package-manager-'));
+  });
+
+  afterEach(() => rimraf.sync(root));
+
+  describe('isYarnBerry()', () => {
+    it('returns true for projects configured with a .yarnrc.yml file', () => {
+      writeFileSync(join(root, '.yarnrc.yml'), 'nodeLinker: pnp\n');
+
+      expect(isYarnBerry(root)).toBe(true);
+    });
+  });
+
+  describe('getPackageManager()', () => {
+    let installed: string[];
+
+    beforeEach(() => {
+      installed = ['npm', 'pnpm', 'yarn'];
+      spyOn(config, 'getConfiguredPackageManager').and.returnValue(Promise.resolve(null));
+      // The package managers are detected by running them with the `--version` option
+      spyOn(childProcess, 'execSync').and.callFake(((command: string) => {
+        if (!installed.includes(command.split(' ')[0])) {
+          throw new Error(`Command not found: ${command}`);
+        }
+
+        return '';
+      }) as typeof childProcess.execSync);
+    });
+
+    const lockfileCases: [string[], PackageManager][] = [
+      [[], PackageManager.Npm],
+      [['package-lock.json'], PackageManager.Npm],
+      [['yarn.lock'], PackageManager.Yarn],
+      [['.yarnrc.yml'], PackageManager.Yarn],
+      [['yarn.lock', '.yarnrc.yml'], PackageManager.Yarn],
+      [['pnpm-lock.yaml'], PackageManager.Pnpm],
+      [['yarn.lock', 'package-lock.json'], PackageManager.Npm],
+      [['.yarnrc.yml', 'pnpm-lock.yaml'], PackageManager.Npm],
+      [['pnpm-lock.yaml', 'package-lock.json'], PackageManager.Npm],
+      [['yarn.lock', 'pnpm-lock.yaml', 'package-lock.json'], PackageManager.Npm],
+    ];
+
+    for (const [files, packageManager] of lockfileCases) {
+      it(`returns ${packageManager} for projects with ${files.join(', ') || 'no lockfile'}`, async () => {
+        files.forEach(file => writeFileSync(join(root, file), ''));
+
+        expect(await getPackageManager(root)).toBe(packageManager);
+      });
+    }
+
+    it('ignores the lockfile of a package manager that is not installed', async () => {
+      installed = ['npm', 'yarn'];
+      writeFileSync(join(root, 'pnpm-lock.yaml'), '');
+
+      expect(await getPackageManager(root)).toBe(PackageManager.Npm);
+    });
+
+    it('returns yarn for projects without a lockfile when npm is not installed', async () => {
+      installed = ['pnpm', 'yarn'];
+
+      expect(await getPackageManager(root)).toBe(PackageManager.Yarn);
+    });
+
+    it('returns the configured package manager', async () => {
+      (config.getConfiguredPackageManager as jasmine.Spy).and.returnValue(Promise.resolve('pnpm'));
+      writeFileSync(join(root, 'yarn.lock'), '');
+
+      expect(await getPackageManager(root)).toBe(PackageManager.Pnpm);
+    });
+  });
+
+  describe('findPnpFile()', () => {
+    it('finds the Plug\'n\'Play runtime of the project', () => {
+      const projectDir = join(root, 'project');
+      mkdirSync(join(projectDir, 'src'), { recursive: true });
+      writeFileSync(join(projectDir, '.pnp.cjs'), '');
+
+      expect(findPnpFile(join(projectDir, 'src'))).toBe(join(projectDir, '.pnp.cjs'));
+      expect(findPnpFile(root)).toBeNull();
+    });
+  });
+});
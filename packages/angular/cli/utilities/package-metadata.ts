@@ -63,16 +63,37 @@ let npmrc: PackageManagerOptions;
 
 function ensureNpmrc(logger: logging.LoggerApi, usingYarn: boolean, verbose: boolean): void {
   if (!npmrc) {
+    npmrc = readPackageManagerOptions(logger, usingYarn, verbose);
+  }
+}
+
+function readPackageManagerOptions(
+  logger: logging.LoggerApi,
+  usingYarn: boolean,
+  verbose = false,
+): PackageManagerOptions {
+  let options: PackageManagerOptions = {};
+  try {
+    options = readOptions(logger, false, verbose);
+  } catch { }
+
+  if (usingYarn) {
     try {
-      npmrc = readOptions(logger, false, verbose);
+      options = { ...options, ...readOptions(logger, true, verbose) };
     } catch { }
-
-    if (usingYarn) {
-      try {
-        npmrc = { ...npmrc, ...readOptions(logger, true, verbose) };
-      } catch { }
-    }
   }
+
+  return options;
+}
+
+/**
+ * Get the registry configured in the `.npmrc` files and, when using Yarn, the `.yarnrc` files.
+ * @returns The URL of the registry without a trailing slash, or `undefined` when none is set.
+ */
+export function getConfiguredRegistry(logger: logging.LoggerApi, usingYarn: boolean): string | undefined {
+  const registry = readPackageManagerOptions(logger, usingYarn)['registry'];
+
+  return typeof registry === 'string' && registry ? registry.replace(/\/+$/, '') : undefined;
 }
 
 function readOptions(
@@ -10,6 +10,7 @@ import * as fs from 'fs';
 import { dirname, join } from 'path';
 import * as resolve from 'resolve';
 import { promisify } from 'util';
+import { isPnpEnabled } from './package-manager';
 import { NgAddSaveDepedency } from './package-metadata';
 
 const readFile = promisify(fs.readFile);
@@ -27,6 +28,7 @@ interface PackageJson {
   'ng-add'?: {
     save?: NgAddSaveDepedency;
   };
+  schematics?: string;
 }
 
 function getAllDependencies(pkg: PackageJson): Set<[string, string]> {
@@ -55,6 +57,11 @@ export async function readPackageJson(packageJsonPath: string): Promise<PackageJ
 
 export function findPackageJson(workspaceDir: string, packageName: string): string | undefined {
   try {
+    if (isPnpEnabled()) {
+      // Yarn Plug'n'Play projects do not have a `node_modules` directory to look into.
+      return require.resolve(`${packageName}/package.json`, { paths: [workspaceDir] });
+    }
+
     // avoid require.resolve here, see: https://github.com/angular/angular-cli/pull/18610#issuecomment-681980185
     const packageJsonPath = resolve.sync(`${packageName}/package.json`, { basedir: workspaceDir });
 
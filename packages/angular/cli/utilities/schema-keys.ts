@@ -0,0 +1,128 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { json } from '@angular-devkit/core';
+
+type JsonPath = (string | number)[];
+
+function resolvePointer(root: json.JsonObject, pointer: string): json.JsonObject | undefined {
+  let current: json.JsonValue | undefined = root;
+  for (const fragment of pointer.replace(/^#\/?/, '').split('/').filter(f => f !== '')) {
+    if (!json.isJsonObject(current)) {
+      return undefined;
+    }
+    current = current[fragment.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+
+  return json.isJsonObject(current) ? current : undefined;
+}
+
+/**
+ * Expand a schema into itself and its subschemas; the schemas of its local references and of
+ * its `allOf`, `anyOf` and `oneOf` combinators, as any of them can describe the value.
+ */
+function expandSchema(
+  root: json.JsonObject,
+  schema: json.JsonValue | undefined,
+  seen = new Set<json.JsonObject>(),
+): json.JsonObject[] {
+  if (schema === undefined || !json.isJsonObject(schema) || seen.has(schema)) {
+    return [];
+  }
+  seen.add(schema);
+
+  const schemas = [schema];
+  if (typeof schema.$ref === 'string' && schema.$ref.startsWith('#')) {
+    schemas.push(...expandSchema(root, resolvePointer(root, schema.$ref), seen));
+  }
+
+  for (const combinator of ['allOf', 'anyOf', 'oneOf']) {
+    const subschemas = schema[combinator];
+    if (Array.isArray(subschemas)) {
+      subschemas.forEach(subschema => schemas.push(...expandSchema(root, subschema, seen)));
+    }
+  }
+
+  return schemas;
+}
+
+function getChildSchemas(schema: json.JsonObject, fragment: string | number): json.JsonValue[] {
+  if (typeof fragment === 'number') {
+    return schema.items !== undefined ? [schema.items] : [];
+  }
+
+  const { properties, patternProperties, additionalProperties } = schema;
+  if (json.isJsonObject(properties) && properties[fragment] !== undefined) {
+    return [properties[fragment]];
+  }
+
+  const children: json.JsonValue[] = [];
+  if (json.isJsonObject(patternProperties)) {
+    for (const [pattern, child] of Object.entries(patternProperties)) {
+      if (new RegExp(pattern).test(fragment)) {
+        children.push(child);
+      }
+    }
+  }
+  if (json.isJsonObject(additionalProperties)) {
+    children.push(additionalProperties);
+  }
+
+  return children;
+}
+
+/**
+ * Get the schemas which can describe the value at a JSON path.
+ * @param root The root schema, used to resolve the local references.
+ * @param jsonPath The path of the value, such as `['projects', 'app', 'root']`.
+ */
+export function getSchemasAtPath(root: json.JsonObject, jsonPath: JsonPath): json.JsonObject[] {
+  let schemas = expandSchema(root, root);
+  for (const fragment of jsonPath) {
+    const seen = new Set<json.JsonObject>();
+    schemas = ([] as json.JsonObject[]).concat(
+      ...schemas.map(schema =>
+        ([] as json.JsonObject[]).concat(
+          ...getChildSchemas(schema, fragment).map(child => expandSchema(root, child, seen)),
+        ),
+      ),
+    );
+  }
+
+  return schemas;
+}
+
+/**
+ * Get the property names the schema allows for the object at a JSON path, sorted.
+ */
+export function getSchemaKeys(root: json.JsonObject, jsonPath: JsonPath): string[] {
+  const keys = new Set<string>();
+  for (const schema of getSchemasAtPath(root, jsonPath)) {
+    if (json.isJsonObject(schema.properties)) {
+      Object.keys(schema.properties).forEach(key => keys.add(key));
+    }
+  }
+
+  return [...keys].sort();
+}
+
+/**
+ * Get the types the schema allows for the value at a JSON path, such as `string` or `array`.
+ */
+export function getSchemaTypes(root: json.JsonObject, jsonPath: JsonPath): string[] {
+  const types = new Set<string>();
+  for (const schema of getSchemasAtPath(root, jsonPath)) {
+    const type = schema.type;
+    if (typeof type === 'string') {
+      types.add(type);
+    } else if (Array.isArray(type)) {
+      type.forEach(t => typeof t === 'string' && types.add(t));
+    }
+  }
+
+  return [...types];
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { json } from '@angular-devkit/core';
+import { workspaceSchemaPath } from './config';
+import { readAndParseJson } from './json-file';
+import { getSchemaKeys, getSchemaTypes } from './schema-keys';
+
+describe('schema-keys', () => {
+  const schema: json.JsonObject = {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      port: { type: ['number', 'string'] },
+      styles: { type: 'array', items: { $ref: '#/definitions/style' } },
+      targets: {
+        type: 'object',
+        additionalProperties: {
+          oneOf: [
+            { properties: { builder: { type: 'string' }, options: { type: 'object' } } },
+            { properties: { builder: { type: 'string' }, configurations: { type: 'object' } } },
+          ],
+        },
+      },
+    },
+    definitions: {
+      style: {
+        oneOf: [
+          { type: 'string' },
+          { type: 'object', properties: { input: { type: 'string' }, inject: { type: 'boolean' } } },
+        ],
+      },
+    },
+  };
+
+  describe('getSchemaKeys()', () => {
+    it('lists the properties of the root', () => {
+      expect(getSchemaKeys(schema, [])).toEqual(['name', 'port', 'styles', 'targets']);
+    });
+
+    it('follows references and array items', () => {
+      expect(getSchemaKeys(schema, ['styles', 0])).toEqual(['inject', 'input']);
+    });
+
+    it('lists the properties of all the combined schemas', () => {
+      expect(getSchemaKeys(schema, ['targets', 'build'])).toEqual(['builder', 'configurations', 'options']);
+    });
+
+    it('returns no keys for unknown paths', () => {
+      expect(getSchemaKeys(schema, ['unknown', 'path'])).toEqual([]);
+    });
+
+    it('lists the keys of the workspace schema', () => {
+      const workspaceSchema = readAndParseJson(workspaceSchemaPath);
+
+      expect(getSchemaKeys(workspaceSchema, [])).toContain('projects');
+      expect(getSchemaKeys(workspaceSchema, ['projects', 'app'])).toContain('architect');
+      expect(getSchemaKeys(workspaceSchema, ['cli'])).toContain('packageManager');
+    });
+  });
+
+  describe('getSchemaTypes()', () => {
+    it('lists the types of a value', () => {
+      expect(getSchemaTypes(schema, ['name'])).toEqual(['string']);
+      expect(getSchemaTypes(schema, ['port'])).toEqual(['number', 'string']);
+      expect(getSchemaTypes(schema, ['styles', 1])).toEqual(['string', 'object']);
+    });
+  });
+});
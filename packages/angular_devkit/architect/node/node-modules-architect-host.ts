@@ -6,11 +6,12 @@
  * found in the LICENSE file at https://angular.io/license
  */
 import { json, workspaces } from '@angular-devkit/core';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
 import * as path from 'path';
 import * as v8 from 'v8';
-import { BuilderInfo } from '../src';
+import { BuilderInfo, Target, targetFromTargetString, targetStringFromTarget } from '../src';
 import { Schema as BuilderSchema } from '../src/builders-schema';
-import { Target } from '../src/input-schema';
 import { ArchitectHost, Builder, BuilderSymbol } from '../src/internal';
 
 export type NodeModulesBuilderInfo = BuilderInfo & {
@@ -33,6 +34,8 @@ export interface WorkspaceHost {
   getMetadata(project: string): Promise<json.JsonObject>;
   getOptions(project: string, target: string, configuration?: string): Promise<json.JsonObject>;
   hasTarget(project: string, target: string): Promise<boolean>;
+  getDependencies?(project: string, target: string): Promise<string[]>;
+  getInputs?(project: string, target: string): Promise<string[]>;
 }
 
 function findProjectTarget(
@@ -53,6 +56,29 @@ function findProjectTarget(
   return targetDefinition;
 }
 
+/**
+ * List the files of the given paths, recursively and in a stable order. Paths that do not exist
+ * are listed as well so that removing an input changes the hash of its target.
+ */
+function listInputFiles(root: string, inputs: string[]): string[] {
+  const files: string[] = [];
+  const visit = (file: string) => {
+    if (fs.existsSync(file) && fs.statSync(file).isDirectory()) {
+      for (const entry of fs.readdirSync(file).sort()) {
+        visit(path.join(file, entry));
+      }
+    } else {
+      files.push(file);
+    }
+  };
+
+  for (const input of [...inputs].sort()) {
+    visit(path.resolve(root, input));
+  }
+
+  return files;
+}
+
 export class WorkspaceNodeModulesArchitectHost implements ArchitectHost<NodeModulesBuilderInfo> {
   private workspaceHost: WorkspaceHost;
 
@@ -102,6 +128,12 @@ export class WorkspaceNodeModulesArchitectHost implements ArchitectHost<NodeModu
         async hasTarget(project, target) {
           return !!workspaceOrHost.projects.get(project)?.targets.has(target);
         },
+        async getDependencies(project, target) {
+          return findProjectTarget(workspaceOrHost, project, target).dependsOn ?? [];
+        },
+        async getInputs(project, target) {
+          return findProjectTarget(workspaceOrHost, project, target).inputs ?? [];
+        },
       };
     }
   }
@@ -198,4 +230,59 @@ export class WorkspaceNodeModulesArchitectHost implements ArchitectHost<NodeModu
 
     throw new Error('Builder is not a builder');
   }
+
+  async getDependenciesForTarget(target: Target): Promise<Target[]> {
+    const dependencies =
+      (await this.workspaceHost.getDependencies?.(target.project, target.target)) ?? [];
+
+    // A target name without a project refers to a target of the same project.
+    return dependencies.map(dependency => dependency.includes(':')
+      ? targetFromTargetString(dependency)
+      : { project: target.project, target: dependency },
+    );
+  }
+
+  async getTargetHash(target: Target, options: json.JsonObject): Promise<string | null> {
+    const inputs = (await this.workspaceHost.getInputs?.(target.project, target.target)) ?? [];
+    // Targets without inputs cannot be cached as there is no way to know what they depend on.
+    if (inputs.length === 0) {
+      return null;
+    }
+
+    const hash = createHash('sha256');
+    hash.update(JSON.stringify({
+      builder: await this.workspaceHost.getBuilderName(target.project, target.target),
+      options,
+    }));
+
+    for (const file of listInputFiles(this._root, inputs)) {
+      hash.update('\0' + path.relative(this._root, file) + '\0');
+      if (fs.existsSync(file)) {
+        hash.update(fs.readFileSync(file));
+      }
+    }
+
+    return hash.digest('hex');
+  }
+
+  async getLastTargetHash(target: Target): Promise<string | null> {
+    try {
+      return fs.readFileSync(this.getTargetHashPath(target), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  async setLastTargetHash(target: Target, hash: string): Promise<void> {
+    const hashPath = this.getTargetHashPath(target);
+    fs.mkdirSync(path.dirname(hashPath), { recursive: true });
+    fs.writeFileSync(hashPath, hash);
+  }
+
+  private getTargetHashPath(target: Target): string {
+    // Target strings contain colons, which are not valid in file names on Windows.
+    const name = createHash('sha1').update(targetStringFromTarget(target)).digest('hex');
+
+    return path.join(this._root, 'node_modules', '.cache', 'angular-devkit-architect', name);
+  }
 }
@@ -27,7 +27,7 @@ import {
   targetStringFromTarget,
 } from './api';
 import { ArchitectHost, BuilderDescription, BuilderJobHandler } from './internal';
-import { scheduleByName, scheduleByTarget } from './schedule-by-name';
+import { createCompletedRun, scheduleByName, scheduleByTarget } from './schedule-by-name';
 
 const inputSchema = require('./input-schema.json');
 const outputSchema = require('./output-schema.json');
@@ -130,6 +130,17 @@ export interface ScheduleOptions {
   analytics?: analytics.Analytics;
 }
 
+interface TargetNode {
+  target: Target;
+  dependencies: string[];
+}
+
+interface TargetNodeResult {
+  output: BuilderOutput;
+  // Whether the target was skipped because it did not change since its last successful run.
+  cached: boolean;
+}
+
 
 /**
  * A JobRegistry that resolves builder targets from the host.
@@ -400,17 +411,168 @@ export class Architect {
       analytics: scheduleOptions.analytics,
     });
   }
-  scheduleTarget(
+  async scheduleTarget(
     target: Target,
     overrides: json.JsonObject = {},
     scheduleOptions: ScheduleOptions = {},
   ): Promise<BuilderRun> {
-    return scheduleByTarget(target, overrides, {
+    const graph = await this._resolveTargetGraph(target);
+    const node = graph.get(targetStringFromTarget(target)) as TargetNode;
+
+    // Run the dependencies first. Targets are scheduled as soon as their own dependencies are done.
+    const results = new Map<string, Promise<TargetNodeResult>>();
+    const dependencyResults = await Promise.all(
+      node.dependencies.map(name => this._runTargetNode(name, graph, results, scheduleOptions)),
+    );
+
+    const failure = dependencyResults.find(result => !result.output.success);
+    if (failure) {
+      const builderName = await this._host.getBuilderNameForTarget(target);
+      const info = builderName && await this._host.resolveBuilder(builderName);
+      if (!info) {
+        throw new Error(`No builder were found for target ${targetStringFromTarget(target)}.`);
+      }
+
+      return createCompletedRun(info, failure.output, target);
+    }
+
+    // The requested target always runs, its hash is only stored for the targets that depend on it.
+    const options = this._host.getTargetHash && await this._host.getOptionsForTarget(target);
+    const hash = options ? await this._getTargetHash(target, { ...options, ...overrides }) : null;
+
+    const run = await scheduleByTarget(target, overrides, {
       scheduler: this._scheduler,
       logger: scheduleOptions.logger || new logging.NullLogger(),
       currentDirectory: this._host.getCurrentDirectory(),
       workspaceRoot: this._host.getWorkspaceRoot(),
       analytics: scheduleOptions.analytics,
     });
+
+    if (hash !== null) {
+      // Failing to store the hash only means that the target is not skipped the next time.
+      run.result
+        .then(output => output.success ? this._setLastTargetHash(target, hash) : undefined)
+        .catch(() => {});
+    }
+
+    return run;
+  }
+
+  /**
+   * Resolve the dependencies of a target, recursively. The graph is keyed by target string.
+   */
+  private async _resolveTargetGraph(target: Target): Promise<Map<string, TargetNode>> {
+    const graph = new Map<string, TargetNode>();
+
+    const visit = async (current: Target, path: string[]): Promise<void> => {
+      const name = targetStringFromTarget(current);
+      if (path.includes(name)) {
+        throw new Error(`Circular dependency between targets: ${[...path, name].join(' -> ')}.`);
+      }
+      if (graph.has(name)) {
+        return;
+      }
+
+      const dependencies = this._host.getDependenciesForTarget
+        ? await this._host.getDependenciesForTarget(current)
+        : [];
+      graph.set(name, { target: current, dependencies: dependencies.map(targetStringFromTarget) });
+
+      for (const dependency of dependencies) {
+        await visit(dependency, [...path, name]);
+      }
+    };
+    await visit(target, []);
+
+    return graph;
+  }
+
+  private _runTargetNode(
+    name: string,
+    graph: Map<string, TargetNode>,
+    results: Map<string, Promise<TargetNodeResult>>,
+    scheduleOptions: ScheduleOptions,
+  ): Promise<TargetNodeResult> {
+    // Targets that are shared between several dependents only run once.
+    let result = results.get(name);
+    if (!result) {
+      result = this._runTargetNodeOnce(graph.get(name) as TargetNode, graph, results, scheduleOptions);
+      results.set(name, result);
+    }
+
+    return result;
+  }
+
+  private async _runTargetNodeOnce(
+    { target, dependencies }: TargetNode,
+    graph: Map<string, TargetNode>,
+    results: Map<string, Promise<TargetNodeResult>>,
+    scheduleOptions: ScheduleOptions,
+  ): Promise<TargetNodeResult> {
+    const name = targetStringFromTarget(target);
+    const logger = scheduleOptions.logger || new logging.NullLogger();
+
+    const dependencyResults = await Promise.all(
+      dependencies.map(dependency => this._runTargetNode(dependency, graph, results, scheduleOptions)),
+    );
+    const failure = dependencyResults.find(result => !result.output.success);
+    if (failure) {
+      return failure;
+    }
+
+    const options = await this._host.getOptionsForTarget(target);
+    if (options === null) {
+      throw new Error(`Invalid target: ${JSON.stringify(target)}.`);
+    }
+
+    // A target is only skipped when none of its dependencies ran again, as they might have
+    // changed outputs that the target consumes.
+    const hash = await this._getTargetHash(target, options);
+    if (
+      hash !== null
+      && dependencyResults.every(result => result.cached)
+      && this._host.getLastTargetHash
+      && await this._host.getLastTargetHash(target) === hash
+    ) {
+      logger.info(`Skipping target "${name}" as it did not change since its last successful run.`);
+
+      return { output: { success: true }, cached: true };
+    }
+
+    const run = await scheduleByTarget(target, {}, {
+      scheduler: this._scheduler,
+      logger,
+      currentDirectory: this._host.getCurrentDirectory(),
+      workspaceRoot: this._host.getWorkspaceRoot(),
+      analytics: scheduleOptions.analytics,
+    });
+    const output = await run.result;
+    await run.stop();
+
+    if (!output.success) {
+      const error = `Dependency "${name}" failed` + (output.error ? `: ${output.error}` : '.');
+
+      return { output: { ...output, error } as BuilderOutput, cached: false };
+    }
+
+    if (hash !== null) {
+      await this._setLastTargetHash(target, hash);
+    }
+
+    return { output, cached: false };
+  }
+
+  private async _getTargetHash(target: Target, options: json.JsonObject): Promise<string | null> {
+    if (!this._host.getTargetHash) {
+      return null;
+    }
+
+    return this._host.getTargetHash(target, options);
+  }
+
+  private async _setLastTargetHash(target: Target, hash: string): Promise<void> {
+    if (this._host.setLastTargetHash) {
+      await this._host.setLastTargetHash(target, hash);
+    }
   }
 }
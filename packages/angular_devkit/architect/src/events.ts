@@ -0,0 +1,200 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { json, logging } from '@angular-devkit/core';
+import {
+  BuilderOutput,
+  BuilderProgressReport,
+  BuilderProgressState,
+  Target,
+  targetStringFromTarget,
+} from './api';
+
+/**
+ * The kind of events reported by tools running builders in a machine-readable format, for
+ * example as newline delimited JSON.
+ */
+export enum BuilderEventKind {
+  Progress = 'progress',
+  Log = 'log',
+  Result = 'result',
+  Budget = 'budget',
+  Error = 'error',
+}
+
+export interface BuilderEventBase {
+  readonly kind: BuilderEventKind;
+
+  /**
+   * The time of the event, in milliseconds since the Unix epoch.
+   */
+  readonly timestamp: number;
+
+  /**
+   * The target the event relates to, as a target string (`project:target[:configuration]`).
+   */
+  readonly target?: string;
+}
+
+/**
+ * A progress report of a builder. A run reports progress for every builder it schedules, so `id`
+ * identifies the builder run the report belongs to.
+ */
+export interface BuilderProgressEvent extends BuilderEventBase {
+  readonly kind: BuilderEventKind.Progress;
+  readonly id: number;
+  readonly builder: string;
+  readonly state: BuilderProgressState;
+  readonly status?: string;
+  readonly current?: number;
+  readonly total?: number;
+  readonly error?: json.JsonValue;
+}
+
+export interface BuilderLogEvent extends BuilderEventBase {
+  readonly kind: BuilderEventKind.Log;
+  readonly level: logging.LogLevel;
+  readonly logger: string;
+  readonly message: string;
+}
+
+/**
+ * An output of a builder. Builders in watch mode report a result for every rebuild.
+ */
+export interface BuilderResultEvent extends BuilderEventBase {
+  readonly kind: BuilderEventKind.Result;
+  readonly success: boolean;
+  readonly error?: string;
+
+  /**
+   * The additional properties of the output, such as the output paths of a build.
+   */
+  readonly output: json.JsonObject;
+}
+
+/**
+ * A budget exceeded by a build. Builders report those in the `budgetFailures` property of their
+ * output.
+ */
+export interface BuilderBudgetEvent extends BuilderEventBase {
+  readonly kind: BuilderEventKind.Budget;
+  readonly severity: string;
+  readonly message: string;
+}
+
+/**
+ * An exception thrown while running a target, which ends the run.
+ */
+export interface BuilderErrorEvent extends BuilderEventBase {
+  readonly kind: BuilderEventKind.Error;
+  readonly message: string;
+  readonly stack?: string;
+}
+
+export type BuilderEvent =
+  BuilderProgressEvent
+  | BuilderLogEvent
+  | BuilderResultEvent
+  | BuilderBudgetEvent
+  | BuilderErrorEvent
+  ;
+
+function _targetString(target: Target | undefined): { target?: string } {
+  return target ? { target: targetStringFromTarget(target) } : {};
+}
+
+export function createProgressEvent(report: BuilderProgressReport): BuilderProgressEvent {
+  const event: BuilderProgressEvent = {
+    kind: BuilderEventKind.Progress,
+    timestamp: Date.now(),
+    ..._targetString(report.target),
+    id: report.id,
+    builder: report.builder.builderName,
+    state: report.state,
+  };
+
+  switch (report.state) {
+    case BuilderProgressState.Error:
+      return { ...event, error: report.error };
+    case BuilderProgressState.Waiting:
+      return { ...event, ...(report.status !== undefined ? { status: report.status } : {}) };
+    case BuilderProgressState.Running:
+      return {
+        ...event,
+        ...(report.status !== undefined ? { status: report.status } : {}),
+        current: report.current,
+        ...(report.total !== undefined ? { total: report.total } : {}),
+      };
+    default:
+      return event;
+  }
+}
+
+export function createLogEvent(entry: logging.LogEntry, target?: Target): BuilderLogEvent {
+  return {
+    kind: BuilderEventKind.Log,
+    timestamp: entry.timestamp,
+    ..._targetString(target),
+    level: entry.level,
+    logger: entry.name,
+    message: entry.message,
+  };
+}
+
+/**
+ * Create the events of a builder output; its result followed by the budgets it exceeded.
+ */
+export function createOutputEvents(output: BuilderOutput, target?: Target): BuilderEvent[] {
+  const timestamp = Date.now();
+  const { success, error, info, target: _, budgetFailures, ...rest } = output;
+  const events: BuilderEvent[] = [{
+    kind: BuilderEventKind.Result,
+    timestamp,
+    ..._targetString(target),
+    success,
+    ...(error !== undefined ? { error } : {}),
+    output: rest,
+  }];
+
+  if (Array.isArray(budgetFailures)) {
+    for (const failure of budgetFailures) {
+      if (!json.isJsonObject(failure)) {
+        continue;
+      }
+
+      events.push({
+        kind: BuilderEventKind.Budget,
+        timestamp,
+        ..._targetString(target),
+        severity: String(failure.severity),
+        message: String(failure.message),
+      });
+    }
+  }
+
+  return events;
+}
+
+export function createErrorEvent(error: unknown, target?: Target): BuilderErrorEvent {
+  return {
+    kind: BuilderEventKind.Error,
+    timestamp: Date.now(),
+    ..._targetString(target),
+    message: error instanceof Error ? error.message : String(error),
+    ...(error instanceof Error && error.stack !== undefined ? { stack: error.stack } : {}),
+  };
+}
+
+/**
+ * Write an event as a line of JSON, by default on the standard output.
+ */
+export function writeEvent(
+  event: BuilderEvent,
+  output: { write(chunk: string): boolean } = process.stdout,
+): void {
+  output.write(JSON.stringify(event) + '\n');
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { logging } from '@angular-devkit/core';
+import { BuilderInfo, BuilderProgressState, Target } from './api';
+import {
+  BuilderEventKind,
+  createErrorEvent,
+  createLogEvent,
+  createOutputEvents,
+  createProgressEvent,
+  writeEvent,
+} from './events';
+
+describe('Architect events', () => {
+  const target: Target = { project: 'app', target: 'build', configuration: 'production' };
+  const builder: BuilderInfo = {
+    builderName: '@example/builders:build',
+    description: 'Build.',
+    optionSchema: true,
+  };
+
+  it('creates progress events', () => {
+    expect(createProgressEvent({
+      id: 1,
+      builder,
+      target,
+      state: BuilderProgressState.Running,
+      current: 2,
+      total: 5,
+      status: 'Compiling...',
+    })).toEqual({
+      kind: BuilderEventKind.Progress,
+      timestamp: jasmine.any(Number),
+      target: 'app:build:production',
+      id: 1,
+      builder: '@example/builders:build',
+      state: BuilderProgressState.Running,
+      status: 'Compiling...',
+      current: 2,
+      total: 5,
+    });
+
+    expect(createProgressEvent({ id: 2, builder, state: BuilderProgressState.Error, error: 'Failed.' }))
+      .toEqual({
+        kind: BuilderEventKind.Progress,
+        timestamp: jasmine.any(Number),
+        id: 2,
+        builder: '@example/builders:build',
+        state: BuilderProgressState.Error,
+        error: 'Failed.',
+      });
+  });
+
+  it('creates log events', () => {
+    const logger = new logging.Logger('build');
+    const events: unknown[] = [];
+    logger.subscribe(entry => events.push(createLogEvent(entry, target)));
+
+    logger.warn('Something happened.');
+
+    expect(events).toEqual([{
+      kind: BuilderEventKind.Log,
+      timestamp: jasmine.any(Number),
+      target: 'app:build:production',
+      level: 'warn',
+      logger: 'build',
+      message: 'Something happened.',
+    }]);
+  });
+
+  it('creates result and budget events from outputs', () => {
+    const events = createOutputEvents({
+      success: false,
+      error: 'Budgets exceeded.',
+      info: builder,
+      outputPath: '/dist',
+      budgetFailures: [
+        { severity: 'warning', message: 'bundle initial exceeded maximum budget.' },
+        { severity: 'error', message: 'bundle main exceeded maximum budget.' },
+      ],
+    }, target);
+
+    expect(events).toEqual([
+      {
+        kind: BuilderEventKind.Result,
+        timestamp: jasmine.any(Number),
+        target: 'app:build:production',
+        success: false,
+        error: 'Budgets exceeded.',
+        output: { outputPath: '/dist' },
+      },
+      {
+        kind: BuilderEventKind.Budget,
+        timestamp: jasmine.any(Number),
+        target: 'app:build:production',
+        severity: 'warning',
+        message: 'bundle initial exceeded maximum budget.',
+      },
+      {
+        kind: BuilderEventKind.Budget,
+        timestamp: jasmine.any(Number),
+        target: 'app:build:production',
+        severity: 'error',
+        message: 'bundle main exceeded maximum budget.',
+      },
+    ]);
+  });
+
+  it('creates error events', () => {
+    const error = new Error('Cannot find builder.');
+
+    expect(createErrorEvent(error)).toEqual({
+      kind: BuilderEventKind.Error,
+      timestamp: jasmine.any(Number),
+      message: 'Cannot find builder.',
+      stack: error.stack,
+    });
+    expect(createErrorEvent('Failure.')).toEqual(jasmine.objectContaining({ message: 'Failure.' }));
+  });
+
+  it('writes events as lines of JSON', () => {
+    const chunks: string[] = [];
+    const output = { write: (chunk: string) => chunks.push(chunk) > 0 };
+    const event = createErrorEvent('Failure.');
+
+    writeEvent(event, output);
+
+    expect(chunks).toEqual([JSON.stringify(event) + '\n']);
+  });
+});
@@ -8,3 +8,4 @@
 export * from './api';
 export { Architect, ScheduleOptions } from './architect';
 export { createBuilder } from './create-builder';
+export * from './events';
@@ -357,4 +357,111 @@ describe('architect', () => {
 
     await run2.stop();
   });
+
+  describe('dependsOn', () => {
+    let events: string[];
+    const lib = { project: 'lib', target: 'build' };
+    const utils = { project: 'utils', target: 'build' };
+    const app = { project: 'app', target: 'build' };
+
+    beforeEach(() => {
+      events = [];
+      testArchitectHost.addBuilder('package:record', createBuilder(async (o: { name: string }) => {
+        events.push(`start ${o.name}`);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        events.push(`end ${o.name}`);
+
+        return { success: o.name !== 'failing' };
+      }));
+
+      testArchitectHost.addTarget(utils, 'package:record', { name: 'utils' });
+      testArchitectHost.addTarget(lib, 'package:record', { name: 'lib' }, [utils]);
+      testArchitectHost.addTarget(app, 'package:record', { name: 'app' }, [lib, utils]);
+    });
+
+    it('runs the dependencies before the target', async () => {
+      const run = await architect.scheduleTarget(app);
+      expect(await run.result).toEqual(jasmine.objectContaining({ success: true }));
+      await run.stop();
+
+      // utils is shared by app and lib but only runs once.
+      expect(events).toEqual([
+        'start utils', 'end utils',
+        'start lib', 'end lib',
+        'start app', 'end app',
+      ]);
+    });
+
+    it('runs independent dependencies in parallel', async () => {
+      testArchitectHost.addTarget(lib, 'package:record', { name: 'lib' });
+
+      const run = await architect.scheduleTarget(app);
+      expect(await run.result).toEqual(jasmine.objectContaining({ success: true }));
+      await run.stop();
+
+      expect(events.slice(0, 2)).toEqual(['start lib', 'start utils']);
+      expect(events.slice(4)).toEqual(['start app', 'end app']);
+    });
+
+    it('does not run the target when a dependency fails', async () => {
+      testArchitectHost.addTarget(utils, 'package:record', { name: 'failing' });
+
+      const run = await architect.scheduleTarget(app);
+      const output = await run.result;
+      await run.stop();
+
+      expect(output.success).toBe(false);
+      expect(output.error).toContain('Dependency "utils:build" failed');
+      expect(output.target).toEqual(jasmine.objectContaining(app));
+      expect(events).toEqual(['start failing', 'end failing']);
+    });
+
+    it('errors on circular dependencies', async () => {
+      testArchitectHost.addTarget(utils, 'package:record', { name: 'utils' }, [app]);
+
+      await expectAsync(architect.scheduleTarget(app)).toBeRejectedWithError(
+        'Circular dependency between targets: app:build -> lib:build -> utils:build -> app:build.',
+      );
+    });
+
+    it('skips dependencies that did not change since their last successful run', async () => {
+      testArchitectHost.setTargetInputs(utils, 'utils v1');
+      testArchitectHost.setTargetInputs(lib, 'lib v1');
+
+      const run1 = await architect.scheduleTarget(app);
+      expect(await run1.result).toEqual(jasmine.objectContaining({ success: true }));
+      await run1.stop();
+      expect(events.filter(e => e.startsWith('start'))).toEqual(['start utils', 'start lib', 'start app']);
+
+      events = [];
+      const run2 = await architect.scheduleTarget(app);
+      expect(await run2.result).toEqual(jasmine.objectContaining({ success: true }));
+      await run2.stop();
+      expect(events.filter(e => e.startsWith('start'))).toEqual(['start app']);
+
+      // Dependents of a changed target run again as well.
+      events = [];
+      testArchitectHost.setTargetInputs(utils, 'utils v2');
+      const run3 = await architect.scheduleTarget(app);
+      expect(await run3.result).toEqual(jasmine.objectContaining({ success: true }));
+      await run3.stop();
+      expect(events.filter(e => e.startsWith('start'))).toEqual(['start utils', 'start lib', 'start app']);
+    });
+
+    it('runs dependencies again when their options changed', async () => {
+      testArchitectHost.setTargetInputs(utils, 'utils v1');
+
+      const run1 = await architect.scheduleTarget(lib);
+      await run1.result;
+      await run1.stop();
+
+      events = [];
+      testArchitectHost.addTarget(utils, 'package:record', { name: 'utils', extra: true });
+      testArchitectHost.setTargetInputs(utils, 'utils v1');
+      const run2 = await architect.scheduleTarget(lib);
+      await run2.result;
+      await run2.stop();
+      expect(events.filter(e => e.startsWith('start'))).toEqual(['start utils', 'start lib']);
+    });
+  });
 });
@@ -81,4 +81,26 @@ export interface ArchitectHost<BuilderInfoT extends BuilderInfo = BuilderInfo> {
 
   getProjectMetadata(projectName: string): Promise<json.JsonObject | null>;
   getProjectMetadata(target: Target): Promise<json.JsonObject | null>;
+
+  /**
+   * Get the targets that need to run successfully before a target. Hosts that do not implement
+   * this method do not support target dependencies.
+   * @param target The target to inspect.
+   */
+  getDependenciesForTarget?(target: Target): Promise<Target[]>;
+
+  /**
+   * Compute a hash of the options and input files of a target. This is used to skip dependencies
+   * that did not change since their last successful run.
+   * @param target The target to hash.
+   * @param options The options the target is run with.
+   * @returns The hash, or null if the target cannot be cached.
+   */
+  getTargetHash?(target: Target, options: json.JsonObject): Promise<string | null>;
+
+  /**
+   * Get the hash of the last successful run of a target, as stored by `setLastTargetHash()`.
+   */
+  getLastTargetHash?(target: Target): Promise<string | null>;
+  setLastTargetHash?(target: Target, hash: string): Promise<void>;
 }
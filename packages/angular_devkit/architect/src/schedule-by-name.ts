@@ -6,7 +6,7 @@
  * found in the LICENSE file at https://angular.io/license
  */
 import { analytics, experimental, json, logging } from '@angular-devkit/core';
-import { EMPTY, Subscription } from 'rxjs';
+import { EMPTY, Subscription, of } from 'rxjs';
 import { catchError, first, ignoreElements, map, shareReplay } from 'rxjs/operators';
 import {
   BuilderInfo,
@@ -137,3 +137,28 @@ export async function scheduleByTarget(
     logger: options.logger,
   });
 }
+
+/**
+ * Create a run that completes with the given output without scheduling its builder. This is used
+ * for targets that cannot run, for example because one of their dependencies failed.
+ */
+export function createCompletedRun(
+  info: BuilderInfo,
+  output: BuilderOutput,
+  target?: Target,
+): BuilderRun {
+  const value = {
+    ...output,
+    ...target ? { target } : 0,
+    info,
+  } as BuilderOutput;
+
+  return {
+    id: ++_uniqueId,
+    info,
+    result: Promise.resolve(value),
+    output: of(value),
+    progress: EMPTY,
+    async stop() {},
+  };
+}
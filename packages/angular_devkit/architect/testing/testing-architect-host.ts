@@ -12,7 +12,13 @@ import { ArchitectHost, Builder } from '../src/internal';
 export class TestingArchitectHost implements ArchitectHost {
   private _builderImportMap = new Map<string, Builder>();
   private _builderMap = new Map<string, BuilderInfo>();
-  private _targetMap = new Map<string, { builderName: string, options: json.JsonObject }>();
+  private _targetMap = new Map<string, {
+    builderName: string,
+    options: json.JsonObject,
+    dependsOn: Target[],
+    inputs?: string,
+  }>();
+  private _targetHashMap = new Map<string, string>();
 
   /**
    * Can provide a backend host, in case of integration tests.
@@ -61,8 +67,27 @@ export class TestingArchitectHost implements ArchitectHost {
       this.addBuilder(`${packageJson.name}:${builderName}`, handler, b.description, optionsSchema);
     }
   }
-  addTarget(target: Target, builderName: string, options: json.JsonObject = {}) {
-    this._targetMap.set(targetStringFromTarget(target), { builderName, options });
+  addTarget(
+    target: Target,
+    builderName: string,
+    options: json.JsonObject = {},
+    dependsOn: Target[] = [],
+  ) {
+    this._targetMap.set(targetStringFromTarget(target), { builderName, options, dependsOn });
+  }
+
+  /**
+   * Set the content of the input files of a target. Targets without inputs are never cached.
+   * @param target The target to update.
+   * @param inputs A string standing for the content of the input files of the target.
+   */
+  setTargetInputs(target: Target, inputs: string | undefined) {
+    const maybeTarget = this._targetMap.get(targetStringFromTarget(target));
+    if (!maybeTarget) {
+      throw new Error(`Target ${targetStringFromTarget(target)} does not exist.`);
+    }
+
+    maybeTarget.inputs = inputs;
   }
 
   async getBuilderNameForTarget(target: Target): Promise<string | null> {
@@ -113,4 +138,31 @@ export class TestingArchitectHost implements ArchitectHost {
         || (this._backendHost && this._backendHost.loadBuilder(info));
   }
 
+  async getDependenciesForTarget(target: Target): Promise<Target[]> {
+    const maybeTarget = this._targetMap.get(targetStringFromTarget(target));
+    if (!maybeTarget) {
+      return (this._backendHost && this._backendHost.getDependenciesForTarget)
+        ? this._backendHost.getDependenciesForTarget(target)
+        : [];
+    }
+
+    return maybeTarget.dependsOn;
+  }
+
+  async getTargetHash(target: Target, options: json.JsonObject): Promise<string | null> {
+    const maybeTarget = this._targetMap.get(targetStringFromTarget(target));
+    if (!maybeTarget || maybeTarget.inputs === undefined) {
+      return null;
+    }
+
+    return JSON.stringify({ options, inputs: maybeTarget.inputs });
+  }
+
+  async getLastTargetHash(target: Target): Promise<string | null> {
+    return this._targetHashMap.get(targetStringFromTarget(target)) ?? null;
+  }
+
+  async setLastTargetHash(target: Target, hash: string): Promise<void> {
+    this._targetHashMap.set(targetStringFromTarget(target), hash);
+  }
 }
@@ -6,7 +6,17 @@
  * Use of this source code is governed by an MIT-style license that can be
  * found in the LICENSE file at https://angular.io/license
  */
-import { Architect, BuilderInfo, BuilderProgressState, Target } from '@angular-devkit/architect';
+import {
+  Architect,
+  BuilderInfo,
+  BuilderProgressState,
+  Target,
+  createErrorEvent,
+  createLogEvent,
+  createOutputEvents,
+  createProgressEvent,
+  writeEvent,
+} from '@angular-devkit/architect';
 import { WorkspaceNodeModulesArchitectHost } from '@angular-devkit/architect/node';
 import { logging, schema, tags, workspaces } from '@angular-devkit/core';
 import { NodeJsSyncHost, createConsoleLogger } from '@angular-devkit/core/node';
@@ -51,6 +61,8 @@ function usage(logger: logging.Logger, exitCode = 0): never {
     Options:
         --help              Show available options for project target.
                             Shows this message instead when ran without the run argument.
+        --json              Output newline delimited JSON events instead of text. Events report
+                            the progress, the logs and the results of the target.
 
 
     Any additional option is passed the target, overriding existing options.
@@ -89,6 +101,12 @@ async function _executeTarget(
   const targetSpec = { project, target, configuration };
 
   delete argv['help'];
+  if (argv['json']) {
+    delete argv['json'];
+
+    return _executeTargetWithEvents(architect, targetSpec, argv);
+  }
+
   const logger = new logging.Logger('jobs');
   const logs: logging.LogEntry[] = [];
   logger.subscribe(entry => logs.push({ ...entry, message: `${entry.name}: ` + entry.message }));
@@ -172,12 +190,39 @@ async function _executeTarget(
   }
 }
 
+async function _executeTargetWithEvents(
+  architect: Architect,
+  targetSpec: Target,
+  argv: minimist.ParsedArgs,
+) {
+  const logger = new logging.Logger('jobs');
+  logger.subscribe(entry => writeEvent(createLogEvent(entry, targetSpec)));
+
+  try {
+    const { _, ...options } = argv;
+    const run = await architect.scheduleTarget(targetSpec, options, { logger });
+    run.progress.subscribe(update => writeEvent(createProgressEvent(update)));
+
+    const { success } = await run.output
+      .pipe(tap(result => createOutputEvents(result, targetSpec).forEach(event => writeEvent(event))))
+      .toPromise();
+
+    await run.stop();
+
+    return success ? 0 : 1;
+  } catch (err) {
+    writeEvent(createErrorEvent(err, targetSpec));
+
+    return 2;
+  }
+}
+
 async function main(args: string[]): Promise<number> {
   /** Parse the command line. */
-  const argv = minimist(args, { boolean: ['help'] });
+  const argv = minimist(args, { boolean: ['help', 'json'] });
 
   /** Create the DevKit Logger used through the CLI. */
-  const logger = createConsoleLogger(argv['verbose'], process.stdout, process.stderr, {
+  const logger = argv['json'] ? _createEventLogger() : createConsoleLogger(argv['verbose'], process.stdout, process.stderr, {
     info: s => s,
     debug: s => s,
     warn: s => colors.bold.yellow(s),
@@ -220,12 +265,25 @@ async function main(args: string[]): Promise<number> {
     workspaces.createWorkspaceHost(new NodeJsSyncHost()),
   );
 
-  // Clear the console.
-  process.stdout.write('\u001Bc');
+  if (!argv['json']) {
+    // Clear the console.
+    process.stdout.write('\u001Bc');
+  }
 
   return await _executeTarget(logger, workspace, root, argv, registry);
 }
 
+/**
+ * Create a logger which writes its entries as log events, so the standard output only contains
+ * JSON events.
+ */
+function _createEventLogger() {
+  const logger = new logging.Logger('architect');
+  logger.subscribe(entry => writeEvent(createLogEvent(entry)));
+
+  return logger;
+}
+
 main(process.argv.slice(2)).then(
   code => {
     process.exit(code);
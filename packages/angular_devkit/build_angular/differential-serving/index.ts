@@ -0,0 +1,18 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+// This entry point is loaded by production servers, it must not import webpack or any other
+// build dependency.
+export {
+  DIFFERENTIAL_SERVING_MANIFEST,
+  DifferentialServingEnvironment,
+  DifferentialServingManifest,
+  DifferentialServingMiddleware,
+  DifferentialServingMiddlewareOptions,
+  createDifferentialServingMiddleware,
+} from '../src/utils/differential-serving';
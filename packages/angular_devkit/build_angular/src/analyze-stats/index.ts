@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { BuilderContext, BuilderOutput, createBuilder } from '@angular-devkit/architect';
+import { JsonObject } from '@angular-devkit/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as webpack from 'webpack';
+import {
+  analyzeStats,
+  compareStats,
+  formatStatsComparison,
+  generateStatsReport,
+} from '../webpack/utils/stats-analyzer';
+import { Schema } from './schema';
+
+export type AnalyzeStatsBuilderOptions = Schema & JsonObject;
+
+function readStats(statsPath: string): webpack.Stats.ToJsonOutput {
+  let stats;
+  try {
+    stats = JSON.parse(fs.readFileSync(statsPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Unable to read stats file "${statsPath}": ${error.message}`);
+  }
+
+  if (!Array.isArray(stats?.chunks) || !Array.isArray(stats.assets)) {
+    throw new Error(
+      `Stats file "${statsPath}" does not contain chunks and assets. ` +
+      `Generate it with the 'statsJson' option of the browser builder.`,
+    );
+  }
+
+  return stats;
+}
+
+export async function execute(
+  options: AnalyzeStatsBuilderOptions,
+  context: BuilderContext,
+): Promise<BuilderOutput> {
+  const root = context.workspaceRoot;
+  const maxEntries = options.maxEntries ?? 10;
+
+  let comparison;
+  try {
+    const analysis = analyzeStats(readStats(path.resolve(root, options.stats)), maxEntries);
+    const base = options.baseStats
+      ? analyzeStats(readStats(path.resolve(root, options.baseStats)), maxEntries)
+      : undefined;
+
+    comparison = compareStats(analysis, base);
+  } catch (error) {
+    context.logger.error(error.message);
+
+    return { success: false };
+  }
+
+  context.logger.info(formatStatsComparison(comparison, maxEntries));
+
+  const reportPath = path.resolve(
+    root,
+    options.reportPath || path.join(path.dirname(options.stats), 'stats-report.html'),
+  );
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, generateStatsReport(comparison));
+  context.logger.info(`Report written to ${path.relative(root, reportPath)}.`);
+
+  return { success: true };
+}
+
+export default createBuilder<AnalyzeStatsBuilderOptions>(execute);
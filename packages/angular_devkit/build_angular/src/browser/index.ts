@@ -26,10 +26,22 @@ import {
 } from '../utils';
 import { BundleActionExecutor } from '../utils/action-executor';
 import { WebpackConfigOptions } from '../utils/build-options';
-import { ThresholdSeverity, checkBudgets } from '../utils/bundle-calculator';
+import {
+  SizeManifest,
+  ThresholdSeverity,
+  checkBudgets,
+  checkSizeIncreases,
+  generateSizeManifest,
+  readSizeManifest,
+} from '../utils/bundle-calculator';
 import { findCachePath } from '../utils/cache-path';
 import { colors } from '../utils/color';
 import { copyAssets } from '../utils/copy-assets';
+import {
+  DIFFERENTIAL_SERVING_MANIFEST,
+  DifferentialServingManifest,
+  getEnvironmentIndexFile,
+} from '../utils/differential-serving';
 import { cachingDisabled } from '../utils/environment-options';
 import { mkdir, writeFile } from '../utils/fs';
 import { i18nInlineEmittedFiles } from '../utils/i18n-inlining';
@@ -57,12 +69,14 @@ import {
   getAotConfig,
   getBrowserConfig,
   getCommonConfig,
+  getFederationConfig,
   getNonAotConfig,
   getStatsConfig,
   getStylesConfig,
   getWorkerConfig,
   normalizeExtraEntryPoints,
 } from '../webpack/configs';
+import { AnyComponentStyleBudgetChecker } from '../webpack/plugins';
 import { NgBuildAnalyticsPlugin } from '../webpack/plugins/analytics';
 import { markAsyncChunksNonInitial } from '../webpack/utils/async-chunks';
 import {
@@ -75,7 +89,7 @@ import {
   statsWarningsToString,
   webpackStatsLogger,
 } from '../webpack/utils/stats';
-import { Schema as BrowserBuilderSchema } from './schema';
+import { Schema as BrowserBuilderSchema, SizeIncreaseSeverity } from './schema';
 
 const cacheDownlevelPath = cachingDisabled ? undefined : findCachePath('angular-build-dl');
 
@@ -87,6 +101,10 @@ export type BrowserBuilderOutput = json.JsonObject &
      * @deprecated in version 9. Use 'outputPaths' instead.
      */
     outputPath: string;
+    /**
+     * The budgets that were exceeded by the build, if any.
+     */
+    budgetFailures?: { severity: ThresholdSeverity; message: string }[];
   };
 
 export function getAnalyticsConfig(
@@ -129,6 +147,7 @@ async function initialize(
   context: BuilderContext,
   host: virtualFs.Host<fs.Stats>,
   differentialLoadingMode: boolean,
+  budgetBaselineManifest: SizeManifest | undefined,
   webpackConfigurationTransform?: ExecutionTransformer<webpack.Configuration>,
 ): Promise<{
   config: webpack.Configuration;
@@ -157,9 +176,10 @@ async function initialize(
       getAnalyticsConfig(wco, context),
       getCompilerConfig(wco),
       wco.buildOptions.webWorkerTsConfig ? getWorkerConfig(wco) : {},
+      getFederationConfig(wco),
     ],
     host,
-    { differentialLoadingMode },
+    { differentialLoadingMode, budgetBaselineManifest },
   );
 
   // Validate asset option values if processed directly
@@ -209,6 +229,7 @@ export function buildWebpackBrowser(
 
   const baseOutputPath = path.resolve(context.workspaceRoot, options.outputPath);
   let outputPaths: undefined | Map<string, string>;
+  let budgetBaseline: SizeManifest | undefined;
 
   // Check Angular version.
   assertCompatibleAngularVersion(context.workspaceRoot, context.logger);
@@ -235,6 +256,16 @@ export function buildWebpackBrowser(
         `);
         }
 
+        if (options.differentialServing && !differentialLoadingMode) {
+          context.logger.warn(tags.oneLine`
+            Warning: The 'differentialServing' option is ignored because differential loading is
+            ${isDifferentialLoadingNeeded ? 'not used in watch mode' : 'not needed for the supported browsers'}.
+          `);
+        } else if (options.differentialServing) {
+          // Validate the browserslist environments before building
+          buildBrowserFeatures.getDifferentialServingBrowsers();
+        }
+
         const hasIE9 = buildBrowserFeatures.supportedBrowsers.includes('ie 9');
         const hasIE10 = buildBrowserFeatures.supportedBrowsers.includes('ie 10');
         if (hasIE9 || hasIE10) {
@@ -248,8 +279,12 @@ export function buildWebpackBrowser(
           );
         }
 
+        budgetBaseline = options.budgetBaseline
+          ? readSizeManifest(path.resolve(context.workspaceRoot, options.budgetBaseline))
+          : undefined;
+
         return {
-          ...(await initialize(options, context, host, differentialLoadingMode, transforms.webpackConfiguration)),
+          ...(await initialize(options, context, host, differentialLoadingMode, budgetBaseline, transforms.webpackConfiguration)),
           buildBrowserFeatures,
           isDifferentialLoadingNeeded,
           target,
@@ -258,6 +293,10 @@ export function buildWebpackBrowser(
       // tslint:disable-next-line: no-big-function
       switchMap(({ config, projectRoot, projectSourceRoot, i18n, buildBrowserFeatures, isDifferentialLoadingNeeded, target }) => {
         const normalizedOptimization = normalizeOptimization(options.optimization);
+        const componentStyleBudgetChecker = config.plugins?.find(
+          (plugin): plugin is AnyComponentStyleBudgetChecker =>
+            plugin instanceof AnyComponentStyleBudgetChecker,
+        );
 
         return runWebpack(config, context, {
           webpackFactory: require('webpack') as typeof webpack,
@@ -300,6 +339,8 @@ export function buildWebpackBrowser(
               return { success };
             } else {
               const bundleInfoStats: BundleStats[] = [];
+              const processResults: ProcessBundleResult[] = [];
+              const budgetFailures: { severity: ThresholdSeverity; message: string }[] = [];
               outputPaths = ensureOutputPaths(baseOutputPath, i18n);
 
               let noModuleFiles: EmittedFiles[] | undefined;
@@ -448,7 +489,6 @@ export function buildWebpackBrowser(
 
                 const processActions: typeof actions = [];
                 let processRuntimeAction: ProcessBundleOptions | undefined;
-                const processResults: ProcessBundleResult[] = [];
                 for (const action of actions) {
                   // If SRI is enabled always process the runtime bundle
                   // Lazy route integrity values are stored in the runtime bundle
@@ -604,7 +644,12 @@ export function buildWebpackBrowser(
 
                 // Check for budget errors and display them to the user.
                 const budgets = options.budgets || [];
-                const budgetFailures = checkBudgets(budgets, webpackStats, processResults);
+                budgetFailures.push(...checkBudgets(
+                  budgets,
+                  webpackStats,
+                  processResults,
+                  budgetBaseline,
+                ));
                 for (const { severity, message } of budgetFailures) {
                   switch (severity) {
                     case ThresholdSeverity.Warning:
@@ -685,7 +730,7 @@ export function buildWebpackBrowser(
 
                   for (const [locale, outputPath] of outputPaths.entries()) {
                     try {
-                      const { content, warnings, errors } = await indexHtmlGenerator.process({
+                      const processOptions = {
                         baseHref: getLocaleBaseHref(i18n, locale) || options.baseHref,
                         // i18nLocale is used when Ivy is disabled
                         lang: locale || options.i18nLocale,
@@ -693,7 +738,8 @@ export function buildWebpackBrowser(
                         files: mapEmittedFilesToFileInfo(files),
                         noModuleFiles: mapEmittedFilesToFileInfo(noModuleFiles),
                         moduleFiles: mapEmittedFilesToFileInfo(moduleFiles),
-                      });
+                      };
+                      const { content, warnings, errors } = await indexHtmlGenerator.process(processOptions);
 
                       if (warnings.length || errors.length) {
                         spinner.stop();
@@ -705,6 +751,41 @@ export function buildWebpackBrowser(
                       const indexOutput = path.join(outputPath, getIndexOutputFile(options.index));
                       await mkdir(path.dirname(indexOutput), { recursive: true });
                       await writeFile(indexOutput, content);
+
+                      if (options.differentialServing && isDifferentialLoadingNeeded && !options.watch) {
+                        // Modern browsers only load the module scripts, legacy browsers load the ES5 scripts
+                        // without relying on the 'nomodule' attribute.
+                        const { modern, legacy } = buildBrowserFeatures.getDifferentialServingBrowsers();
+                        const environments = [
+                          { name: 'modern', browsers: modern, options: { ...processOptions, noModuleFiles: [] } },
+                          {
+                            name: 'legacy',
+                            browsers: legacy,
+                            options: {
+                              ...processOptions,
+                              files: [...processOptions.files, ...processOptions.noModuleFiles],
+                              noModuleFiles: [],
+                              moduleFiles: [],
+                            },
+                          },
+                        ];
+
+                        const manifest: DifferentialServingManifest = {
+                          index: getIndexOutputFile(options.index),
+                          environments: [],
+                        };
+                        for (const { name, browsers, options: environmentOptions } of environments) {
+                          const index = getEnvironmentIndexFile(manifest.index, name);
+                          const result = await indexHtmlGenerator.process(environmentOptions);
+                          await writeFile(path.join(outputPath, index), result.content);
+                          manifest.environments.push({ name, index, browsers });
+                        }
+
+                        await writeFile(
+                          path.join(outputPath, DIFFERENTIAL_SERVING_MANIFEST),
+                          JSON.stringify(manifest, undefined, 2),
+                        );
+                      }
                     } catch (error) {
                       spinner.fail('Index html generation failed.');
 
@@ -738,9 +819,47 @@ export function buildWebpackBrowser(
                 }
               }
 
+              if (budgetBaseline || options.sizeManifest) {
+                const sizeManifest = generateSizeManifest(
+                  webpackStats,
+                  processResults,
+                  componentStyleBudgetChecker?.componentStyleSizes.values(),
+                );
+
+                if (budgetBaseline) {
+                  const severity = options.sizeIncreaseSeverity === SizeIncreaseSeverity.Error
+                    ? ThresholdSeverity.Error
+                    : ThresholdSeverity.Warning;
+                  const increases = checkSizeIncreases(budgetBaseline, sizeManifest, severity);
+                  budgetFailures.push(...increases);
+                  for (const { message } of increases) {
+                    switch (severity) {
+                      case ThresholdSeverity.Warning:
+                        webpackStats.warnings.push(message);
+                        break;
+                      case ThresholdSeverity.Error:
+                        webpackStats.errors.push(message);
+                        break;
+                      default:
+                        assertNever(severity);
+                    }
+                  }
+                }
+
+                if (options.sizeManifest) {
+                  await writeFile(
+                    path.join(baseOutputPath, 'size-manifest.json'),
+                    JSON.stringify(sizeManifest, undefined, 2),
+                  );
+                }
+              }
+
               webpackStatsLogger(context.logger, webpackStats, config, bundleInfoStats);
 
-              return { success: !statsHasErrors(webpackStats) };
+              return {
+                success: !statsHasErrors(webpackStats),
+                ...(budgetFailures.length > 0 ? { budgetFailures } : {}),
+              };
             }
           }),
           map(
@@ -208,4 +208,33 @@ describe('Browser Builder with differential loading', () => {
       '<script src="main.js" type="module"></script>',
     );
   });
+
+  it('writes an index file for each environment with differential serving', async () => {
+    host.writeMultipleFiles({
+      '.browserslistrc': `
+        last 1 chrome version
+        IE 11
+      `,
+    });
+
+    const { files } = await browserBuild(architect, host, target, { differentialServing: true });
+
+    const modernIndex = await files['index.modern.html'];
+    expect(modernIndex).toContain('<script src="main-es2015.js" type="module"></script>');
+    expect(modernIndex).not.toContain('es5.js');
+
+    const legacyIndex = await files['index.legacy.html'];
+    expect(legacyIndex).toContain('<script src="main-es5.js" defer></script>');
+    expect(legacyIndex).not.toContain('es2015.js');
+    expect(legacyIndex).not.toContain('nomodule');
+
+    const manifest = JSON.parse(await files['differential-serving.json']);
+    expect(manifest).toEqual({
+      index: 'index.html',
+      environments: [
+        { name: 'modern', index: 'index.modern.html', browsers: [jasmine.stringMatching(/^chrome /)] },
+        { name: 'legacy', index: 'index.legacy.html', browsers: ['ie 11'] },
+      ],
+    });
+  });
 });
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { buildWebpackBrowser } from '../../index';
+import { LocalizeMode } from '../../schema';
+import { BASE_OPTIONS, BROWSER_BUILDER_INFO, describeBuilder } from '../setup';
+
+describeBuilder(buildWebpackBrowser, BROWSER_BUILDER_INFO, (harness) => {
+  describe('Option: "localizeMode"', () => {
+    beforeEach(async () => {
+      harness.useProject('test', {
+        root: '.',
+        sourceRoot: 'src',
+        i18n: {
+          sourceLocale: 'en-US',
+          locales: { fr: 'src/locales/messages.fr.json' },
+        },
+      });
+
+      await harness.writeFile(
+        'src/locales/messages.fr.json',
+        JSON.stringify({ locale: 'fr', translations: { greeting: 'Bonjour {$name} !' } }),
+      );
+      await harness.writeFile(
+        'src/main.ts',
+        `import '@angular/localize/init';\n` +
+          'const name = "World";\n' +
+          'console.log($localize`:@@greeting:Hello ${name}:name:!`);\n',
+      );
+    });
+
+    it('emits untranslated bundles and a translation file per locale when set to "runtime"', async () => {
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+        polyfills: 'src/polyfills.ts',
+        localizeMode: LocalizeMode.Runtime,
+      });
+
+      const { result } = await harness.executeOnce();
+
+      expect(result?.success).toBe(true);
+
+      harness.expectFile('dist/main.js').content.toContain('$localize');
+      harness.expectFile('dist/polyfills.js').content.toContain('ngLocalize');
+      harness.expectFile('dist/fr/main.js').toNotExist();
+
+      const translations = JSON.parse(harness.readFile('dist/i18n/fr.json'));
+      expect(translations.locale).toBe('fr');
+      expect(translations.translations).toEqual({ greeting: 'Bonjour {$name} !' });
+      expect(translations.localeData).toBe('fr.js');
+      harness.expectFile('dist/i18n/fr.js').toExist();
+      harness.expectFile('dist/i18n/en-US.json').toExist();
+    });
+
+    it('only emits translation files for the requested locales', async () => {
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+        localize: ['en-US'],
+        localizeMode: LocalizeMode.Runtime,
+      });
+
+      const { result } = await harness.executeOnce();
+
+      expect(result?.success).toBe(true);
+
+      harness.expectFile('dist/i18n/en-US.json').toExist();
+      harness.expectFile('dist/i18n/fr.json').toNotExist();
+    });
+  });
+});
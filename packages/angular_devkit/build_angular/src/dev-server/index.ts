@@ -22,22 +22,32 @@ import * as url from 'url';
 import * as webpack from 'webpack';
 import * as webpackDevServer from 'webpack-dev-server';
 import { getAnalyticsConfig, getCompilerConfig } from '../browser';
-import { OutputHashing, Schema as BrowserBuilderSchema } from '../browser/schema';
+import { LocalizeMode, OutputHashing, Schema as BrowserBuilderSchema } from '../browser/schema';
 import { ExecutionTransformer } from '../transforms';
 import { BuildBrowserFeatures, normalizeOptimization } from '../utils';
 import { findCachePath } from '../utils/cache-path';
 import { checkPort } from '../utils/check-port';
 import { colors } from '../utils/color';
+import { createDifferentialServingMiddleware, getEnvironmentIndexFile } from '../utils/differential-serving';
 import { I18nOptions } from '../utils/i18n-options';
 import { IndexHtmlTransform } from '../utils/index-file/index-html-generator';
 import { generateEntryPoints } from '../utils/package-chunk-sort';
 import { readTsconfig } from '../utils/read-tsconfig';
+import { urlJoin } from '../utils/url';
 import { assertCompatibleAngularVersion } from '../utils/version';
 import { generateI18nBrowserWebpackConfigFromContext, getIndexInputFile, getIndexOutputFile } from '../utils/webpack-browser-config';
 import { addError, addWarning } from '../utils/webpack-diagnostics';
-import { getBrowserConfig, getCommonConfig, getStatsConfig, getStylesConfig, getWorkerConfig } from '../webpack/configs';
+import {
+  getBrowserConfig,
+  getCommonConfig,
+  getFederationConfig,
+  getStatsConfig,
+  getStylesConfig,
+  getWorkerConfig,
+} from '../webpack/configs';
 import { getDevServerConfig } from '../webpack/configs/dev-server';
 import { IndexHtmlWebpackPlugin } from '../webpack/plugins/index-html-webpack-plugin';
+import { LocalizedBundlesPlugin } from '../webpack/plugins/localized-bundles-plugin';
 import { createWebpackLoggingCallback } from '../webpack/utils/stats';
 import { Schema } from './schema';
 
@@ -90,6 +100,7 @@ export function serveWebpackBrowser(
     webpackConfig: webpack.Configuration;
     projectRoot: string;
     locale: string | undefined;
+    locales: Map<string, LocaleServeOptions> | undefined;
   }> {
     // Get the browser configuration from the target name.
     const rawBrowserOptions = (await context.getTargetOptions(browserTarget)) as json.JsonObject & BrowserBuilderSchema;
@@ -122,6 +133,14 @@ export function serveWebpackBrowser(
     // In dev server we should not have budgets because of extra libs such as socks-js
     overrides.budgets = undefined;
 
+    // Allow a shell application to be served against remotes that are served locally
+    if (options.federationRemotes && rawBrowserOptions.federation) {
+      overrides.federation = {
+        ...rawBrowserOptions.federation,
+        remotes: { ...rawBrowserOptions.federation.remotes, ...options.federationRemotes },
+      };
+    }
+
     if (rawBrowserOptions.outputHashing && rawBrowserOptions.outputHashing !== OutputHashing.None) {
       // Disable output hashing for dev build as this can cause memory leaks
       // See: https://github.com/webpack/webpack-dev-server/issues/377#issuecomment-241258405
@@ -147,6 +166,7 @@ export function serveWebpackBrowser(
         getAnalyticsConfig(wco, context),
         getCompilerConfig(wco),
         browserOptions.webWorkerTsConfig ? getWorkerConfig(wco) : {},
+        getFederationConfig(wco),
       ],
       host,
       devServerOptions,
@@ -215,14 +235,18 @@ export function serveWebpackBrowser(
     }
 
     let locale: string | undefined;
+    let locales: Map<string, LocaleServeOptions> | undefined;
     if (browserOptions.i18nLocale) {
       // Deprecated VE option
       locale = browserOptions.i18nLocale;
+    } else if (i18n.shouldInline && i18n.inlineLocales.size > 1) {
+      // Multiple locales are only supported with Ivy, which is validated with the i18n options
+      locales = getLocaleServeOptions(i18n, browserOptions.baseHref, config.devServer.publicPath || '/');
     } else if (i18n.shouldInline) {
-      // Dev-server only supports one locale
       locale = [...i18n.inlineLocales][0];
-    } else if (i18n.hasDefinedSourceLocale) {
+    } else if (i18n.hasDefinedSourceLocale && browserOptions.localizeMode !== LocalizeMode.Runtime) {
       // use source locale if not localizing
+      // Runtime localization keeps the messages untranslated to translate them in the browser
       locale = i18n.sourceLocale;
     }
 
@@ -233,16 +257,15 @@ export function serveWebpackBrowser(
       // Only supported with Ivy
       const tsConfig = readTsconfig(browserOptions.tsConfig, workspaceRoot);
       if (tsConfig.options.enableIvy !== false) {
-        if (i18n.inlineLocales.size > 1) {
-          throw new Error(
-            'The development server only supports localizing a single locale per build.',
-          );
-        }
-
         await setupLocalize(locale, i18n, browserOptions, webpackConfig);
       }
     }
 
+    // If multiple locales are defined, serve each locale from its own path
+    if (locales) {
+      setupLocales(locales, i18n, browserOptions, webpackConfig, workspaceRoot);
+    }
+
     if (transforms.webpackConfiguration) {
       webpackConfig = await transforms.webpackConfiguration(webpackConfig);
     }
@@ -252,11 +275,12 @@ export function serveWebpackBrowser(
       webpackConfig,
       projectRoot,
       locale,
+      locales,
     };
   }
 
   return from(setup()).pipe(
-    switchMap(({ browserOptions, webpackConfig, projectRoot, locale }) => {
+    switchMap(({ browserOptions, webpackConfig, projectRoot, locale, locales }) => {
       const normalizedOptimization = normalizeOptimization(browserOptions.optimization);
 
       if (browserOptions.index) {
@@ -270,12 +294,28 @@ export function serveWebpackBrowser(
           ? generateEntryPoints({ scripts: [], styles })
           : [];
 
+        const indexOutputFile = getIndexOutputFile(browserOptions.index);
+        // Each locale has its own index file which loads the localized bundles
+        const indexFiles = locales
+          ? [...locales].map(([lang, localeOptions]) => ({
+            outputPath: path.posix.join(localeOptions.outputPath, indexOutputFile),
+            baseHref: localeOptions.baseHref,
+            lang,
+          }))
+          : [{ outputPath: indexOutputFile, baseHref, lang: locale }];
+
+        let differentialServing = !!browserOptions.differentialServing && moduleEntrypoints.length > 0;
+        if (differentialServing && locales) {
+          differentialServing = false;
+          logger.warn(`Warning: The 'differentialServing' option is not supported when serving multiple locales.`);
+        }
+
         webpackConfig.plugins = [...(webpackConfig.plugins || [])];
-        webpackConfig.plugins.push(
-          new IndexHtmlWebpackPlugin({
+        for (const indexFile of indexFiles) {
+          const indexOptions = {
             indexPath: path.resolve(workspaceRoot, getIndexInputFile(browserOptions.index)),
-            outputPath: getIndexOutputFile(browserOptions.index),
-            baseHref,
+            outputPath: indexFile.outputPath,
+            baseHref: indexFile.baseHref,
             entrypoints,
             moduleEntrypoints,
             noModuleEntrypoints: ['polyfills-es5'],
@@ -285,9 +325,30 @@ export function serveWebpackBrowser(
             optimization: normalizedOptimization,
             WOFFSupportNeeded: !buildBrowserFeatures.isFeatureSupported('woff2'),
             crossOrigin: browserOptions.crossOrigin,
-            lang: locale,
-          }),
-        );
+            lang: indexFile.lang,
+          };
+          webpackConfig.plugins.push(new IndexHtmlWebpackPlugin(indexOptions));
+
+          // Modern browsers are served an index file without the ES5 polyfills.
+          if (differentialServing) {
+            webpackConfig.plugins.push(
+              new IndexHtmlWebpackPlugin({
+                ...indexOptions,
+                outputPath: getEnvironmentIndexFile(indexFile.outputPath, 'modern'),
+                entrypoints: entrypoints.filter(entrypoint => entrypoint !== 'polyfills-es5'),
+                noModuleEntrypoints: [],
+              }),
+            );
+          }
+        }
+
+        if (differentialServing) {
+          setupDifferentialServing(
+            webpackConfig,
+            indexOutputFile,
+            buildBrowserFeatures.getDifferentialServingBrowsers().modern,
+          );
+        }
       }
 
       if (normalizedOptimization.scripts || normalizedOptimization.styles.minify) {
@@ -327,6 +388,13 @@ export function serveWebpackBrowser(
               **
             ` + '\n');
 
+            if (locales) {
+              const localeAddresses = [...locales].map(([locale, { baseHref }]) =>
+                `  ${locale}: ${url.resolve(serverAddress, baseHref)}`,
+              );
+              logger.info(`Locales are served on:\n${localeAddresses.join('\n')}\n`);
+            }
+
             if (options.open) {
               const open = require('open');
               open(serverAddress);
@@ -344,6 +412,114 @@ export function serveWebpackBrowser(
   );
 }
 
+/**
+ * Serve the modern index file to modern browsers. Bundles are not downleveled when serving, so
+ * other browsers are served the default index file.
+ */
+function setupDifferentialServing(
+  webpackConfig: webpack.Configuration,
+  indexOutputFile: string,
+  modernBrowsers: string[],
+) {
+  const middleware = createDifferentialServingMiddleware({
+    manifest: {
+      index: indexOutputFile,
+      environments: [
+        {
+          name: 'modern',
+          index: getEnvironmentIndexFile(indexOutputFile, 'modern'),
+          browsers: modernBrowsers,
+        },
+      ],
+    },
+  });
+
+  const devServer = webpackConfig.devServer || {};
+  const servePath = devServer.publicPath || '/';
+  const before = devServer.before;
+  devServer.before = (app, server, compiler) => {
+    app.use(servePath, middleware);
+    before?.(app, server, compiler);
+  };
+  webpackConfig.devServer = devServer;
+}
+
+interface LocaleServeOptions {
+  baseHref: string;
+  /** The directory of the localized files, relative to the serve path. */
+  outputPath: string;
+}
+
+/**
+ * Resolves the path each locale is served from, which is the base href of the locale.
+ * Locales without a base href are served from their locale identifier to avoid conflicts.
+ */
+function getLocaleServeOptions(
+  i18n: I18nOptions,
+  baseHref = '',
+  servePath: string,
+): Map<string, LocaleServeOptions> {
+  const locales = new Map<string, LocaleServeOptions>();
+  for (const locale of i18n.inlineLocales) {
+    const localeBaseHref = urlJoin(baseHref, i18n.locales[locale]?.baseHref || `/${locale}/`);
+    const outputPath = path.posix.relative(servePath, localeBaseHref);
+
+    if (!localeBaseHref.startsWith('/') || !outputPath || outputPath.startsWith('..')) {
+      throw new Error(tags.oneLine`
+        The base href '${localeBaseHref}' of locale '${locale}' must be a path within the serve
+        path '${servePath}' to serve multiple locales.
+      `);
+    }
+
+    locales.set(locale, { baseHref: localeBaseHref, outputPath });
+  }
+
+  return locales;
+}
+
+function setupLocales(
+  locales: Map<string, LocaleServeOptions>,
+  i18n: I18nOptions,
+  browserOptions: BrowserBuilderSchema,
+  webpackConfig: webpack.Configuration,
+  workspaceRoot: string,
+) {
+  const { options: compilerOptions } = readTsconfig(browserOptions.tsConfig, workspaceRoot);
+  const target = compilerOptions.target || ts.ScriptTarget.ES5;
+
+  // tslint:disable-next-line: no-non-null-assertion
+  webpackConfig.plugins!.push(
+    new LocalizedBundlesPlugin({
+      i18n,
+      outputPaths: new Map([...locales].map(([locale, { outputPath }]) => [locale, outputPath])),
+      workspaceRoot,
+      es5: target < ts.ScriptTarget.ES2015,
+      missingTranslation: browserOptions.i18nMissingTranslation,
+    }),
+  );
+
+  // Serve the index file of the locale for the routes of a locale.
+  // Other routes use the index file of the first locale.
+  const historyApiFallback = webpackConfig.devServer?.historyApiFallback;
+  if (historyApiFallback && typeof historyApiFallback === 'object' && historyApiFallback.index) {
+    const servePath = webpackConfig.devServer?.publicPath || '/';
+    const indexFile = path.posix.basename(historyApiFallback.index);
+    const indexPaths = [...locales.values()].map(({ outputPath }) => ({
+      outputPath,
+      index: path.posix.join(servePath, outputPath, indexFile),
+    }));
+
+    historyApiFallback.index = indexPaths[0].index;
+    historyApiFallback.rewrites = [
+      ...indexPaths.map(({ outputPath, index }) => ({
+        from: new RegExp(`^${path.posix.join(servePath, outputPath)}(/|$)`),
+        to: index,
+      })),
+      ...(historyApiFallback.rewrites || []),
+    ];
+  }
+}
+
 async function setupLocalize(
   locale: string,
   i18n: I18nOptions,
@@ -139,4 +139,52 @@ describe('Dev Server Builder index', () => {
     expect(await response.text()).toContain(`lang="${locale}"`);
     await run.stop();
   });
+
+  it('serves each locale from its base href when multiple locales are localized', async () => {
+    const { workspace } = await workspaces.readWorkspace(host.root(), workspaces.createWorkspaceHost(host));
+    const app = workspace.projects.get('app');
+    if (!app) {
+      fail('Test application "app" not found.');
+
+      return;
+    }
+
+    app.extensions['i18n'] = {
+      locales: {
+        fr: [],
+        de: { translation: [], baseHref: '/deutsch/' },
+      },
+    };
+
+    const target = app.targets.get('build');
+    if (!target) {
+      fail('Test application "app" target "build" not found.');
+
+      return;
+    }
+    if (!target.options) {
+      target.options = {};
+    }
+    target.options.localize = ['fr', 'de'];
+
+    await workspaces.writeWorkspace(workspace, workspaces.createWorkspaceHost(host));
+
+    const architect = (await createArchitect(host.root())).architect;
+    const run = await architect.scheduleTarget(targetSpec);
+    const output = (await run.result) as DevServerBuilderOutput;
+    expect(output.success).toBe(true);
+
+    const frIndex = await (await fetch('http://localhost:4200/fr/index.html')).text();
+    expect(frIndex).toContain(`lang="fr"`);
+    expect(frIndex).toContain(`<base href="/fr/">`);
+
+    const deMain = await (await fetch('http://localhost:4200/deutsch/main.js')).text();
+    expect(deMain).toContain(`locale:"de"`);
+
+    // fallback processing requires an accept header
+    const deRoute = await fetch('http://localhost:4200/deutsch/route', { headers: { 'accept': 'text/html' } });
+    expect(await deRoute.text()).toContain(`lang="de"`);
+
+    await run.stop();
+  });
 });
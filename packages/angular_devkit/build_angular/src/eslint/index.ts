@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { BuilderContext, BuilderOutput, createBuilder } from '@angular-devkit/architect';
+import { json } from '@angular-devkit/core';
+import * as path from 'path';
+import { Schema as RealEslintBuilderOptions } from './schema';
+
+type EslintBuilderOptions = RealEslintBuilderOptions & json.JsonObject;
+
+// The subset of the ESLint 7 Node.js API used by the builder.
+// See: https://eslint.org/docs/developer-guide/nodejs-api#eslint-class
+interface ESLintResult {
+  filePath: string;
+  errorCount: number;
+  warningCount: number;
+}
+
+interface ESLintOptions {
+  cwd: string;
+  fix: boolean;
+  errorOnUnmatchedPattern: boolean;
+  overrideConfigFile?: string;
+  overrideConfig?: { ignorePatterns: string[] };
+}
+
+interface ESLint {
+  lintFiles(patterns: string[]): Promise<ESLintResult[]>;
+  loadFormatter(name: string): Promise<{ format(results: ESLintResult[]): string }>;
+}
+
+interface ESLintModule {
+  ESLint?: {
+    new (options: ESLintOptions): ESLint;
+    outputFixes(results: ESLintResult[]): Promise<void>;
+  };
+}
+
+const HUMAN_READABLE_FORMATS = ['codeframe', 'compact', 'stylish', 'table', 'unix'];
+
+async function getFilesToLint(
+  options: EslintBuilderOptions,
+  context: BuilderContext,
+): Promise<string[]> {
+  if (options.files && options.files.length > 0) {
+    return options.files;
+  }
+
+  if (!context.target) {
+    throw new Error('The "files" option must be specified when linting outside of a project.');
+  }
+
+  const metadata = await context.getProjectMetadata(context.target.project);
+  const sourceRoot = path.posix.join(`${metadata.sourceRoot ?? metadata.root ?? ''}`, '**');
+
+  return [`${sourceRoot}/*.ts`, `${sourceRoot}/*.html`];
+}
+
+async function _run(
+  options: EslintBuilderOptions,
+  context: BuilderContext,
+): Promise<BuilderOutput> {
+  const systemRoot = context.workspaceRoot;
+  process.chdir(context.currentDirectory);
+  const projectName = (context.target && context.target.project) || '<???>';
+
+  // Print progress information only for human-readable formats.
+  const printInfo = HUMAN_READABLE_FORMATS.includes(options.format || '') && !options.silent;
+
+  context.reportStatus(`Linting ${JSON.stringify(projectName)}...`);
+  if (printInfo) {
+    context.logger.info(`Linting ${JSON.stringify(projectName)}...`);
+  }
+
+  let eslint: ESLintModule;
+  try {
+    eslint = require('eslint');
+  } catch {
+    throw new Error('Unable to find ESLint. Ensure ESLint is installed.');
+  }
+
+  if (!eslint.ESLint) {
+    throw new Error('ESLint version 7 or higher is required. Ensure a supported version is installed.');
+  }
+
+  const linter = new eslint.ESLint({
+    cwd: systemRoot,
+    fix: !!options.fix,
+    // Patterns that do not match any files should not fail the run, similar to the TSLint builder.
+    errorOnUnmatchedPattern: false,
+    overrideConfigFile: options.eslintConfig
+      ? path.resolve(systemRoot, options.eslintConfig)
+      : undefined,
+    overrideConfig: options.exclude && options.exclude.length > 0
+      ? { ignorePatterns: options.exclude }
+      : undefined,
+  });
+
+  const results = await linter.lintFiles(await getFilesToLint(options, context));
+  if (options.fix) {
+    await eslint.ESLint.outputFixes(results);
+  }
+
+  if (!options.silent) {
+    let formatter;
+    try {
+      formatter = await linter.loadFormatter(options.format || 'stylish');
+    } catch {
+      throw new Error(`Invalid lint format "${options.format}".`);
+    }
+
+    const output = formatter.format(results);
+    if (output.trim()) {
+      context.logger.info(output);
+    }
+  }
+
+  const errorCount = results.reduce((count, result) => count + result.errorCount, 0);
+  const warningCount = results.reduce((count, result) => count + result.warningCount, 0);
+
+  if (warningCount > 0 && printInfo) {
+    context.logger.warn('Lint warnings found in the listed files.');
+  }
+
+  if (errorCount > 0 && printInfo) {
+    context.logger.error('Lint errors found in the listed files.');
+  }
+
+  if (warningCount === 0 && errorCount === 0 && printInfo) {
+    context.logger.info('All files pass linting.');
+  }
+
+  return {
+    success: options.force || errorCount === 0,
+  };
+}
+
+export default createBuilder<EslintBuilderOptions>(_run);
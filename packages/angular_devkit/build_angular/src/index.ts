@@ -26,6 +26,11 @@ export {
   Type,
 } from './browser/schema';
 
+export {
+  execute as executeAnalyzeStatsBuilder,
+  AnalyzeStatsBuilderOptions,
+} from './analyze-stats';
+
 export {
   buildWebpackBrowser as executeBrowserBuilder,
   BrowserBuilderOutput,
@@ -42,12 +47,22 @@ export {
   ExtractI18nBuilderOptions,
 } from './extract-i18n';
 
+export {
+  execute as executeJestBuilder,
+  JestBuilderOptions,
+} from './jest';
+
 export {
   execute as executeKarmaBuilder,
   KarmaBuilderOptions,
   KarmaConfigOptions,
 } from './karma';
 
+export {
+  execute as executePrerenderBuilder,
+  PrerenderBuilderOptions,
+} from './prerender';
+
 export {
   execute as executeProtractorBuilder,
   ProtractorBuilderOptions,
@@ -59,7 +74,22 @@ export {
   ServerBuilderOutput,
 } from './server';
 
+export {
+  execute as executeSsrDevServerBuilder,
+  SsrDevServerBuilderOptions,
+  SsrDevServerBuilderOutput,
+} from './ssr-dev-server';
+
 export {
   execute as executeNgPackagrBuilder,
   NgPackagrBuilderOptions,
 } from './ng-packagr';
+
+export {
+  DIFFERENTIAL_SERVING_MANIFEST,
+  DifferentialServingEnvironment,
+  DifferentialServingManifest,
+  DifferentialServingMiddleware,
+  DifferentialServingMiddlewareOptions,
+  createDifferentialServingMiddleware,
+} from './utils/differential-serving';
@@ -0,0 +1,239 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { BuilderContext, BuilderOutput, createBuilder } from '@angular-devkit/architect';
+import { EmittedFiles, runWebpack } from '@angular-devkit/build-webpack';
+import { getSystemPath, join, json, normalize } from '@angular-devkit/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as rimraf from 'rimraf';
+import { Observable, from } from 'rxjs';
+import { concatMap, switchMap } from 'rxjs/operators';
+import { pathToFileURL } from 'url';
+import * as webpack from 'webpack';
+import { Schema as BrowserBuilderOptions } from '../browser/schema';
+import { findTests } from '../karma/find-tests';
+import { ExecutionTransformer } from '../transforms';
+import { assertCompatibleAngularVersion } from '../utils/version';
+import { generateBrowserWebpackConfigFromContext } from '../utils/webpack-browser-config';
+import {
+  getCommonConfig,
+  getNonAotConfig,
+  getStylesConfig,
+  getTestConfig,
+  getWorkerConfig,
+} from '../webpack/configs';
+import { SingleTestTransformLoader } from '../webpack/plugins/single-test-transform';
+import {
+  statsErrorsToString,
+  statsHasErrors,
+  statsHasWarnings,
+  statsWarningsToString,
+} from '../webpack/utils/stats';
+import { Schema as JestBuilderOptions } from './schema';
+import { TEST_ENTRY_FILENAME, generateTestEntry } from './test-entry';
+
+// The subset of the Jest 26 programmatic API used by the builder.
+// See: https://github.com/facebook/jest/blob/v26.6.3/packages/jest-core/src/cli/index.ts
+interface JestArgv {
+  _: string[];
+  $0: string;
+  config: string;
+  cache: boolean;
+  watch: boolean;
+}
+
+interface JestModule {
+  runCLI(argv: JestArgv, projects: string[]): Promise<{ results: { success: boolean } }>;
+}
+
+async function initialize(
+  options: JestBuilderOptions,
+  context: BuilderContext,
+  outputPath: string,
+  webpackConfigurationTransformer?: ExecutionTransformer<webpack.Configuration>,
+): Promise<[JestModule, webpack.Configuration]> {
+  const { config } = await generateBrowserWebpackConfigFromContext(
+    // `budgets` might be incorrect due to extra dev libs
+    { ...((options as unknown) as BrowserBuilderOptions), outputPath, budgets: undefined },
+    context,
+    wco => [
+      getCommonConfig(wco),
+      getStylesConfig(wco),
+      getNonAotConfig(wco),
+      getTestConfig(wco),
+      getWorkerConfig(wco),
+    ],
+  );
+
+  let jest: JestModule;
+  try {
+    jest = require('jest');
+  } catch {
+    throw new Error('Unable to find Jest. Ensure Jest is installed.');
+  }
+
+  return [
+    jest,
+    webpackConfigurationTransformer ? await webpackConfigurationTransformer(config) : config,
+  ];
+}
+
+async function createJestConfig(
+  options: JestBuilderOptions,
+  context: BuilderContext,
+  outputPath: string,
+): Promise<json.JsonObject> {
+  let userConfig: json.JsonObject = {};
+  if (options.jestConfig) {
+    const configPath = path.resolve(context.workspaceRoot, options.jestConfig);
+    userConfig = configPath.endsWith('.json')
+      ? JSON.parse(fs.readFileSync(configPath, 'utf-8'))
+      : require(configPath);
+  }
+
+  const projectName = context.target && context.target.project;
+
+  return {
+    coverageDirectory: path.join(context.workspaceRoot, 'coverage', projectName || ''),
+    ...userConfig,
+    // The options below are required to run the bundles and cannot be changed.
+    rootDir: outputPath,
+    roots: [outputPath],
+    testMatch: [path.join(outputPath, TEST_ENTRY_FILENAME)],
+    testEnvironment: 'jsdom',
+    // Allows relative URLs, such as assets, to be resolved against the output directory.
+    testURL: pathToFileURL(outputPath + path.sep).href,
+    // The bundles are already compiled by Webpack.
+    transform: {},
+    // Code coverage is collected from the instrumentation added by the Webpack test configuration.
+    collectCoverage: !!options.codeCoverage,
+    coverageProvider: 'babel',
+  };
+}
+
+async function runTests(
+  jest: JestModule,
+  options: JestBuilderOptions,
+  context: BuilderContext,
+  outputPath: string,
+  emittedFiles: EmittedFiles[],
+): Promise<BuilderOutput> {
+  fs.writeFileSync(
+    path.join(outputPath, TEST_ENTRY_FILENAME),
+    generateTestEntry(emittedFiles, {
+      styles: options.styles || [],
+      scripts: options.scripts || [],
+    }),
+  );
+
+  const jestConfig = await createJestConfig(options, context, outputPath);
+  const { results } = await jest.runCLI(
+    {
+      _: [],
+      $0: 'ng test',
+      config: JSON.stringify(jestConfig),
+      // Bundles are written to the same files on every rebuild.
+      cache: false,
+      watch: false,
+    },
+    [outputPath],
+  );
+
+  return { success: results.success };
+}
+
+export function execute(
+  options: JestBuilderOptions,
+  context: BuilderContext,
+  transforms: {
+    webpackConfiguration?: ExecutionTransformer<webpack.Configuration>;
+  } = {},
+): Observable<BuilderOutput> {
+  // Check Angular version.
+  assertCompatibleAngularVersion(context.workspaceRoot, context.logger);
+
+  return new Observable<string>(subscriber => {
+    const outputPath = fs.mkdtempSync(path.join(fs.realpathSync(os.tmpdir()), 'angular-cli-jest-'));
+    subscriber.next(outputPath);
+
+    // Remove the temporary output directory once the builder is stopped.
+    return () => {
+      try {
+        rimraf.sync(outputPath);
+      } catch {}
+    };
+  }).pipe(
+    switchMap(outputPath =>
+      from(initialize(options, context, outputPath, transforms.webpackConfiguration)).pipe(
+        switchMap(([jest, webpackConfig]) => {
+          // prepend special webpack loader that will transform test.ts
+          if (options.include && options.include.length > 0) {
+            const mainFilePath = getSystemPath(
+              join(normalize(context.workspaceRoot), options.main),
+            );
+            const files = findTests(options.include, path.dirname(mainFilePath), context.workspaceRoot);
+            if (!files.length) {
+              throw new Error(
+                `Specified patterns: "${options.include.join(', ')}" did not match any spec files`,
+              );
+            }
+
+            // Get the rules and ensure the Webpack configuration is setup properly
+            const rules = webpackConfig.module?.rules || [];
+            if (!webpackConfig.module) {
+              webpackConfig.module = { rules };
+            } else if (!webpackConfig.module.rules) {
+              webpackConfig.module.rules = rules;
+            }
+
+            rules.unshift({
+              test: mainFilePath,
+              use: {
+                // cannot be a simple path as it differs between environments
+                loader: SingleTestTransformLoader,
+                options: {
+                  files,
+                  logger: context.logger,
+                },
+              },
+            });
+          }
+
+          webpackConfig.watch = !!options.watch;
+
+          // Each successful build is run once by Jest. Rebuilds are driven by Webpack in watch mode.
+          return runWebpack(webpackConfig, context, {
+            webpackFactory: require('webpack') as typeof webpack,
+            // Only report problems, the bundles are an implementation detail of the test run.
+            logging: (stats, config) => {
+              const statsJson = stats.toJson(config.stats);
+              if (statsHasWarnings(statsJson)) {
+                context.logger.warn(statsWarningsToString(statsJson, config.stats));
+              }
+              if (statsHasErrors(statsJson)) {
+                context.logger.error(statsErrorsToString(statsJson, config.stats));
+              }
+            },
+          }).pipe(
+            concatMap(async ({ success, emittedFiles = [] }): Promise<BuilderOutput> => {
+              if (!success) {
+                return { success };
+              }
+
+              return runTests(jest, options, context, outputPath, emittedFiles);
+            }),
+          );
+        }),
+      ),
+    ),
+  );
+}
+
+export { JestBuilderOptions };
+export default createBuilder<Record<string, string> & JestBuilderOptions>(execute);
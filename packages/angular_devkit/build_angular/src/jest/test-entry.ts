@@ -0,0 +1,54 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { EmittedFiles } from '@angular-devkit/build-webpack';
+import { ExtraEntryPoint } from '../browser/schema';
+import { generateEntryPoints } from '../utils/package-chunk-sort';
+import { normalizeExtraEntryPoints } from '../webpack/configs';
+
+export const TEST_ENTRY_FILENAME = 'test-entry.js';
+
+/**
+ * Generates the module that Jest runs as the single test file of a build.
+ * Bundles are loaded in the same order as in the browser. Global scripts and extracted
+ * stylesheets are injected into the document since they cannot be loaded as modules.
+ */
+export function generateTestEntry(
+  emittedFiles: EmittedFiles[],
+  extraEntryPoints: { styles: ExtraEntryPoint[]; scripts: ExtraEntryPoint[] },
+): string {
+  const globalScripts = new Set(
+    normalizeExtraEntryPoints(extraEntryPoints.scripts, 'scripts').map(entry => entry.bundleName),
+  );
+
+  const lines = [
+    `function inject(tagName, file) {`,
+    `  const element = document.createElement(tagName);`,
+    `  element.textContent = require('fs').readFileSync(require('path').join(__dirname, file), 'utf-8');`,
+    `  document.head.appendChild(element);`,
+    `}`,
+  ];
+
+  for (const entryPoint of generateEntryPoints(extraEntryPoints)) {
+    for (const { name, file, extension, initial } of emittedFiles) {
+      if (!initial || name !== entryPoint) {
+        continue;
+      }
+
+      const request = JSON.stringify(`./${file}`);
+      if (extension === '.css') {
+        lines.push(`inject('style', ${request});`);
+      } else if (extension === '.js' && globalScripts.has(entryPoint)) {
+        lines.push(`inject('script', ${request});`);
+      } else if (extension === '.js') {
+        lines.push(`require(${request});`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { generateTestEntry } from './test-entry';
+
+describe('generateTestEntry', () => {
+  const emittedFiles = [
+    { name: 'main', file: 'main.js', extension: '.js', initial: true },
+    { name: 'vendor', file: 'vendor.js', extension: '.js', initial: true },
+    { name: 'scripts', file: 'scripts.js', extension: '.js', initial: true },
+    { name: 'styles', file: 'styles.js', extension: '.js', initial: true },
+    { name: 'polyfills', file: 'polyfills.js', extension: '.js', initial: true },
+    { name: 'lazy', file: 'lazy.js', extension: '.js', initial: false },
+  ];
+
+  it('loads the bundles in the browser order', () => {
+    const entry = generateTestEntry(emittedFiles, { styles: ['src/styles.css'], scripts: ['src/global.js'] });
+    const loads = entry.split('\n').filter(line => /^(require|inject)\(/.test(line));
+
+    expect(loads).toEqual([
+      `require("./polyfills.js");`,
+      `require("./styles.js");`,
+      `inject('script', "./scripts.js");`,
+      `require("./vendor.js");`,
+      `require("./main.js");`,
+    ]);
+  });
+
+  it('injects extracted stylesheets into the document', () => {
+    const entry = generateTestEntry(
+      [{ name: 'styles', file: 'styles.css', extension: '.css', initial: true }],
+      { styles: ['src/styles.css'], scripts: [] },
+    );
+
+    expect(entry).toContain(`inject('style', "./styles.css");`);
+  });
+
+  it('does not load lazy bundles', () => {
+    const entry = generateTestEntry(emittedFiles, {
+      styles: [],
+      scripts: [{ input: 'src/lazy.js', bundleName: 'lazy', inject: false }],
+    });
+
+    expect(entry).not.toContain('lazy.js');
+  });
+});
@@ -22,6 +22,7 @@ import {
   getTestConfig,
   getWorkerConfig,
 } from '../webpack/configs';
+import { AffectedSpecsTransformLoader } from '../webpack/plugins/affected-specs-transform';
 import { SingleTestTransformLoader } from '../webpack/plugins/single-test-transform';
 import { findTests } from './find-tests';
 import { Schema as KarmaBuilderOptions } from './schema';
@@ -97,11 +98,18 @@ export function execute(
             }
           }
 
+          const mainFilePath = getSystemPath(join(normalize(context.workspaceRoot), options.main));
+
+          // Get the rules and ensure the Webpack configuration is setup properly
+          const rules = webpackConfig.module?.rules || [];
+          if (!webpackConfig.module) {
+            webpackConfig.module = { rules };
+          } else if (!webpackConfig.module.rules) {
+            webpackConfig.module.rules = rules;
+          }
+
           // prepend special webpack loader that will transform test.ts
           if (options.include && options.include.length > 0) {
-            const mainFilePath = getSystemPath(
-              join(normalize(context.workspaceRoot), options.main),
-            );
             const files = findTests(options.include, dirname(mainFilePath), context.workspaceRoot);
             // early exit, no reason to start karma
             if (!files.length) {
@@ -112,14 +120,6 @@ export function execute(
               return;
             }
 
-            // Get the rules and ensure the Webpack configuration is setup properly
-            const rules = webpackConfig.module?.rules || [];
-            if (!webpackConfig.module) {
-              webpackConfig.module = { rules };
-            } else if (!webpackConfig.module.rules) {
-              webpackConfig.module.rules = rules;
-            }
-
             rules.unshift({
               test: mainFilePath,
               use: {
@@ -133,12 +133,24 @@ export function execute(
             });
           }
 
+          // Loaders of earlier rules run last, so this one also filters the imports added above.
+          if (options.watch && options.affectedSpecs) {
+            rules.unshift({
+              test: mainFilePath,
+              use: {
+                // cannot be a simple path as it differs between environments
+                loader: AffectedSpecsTransformLoader,
+              },
+            });
+          }
+
           // Assign additional karmaConfig options to the local ngapp config
           karmaOptions.configFile = resolve(context.workspaceRoot, options.karmaConfig);
 
           karmaOptions.buildWebpack = {
             options,
             webpackConfig,
+            mainFilePath,
             // Pass onto Karma to emit BuildEvents.
             successCb: () => subscriber.next({ success: true }),
             failureCb: () => subscriber.next({ success: false }),
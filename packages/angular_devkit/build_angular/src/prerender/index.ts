@@ -0,0 +1,204 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import {
+  BuilderContext,
+  BuilderOutput,
+  createBuilder,
+  targetFromTargetString,
+} from '@angular-devkit/architect';
+import { JsonObject, normalize, resolve } from '@angular-devkit/core';
+import { NodeJsSyncHost } from '@angular-devkit/core/node';
+import JestWorker from 'jest-worker';
+import * as path from 'path';
+import { BrowserBuilderOutput } from '../browser';
+import { Schema as BrowserBuilderSchema } from '../browser/schema';
+import { ServerBuilderOutput } from '../server';
+import { readFile, writeFile } from '../utils/fs';
+import { findServerMainBundle } from '../utils/server-bundle';
+import { augmentAppWithServiceWorker } from '../utils/service-worker';
+import { Spinner } from '../utils/spinner';
+import { maxWorkers } from '../utils/workers';
+import { RenderOptions, RenderResult } from './render-worker';
+import { discoverRoutes, isStaticRoute, normalizeRoute, parseRoutesFile } from './routes';
+import { Schema } from './schema';
+
+export type PrerenderBuilderOptions = Schema & JsonObject;
+
+let workerFile = require.resolve('./render-worker');
+workerFile =
+  path.extname(workerFile) === '.ts'
+    ? require.resolve('./render-worker-bootstrap')
+    : workerFile;
+
+async function getRoutes(
+  options: PrerenderBuilderOptions,
+  browserOptions: BrowserBuilderSchema,
+  context: BuilderContext,
+): Promise<string[]> {
+  const root = context.workspaceRoot;
+  const routes = [...(options.routes || [])];
+
+  if (options.routesFile) {
+    const routesFile = path.resolve(root, options.routesFile);
+    routes.push(...parseRoutesFile(await readFile(routesFile, 'utf-8')));
+  }
+
+  if (options.guessRoutes ?? true) {
+    routes.push(...discoverRoutes(path.resolve(root, browserOptions.main)));
+  }
+
+  const staticRoutes = new Set<string>();
+  for (const route of routes.map(normalizeRoute)) {
+    if (isStaticRoute(route)) {
+      staticRoutes.add(route);
+    } else {
+      context.logger.warn(`Route '${route}' cannot be prerendered as it has parameters.`);
+    }
+  }
+
+  return [...staticRoutes];
+}
+
+async function _renderRoutes(
+  options: PrerenderBuilderOptions,
+  context: BuilderContext,
+  routes: string[],
+  browserResult: BrowserBuilderOutput,
+  serverResult: ServerBuilderOutput,
+): Promise<RenderResult[]> {
+  const worker = new JestWorker(workerFile, {
+    exposedMethods: ['render'],
+    numWorkers: Math.min(options.numProcesses ?? maxWorkers, routes.length),
+    enableWorkerThreads: false,
+  });
+  const render = (worker as unknown as { render(options: RenderOptions): Promise<RenderResult> }).render;
+
+  try {
+    const results: RenderResult[] = [];
+    for (const outputPath of browserResult.outputPaths) {
+      // The server is built for the same locales as the browser.
+      const localeDirectory = path.relative(browserResult.baseOutputPath, outputPath);
+      const serverBundlePath = findServerMainBundle(
+        path.join(serverResult.baseOutputPath, localeDirectory),
+      );
+
+      const indexPath = path.join(outputPath, 'index.html');
+      const document = await readFile(indexPath, 'utf-8');
+      if (routes.includes('/')) {
+        // The root route overwrites the index file, which is still needed to render other routes
+        // with server-side rendering.
+        await writeFile(path.join(outputPath, 'index.original.html'), document);
+      }
+
+      results.push(...await Promise.all(routes.map(route => render({
+        workspaceRoot: context.workspaceRoot,
+        serverBundlePath,
+        document,
+        outputPath,
+        route,
+      }))));
+    }
+
+    return results;
+  } finally {
+    // tslint:disable-next-line: no-floating-promises
+    worker.end();
+  }
+}
+
+export async function execute(
+  options: PrerenderBuilderOptions,
+  context: BuilderContext,
+): Promise<BuilderOutput> {
+  const browserTarget = targetFromTargetString(options.browserTarget);
+  const serverTarget = targetFromTargetString(options.serverTarget);
+
+  const rawBrowserOptions = (await context.getTargetOptions(browserTarget)) as JsonObject & BrowserBuilderSchema;
+  const browserOptions = await context.validateOptions<JsonObject & BrowserBuilderSchema>(
+    rawBrowserOptions,
+    await context.getBuilderNameForTarget(browserTarget),
+  );
+
+  let routes: string[];
+  try {
+    routes = await getRoutes(options, browserOptions, context);
+  } catch (err) {
+    return { success: false, error: err.message };
+  }
+
+  if (routes.length === 0) {
+    return { success: false, error: 'Could not find any routes to prerender.' };
+  }
+
+  // The service worker is generated after rendering, to include the rendered routes.
+  const browserTargetRun = await context.scheduleTarget(browserTarget, {
+    watch: false,
+    serviceWorker: false,
+  });
+  const serverTargetRun = await context.scheduleTarget(serverTarget, {
+    watch: false,
+  });
+
+  let spinner: Spinner | undefined;
+
+  try {
+    const [browserResult, serverResult] = await Promise.all([
+      browserTargetRun.result as unknown as BrowserBuilderOutput,
+      serverTargetRun.result as unknown as ServerBuilderOutput,
+    ]);
+
+    if (browserResult.success === false || browserResult.baseOutputPath === undefined) {
+      return browserResult;
+    } else if (serverResult.success === false) {
+      return serverResult;
+    }
+
+    spinner = new Spinner();
+    spinner.start(`Prerendering ${routes.length} route(s)...`);
+    const results = await _renderRoutes(options, context, routes, browserResult, serverResult);
+    const failures = results.filter(result => result.error !== undefined);
+
+    if (failures.length > 0) {
+      spinner.fail('Prerendering failed.');
+      failures.forEach(({ route, error }) => context.logger.error(`Route '${route}': ${error}`));
+
+      return { success: false, error: `${failures.length} route(s) could not be prerendered.` };
+    }
+
+    if (browserOptions.serviceWorker) {
+      const root = context.workspaceRoot;
+      const projectName = context.target?.project;
+      const projectMetadata = projectName ? await context.getProjectMetadata(projectName) : {};
+      const projectRoot = resolve(normalize(root), normalize((projectMetadata.root as string) || ''));
+
+      for (const outputPath of browserResult.outputPaths) {
+        await augmentAppWithServiceWorker(
+          new NodeJsSyncHost(),
+          normalize(root),
+          projectRoot,
+          normalize(outputPath),
+          browserOptions.baseHref || '/',
+          browserOptions.ngswConfigPath,
+        );
+      }
+    }
+
+    spinner.succeed(`Prerendered ${routes.length} route(s).`);
+
+    return { success: true };
+  } catch (err) {
+    spinner?.fail('Prerendering failed.');
+
+    return { success: false, error: err.message };
+  } finally {
+    // Just be good citizens and stop those jobs.
+    await Promise.all([browserTargetRun.stop(), serverTargetRun.stop()]);
+  }
+}
+
+export default createBuilder(execute);
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as path from 'path';
+import { mkdir, writeFile } from '../utils/fs';
+
+export interface RenderOptions {
+  workspaceRoot: string;
+  /** The main bundle of the server build, which exports the server module. */
+  serverBundlePath: string;
+  /** The content of the index file of the browser build. */
+  document: string;
+  /** The output path of the browser build, in which the rendered routes are written. */
+  outputPath: string;
+  route: string;
+}
+
+export interface RenderResult {
+  route: string;
+  outputFile?: string;
+  error?: string;
+}
+
+let zoneLoaded: Promise<unknown> | undefined;
+
+/**
+ * Render a route with the server bundle, and write it to `<route>/index.html` in the output path.
+ * This is executed in worker processes, one route at a time.
+ */
+export async function render(options: RenderOptions): Promise<RenderResult> {
+  const { route } = options;
+
+  try {
+    if (!zoneLoaded) {
+      zoneLoaded = import(require.resolve('zone.js', { paths: [options.workspaceRoot] }));
+    }
+    await zoneLoaded;
+
+    const {
+      AppServerModule,
+      AppServerModuleNgFactory,
+      renderModule,
+      renderModuleFactory,
+    } = await import(options.serverBundlePath);
+
+    let renderModuleFn: (module: unknown, options: {}) => Promise<string>;
+    let AppServerModuleDef: unknown;
+
+    if (renderModuleFactory && AppServerModuleNgFactory) {
+      renderModuleFn = renderModuleFactory;
+      AppServerModuleDef = AppServerModuleNgFactory;
+    } else if (renderModule && AppServerModule) {
+      renderModuleFn = renderModule;
+      AppServerModuleDef = AppServerModule;
+    } else {
+      throw new Error(
+        `renderModule method and/or AppServerModule were not exported from: ${options.serverBundlePath}.`,
+      );
+    }
+
+    const html = await renderModuleFn(AppServerModuleDef, {
+      document: options.document,
+      url: route,
+    });
+
+    const outputFile = path.join(options.outputPath, ...route.split('/'), 'index.html');
+    await mkdir(path.dirname(outputFile), { recursive: true });
+    await writeFile(outputFile, html);
+
+    return { route, outputFile };
+  } catch (error) {
+    return { route, error: error.message };
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Normalize a route to an absolute path without a trailing slash, such as `/about`.
+ */
+export function normalizeRoute(route: string): string {
+  const segments = route.trim().split('/').filter(segment => segment !== '');
+
+  return '/' + segments.join('/');
+}
+
+/**
+ * Whether a route can be prerendered; routes with parameters or wildcards cannot.
+ */
+export function isStaticRoute(route: string): boolean {
+  return !route.split('/').some(segment => segment.startsWith(':') || segment.includes('*'));
+}
+
+/**
+ * Parse a routes file, which contains one route per line. Empty lines and lines starting with
+ * `#` are ignored.
+ */
+export function parseRoutesFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'));
+}
+
+type ReadFile = (fileName: string) => string | undefined;
+
+function readFileIfExists(fileName: string): string | undefined {
+  try {
+    return fs.readFileSync(fileName, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+function resolveModule(
+  fromFile: string,
+  specifier: string,
+  readFile: ReadFile,
+): { fileName: string; content: string } | undefined {
+  if (!specifier.startsWith('.')) {
+    return undefined;
+  }
+
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  for (const fileName of [base + '.ts', path.join(base, 'index.ts'), base]) {
+    const content = readFile(fileName);
+    if (content !== undefined) {
+      return { fileName, content };
+    }
+  }
+
+  return undefined;
+}
+
+function getPropertyName(property: ts.ObjectLiteralElementLike): string | undefined {
+  if (!ts.isPropertyAssignment(property)) {
+    return undefined;
+  }
+
+  return ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)
+    ? property.name.text
+    : undefined;
+}
+
+function getStringValue(expression: ts.Expression): string | undefined {
+  return ts.isStringLiteralLike(expression) ? expression.text : undefined;
+}
+
+/**
+ * Find the module of a `loadChildren` property; either a dynamic import or the deprecated
+ * `path/to/module#ModuleName` string.
+ */
+function getLazyModuleSpecifier(initializer: ts.Expression): string | undefined {
+  if (ts.isStringLiteralLike(initializer)) {
+    return initializer.text.split('#')[0];
+  }
+
+  let specifier: string | undefined;
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+      node.arguments.length > 0 &&
+      ts.isStringLiteralLike(node.arguments[0])
+    ) {
+      specifier = (node.arguments[0] as ts.StringLiteralLike).text;
+    } else if (specifier === undefined) {
+      ts.forEachChild(node, visit);
+    }
+  };
+  visit(initializer);
+
+  return specifier;
+}
+
+/**
+ * Discovers the routes of an application by reading the route configurations passed to
+ * `RouterModule.forRoot()` and `RouterModule.forChild()` in the files imported from the main
+ * file, and following the lazy loaded modules. Only routes defined with literals are found.
+ */
+class RouteDiscovery {
+  readonly routes = new Set<string>();
+  private readonly visited = new Set<string>();
+
+  constructor(private readonly readFile: ReadFile) {}
+
+  discover(fileName: string, content: string, prefix: string): void {
+    // The same module can be lazy loaded from several routes.
+    const key = `${prefix}\0${fileName}`;
+    if (this.visited.has(key)) {
+      return;
+    }
+    this.visited.add(key);
+
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+    const visit = (node: ts.Node) => {
+      if (
+        (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+        node.moduleSpecifier &&
+        ts.isStringLiteral(node.moduleSpecifier)
+      ) {
+        const module = resolveModule(fileName, node.moduleSpecifier.text, this.readFile);
+        if (module) {
+          this.discover(module.fileName, module.content, prefix);
+        }
+      } else if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        ts.isIdentifier(node.expression.expression) &&
+        node.expression.expression.text === 'RouterModule' &&
+        ['forRoot', 'forChild'].includes(node.expression.name.text) &&
+        node.arguments.length > 0
+      ) {
+        const routes = this.resolveArray(sourceFile, node.arguments[0]);
+        if (routes) {
+          this.collectRoutes(fileName, routes, prefix);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  private resolveArray(
+    sourceFile: ts.SourceFile,
+    expression: ts.Expression,
+  ): ts.ArrayLiteralExpression | undefined {
+    if (ts.isArrayLiteralExpression(expression)) {
+      return expression;
+    }
+
+    if (!ts.isIdentifier(expression)) {
+      return undefined;
+    }
+
+    // Routes are usually declared in a variable of the same file, such as `const routes: Routes`.
+    let array: ts.ArrayLiteralExpression | undefined;
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isVariableDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        node.name.text === expression.text &&
+        node.initializer &&
+        ts.isArrayLiteralExpression(node.initializer)
+      ) {
+        array = node.initializer;
+      } else if (!array) {
+        ts.forEachChild(node, visit);
+      }
+    };
+    visit(sourceFile);
+
+    return array;
+  }
+
+  private collectRoutes(fileName: string, routes: ts.ArrayLiteralExpression, prefix: string): void {
+    for (const route of routes.elements) {
+      if (!ts.isObjectLiteralExpression(route)) {
+        continue;
+      }
+
+      const properties = new Map<string, ts.Expression>();
+      for (const property of route.properties) {
+        const name = getPropertyName(property);
+        if (name !== undefined) {
+          properties.set(name, (property as ts.PropertyAssignment).initializer);
+        }
+      }
+
+      const pathInitializer = properties.get('path');
+      const routePath = pathInitializer === undefined ? '' : getStringValue(pathInitializer);
+      if (routePath === undefined || properties.has('redirectTo')) {
+        continue;
+      }
+
+      const fullPath = [prefix, routePath].filter(segment => segment !== '').join('/');
+      if (!isStaticRoute(fullPath)) {
+        continue;
+      }
+
+      if (properties.has('component')) {
+        this.routes.add(normalizeRoute(fullPath));
+      }
+
+      const children = properties.get('children');
+      if (children && ts.isArrayLiteralExpression(children)) {
+        this.collectRoutes(fileName, children, fullPath);
+      }
+
+      const loadChildren = properties.get('loadChildren');
+      const specifier = loadChildren && getLazyModuleSpecifier(loadChildren);
+      const module = specifier && resolveModule(fileName, specifier, this.readFile);
+      if (module) {
+        this.discover(module.fileName, module.content, fullPath);
+      }
+    }
+  }
+}
+
+/**
+ * Discover the static routes of an application.
+ * @param mainFile The absolute path of the main file of the application.
+ * @param readFile Read a file, returning undefined when the file does not exist.
+ * @returns The routes, sorted.
+ */
+export function discoverRoutes(mainFile: string, readFile: ReadFile = readFileIfExists): string[] {
+  const content = readFile(mainFile);
+  if (content === undefined) {
+    throw new Error(`Could not read the main file: ${mainFile}.`);
+  }
+
+  const discovery = new RouteDiscovery(readFile);
+  discovery.discover(mainFile, content, '');
+
+  return [...discovery.routes].sort();
+}
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as path from 'path';
+import { discoverRoutes, isStaticRoute, normalizeRoute, parseRoutesFile } from './routes';
+
+describe('prerender routes', () => {
+  describe('normalizeRoute()', () => {
+    it('adds a leading slash and removes the trailing slash', () => {
+      expect(normalizeRoute('')).toBe('/');
+      expect(normalizeRoute('/')).toBe('/');
+      expect(normalizeRoute('about')).toBe('/about');
+      expect(normalizeRoute(' /products//list/ ')).toBe('/products/list');
+    });
+  });
+
+  describe('isStaticRoute()', () => {
+    it('returns false for routes with parameters or wildcards', () => {
+      expect(isStaticRoute('/products/list')).toBe(true);
+      expect(isStaticRoute('/products/:id')).toBe(false);
+      expect(isStaticRoute('/**')).toBe(false);
+    });
+  });
+
+  describe('parseRoutesFile()', () => {
+    it('ignores empty lines and comments', () => {
+      expect(parseRoutesFile('/\r\n# Products\n/products\n\n  /about  \n')).toEqual([
+        '/',
+        '/products',
+        '/about',
+      ]);
+    });
+  });
+
+  describe('discoverRoutes()', () => {
+    const root = path.resolve('/project/src');
+    let files: Record<string, string>;
+
+    function discover() {
+      return discoverRoutes(path.join(root, 'main.ts'), fileName => {
+        const file = path.relative(root, fileName).replace(/\\/g, '/');
+
+        return files[file];
+      });
+    }
+
+    beforeEach(() => {
+      files = {
+        'main.ts': `
+          import { platformBrowserDynamic } from '@angular/platform-browser-dynamic';
+          import { AppModule } from './app/app.module';
+          platformBrowserDynamic().bootstrapModule(AppModule);
+        `,
+        'app/app.module.ts': `
+          import { NgModule } from '@angular/core';
+          import { AppRoutingModule } from './app-routing.module';
+          @NgModule({ imports: [AppRoutingModule] })
+          export class AppModule {}
+        `,
+      };
+    });
+
+    it('finds the routes of a routes variable', () => {
+      files['app/app-routing.module.ts'] = `
+        import { RouterModule, Routes } from '@angular/router';
+        const routes: Routes = [
+          { path: '', component: HomeComponent },
+          { path: 'about', component: AboutComponent },
+          { path: 'products/:id', component: ProductComponent },
+          { path: 'home', redirectTo: '' },
+          { path: '**', component: NotFoundComponent },
+        ];
+        @NgModule({ imports: [RouterModule.forRoot(routes)] })
+        export class AppRoutingModule {}
+      `;
+
+      expect(discover()).toEqual(['/', '/about']);
+    });
+
+    it('finds the children routes', () => {
+      files['app/app-routing.module.ts'] = `
+        @NgModule({
+          imports: [RouterModule.forRoot([
+            {
+              path: 'account',
+              component: AccountComponent,
+              children: [
+                { path: '', component: ProfileComponent },
+                { path: 'settings', component: SettingsComponent },
+              ],
+            },
+            { path: 'admin', children: [{ path: 'users', component: UsersComponent }] },
+          ])],
+        })
+        export class AppRoutingModule {}
+      `;
+
+      expect(discover()).toEqual(['/account', '/account/settings', '/admin/users']);
+    });
+
+    it('follows the lazy loaded modules', () => {
+      files['app/app-routing.module.ts'] = `
+        const routes: Routes = [
+          { path: 'products', loadChildren: () => import('./products/products.module').then(m => m.ProductsModule) },
+          { path: 'legacy', loadChildren: './legacy/legacy.module#LegacyModule' },
+        ];
+        @NgModule({ imports: [RouterModule.forRoot(routes)] })
+        export class AppRoutingModule {}
+      `;
+      files['app/products/products.module.ts'] = `
+        import { ProductsRoutingModule } from './products-routing.module';
+        @NgModule({ imports: [ProductsRoutingModule] })
+        export class ProductsModule {}
+      `;
+      files['app/products/products-routing.module.ts'] = `
+        const routes: Routes = [
+          { path: '', component: ProductListComponent },
+          { path: 'new', component: NewProductComponent },
+        ];
+        @NgModule({ imports: [RouterModule.forChild(routes)] })
+        export class ProductsRoutingModule {}
+      `;
+      files['app/legacy/legacy.module.ts'] = `
+        @NgModule({ imports: [RouterModule.forChild([{ path: '', component: LegacyComponent }])] })
+        export class LegacyModule {}
+      `;
+
+      expect(discover()).toEqual(['/legacy', '/products', '/products/new']);
+    });
+
+    it('throws when the main file does not exist', () => {
+      delete files['main.ts'];
+
+      expect(() => discover()).toThrowError(/Could not read the main file/);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import {
+  BuilderContext,
+  BuilderOutput,
+  BuilderRun,
+  createBuilder,
+  targetFromTargetString,
+} from '@angular-devkit/architect';
+import { JsonObject, tags } from '@angular-devkit/core';
+import { Observable, combineLatest, from } from 'rxjs';
+import { concatMap, debounceTime, finalize, switchMap } from 'rxjs/operators';
+import * as url from 'url';
+import { BrowserBuilderOutput } from '../browser';
+import { ServerBuilderOutput } from '../server';
+import { checkPort } from '../utils/check-port';
+import { findServerMainBundle } from '../utils/server-bundle';
+import { Schema } from './schema';
+import { ServerProcess, SsrProxyServer } from './utils';
+
+export type SsrDevServerBuilderOptions = Schema & JsonObject;
+export type SsrDevServerBuilderOutput = BuilderOutput & {
+  baseUrl?: string;
+  port?: number;
+};
+
+/**
+ * Builds the browser and server targets in watch mode, runs the server bundle and serves it
+ * through a proxy which reloads the pages when the server restarts.
+ * @param options SSR Dev Server options.
+ * @param context The build context.
+ */
+export function execute(
+  options: SsrDevServerBuilderOptions,
+  context: BuilderContext,
+): Observable<SsrDevServerBuilderOutput> {
+  const { logger, workspaceRoot } = context;
+  const host = options.host ?? 'localhost';
+  const liveReload = options.liveReload ?? true;
+
+  async function setup(): Promise<{
+    browserRun: BuilderRun;
+    serverRun: BuilderRun;
+    proxy: SsrProxyServer;
+    port: number;
+  }> {
+    const proxy = new SsrProxyServer(liveReload);
+    const port = await proxy.listen(await checkPort(options.port ?? 4200, host), host);
+
+    // Service workers would serve stale responses when the server restarts.
+    const browserRun = await context.scheduleTarget(
+      targetFromTargetString(options.browserTarget),
+      { watch: true, serviceWorker: false },
+    );
+    const serverRun = await context.scheduleTarget(
+      targetFromTargetString(options.serverTarget),
+      { watch: true },
+    );
+
+    return { browserRun, serverRun, proxy, port };
+  }
+
+  const server = new ServerProcess(workspaceRoot, logger, options.inspect);
+
+  return from(setup()).pipe(
+    switchMap(({ browserRun, serverRun, proxy, port }) => {
+      const baseUrl = url.format({
+        protocol: 'http',
+        hostname: host === '0.0.0.0' ? 'localhost' : host,
+        port,
+      });
+      let started = false;
+
+      return combineLatest([
+        browserRun.output as Observable<BrowserBuilderOutput>,
+        serverRun.output as Observable<ServerBuilderOutput>,
+      ]).pipe(
+        // A change usually rebuilds both targets, restart the server once for both.
+        debounceTime(200),
+        concatMap(async ([browserOutput, serverOutput]): Promise<SsrDevServerBuilderOutput> => {
+          // The errors are logged by the builds, keep running the last server until they are fixed.
+          if (!browserOutput.success || !serverOutput.success) {
+            return { success: false, baseUrl, port };
+          }
+
+          proxy.targetPort = undefined;
+          try {
+            const bundle = findServerMainBundle(serverOutput.outputPaths[0]);
+            proxy.targetPort = await server.start(bundle);
+          } catch (error) {
+            logger.error(error.message);
+
+            return { success: false, error: error.message, baseUrl, port };
+          } finally {
+            proxy.reload();
+          }
+
+          if (!started) {
+            started = true;
+            logger.info('\n' + tags.oneLine`
+              **
+              Angular Universal Live Development Server is listening on ${host}:${port},
+              open your browser on ${baseUrl}
+              **
+            ` + '\n');
+
+            if (options.open) {
+              const open = require('open');
+              open(baseUrl);
+            }
+          }
+
+          return { success: true, baseUrl, port };
+        }),
+        finalize(() => {
+          // Just be good citizens and stop those jobs.
+          // tslint:disable-next-line: no-floating-promises
+          Promise.all([server.stop(), proxy.close(), browserRun.stop(), serverRun.stop()]);
+        }),
+      );
+    }),
+  );
+}
+
+export default createBuilder<SsrDevServerBuilderOptions, SsrDevServerBuilderOutput>(execute);
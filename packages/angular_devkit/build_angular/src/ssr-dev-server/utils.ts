@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { logging } from '@angular-devkit/core';
+import { ChildProcess, fork } from 'child_process';
+import * as http from 'http';
+import * as net from 'net';
+const treeKill = require('tree-kill');
+
+/**
+ * The path of the server-sent events used by the pages to reload when the server restarts.
+ */
+export const LIVE_RELOAD_PATH = '/__ssr-dev-server/live-reload';
+
+const liveReloadScript =
+  `<script>(function () {` +
+  `var source = new EventSource('${LIVE_RELOAD_PATH}');` +
+  `source.onmessage = function () { location.reload(); };` +
+  `})();</script>`;
+
+/**
+ * Add the live reload client at the end of the body of an HTML document.
+ */
+export function injectLiveReloadScript(html: string): string {
+  const bodyEnd = html.lastIndexOf('</body>');
+
+  return bodyEnd === -1
+    ? html + liveReloadScript
+    : html.slice(0, bodyEnd) + liveReloadScript + html.slice(bodyEnd);
+}
+
+/**
+ * Get a port that is not in use, assigned by the operating system.
+ */
+export function getAvailablePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server
+      .once('error', reject)
+      .listen(0, () => {
+        const { port } = server.address() as net.AddressInfo;
+        server.close(() => resolve(port));
+      });
+  });
+}
+
+/**
+ * Wait until a server accepts connections on a port.
+ * @param port The port of the server.
+ * @param host The host of the server.
+ * @param timeout The time in milliseconds after which to give up.
+ */
+export async function waitUntilListening(port: number, host: string, timeout: number): Promise<void> {
+  const deadline = Date.now() + timeout;
+
+  while (true) {
+    const listening = await new Promise<boolean>(resolve => {
+      const socket = net.connect(port, host)
+        .once('connect', () => {
+          socket.end();
+          resolve(true);
+        })
+        .once('error', () => resolve(false));
+    });
+
+    if (listening) {
+      return;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`The server did not listen on port ${port} after ${timeout / 1000} seconds.`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+/**
+ * Runs the main bundle of a server build in a child process, and restarts it when the bundle
+ * is rebuilt. The bundle must listen on the port of the `PORT` environment variable, as the
+ * `server.ts` file of the `universal` schematic does.
+ */
+export class ServerProcess {
+  private child: ChildProcess | undefined;
+  private exited: Promise<void> | undefined;
+  private running = false;
+
+  constructor(
+    private readonly cwd: string,
+    private readonly logger: logging.LoggerApi,
+    private readonly inspect = false,
+  ) {}
+
+  /**
+   * Stop the running server, if any, and start the bundle.
+   * @returns The port the server listens on.
+   */
+  async start(bundle: string): Promise<number> {
+    await this.stop();
+
+    const port = await getAvailablePort();
+    const child = fork(bundle, [], {
+      cwd: this.cwd,
+      env: { ...process.env, PORT: `${port}` },
+      execArgv: this.inspect ? ['--inspect'] : [],
+      stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+    });
+    child.stdout?.on('data', (data: Buffer) => this.logger.info(data.toString().replace(/\s+$/, '')));
+    child.stderr?.on('data', (data: Buffer) => this.logger.error(data.toString().replace(/\s+$/, '')));
+
+    this.child = child;
+    this.running = true;
+    this.exited = new Promise(resolve => child.once('exit', () => {
+      if (this.child === child) {
+        this.running = false;
+      }
+      resolve();
+    }));
+
+    const exitedEarly = this.exited.then(() => {
+      throw new Error('The server exited before listening.');
+    });
+    await Promise.race([waitUntilListening(port, 'localhost', 60000), exitedEarly]);
+
+    return port;
+  }
+
+  async stop(): Promise<void> {
+    const { child, exited, running } = this;
+    this.child = undefined;
+    this.exited = undefined;
+    this.running = false;
+
+    if (child?.pid !== undefined && running) {
+      treeKill(child.pid, 'SIGTERM');
+      await exited;
+    }
+  }
+}
+
+/**
+ * A server which proxies the requests to the server process, and reloads the pages when
+ * the server restarts.
+ */
+export class SsrProxyServer {
+  private readonly server: http.Server;
+  private readonly liveReloadClients = new Set<http.ServerResponse>();
+
+  /** The port of the server process, undefined while it is not running. */
+  targetPort: number | undefined;
+
+  constructor(private readonly liveReload: boolean) {
+    this.server = http.createServer((request, response) => this.handleRequest(request, response));
+  }
+
+  /**
+   * Listen on a port.
+   * @returns The port the proxy listens on, which is assigned when the port is 0.
+   */
+  listen(port: number, host: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server
+        .once('error', reject)
+        .listen(port, host, () => resolve((this.server.address() as net.AddressInfo).port));
+    });
+  }
+
+  /** Reload the pages connected to the live reload. */
+  reload(): void {
+    for (const client of this.liveReloadClients) {
+      client.write('data: reload\n\n');
+    }
+  }
+
+  close(): Promise<void> {
+    for (const client of this.liveReloadClients) {
+      client.end();
+    }
+    this.liveReloadClients.clear();
+
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    if (this.liveReload && request.url === LIVE_RELOAD_PATH) {
+      response.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      });
+      response.write(':\n\n');
+      this.liveReloadClients.add(response);
+      request.once('close', () => this.liveReloadClients.delete(response));
+
+      return;
+    }
+
+    if (this.targetPort === undefined) {
+      this.sendHtml(response, 503, '<p>The server is starting, the page reloads when it is ready.</p>');
+
+      return;
+    }
+
+    const headers = { ...request.headers };
+    if (this.liveReload) {
+      // The HTML responses are modified, so they must not be compressed.
+      headers['accept-encoding'] = 'identity';
+    }
+
+    const proxyRequest = http.request(
+      {
+        host: 'localhost',
+        port: this.targetPort,
+        method: request.method,
+        path: request.url,
+        headers,
+      },
+      proxyResponse => {
+        const isHtml = (proxyResponse.headers['content-type'] || '').includes('text/html');
+        if (!this.liveReload || !isHtml) {
+          response.writeHead(proxyResponse.statusCode || 500, proxyResponse.headers);
+          proxyResponse.pipe(response);
+
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        proxyResponse
+          .on('data', (chunk: Buffer) => chunks.push(chunk))
+          .once('end', () => {
+            const html = injectLiveReloadScript(Buffer.concat(chunks).toString('utf-8'));
+            const responseHeaders = { ...proxyResponse.headers };
+            delete responseHeaders['content-length'];
+            response.writeHead(proxyResponse.statusCode || 500, responseHeaders);
+            response.end(html);
+          });
+      },
+    );
+
+    proxyRequest.once('error', error => {
+      if (!response.headersSent) {
+        this.sendHtml(response, 502, `<p>The server could not be reached: ${error.message}</p>`);
+      } else {
+        response.end();
+      }
+    });
+    request.pipe(proxyRequest);
+  }
+
+  private sendHtml(response: http.ServerResponse, status: number, body: string): void {
+    response.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    response.end(this.liveReload ? injectLiveReloadScript(body) : body);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { logging } from '@angular-devkit/core';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  LIVE_RELOAD_PATH,
+  ServerProcess,
+  SsrProxyServer,
+  getAvailablePort,
+  injectLiveReloadScript,
+  waitUntilListening,
+} from './utils';
+
+function get(port: number, urlPath: string): Promise<{ status?: number; type?: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get({ host: 'localhost', port, path: urlPath }, response => {
+      let body = '';
+      response
+        .on('data', chunk => body += chunk)
+        .once('end', () => resolve({
+          status: response.statusCode,
+          type: response.headers['content-type'],
+          body,
+        }));
+    }).once('error', reject);
+  });
+}
+
+describe('ssr-dev-server utils', () => {
+  describe('injectLiveReloadScript()', () => {
+    it('adds the script at the end of the body', () => {
+      const html = injectLiveReloadScript('<html><body><app-root></app-root></body></html>');
+
+      expect(html).toMatch(/<app-root><\/app-root><script>.+<\/script><\/body><\/html>$/);
+      expect(html).toContain(LIVE_RELOAD_PATH);
+    });
+
+    it('adds the script at the end of documents without a body', () => {
+      expect(injectLiveReloadScript('<p>Hello</p>')).toMatch(/^<p>Hello<\/p><script>.+<\/script>$/);
+    });
+  });
+
+  describe('waitUntilListening()', () => {
+    it('waits until the server listens', async () => {
+      const port = await getAvailablePort();
+      const server = net.createServer();
+      setTimeout(() => server.listen(port, 'localhost'), 200);
+
+      try {
+        await expectAsync(waitUntilListening(port, 'localhost', 5000)).toBeResolved();
+      } finally {
+        server.close();
+      }
+    });
+
+    it('throws after the timeout', async () => {
+      const port = await getAvailablePort();
+
+      await expectAsync(waitUntilListening(port, 'localhost', 200))
+        .toBeRejectedWithError(/did not listen/);
+    });
+  });
+
+  describe('ServerProcess', () => {
+    let bundle: string;
+
+    beforeEach(() => {
+      bundle = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'ssr-dev-server-')), 'main.js');
+    });
+
+    afterEach(() => {
+      fs.unlinkSync(bundle);
+      fs.rmdirSync(path.dirname(bundle));
+    });
+
+    it('starts the bundle on the port of the PORT environment variable', async () => {
+      fs.writeFileSync(bundle, `
+        require('http').createServer((req, res) => res.end('port ' + process.env.PORT))
+          .listen(process.env.PORT);
+      `);
+      const server = new ServerProcess(path.dirname(bundle), new logging.NullLogger());
+
+      try {
+        const port = await server.start(bundle);
+        expect((await get(port, '/')).body).toBe(`port ${port}`);
+
+        const restartedPort = await server.start(bundle);
+        expect((await get(restartedPort, '/')).body).toBe(`port ${restartedPort}`);
+      } finally {
+        await server.stop();
+      }
+    });
+
+    it('throws when the bundle exits before listening', async () => {
+      fs.writeFileSync(bundle, `process.exit(1);`);
+      const server = new ServerProcess(path.dirname(bundle), new logging.NullLogger());
+
+      await expectAsync(server.start(bundle)).toBeRejectedWithError(/exited before listening/);
+    });
+  });
+
+  describe('SsrProxyServer', () => {
+    let target: http.Server;
+    let targetPort: number;
+    let proxy: SsrProxyServer;
+    let proxyPort: number;
+
+    beforeEach(async () => {
+      target = http.createServer((request, response) => {
+        if (request.url === '/main.js') {
+          response.writeHead(200, { 'Content-Type': 'application/javascript' });
+          response.end('console.log("</body>");');
+        } else {
+          response.writeHead(200, { 'Content-Type': 'text/html', 'Content-Length': 33 });
+          response.end('<html><body>Hello</body></html>\r\n');
+        }
+      });
+      targetPort = await new Promise<number>(resolve => {
+        target.listen(0, 'localhost', () => resolve((target.address() as net.AddressInfo).port));
+      });
+    });
+
+    afterEach(async () => {
+      await proxy.close();
+      await new Promise(resolve => target.close(resolve));
+    });
+
+    it('responds that the server is starting before it runs', async () => {
+      proxy = new SsrProxyServer(true);
+      proxyPort = await proxy.listen(0, 'localhost');
+
+      const { status, body } = await get(proxyPort, '/');
+      expect(status).toBe(503);
+      expect(body).toContain(LIVE_RELOAD_PATH);
+    });
+
+    it('adds the live reload script to HTML responses', async () => {
+      proxy = new SsrProxyServer(true);
+      proxyPort = await proxy.listen(0, 'localhost');
+      proxy.targetPort = targetPort;
+
+      const html = await get(proxyPort, '/home');
+      expect(html.status).toBe(200);
+      expect(html.body).toBe(injectLiveReloadScript('<html><body>Hello</body></html>\r\n'));
+
+      const script = await get(proxyPort, '/main.js');
+      expect(script.type).toBe('application/javascript');
+      expect(script.body).toBe('console.log("</body>");');
+    });
+
+    it('does not modify responses without live reload', async () => {
+      proxy = new SsrProxyServer(false);
+      proxyPort = await proxy.listen(0, 'localhost');
+      proxy.targetPort = targetPort;
+
+      expect((await get(proxyPort, '/')).body).toBe('<html><body>Hello</body></html>\r\n');
+    });
+
+    it('sends reload events', async () => {
+      proxy = new SsrProxyServer(true);
+      proxyPort = await proxy.listen(0, 'localhost');
+
+      const event = await new Promise<string>((resolve, reject) => {
+        http.get({ host: 'localhost', port: proxyPort, path: LIVE_RELOAD_PATH }, response => {
+          expect(response.headers['content-type']).toBe('text/event-stream');
+          response.on('data', (chunk: Buffer) => {
+            const data = chunk.toString();
+            if (data.startsWith('data:')) {
+              response.destroy();
+              resolve(data);
+            } else {
+              proxy.reload();
+            }
+          });
+        }).once('error', reject);
+      });
+
+      expect(event).toBe('data: reload\n\n');
+    });
+  });
+});
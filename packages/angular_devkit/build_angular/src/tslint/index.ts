@@ -28,7 +28,7 @@ async function _run(
 ): Promise<BuilderOutput> {
   context.logger.warn(
     `TSLint's support is discontinued and we're deprecating its support in Angular CLI.\n` +
-    'To opt-in using the community driven ESLint builder, see: https://github.com/angular-eslint/angular-eslint#migrating-from-codelyzer-and-tslint.',
+    `To migrate to the '@angular-devkit/build-angular:eslint' builder, run 'ng generate @schematics/angular:tslint-to-eslint'.`,
   );
 
   const systemRoot = context.workspaceRoot;
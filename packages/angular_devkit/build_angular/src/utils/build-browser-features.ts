@@ -40,28 +40,80 @@ export class BuildBrowserFeatures {
    * True, when a browser feature is supported partially or fully.
    */
   isFeatureSupported(featureId: string): boolean {
-    // y: feature is fully available
-    // n: feature is unavailable
-    // a: feature is partially supported
-    // x: feature is prefixed
-    const criteria = [
-      'y',
-      'a',
-    ];
-
     const data = feature(features[featureId]);
 
-    return !this.supportedBrowsers
-      .some(browser => {
-        const [agentId, version] = browser.split(' ');
+    return this.supportedBrowsers.every(browser => isFeatureSupportedBy(data, browser));
+  }
+
+  /**
+   * The browsers of the modern and legacy environments, used to serve the bundles of an
+   * environment depending on the user agent.
+   * The environments are read from the `modern` and `legacy` sections of the browserslist
+   * configuration. Without those, the supported browsers are split depending on their support
+   * for ES modules.
+   * All bundles are compiled for the supported browsers, so the environments must split those
+   * and the modern browsers must support ES modules. An error is thrown otherwise.
+   */
+  getDifferentialServingBrowsers(): { modern: string[]; legacy: string[] } {
+    const data = feature(features['es6-module']);
+    const config = browserslist.findConfig(this.projectRoot);
+    if (config?.modern && config?.legacy) {
+      const modern = browserslist(config.modern, { path: this.projectRoot });
+      const legacy = browserslist(config.legacy, { path: this.projectRoot });
+
+      const environmentBrowsers = new Set([...modern, ...legacy]);
+      if (
+        environmentBrowsers.size !== this.supportedBrowsers.length ||
+        this.supportedBrowsers.some(browser => !environmentBrowsers.has(browser))
+      ) {
+        throw new Error(
+          `The 'modern' and 'legacy' browserslist environments must list the same browsers as the default environment, ` +
+          'as all bundles are compiled for the browsers of the default environment.',
+        );
+      }
+
+      const unsupportedBrowsers = modern.filter(browser => !isFeatureSupportedBy(data, browser));
+      if (unsupportedBrowsers.length) {
+        throw new Error(
+          `The 'modern' browserslist environment contains browsers without support for ES modules: ` +
+          `${unsupportedBrowsers.join(', ')}.`,
+        );
+      }
 
-        const browserData = data.stats[agentId];
-        const featureStatus = (browserData && browserData[version]) as string | undefined;
+      return { modern, legacy };
+    }
 
-        // We are only interested in the first character
-        // Ex: when 'a #4 #5', we only need to check for 'a'
-        // as for such cases we should polyfill these features as needed
-        return !featureStatus || !criteria.includes(featureStatus.charAt(0));
-      });
+    const modern: string[] = [];
+    const legacy: string[] = [];
+    for (const browser of this.supportedBrowsers) {
+      if (isFeatureSupportedBy(data, browser)) {
+        modern.push(browser);
+      } else {
+        legacy.push(browser);
+      }
+    }
+
+    return { modern, legacy };
   }
 }
+
+function isFeatureSupportedBy(data: ReturnType<typeof feature>, browser: string): boolean {
+  // y: feature is fully available
+  // n: feature is unavailable
+  // a: feature is partially supported
+  // x: feature is prefixed
+  const criteria = [
+    'y',
+    'a',
+  ];
+
+  const [agentId, version] = browser.split(' ');
+
+  const browserData = data.stats[agentId];
+  const featureStatus = (browserData && browserData[version]) as string | undefined;
+
+  // We are only interested in the first character
+  // Ex: when 'a #4 #5', we only need to check for 'a'
+  // as for such cases we should polyfill these features as needed
+  return !!featureStatus && criteria.includes(featureStatus.charAt(0));
+}
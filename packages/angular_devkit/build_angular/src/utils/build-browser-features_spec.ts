@@ -99,4 +99,83 @@ describe('BuildBrowserFeatures', () => {
       expect(buildBrowserFeatures.isFeatureSupported('es6-module')).toBe(true);
     });
   });
+
+  describe('getDifferentialServingBrowsers', () => {
+    it('splits the browsers depending on their support for ES modules', () => {
+      host.writeMultipleFiles({
+        '.browserslistrc': `
+          Chrome 80
+          IE 11
+        `,
+      });
+
+      const buildBrowserFeatures = new BuildBrowserFeatures(workspaceRootSysPath);
+      expect(buildBrowserFeatures.getDifferentialServingBrowsers()).toEqual({
+        modern: ['chrome 80'],
+        legacy: ['ie 11'],
+      });
+    });
+
+    it('uses the modern and legacy environments of the configuration', () => {
+      host.writeMultipleFiles({
+        '.browserslistrc': `
+          Chrome 80
+          Safari 9-13
+
+          [modern]
+          Chrome 80
+          Safari 11-13
+
+          [legacy]
+          Safari 9-10.1
+        `,
+      });
+
+      const buildBrowserFeatures = new BuildBrowserFeatures(workspaceRootSysPath);
+      expect(buildBrowserFeatures.getDifferentialServingBrowsers()).toEqual({
+        modern: ['chrome 80', 'safari 13', 'safari 12.1', 'safari 12', 'safari 11.1', 'safari 11'],
+        legacy: ['safari 10.1', 'safari 10', 'safari 9.1', 'safari 9'],
+      });
+    });
+
+    it('throws when the environments do not list the supported browsers', () => {
+      host.writeMultipleFiles({
+        '.browserslistrc': `
+          Chrome 80
+          Safari 9
+
+          [modern]
+          Chrome 80
+          Safari 13
+
+          [legacy]
+          Safari 9
+        `,
+      });
+
+      const buildBrowserFeatures = new BuildBrowserFeatures(workspaceRootSysPath);
+      expect(() => buildBrowserFeatures.getDifferentialServingBrowsers())
+        .toThrowError(/must list the same browsers as the default environment/);
+    });
+
+    it('throws when the modern environment contains browsers without ES modules support', () => {
+      host.writeMultipleFiles({
+        '.browserslistrc': `
+          Chrome 80
+          Safari 9
+
+          [modern]
+          Chrome 80
+          Safari 9
+
+          [legacy]
+          Safari 9
+        `,
+      });
+
+      const buildBrowserFeatures = new BuildBrowserFeatures(workspaceRootSysPath);
+      expect(() => buildBrowserFeatures.getDifferentialServingBrowsers())
+        .toThrowError(/without support for ES modules: safari 9/);
+    });
+  });
 });
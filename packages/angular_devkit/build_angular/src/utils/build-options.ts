@@ -13,6 +13,7 @@ import {
   Budget,
   CrossOrigin,
   ExtraEntryPoint,
+  Federation,
   I18NMissingTranslation,
   IndexUnion,
   Localize,
@@ -20,6 +21,7 @@ import {
   SourceMapClass,
 } from '../browser/schema';
 import { Schema as DevServerSchema } from '../dev-server/schema';
+import { SizeManifest } from './bundle-calculator';
 import { NormalizedFileReplacement } from './normalize-file-replacements';
 import { NormalizedOptimizationOptions } from './normalize-optimization';
 
@@ -68,6 +70,10 @@ export interface BuildOptions {
   main: string;
   polyfills?: string;
   budgets: Budget[];
+  budgetBaseline?: string;
+  /** The size manifest of the `budgetBaseline` option, which is read once by the builder. */
+  budgetBaselineManifest?: SizeManifest;
+  sizeManifest?: boolean;
   assets: AssetPatternClass[];
   scripts: ExtraEntryPoint[];
   styles: ExtraEntryPoint[];
@@ -79,6 +85,7 @@ export interface BuildOptions {
 
   experimentalRollupPass?: boolean;
   allowedCommonJsDependencies?: string[];
+  federation?: Federation;
 
   differentialLoadingMode?: boolean;
 }
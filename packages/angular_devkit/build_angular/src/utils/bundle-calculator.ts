@@ -5,16 +5,26 @@
  * Use of this source code is governed by an MIT-style license that can be
  * found in the LICENSE file at https://angular.io/license
  */
+import { readFileSync } from 'fs';
 import * as webpack from 'webpack';
 import { Budget, Type } from '../browser/schema';
 import { ProcessBundleFile, ProcessBundleResult } from '../utils/process-bundle';
 import { formatSize } from '../webpack/utils/stats';
 
-interface Size {
+export interface Size {
   size: number;
   label?: string;
 }
 
+/**
+ * The sizes of a build's output grouped by budget type. Sizes are keyed by the same labels
+ * used when checking budgets with output hashes removed to allow comparing separate builds.
+ */
+export interface SizeManifest {
+  version: 1;
+  sizes: Partial<Record<Type, Record<string, number>>>;
+}
+
 interface Threshold {
   limit: number;
   type: ThresholdType;
@@ -337,6 +347,7 @@ export function* checkBudgets(
   budgets: Budget[],
   webpackStats: webpack.Stats.ToJsonOutput,
   processResults: ProcessBundleResult[],
+  baseline?: SizeManifest,
 ): IterableIterator<{ severity: ThresholdSeverity, message: string }> {
   // Ignore AnyComponentStyle budgets as these are handled in `AnyComponentStyleBudgetChecker`.
   const computableBudgets = budgets.filter((budget) => budget.type !== Type.AnyComponentStyle);
@@ -344,9 +355,128 @@ export function* checkBudgets(
   for (const budget of computableBudgets) {
     const sizes = calculateSizes(budget, webpackStats, processResults);
     for (const { size, label } of sizes) {
-      yield* checkThresholds(calculateThresholds(budget), size, label);
+      const resolvedBudget = resolveBudgetBaseline(budget, label, baseline);
+      if (resolvedBudget) {
+        yield* checkThresholds(calculateThresholds(resolvedBudget), size, label);
+      }
+    }
+  }
+}
+
+/**
+ * Resolves the baseline of a budget that is relative to a previous build. The size recorded
+ * for the label in the baseline manifest is used as the budget's baseline.
+ *
+ * @returns The budget to check or `undefined` if no size was recorded for the label.
+ */
+export function resolveBudgetBaseline(
+  budget: Budget,
+  label: string | undefined,
+  baseline: SizeManifest | undefined,
+): Budget | undefined {
+  if (!budget.relativeToBaseline) {
+    return budget;
+  }
+
+  const baselineSize = baseline?.sizes[budget.type]?.[normalizeLabel(label ?? budget.type)];
+  if (baselineSize === undefined) {
+    return undefined;
+  }
+
+  return { ...budget, baseline: `${baselineSize}b` };
+}
+
+/**
+ * Creates a manifest of the output sizes for every budget type. Component style sizes are not
+ * available post-build and must be provided by the `AnyComponentStyleBudgetChecker` plugin.
+ */
+export function generateSizeManifest(
+  webpackStats: webpack.Stats.ToJsonOutput,
+  processResults: ProcessBundleResult[],
+  componentStyleSizes: Iterable<Size> = [],
+): SizeManifest {
+  const sizes: SizeManifest['sizes'] = {};
+  const addSizes = (type: Type, values: Iterable<Size>) => {
+    const entries = sizes[type] || (sizes[type] = {});
+    for (const { size, label } of values) {
+      entries[normalizeLabel(label ?? type)] = size;
+    }
+  };
+
+  for (const type of [Type.All, Type.AllScript, Type.Any, Type.AnyScript, Type.Initial]) {
+    addSizes(type, calculateSizes({ type }, webpackStats, processResults));
+  }
+
+  const bundleNames = new Set<string>();
+  for (const chunk of webpackStats.chunks || []) {
+    chunk.names.forEach((name) => bundleNames.add(name));
+  }
+  for (const name of bundleNames) {
+    addSizes(Type.Bundle, calculateSizes({ type: Type.Bundle, name }, webpackStats, processResults));
+  }
+
+  addSizes(Type.AnyComponentStyle, componentStyleSizes);
+
+  return { version: 1, sizes };
+}
+
+export function readSizeManifest(manifestPath: string): SizeManifest {
+  let manifest;
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Unable to read size manifest "${manifestPath}": ${error.message}`);
+  }
+
+  if (manifest?.version !== 1 || typeof manifest.sizes !== 'object') {
+    throw new Error(`Size manifest "${manifestPath}" has an unsupported format.`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Compares the initial, bundle and component style sizes of two builds.
+ *
+ * @returns Failures with the given severity describing each of the outputs that increased in
+ * size ordered by the amount of the increase.
+ */
+export function checkSizeIncreases(
+  baseline: SizeManifest,
+  current: SizeManifest,
+  severity: ThresholdSeverity,
+): { severity: ThresholdSeverity, message: string }[] {
+  const increases: { label: string, size: number, baselineSize?: number }[] = [];
+  for (const type of [Type.Initial, Type.Bundle, Type.AnyComponentStyle]) {
+    const baselineSizes = baseline.sizes[type] || {};
+    for (const [label, size] of Object.entries(current.sizes[type] || {})) {
+      const baselineSize = baselineSizes[label];
+      if (baselineSize === undefined || size > baselineSize) {
+        increases.push({ label, size, baselineSize });
+      }
     }
   }
+
+  const difference = ({ size, baselineSize = 0 }: typeof increases[0]) => size - baselineSize;
+
+  return increases
+    .sort((a, b) => difference(b) - difference(a))
+    .map((increase) => {
+      const { label, size, baselineSize } = increase;
+      if (baselineSize === undefined) {
+        return { severity, message: `${label} was added with a total of ${formatSize(size)}.` };
+      }
+
+      const percentage = baselineSize > 0
+        ? ` (${(difference(increase) / baselineSize * 100).toFixed(2)}%)`
+        : '';
+
+      return {
+        severity,
+        message: `${label} increased by ${formatSize(difference(increase))}${percentage} to ${
+          formatSize(size)}.`,
+      };
+    });
 }
 
 export function* checkThresholds(thresholds: IterableIterator<Threshold>, size: number, label?: string):
@@ -415,6 +545,11 @@ function mergeDifferentialBuildSizes(buildSizes: Size[], mergeLabel: string): Si
   }];
 }
 
+/** Removes output hashes from a label to allow matching the outputs of separate builds. */
+function normalizeLabel(label: string): string {
+  return label.replace(/\.[0-9a-f]{16,}(?=\.)/g, '');
+}
+
 /** Returns whether or not all items in the list are equivalent to each other. */
 function allEquivalent<T>(items: Iterable<T>): boolean {
   return new Set(items).size < 2;
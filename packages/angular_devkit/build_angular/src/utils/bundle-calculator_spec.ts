@@ -7,7 +7,13 @@
  */
 import * as webpack from 'webpack';
 import { Budget, Type } from '../browser/schema';
-import { ThresholdSeverity, checkBudgets } from './bundle-calculator';
+import {
+  SizeManifest,
+  ThresholdSeverity,
+  checkBudgets,
+  checkSizeIncreases,
+  generateSizeManifest,
+} from './bundle-calculator';
 import { ProcessBundleResult } from './process-bundle';
 
 const KB = 1024;
@@ -464,5 +470,152 @@ describe('bundle-calculator', () => {
         message: jasmine.stringMatching('foo.ext exceeded maximum budget.'),
       });
     });
+
+    it('yields exceeded budgets relative to a baseline manifest', () => {
+      const budgets: Budget[] = [{
+        type: Type.Bundle,
+        name: 'foo',
+        relativeToBaseline: true,
+        maximumWarning: '10%',
+      }];
+      const stats = {
+        chunks: [
+          {
+            id: 0,
+            names: [ 'foo' ],
+            files: [ 'foo.0123456789abcdef0123.js' ],
+          },
+        ],
+        assets: [
+          {
+            name: 'foo.0123456789abcdef0123.js',
+            size: 1.5 * KB,
+          },
+        ],
+      } as unknown as webpack.Stats.ToJsonOutput;
+      const baseline: SizeManifest = { version: 1, sizes: { bundle: { foo: 1 * KB } } };
+
+      const failures = Array.from(checkBudgets(budgets, stats, [] /* processResults */, baseline));
+
+      expect(failures.length).toBe(1);
+      expect(failures).toContain({
+        severity: ThresholdSeverity.Warning,
+        message: jasmine.stringMatching('foo exceeded maximum budget.'),
+      });
+    });
+
+    it('ignores budgets relative to a baseline without a recorded size', () => {
+      const budgets: Budget[] = [{
+        type: Type.Bundle,
+        name: 'foo',
+        relativeToBaseline: true,
+        maximumError: '10%',
+      }];
+      const stats = {
+        chunks: [
+          {
+            id: 0,
+            names: [ 'foo' ],
+            files: [ 'foo.js' ],
+          },
+        ],
+        assets: [
+          {
+            name: 'foo.js',
+            size: 1.5 * KB,
+          },
+        ],
+      } as unknown as webpack.Stats.ToJsonOutput;
+      const baseline: SizeManifest = { version: 1, sizes: {} };
+
+      const failures = Array.from(checkBudgets(budgets, stats, [] /* processResults */, baseline));
+
+      expect(failures.length).toBe(0);
+    });
+  });
+
+  describe('generateSizeManifest()', () => {
+    it('records sizes without output hashes', () => {
+      const stats = {
+        chunks: [
+          {
+            id: 0,
+            initial: true,
+            names: [ 'main' ],
+            files: [ 'main.0123456789abcdef0123.js' ],
+          },
+          {
+            id: 1,
+            initial: false,
+            names: [ 'lazy' ],
+            files: [ 'lazy.abcdef0123456789abcd.js' ],
+          },
+        ],
+        assets: [
+          {
+            name: 'main.0123456789abcdef0123.js',
+            size: 2 * KB,
+          },
+          {
+            name: 'lazy.abcdef0123456789abcd.js',
+            size: 1 * KB,
+          },
+        ],
+      } as unknown as webpack.Stats.ToJsonOutput;
+
+      const manifest = generateSizeManifest(
+        stats,
+        [] /* processResults */,
+        [{ label: 'app.component.css', size: 100 }],
+      );
+
+      expect(manifest.sizes.initial).toEqual({ initial: 2 * KB });
+      expect(manifest.sizes.bundle).toEqual({ main: 2 * KB, lazy: 1 * KB });
+      expect(manifest.sizes.anyScript).toEqual({ 'main.js': 2 * KB, 'lazy.js': 1 * KB });
+      expect(manifest.sizes.anyComponentStyle).toEqual({ 'app.component.css': 100 });
+    });
+  });
+
+  describe('checkSizeIncreases()', () => {
+    it('reports increased and added outputs ordered by the increase', () => {
+      const baseline: SizeManifest = {
+        version: 1,
+        sizes: { initial: { initial: 10 * KB }, bundle: { main: 8 * KB, lazy: 2 * KB } },
+      };
+      const current: SizeManifest = {
+        version: 1,
+        sizes: {
+          initial: { initial: 11 * KB },
+          bundle: { main: 9 * KB, lazy: 1 * KB, other: 4 * KB },
+        },
+      };
+
+      expect(checkSizeIncreases(baseline, current, ThresholdSeverity.Warning)).toEqual([
+        {
+          severity: ThresholdSeverity.Warning,
+          message: 'other was added with a total of 4.00 kB.',
+        },
+        {
+          severity: ThresholdSeverity.Warning,
+          message: 'initial increased by 1.00 kB (10.00%) to 11.00 kB.',
+        },
+        {
+          severity: ThresholdSeverity.Warning,
+          message: 'main increased by 1.00 kB (12.50%) to 9.00 kB.',
+        },
+      ]);
+    });
+
+    it('reports size increases with the given severity', () => {
+      const baseline: SizeManifest = { version: 1, sizes: { bundle: { main: 8 * KB } } };
+      const current: SizeManifest = { version: 1, sizes: { bundle: { main: 9 * KB } } };
+
+      expect(checkSizeIncreases(baseline, current, ThresholdSeverity.Error)).toEqual([
+        {
+          severity: ThresholdSeverity.Error,
+          message: 'main increased by 1.00 kB (12.50%) to 9.00 kB.',
+        },
+      ]);
+    });
   });
 });
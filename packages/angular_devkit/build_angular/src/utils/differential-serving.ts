@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { readFileSync } from 'fs';
+import { IncomingMessage, ServerResponse } from 'http';
+import * as path from 'path';
+
+/**
+ * The name of the manifest written next to the index files when using differential serving.
+ */
+export const DIFFERENTIAL_SERVING_MANIFEST = 'differential-serving.json';
+
+export interface DifferentialServingEnvironment {
+  /** The name of the browserslist environment, such as `modern` or `legacy`. */
+  name: string;
+  /** The index file of the environment, relative to the output path. */
+  index: string;
+  /** The browsers of the environment, as resolved by browserslist. */
+  browsers: string[];
+}
+
+export interface DifferentialServingManifest {
+  /** The index file served when the user agent does not match any environment. */
+  index: string;
+  /** The environments, in the order they are matched against the user agent. */
+  environments: DifferentialServingEnvironment[];
+}
+
+export interface DifferentialServingMiddlewareOptions {
+  /** The output path of the application, which contains the differential serving manifest. */
+  outputPath?: string;
+  /** The manifest to use instead of reading it from the output path. */
+  manifest?: DifferentialServingManifest;
+}
+
+export type DifferentialServingMiddleware =
+  (request: IncomingMessage, response: ServerResponse, next: (error?: unknown) => void) => void;
+
+/**
+ * Get the index file of an environment, `index.modern.html` for the `modern` environment of
+ * `index.html`.
+ */
+export function getEnvironmentIndexFile(index: string, environment: string): string {
+  const extension = path.posix.extname(index);
+
+  return `${index.slice(0, index.length - extension.length)}.${environment}${extension}`;
+}
+
+// The browserslist agents of a user agent, most specific first.
+const userAgentPatterns: [RegExp, string[]][] = [
+  // All iOS browsers use the Safari engine.
+  [/(?:iPhone|iPad|iPod).* OS (\d+)_(\d+)/, ['ios_saf']],
+  [/MSIE (\d+)\.(\d+)/, ['ie']],
+  [/Trident\/.*rv:(\d+)\.(\d+)/, ['ie']],
+  [/Edge?\/(\d+)\.(\d+)/, ['edge']],
+  [/SamsungBrowser\/(\d+)\.(\d+)/, ['samsung']],
+  [/OPR\/(\d+)\.(\d+)/, ['opera']],
+  // Browserslist only knows the latest version of mobile browsers, so use desktop versions too.
+  [/Android.*Firefox\/(\d+)\.(\d+)/, ['and_ff', 'firefox']],
+  [/Firefox\/(\d+)\.(\d+)/, ['firefox']],
+  [/Android.*Chrome\/(\d+)\.(\d+)/, ['and_chr', 'chrome']],
+  [/Chrome\/(\d+)\.(\d+)/, ['chrome']],
+  [/Version\/(\d+)\.(\d+).*Safari\//, ['safari']],
+  [/Android (\d+)\.(\d+)/, ['android']],
+];
+
+function parseUserAgent(userAgent: string): { agents: string[]; version: number[] } | undefined {
+  for (const [pattern, agents] of userAgentPatterns) {
+    const match = userAgent.match(pattern);
+    if (match) {
+      return { agents, version: [Number(match[1]), Number(match[2])] };
+    }
+  }
+
+  return undefined;
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] || 0) - (b[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * True, when the browser of a user agent is one of the browsers, or a later version of one of
+ * the browsers.
+ * @param userAgent The value of the `User-Agent` header.
+ * @param browsers The browsers, as resolved by browserslist.
+ */
+export function isUserAgentInBrowsers(userAgent: string, browsers: string[]): boolean {
+  const browser = parseUserAgent(userAgent);
+  if (!browser) {
+    return false;
+  }
+
+  for (const agent of browser.agents) {
+    let minimum: number[] | undefined;
+    for (const entry of browsers) {
+      const [name, version = ''] = entry.split(' ');
+      if (name !== agent) {
+        continue;
+      }
+
+      // Versions can be ranges, such as `ios_saf 12.2-12.4`.
+      const lowest = version === 'all' ? [0] : version.split('-')[0].split('.').map(Number);
+      if (lowest.some(isNaN)) {
+        continue;
+      }
+
+      if (!minimum || compareVersions(lowest, minimum) < 0) {
+        minimum = lowest;
+      }
+    }
+
+    if (minimum && compareVersions(browser.version, minimum) >= 0) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Select the index file to serve to a user agent; the index of the first matching environment.
+ */
+export function selectIndexFile(manifest: DifferentialServingManifest, userAgent: string): string {
+  const environment = manifest.environments
+    .find(({ browsers }) => isUserAgentInBrowsers(userAgent, browsers));
+
+  return environment ? environment.index : manifest.index;
+}
+
+function readManifest(outputPath: string | undefined): DifferentialServingManifest {
+  if (outputPath === undefined) {
+    throw new Error('Either the "outputPath" or the "manifest" option is required.');
+  }
+
+  const content = readFileSync(path.join(outputPath, DIFFERENTIAL_SERVING_MANIFEST), 'utf-8');
+
+  return JSON.parse(content) as DifferentialServingManifest;
+}
+
+/**
+ * Create a Node.js and Express compatible middleware which serves the index file of the
+ * environment matching the user agent, for the index and the routes of the application.
+ * It rewrites the URL of the request, so the files must be served by a later middleware:
+ *
+ *   app.use(createDifferentialServingMiddleware({ outputPath: 'dist/app' }));
+ *   app.use(express.static('dist/app'));
+ */
+export function createDifferentialServingMiddleware(
+  options: DifferentialServingMiddlewareOptions,
+): DifferentialServingMiddleware {
+  const manifest = options.manifest || readManifest(options.outputPath);
+  const { index } = manifest;
+
+  return (request, response, next) => {
+    const accept = request.headers.accept || '';
+    if ((request.method !== 'GET' && request.method !== 'HEAD') || !accept.includes('text/html')) {
+      next();
+
+      return;
+    }
+
+    const url = request.url || '/';
+    const queryIndex = url.indexOf('?');
+    const pathname = queryIndex === -1 ? url : url.slice(0, queryIndex);
+    const query = queryIndex === -1 ? '' : url.slice(queryIndex);
+
+    // Routes of the application have no extension.
+    if (pathname !== '/' && pathname !== `/${index}` && path.posix.extname(pathname) !== '') {
+      next();
+
+      return;
+    }
+
+    const vary = response.getHeader('Vary');
+    response.setHeader('Vary', vary ? `${vary}, User-Agent` : 'User-Agent');
+    const userAgent = request.headers['user-agent'] || '';
+    request.url = `/${selectIndexFile(manifest, userAgent)}${query}`;
+
+    next();
+  };
+}
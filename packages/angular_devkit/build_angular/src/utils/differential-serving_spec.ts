@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { IncomingMessage, ServerResponse } from 'http';
+import {
+  DifferentialServingManifest,
+  createDifferentialServingMiddleware,
+  getEnvironmentIndexFile,
+  isUserAgentInBrowsers,
+  selectIndexFile,
+} from './differential-serving';
+
+const userAgents = {
+  chrome87: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) ' +
+    'Chrome/87.0.4280.88 Safari/537.36',
+  chrome87Android: 'Mozilla/5.0 (Linux; Android 10; SM-G973F) AppleWebKit/537.36 (KHTML, like Gecko) ' +
+    'Chrome/87.0.4280.101 Mobile Safari/537.36',
+  edge18: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) ' +
+    'Chrome/70.0.3538.102 Safari/537.36 Edge/18.18363',
+  ie11: 'Mozilla/5.0 (Windows NT 10.0; WOW64; Trident/7.0; rv:11.0) like Gecko',
+  iphone: 'Mozilla/5.0 (iPhone; CPU iPhone OS 14_2 like Mac OS X) AppleWebKit/605.1.15 ' +
+    '(KHTML, like Gecko) CriOS/87.0.4280.77 Mobile/15E148 Safari/604.1',
+  safari13: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_3) AppleWebKit/605.1.15 (KHTML, like Gecko) ' +
+    'Version/13.0.5 Safari/605.1.15',
+};
+
+describe('differential-serving', () => {
+  const manifest: DifferentialServingManifest = {
+    index: 'index.html',
+    environments: [
+      {
+        name: 'modern',
+        index: 'index.modern.html',
+        browsers: ['and_chr 87', 'chrome 86', 'edge 87', 'ios_saf 13.4-13.7', 'safari 13.1'],
+      },
+      { name: 'legacy', index: 'index.legacy.html', browsers: ['edge 18', 'ie 11', 'safari 13'] },
+    ],
+  };
+
+  describe('getEnvironmentIndexFile()', () => {
+    it('adds the environment to the file name', () => {
+      expect(getEnvironmentIndexFile('index.html', 'modern')).toBe('index.modern.html');
+      expect(getEnvironmentIndexFile('app/main.html', 'legacy')).toBe('app/main.legacy.html');
+    });
+  });
+
+  describe('isUserAgentInBrowsers()', () => {
+    it('matches the same or later browser versions', () => {
+      expect(isUserAgentInBrowsers(userAgents.chrome87, ['chrome 87'])).toBe(true);
+      expect(isUserAgentInBrowsers(userAgents.chrome87, ['chrome 80'])).toBe(true);
+      expect(isUserAgentInBrowsers(userAgents.chrome87, ['chrome 88'])).toBe(false);
+      expect(isUserAgentInBrowsers(userAgents.chrome87, ['firefox 84'])).toBe(false);
+    });
+
+    it('matches minor versions', () => {
+      expect(isUserAgentInBrowsers(userAgents.safari13, ['safari 13'])).toBe(true);
+      expect(isUserAgentInBrowsers(userAgents.safari13, ['safari 13.1'])).toBe(false);
+    });
+
+    it('matches version ranges', () => {
+      expect(isUserAgentInBrowsers(userAgents.iphone, ['ios_saf 14.0-14.3'])).toBe(true);
+      expect(isUserAgentInBrowsers(userAgents.iphone, ['ios_saf 14.3-14.4'])).toBe(false);
+    });
+
+    it('matches mobile browsers with desktop versions', () => {
+      expect(isUserAgentInBrowsers(userAgents.chrome87Android, ['and_chr 88', 'chrome 86'])).toBe(true);
+    });
+
+    it('does not match unknown user agents', () => {
+      expect(isUserAgentInBrowsers('curl/7.64.1', ['chrome 87'])).toBe(false);
+    });
+  });
+
+  describe('selectIndexFile()', () => {
+    it('selects the index of the first matching environment', () => {
+      expect(selectIndexFile(manifest, userAgents.chrome87)).toBe('index.modern.html');
+      expect(selectIndexFile(manifest, userAgents.chrome87Android)).toBe('index.modern.html');
+      expect(selectIndexFile(manifest, userAgents.iphone)).toBe('index.modern.html');
+      expect(selectIndexFile(manifest, userAgents.edge18)).toBe('index.legacy.html');
+      expect(selectIndexFile(manifest, userAgents.ie11)).toBe('index.legacy.html');
+      expect(selectIndexFile(manifest, userAgents.safari13)).toBe('index.legacy.html');
+    });
+
+    it('selects the default index for unknown user agents', () => {
+      expect(selectIndexFile(manifest, 'curl/7.64.1')).toBe('index.html');
+    });
+  });
+
+  describe('createDifferentialServingMiddleware()', () => {
+    const middleware = createDifferentialServingMiddleware({ manifest });
+
+    function request(url: string, userAgent: string, accept = 'text/html,*/*', method = 'GET') {
+      const req = { method, url, headers: { accept, 'user-agent': userAgent } } as IncomingMessage;
+      const headers = new Map<string, unknown>();
+      const res = {
+        getHeader: (name: string) => headers.get(name),
+        setHeader: (name: string, value: unknown) => headers.set(name, value),
+      } as unknown as ServerResponse;
+
+      let called = false;
+      middleware(req, res, () => called = true);
+      expect(called).toBe(true);
+
+      return { url: req.url, vary: headers.get('Vary') };
+    }
+
+    it('rewrites requests of the index file', () => {
+      expect(request('/', userAgents.chrome87)).toEqual({ url: '/index.modern.html', vary: 'User-Agent' });
+      expect(request('/index.html', userAgents.ie11).url).toBe('/index.legacy.html');
+      expect(request('/', 'curl/7.64.1').url).toBe('/index.html');
+    });
+
+    it('rewrites requests of routes and keeps the query', () => {
+      expect(request('/dashboard/1?tab=2', userAgents.chrome87).url).toBe('/index.modern.html?tab=2');
+    });
+
+    it('does not rewrite requests of files', () => {
+      expect(request('/main-es2015.js', userAgents.chrome87).url).toBe('/main-es2015.js');
+      expect(request('/help.html', userAgents.chrome87).url).toBe('/help.html');
+    });
+
+    it('does not rewrite requests which do not accept HTML', () => {
+      expect(request('/', userAgents.chrome87, 'application/json')).toEqual({ url: '/', vary: undefined });
+      expect(request('/', userAgents.chrome87, 'text/html', 'POST').url).toBe('/');
+    });
+  });
+});
@@ -11,13 +11,14 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import * as rimraf from 'rimraf';
-import { Schema as BrowserBuilderSchema } from '../browser/schema';
+import { LocalizeMode, Schema as BrowserBuilderSchema } from '../browser/schema';
 import { Schema as ServerBuilderSchema } from '../server/schema';
 import { readTsconfig } from '../utils/read-tsconfig';
-import { createTranslationLoader } from './load-translations';
+import { TranslationLoader, createTranslationLoader } from './load-translations';
 
 export interface I18nOptions {
   inlineLocales: Set<string>;
+  runtimeLocales: Set<string>;
   sourceLocale: string;
   locales: Record<
     string,
@@ -68,6 +69,7 @@ export function createI18nOptions(
 
   const i18n: I18nOptions = {
     inlineLocales: new Set<string>(),
+    runtimeLocales: new Set<string>(),
     // en-US is the default locale added to Angular applications (https://angular.io/guide/i18n#i18n-pipes)
     sourceLocale: 'en-US',
     locales: {},
@@ -162,11 +164,23 @@ export async function configureI18nBuild<T extends BrowserBuilderSchema | Server
   const tsConfig = readTsconfig(buildOptions.tsConfig, context.workspaceRoot);
   const usingIvy = tsConfig.options.enableIvy !== false;
   const metadata = await context.getProjectMetadata(context.target);
-  const i18n = createI18nOptions(metadata, buildOptions.localize);
+  const runtime = (buildOptions as BrowserBuilderSchema).localizeMode === LocalizeMode.Runtime;
+  // Runtime localization provides all project locales unless specific locales are requested
+  const i18n = createI18nOptions(metadata, buildOptions.localize ?? (runtime || undefined));
+
+  if (runtime) {
+    if (!usingIvy) {
+      throw new Error(`Runtime localization is not supported with View Engine.`);
+    }
+
+    // The translations are loaded by the application instead of being inlined into the bundles
+    i18n.inlineLocales.forEach(locale => i18n.runtimeLocales.add(locale));
+    i18n.inlineLocales.clear();
+  }
 
   // Until 11.0, support deprecated i18n options when not using new localize option
   // i18nFormat is automatically calculated
-  if (buildOptions.localize === undefined && usingIvy) {
+  if (buildOptions.localize === undefined && usingIvy && !runtime) {
     mergeDeprecatedI18nOptions(i18n, buildOptions.i18nLocale, buildOptions.i18nFile);
   } else if (buildOptions.localize !== undefined && !usingIvy) {
     if (
@@ -204,8 +218,8 @@ export async function configureI18nBuild<T extends BrowserBuilderSchema | Server
     buildOptions.i18nLocale = undefined;
   }
 
-  // No additional processing needed if no inlining requested and no source locale defined.
-  if (!i18n.shouldInline && !i18n.hasDefinedSourceLocale) {
+  // No additional processing needed if no localization requested and no source locale defined.
+  if (!i18n.shouldInline && i18n.runtimeLocales.size === 0 && !i18n.hasDefinedSourceLocale) {
     return { buildOptions, i18n };
   }
 
@@ -221,7 +235,8 @@ export async function configureI18nBuild<T extends BrowserBuilderSchema | Server
   let loader;
   const usedFormats = new Set<string>();
   for (const [locale, desc] of Object.entries(i18n.locales)) {
-    if (!i18n.inlineLocales.has(locale) && locale !== i18n.sourceLocale) {
+    const localized = i18n.inlineLocales.has(locale) || i18n.runtimeLocales.has(locale);
+    if (!localized && locale !== i18n.sourceLocale) {
       continue;
     }
 
@@ -253,50 +268,13 @@ export async function configureI18nBuild<T extends BrowserBuilderSchema | Server
       loader = await createTranslationLoader();
     }
 
-    for (const file of desc.files) {
-      const loadResult = loader(path.join(context.workspaceRoot, file.path));
-
-      for (const diagnostics of loadResult.diagnostics.messages) {
-        if (diagnostics.type === 'error') {
-          throw new Error(
-            `Error parsing translation file '${file.path}': ${diagnostics.message}`,
-          );
-        } else {
-          context.logger.warn(`WARNING [${file.path}]: ${diagnostics.message}`);
-        }
-      }
-
-      if (loadResult.locale !== undefined && loadResult.locale !== locale) {
-        context.logger.warn(
-          `WARNING [${file.path}]: File target locale ('${loadResult.locale}') does not match configured locale ('${locale}')`,
-        );
-      }
+    loadTranslations(locale, desc, context.workspaceRoot, loader, context.logger, usedFormats);
 
-      usedFormats.add(loadResult.format);
-      if (usedFormats.size > 1 && tsConfig.options.enableI18nLegacyMessageIdFormat !== false) {
-        // This limitation is only for legacy message id support (defaults to true as of 9.0)
-        throw new Error(
-          'Localization currently only supports using one type of translation file format for the entire application.',
-        );
-      }
-
-      file.format = loadResult.format;
-      file.integrity = loadResult.integrity;
-
-      if (desc.translation) {
-        // Merge translations
-        for (const [id, message] of Object.entries(loadResult.translations)) {
-          if (desc.translation[id] !== undefined) {
-            context.logger.warn(
-              `WARNING [${file.path}]: Duplicate translations for message '${id}' when merging`,
-            );
-          }
-          desc.translation[id] = message;
-        }
-      } else {
-        // First or only translation file
-        desc.translation = loadResult.translations;
-      }
+    if (usedFormats.size > 1 && tsConfig.options.enableI18nLegacyMessageIdFormat !== false) {
+      // This limitation is only for legacy message id support (defaults to true as of 9.0)
+      throw new Error(
+        'Localization currently only supports using one type of translation file format for the entire application.',
+      );
     }
 
     // Legacy message id's require the format of the translations
@@ -341,6 +319,54 @@ export async function configureI18nBuild<T extends BrowserBuilderSchema | Server
   return { buildOptions, i18n };
 }
 
+export function loadTranslations(
+  locale: string,
+  desc: I18nOptions['locales'][string],
+  workspaceRoot: string,
+  loader: TranslationLoader,
+  logger: { warn: (message: string) => void },
+  usedFormats?: Set<string>,
+): void {
+  for (const file of desc.files) {
+    const loadResult = loader(path.join(workspaceRoot, file.path));
+
+    for (const diagnostics of loadResult.diagnostics.messages) {
+      if (diagnostics.type === 'error') {
+        throw new Error(
+          `Error parsing translation file '${file.path}': ${diagnostics.message}`,
+        );
+      } else {
+        logger.warn(`WARNING [${file.path}]: ${diagnostics.message}`);
+      }
+    }
+
+    if (loadResult.locale !== undefined && loadResult.locale !== locale) {
+      logger.warn(
+        `WARNING [${file.path}]: File target locale ('${loadResult.locale}') does not match configured locale ('${locale}')`,
+      );
+    }
+
+    usedFormats?.add(loadResult.format);
+    file.format = loadResult.format;
+    file.integrity = loadResult.integrity;
+
+    if (desc.translation) {
+      // Merge translations
+      for (const [id, message] of Object.entries(loadResult.translations)) {
+        if (desc.translation[id] !== undefined) {
+          logger.warn(
+            `WARNING [${file.path}]: Duplicate translations for message '${id}' when merging`,
+          );
+        }
+        desc.translation[id] = message;
+      }
+    } else {
+      // First or only translation file
+      desc.translation = loadResult.translations;
+    }
+  }
+}
+
 function mergeDeprecatedI18nOptions(
   i18n: I18nOptions,
   i18nLocale: string | undefined,
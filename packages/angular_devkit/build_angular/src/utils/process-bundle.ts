@@ -620,19 +620,7 @@ interface LocalizePosition {
 
 const localizeName = '$localize';
 
-export async function inlineLocales(options: InlineOptions) {
-  if (!i18n || i18n.inlineLocales.size === 0) {
-    return { file: options.filename, diagnostics: [], count: 0 };
-  }
-  if (i18n.flatOutput && i18n.inlineLocales.size > 1) {
-    throw new Error('Flat output is only supported when inlining one locale.');
-  }
-
-  const hasLocalizeName = options.code.includes(localizeName);
-  if (!hasLocalizeName && !options.setLocale) {
-    return inlineCopyOnly(options);
-  }
-
+function parseBundle(options: { filename: string; code: string }): ParseResult {
   let ast: ParseResult | undefined | null;
   try {
     ast = parseSync(options.code, {
@@ -656,6 +644,24 @@ export async function inlineLocales(options: InlineOptions) {
     throw new Error(`Unknown error occurred inlining file "${options.filename}"`);
   }
 
+  return ast;
+}
+
+export async function inlineLocales(options: InlineOptions) {
+  if (!i18n || i18n.inlineLocales.size === 0) {
+    return { file: options.filename, diagnostics: [], count: 0 };
+  }
+  if (i18n.flatOutput && i18n.inlineLocales.size > 1) {
+    throw new Error('Flat output is only supported when inlining one locale.');
+  }
+
+  const hasLocalizeName = options.code.includes(localizeName);
+  if (!hasLocalizeName && !options.setLocale) {
+    return inlineCopyOnly(options);
+  }
+
+  const ast = parseBundle(options);
+
   if (!USE_LOCALIZE_PLUGINS) {
     return inlineLocalesDirect(ast, options);
   }
@@ -730,6 +736,63 @@ async function inlineLocalesDirect(ast: ParseResult, options: InlineOptions) {
     return { file: options.filename, diagnostics: [], count: 0 };
   }
 
+  const localized = await localizeAst(ast, i18n, i18n.inlineLocales, options);
+  if (!localized) {
+    return inlineCopyOnly(options);
+  }
+
+  for (const [locale, outputSource] of localized.sources) {
+    const { source: outputCode, map: outputMap } = outputSource.sourceAndMap();
+    const outputPath = path.join(
+      options.outputPath,
+      i18n.flatOutput ? '' : locale,
+      options.filename,
+    );
+    fs.writeFileSync(outputPath, outputCode);
+
+    if (options.map && outputMap) {
+      outputMap.file = options.filename;
+      if (localized.mapSourceRoot) {
+        outputMap.sourceRoot = localized.mapSourceRoot;
+      }
+      fs.writeFileSync(outputPath + '.map', JSON.stringify(outputMap));
+    }
+  }
+
+  return { file: options.filename, diagnostics: localized.diagnostics, count: localized.count };
+}
+
+export type LocalizeBundleOptions = Omit<InlineOptions, 'outputPath'>;
+
+export interface LocalizedBundle {
+  sources: Map<string, Source>;
+  diagnostics: import('@angular/localize/src/tools/src/diagnostics').Diagnostics['messages'];
+  count: number;
+  mapSourceRoot?: string;
+}
+
+/**
+ * Localizes a bundle for each of the given locales and returns the results instead of writing
+ * them to disk. `undefined` is returned when the bundle does not contain anything to localize.
+ */
+export async function localizeBundle(
+  i18nOptions: I18nOptions,
+  locales: Iterable<string>,
+  options: LocalizeBundleOptions,
+): Promise<LocalizedBundle | undefined> {
+  if (!options.code.includes(localizeName) && !options.setLocale) {
+    return undefined;
+  }
+
+  return localizeAst(parseBundle(options), i18nOptions, locales, options);
+}
+
+async function localizeAst(
+  ast: ParseResult,
+  i18nOptions: I18nOptions,
+  locales: Iterable<string>,
+  options: LocalizeBundleOptions,
+): Promise<LocalizedBundle | undefined> {
   const { default: generate } = await import('@babel/generator');
 
   const utils = await import('@angular/localize/src/tools/src/source_file_utils');
@@ -739,7 +802,7 @@ async function inlineLocalesDirect(ast: ParseResult, options: InlineOptions) {
 
   const positions = findLocalizePositions(ast, options, utils);
   if (positions.length === 0 && !options.setLocale) {
-    return inlineCopyOnly(options);
+    return undefined;
   }
 
   const inputMap = options.map && (JSON.parse(options.map) as RawSourceMap);
@@ -749,7 +812,8 @@ async function inlineLocalesDirect(ast: ParseResult, options: InlineOptions) {
     delete inputMap.sourceRoot;
   }
 
-  for (const locale of i18n.inlineLocales) {
+  const sources = new Map<string, Source>();
+  for (const locale of locales) {
     const content = new ReplaceSource(
       inputMap
         ? // tslint:disable-next-line: no-any
@@ -757,9 +821,9 @@ async function inlineLocalesDirect(ast: ParseResult, options: InlineOptions) {
         : new OriginalSource(options.code, options.filename),
     );
 
-    const isSourceLocale = locale === i18n.sourceLocale;
+    const isSourceLocale = locale === i18nOptions.sourceLocale;
     // tslint:disable-next-line: no-any
-    const translations: any = isSourceLocale ? {} : i18n.locales[locale].translation || {};
+    const translations: any = isSourceLocale ? {} : i18nOptions.locales[locale].translation || {};
     for (const position of positions) {
       const translated = utils.translate(
         diagnostics,
@@ -781,7 +845,7 @@ async function inlineLocalesDirect(ast: ParseResult, options: InlineOptions) {
 
       // If locale data is provided, load it and prepend to file
       let localeDataSource: Source | null = null;
-      const localeDataPath = i18n.locales[locale] && i18n.locales[locale].dataPath;
+      const localeDataPath = i18nOptions.locales[locale] && i18nOptions.locales[locale].dataPath;
       if (localeDataPath) {
         const localeDataContent = await loadLocaleData(localeDataPath, true, options.es5);
         localeDataSource = new OriginalSource(localeDataContent, path.basename(localeDataPath));
@@ -793,24 +857,15 @@ async function inlineLocalesDirect(ast: ParseResult, options: InlineOptions) {
         : new ConcatSource(setLocaleText, content);
     }
 
-    const { source: outputCode, map: outputMap } = outputSource.sourceAndMap();
-    const outputPath = path.join(
-      options.outputPath,
-      i18n.flatOutput ? '' : locale,
-      options.filename,
-    );
-    fs.writeFileSync(outputPath, outputCode);
-
-    if (inputMap && outputMap) {
-      outputMap.file = options.filename;
-      if (mapSourceRoot) {
-        outputMap.sourceRoot = mapSourceRoot;
-      }
-      fs.writeFileSync(outputPath + '.map', JSON.stringify(outputMap));
-    }
+    sources.set(locale, outputSource);
   }
 
-  return { file: options.filename, diagnostics: diagnostics.messages, count: positions.length };
+  return {
+    sources,
+    diagnostics: diagnostics.messages,
+    count: positions.length,
+    mapSourceRoot,
+  };
 }
 
 function inlineCopyOnly(options: InlineOptions) {
@@ -835,7 +890,7 @@ function inlineCopyOnly(options: InlineOptions) {
 
 function findLocalizePositions(
   ast: ParseResult,
-  options: InlineOptions,
+  options: LocalizeBundleOptions,
   utils: LocalizeUtilities,
 ): LocalizePosition[] {
   const positions: LocalizePosition[] = [];
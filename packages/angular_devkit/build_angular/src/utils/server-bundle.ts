@@ -0,0 +1,25 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Find the main bundle of a server build, with or without an output hash.
+ */
+export function findServerMainBundle(outputPath: string): string {
+  const mainRegex = /^main\.(?:[a-zA-Z0-9]{20}\.)?js$/;
+  const main = fs.existsSync(outputPath)
+    ? fs.readdirSync(outputPath).find(file => mainRegex.test(file))
+    : undefined;
+
+  if (!main) {
+    throw new Error(`Could not find the main bundle of the server in: ${outputPath}.`);
+  }
+
+  return path.join(outputPath, main);
+}
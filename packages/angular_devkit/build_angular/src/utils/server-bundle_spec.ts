@@ -0,0 +1,44 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findServerMainBundle } from './server-bundle';
+
+describe('findServerMainBundle', () => {
+  let outputPath: string;
+
+  beforeEach(() => {
+    outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'server-bundle-'));
+  });
+
+  afterEach(() => {
+    for (const file of fs.readdirSync(outputPath)) {
+      fs.unlinkSync(path.join(outputPath, file));
+    }
+    fs.rmdirSync(outputPath);
+  });
+
+  it('finds the main bundle', () => {
+    fs.writeFileSync(path.join(outputPath, 'main.js'), '');
+    fs.writeFileSync(path.join(outputPath, 'main.js.map'), '');
+
+    expect(findServerMainBundle(outputPath)).toBe(path.join(outputPath, 'main.js'));
+  });
+
+  it('finds the main bundle with an output hash', () => {
+    fs.writeFileSync(path.join(outputPath, 'main.0123456789abcdefghij.js'), '');
+
+    expect(findServerMainBundle(outputPath))
+      .toBe(path.join(outputPath, 'main.0123456789abcdefghij.js'));
+  });
+
+  it('throws when there is no main bundle', () => {
+    expect(() => findServerMainBundle(outputPath)).toThrowError(/Could not find the main bundle/);
+  });
+});
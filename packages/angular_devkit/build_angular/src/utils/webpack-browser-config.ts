@@ -18,7 +18,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as webpack from 'webpack';
 import { merge as webpackMerge } from 'webpack-merge';
-import { Schema as BrowserBuilderSchema } from '../browser/schema';
+import { LocalizeMode, Schema as BrowserBuilderSchema } from '../browser/schema';
 import {
   NormalizedBrowserBuilderSchema,
   defaultProgress,
@@ -27,6 +27,7 @@ import {
 import { WebpackConfigOptions } from '../utils/build-options';
 import { readTsconfig } from '../utils/read-tsconfig';
 import { BuilderWatchPlugin, BuilderWatcherFactory } from '../webpack/plugins/builder-watch-plugin';
+import { LocalizeRuntimePlugin } from '../webpack/plugins/localize-runtime-plugin';
 import { getEsVersionForFileName } from '../webpack/utils/helpers';
 import { profilingEnabled } from './environment-options';
 import { I18nOptions, configureI18nBuild } from './i18n-options';
@@ -190,6 +191,26 @@ export async function generateI18nBrowserWebpackConfigFromContext(
     });
   }
 
+  if (buildOptions.localizeMode === LocalizeMode.Runtime) {
+    // Add the translation loader to the polyfills which are loaded before the application
+    const loaderPath = path.join(__dirname, '..', 'webpack', 'localize-runtime.js');
+    if (typeof config.entry !== 'object' || Array.isArray(config.entry)) {
+      throw new Error('Runtime localization requires an object webpack entry configuration.');
+    }
+
+    const polyfills = config.entry['polyfills'];
+    if (Array.isArray(polyfills)) {
+      polyfills.push(loaderPath);
+    } else {
+      config.entry['polyfills'] = polyfills ? [polyfills as string, loaderPath] : [loaderPath];
+    }
+
+    if (!config.plugins) {
+      config.plugins = [];
+    }
+    config.plugins.push(new LocalizeRuntimePlugin(i18n));
+  }
+
   return { ...result, i18n };
 }
 export async function generateBrowserWebpackConfigFromContext(
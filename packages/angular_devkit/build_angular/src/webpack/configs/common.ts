@@ -364,7 +364,12 @@ export function getCommonConfig(wco: WebpackConfigOptions): Configuration {
   if (!differentialLoadingMode) {
     // Budgets are computed after differential builds, not via a plugin.
     // https://github.com/angular/angular-cli/blob/master/packages/angular_devkit/build_angular/src/browser/index.ts
-    extraPlugins.push(new BundleBudgetPlugin({ budgets: buildOptions.budgets }));
+    extraPlugins.push(
+      new BundleBudgetPlugin({
+        budgets: buildOptions.budgets,
+        baseline: buildOptions.budgetBaselineManifest,
+      }),
+    );
   }
 
   if ((scriptsSourceMap || stylesSourceMap)) {
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { resolve } from 'path';
+import { Configuration } from 'webpack';
+import { WebpackConfigOptions } from '../../utils/build-options';
+import { isWebpackFiveOrHigher } from '../../utils/webpack-version';
+import { FederationManifestPlugin } from '../plugins/federation-manifest-plugin';
+
+const defaultSharedPackages = [
+  '@angular/animations',
+  '@angular/common',
+  '@angular/core',
+  '@angular/forms',
+  '@angular/platform-browser',
+  '@angular/router',
+  'rxjs',
+];
+
+function isEmptyOption(value: unknown): boolean {
+  return value === undefined || (typeof value === 'object' && Object.keys(value || {}).length === 0);
+}
+
+export function getFederationConfig(wco: WebpackConfigOptions): Configuration {
+  const { buildOptions, root } = wco;
+  const { federation } = buildOptions;
+
+  // Undefined object options are initialized as empty objects when applying the schema defaults
+  if (!federation || Object.values(federation).every(isEmptyOption)) {
+    return {};
+  }
+
+  if (!isWebpackFiveOrHigher()) {
+    throw new Error('The "federation" option requires Webpack 5.');
+  }
+
+  const exposes: Record<string, string> = {};
+  for (const [name, modulePath] of Object.entries(federation.exposes || {})) {
+    exposes[name] = resolve(root, modulePath);
+  }
+  const isRemote = Object.keys(exposes).length > 0;
+
+  if (isRemote && !federation.name) {
+    throw new Error('The "federation.name" option is required when exposing modules.');
+  }
+
+  const remotes: Record<string, string> = {};
+  for (const [name, url] of Object.entries(federation.remotes || {})) {
+    remotes[name] = `${name}@${url}`;
+  }
+
+  const sharedPackages = federation.shared || defaultSharedPackages;
+  const shared: Record<string, { singleton: boolean; strictVersion: boolean }> = {};
+  for (const packageName of sharedPackages) {
+    shared[packageName] = { singleton: true, strictVersion: true };
+  }
+
+  const filename = federation.filename || 'remoteEntry.js';
+
+  // The container plugins are only present in the Webpack 5 typings
+  const { ModuleFederationPlugin } = require('webpack').container;
+
+  return {
+    output: {
+      // Chunks of remotes are loaded relative to the remote entry instead of the shell
+      ...(isRemote && buildOptions.deployUrl === undefined ? { publicPath: 'auto' } : {}),
+      ...(federation.name ? { uniqueName: federation.name } : {}),
+    } as Configuration['output'],
+    optimization: {
+      // The remote entry must contain the runtime to be loadable on its own
+      runtimeChunk: false,
+    },
+    plugins: [
+      new ModuleFederationPlugin({
+        name: federation.name,
+        filename: isRemote ? filename : undefined,
+        exposes,
+        remotes,
+        shared,
+      }),
+      new FederationManifestPlugin({
+        filename: 'federation.manifest.json',
+        manifest: {
+          name: federation.name,
+          remoteEntry: isRemote ? filename : undefined,
+          exposes: Object.keys(exposes),
+          remotes: federation.remotes || {},
+          shared: sharedPackages,
+        },
+      }),
+    ],
+  };
+}
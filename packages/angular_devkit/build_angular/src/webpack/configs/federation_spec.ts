@@ -0,0 +1,106 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { resolve } from 'path';
+import * as webpack from 'webpack';
+import { Federation } from '../../browser/schema';
+import { WebpackConfigOptions } from '../../utils/build-options';
+import * as webpackVersion from '../../utils/webpack-version';
+import { FederationManifestPlugin } from '../plugins/federation-manifest-plugin';
+import { getFederationConfig } from './federation';
+
+class ModuleFederationPlugin {
+  constructor(public readonly options: Record<string, unknown>) {}
+}
+
+describe('getFederationConfig', () => {
+  const root = resolve('/workspace');
+
+  function createOptions(federation?: Federation, deployUrl?: string): WebpackConfigOptions {
+    return { root, buildOptions: { federation, deployUrl } } as WebpackConfigOptions;
+  }
+
+  function getPlugins(config: webpack.Configuration) {
+    const [federationPlugin, manifestPlugin] = config.plugins || [];
+
+    return {
+      options: (federationPlugin as unknown as ModuleFederationPlugin).options,
+      manifest: (manifestPlugin as FederationManifestPlugin)['options'].manifest,
+    };
+  }
+
+  beforeEach(() => {
+    spyOn(webpackVersion, 'isWebpackFiveOrHigher').and.returnValue(true);
+    // The container plugins are only available in Webpack 5
+    // tslint:disable-next-line: no-any
+    (webpack as any).container = { ModuleFederationPlugin };
+  });
+
+  afterEach(() => {
+    // tslint:disable-next-line: no-any
+    delete (webpack as any).container;
+  });
+
+  it('is empty without federation options', () => {
+    expect(getFederationConfig(createOptions())).toEqual({});
+    expect(getFederationConfig(createOptions({ exposes: {}, remotes: {} }))).toEqual({});
+  });
+
+  it('throws with Webpack 4', () => {
+    (webpackVersion.isWebpackFiveOrHigher as jasmine.Spy).and.returnValue(false);
+
+    expect(() => getFederationConfig(createOptions({ remotes: { mfe: 'http://localhost:4201/remoteEntry.js' } })))
+      .toThrowError('The "federation" option requires Webpack 5.');
+  });
+
+  it('throws when exposing modules without a name', () => {
+    expect(() => getFederationConfig(createOptions({ exposes: { './Module': 'src/app/app.module.ts' } })))
+      .toThrowError('The "federation.name" option is required when exposing modules.');
+  });
+
+  it('exposes the modules of remote applications', () => {
+    const config = getFederationConfig(createOptions({
+      name: 'mfe',
+      exposes: { './Module': 'src/app/app.module.ts' },
+    }));
+    const { options, manifest } = getPlugins(config);
+
+    expect(config.output).toEqual(jasmine.objectContaining({ publicPath: 'auto', uniqueName: 'mfe' }));
+    expect(options.filename).toBe('remoteEntry.js');
+    expect(options.exposes).toEqual({ './Module': resolve(root, 'src/app/app.module.ts') });
+    expect(manifest).toEqual({
+      name: 'mfe',
+      remoteEntry: 'remoteEntry.js',
+      exposes: ['./Module'],
+      remotes: {},
+      shared: jasmine.arrayContaining(['@angular/core', 'rxjs']),
+    });
+  });
+
+  it('keeps the deploy URL of remote applications', () => {
+    const config = getFederationConfig(createOptions(
+      { name: 'mfe', exposes: { './Module': 'src/app/app.module.ts' } },
+      '/mfe/',
+    ));
+
+    expect(config.output).not.toEqual(jasmine.objectContaining({ publicPath: 'auto' }));
+  });
+
+  it('loads the remotes of shell applications', () => {
+    const { options, manifest } = getPlugins(getFederationConfig(createOptions({
+      remotes: { mfe: 'http://localhost:4201/remoteEntry.js' },
+      shared: ['@angular/core'],
+    })));
+
+    expect(options.filename).toBeUndefined();
+    expect(options.remotes).toEqual({ mfe: 'mfe@http://localhost:4201/remoteEntry.js' });
+    expect(options.shared).toEqual({ '@angular/core': { singleton: true, strictVersion: true } });
+    expect(manifest.remoteEntry).toBeUndefined();
+    expect(manifest.remotes).toEqual({ mfe: 'http://localhost:4201/remoteEntry.js' });
+    expect(manifest.shared).toEqual(['@angular/core']);
+  });
+});
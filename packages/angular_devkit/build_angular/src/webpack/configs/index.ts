@@ -7,6 +7,7 @@
  */
 export * from './browser';
 export * from './common';
+export * from './federation';
 export * from './server';
 export * from './styles';
 export * from './test';
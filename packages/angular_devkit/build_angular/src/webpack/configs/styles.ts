@@ -30,7 +30,9 @@ export function getStylesConfig(wco: WebpackConfigOptions) {
   const globalStylePaths: string[] = [];
   const extraPlugins: { apply(compiler: webpack.Compiler): void }[] = [];
 
-  extraPlugins.push(new AnyComponentStyleBudgetChecker(buildOptions.budgets));
+  extraPlugins.push(
+    new AnyComponentStyleBudgetChecker(buildOptions.budgets, buildOptions.budgetBaselineManifest),
+  );
 
   const cssSourceMap = buildOptions.sourceMap.styles;
 
@@ -20,7 +20,8 @@ import {
 import * as path from 'path';
 import { RuleSetLoader } from 'webpack';
 import { WebpackConfigOptions, BuildOptions } from '../../utils/build-options';
-import { legacyIvyPluginEnabled } from '../../utils/environment-options';
+import { findCachePath } from '../../utils/cache-path';
+import { cachingDisabled, legacyIvyPluginEnabled } from '../../utils/environment-options';
 
 function canUseIvyPlugin(wco: WebpackConfigOptions): boolean {
   // Can only be used with Ivy
@@ -79,6 +80,7 @@ function createIvyPlugin(
     compilerOptions,
     fileReplacements,
     emitNgModuleScope: !optimize,
+    persistentCachePath: cachingDisabled ? undefined : findCachePath('angular-compiler'),
   });
 }
 
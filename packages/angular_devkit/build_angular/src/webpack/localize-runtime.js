@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { clearTranslations, loadTranslations } from '@angular/localize';
+
+// Translation files are emitted by the LocalizeRuntimePlugin relative to the deploy URL
+var translationsPath = __webpack_public_path__ + 'i18n/';
+
+function loadScript(url) {
+  return new Promise(function (resolve, reject) {
+    var script = document.createElement('script');
+    script.src = url;
+    script.onload = function () {
+      resolve();
+    };
+    script.onerror = function () {
+      reject(new Error('Unable to load locale data from "' + url + '".'));
+    };
+    document.head.appendChild(script);
+  });
+}
+
+/**
+ * Loads the translations and the locale data of a locale. Once the returned promise resolves,
+ * `$localize` translates messages into the locale and Angular uses the locale as `LOCALE_ID`
+ * for applications bootstrapped afterwards.
+ */
+function loadLocale(locale) {
+  return fetch(translationsPath + locale + '.json')
+    .then(function (response) {
+      if (!response.ok) {
+        throw new Error('Unable to load translations for locale "' + locale + '".');
+      }
+
+      return response.json();
+    })
+    .then(function (data) {
+      return (data.localeData ? loadScript(translationsPath + data.localeData) : Promise.resolve())
+        .then(function () {
+          clearTranslations();
+          loadTranslations(data.translations);
+          $localize.locale = data.locale;
+        });
+    });
+}
+
+window.ngLocalize = { loadLocale: loadLocale };
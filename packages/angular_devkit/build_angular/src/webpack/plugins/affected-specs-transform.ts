@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { loader } from 'webpack';
+
+export const AffectedSpecsTransformLoader = __filename;
+
+// Function declarations are hoisted, so these can be appended without changing the source maps.
+const filterFunctions = `
+function __ngIsAffectedSpec(id) {
+  var karma = typeof __karma__ !== 'undefined' ? __karma__ : undefined;
+  var specs = karma && karma.config && karma.config.angularAffectedSpecs;
+
+  return !specs || specs.indexOf(String(id)) !== -1;
+}
+
+function __ngFilterAffectedSpecs(context) {
+  return Object.assign(function (key) { return context(key); }, context, {
+    keys: function () {
+      return context.keys().filter(function (key) {
+        return __ngIsAffectedSpec(context.resolve(key));
+      });
+    },
+  });
+}
+`;
+
+/**
+ * This loader transforms the main test file to only run the specs affected by the last changes.
+ * The karma plugin sends the module IDs of the affected specs in the karma client configuration.
+ * It works by wrapping the context created by the auto-generated test file:
+ *   const context = require.context('./', true, /\.spec\.ts$/);
+ * with:
+ *   const context = __ngFilterAffectedSpecs(require.context('./', true, /\.spec\.ts$/));
+ * So that `context.keys()` only lists the affected specs.
+ * The spec files imported directly when using the `include` option are filtered the same way.
+ */
+export default function loader(this: loader.LoaderContext, source: string): string {
+  return source
+    .replace(/require\.context\((.*)\)/, '__ngFilterAffectedSpecs(require.context($1))')
+    .replace(
+      /^require\('(.+)'\);$/gm,
+      `if (__ngIsAffectedSpec(require.resolveWeak('$1'))) { require('$1'); }`,
+    ) + filterFunctions;
+}
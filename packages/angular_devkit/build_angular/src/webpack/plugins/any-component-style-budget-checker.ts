@@ -9,7 +9,14 @@
 import * as path from 'path';
 import { Compiler } from 'webpack';
 import { Budget, Type } from '../../browser/schema';
-import { ThresholdSeverity, calculateThresholds, checkThresholds } from '../../utils/bundle-calculator';
+import {
+  Size,
+  SizeManifest,
+  ThresholdSeverity,
+  calculateThresholds,
+  checkThresholds,
+  resolveBudgetBaseline,
+} from '../../utils/bundle-calculator';
 import { addError, addWarning } from '../../utils/webpack-diagnostics';
 import { isWebpackFiveOrHigher } from '../../utils/webpack-version';
 
@@ -22,12 +29,23 @@ const PLUGIN_NAME = 'AnyComponentStyleBudgetChecker';
 export class AnyComponentStyleBudgetChecker {
   private readonly budgets: Budget[];
 
-  constructor(budgets: Budget[]) {
+  /**
+   * The component style sizes of the most recent compilation. Used to create size manifests.
+   */
+  readonly componentStyleSizes = new Map<string, Size>();
+
+  constructor(budgets: Budget[], private readonly baseline?: SizeManifest) {
     this.budgets = budgets.filter((budget) => budget.type === Type.AnyComponentStyle);
   }
 
   apply(compiler: Compiler) {
     compiler.hooks.compilation.tap(PLUGIN_NAME, (compilation) => {
+      // tslint:disable-next-line: no-any
+      if (!(compilation.compiler as any).parentCompilation) {
+        // A new build has started; child compilations will record the new sizes
+        this.componentStyleSizes.clear();
+      }
+
       const afterOptimizeChunkAssets = () => {
         // In AOT compilations component styles get processed in child compilations.
         // tslint:disable-next-line: no-any
@@ -50,20 +68,31 @@ export class AnyComponentStyleBudgetChecker {
             size: compilation.assets[name].size(),
             label: name,
           }));
-        const thresholds = flatMap(this.budgets, (budget) => calculateThresholds(budget));
+
+        for (const componentStyle of componentStyles) {
+          this.componentStyleSizes.set(componentStyle.label, componentStyle);
+        }
 
         for (const {size, label} of componentStyles) {
-          for (const {severity, message} of checkThresholds(thresholds[Symbol.iterator](), size, label)) {
-            switch (severity) {
-              case ThresholdSeverity.Warning:
-                addWarning(compilation, message);
-                break;
-              case ThresholdSeverity.Error:
-                addError(compilation, message);
-                break;
-              default:
-                assertNever(severity);
-                break;
+          for (const budget of this.budgets) {
+            const resolvedBudget = resolveBudgetBaseline(budget, label, this.baseline);
+            if (!resolvedBudget) {
+              continue;
+            }
+
+            const thresholds = calculateThresholds(resolvedBudget);
+            for (const {severity, message} of checkThresholds(thresholds, size, label)) {
+              switch (severity) {
+                case ThresholdSeverity.Warning:
+                  addWarning(compilation, message);
+                  break;
+                case ThresholdSeverity.Error:
+                  addError(compilation, message);
+                  break;
+                default:
+                  assertNever(severity);
+                  break;
+              }
             }
           }
         }
@@ -87,8 +116,3 @@ function assertNever(input: never): never {
   throw new Error(`Unexpected call to assertNever() with input: ${
       JSON.stringify(input, null /* replacer */, 4 /* tabSize */)}`);
 }
-
-function flatMap<T, R>(list: T[], mapper: (item: T, index: number, array: T[]) => IterableIterator<R>): R[] {
-  return ([] as R[]).concat(...list.map(mapper).map((iterator) => Array.from(iterator)));
-
-}
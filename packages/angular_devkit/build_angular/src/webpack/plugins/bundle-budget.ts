@@ -7,19 +7,20 @@
  */
 import { Compiler } from 'webpack';
 import { Budget } from '../../browser/schema';
-import { ThresholdSeverity, checkBudgets } from '../../utils/bundle-calculator';
+import { SizeManifest, ThresholdSeverity, checkBudgets } from '../../utils/bundle-calculator';
 import { ProcessBundleResult } from '../../utils/process-bundle';
 import { addError, addWarning } from '../../utils/webpack-diagnostics';
 
 export interface BundleBudgetPluginOptions {
   budgets: Budget[];
+  baseline?: SizeManifest;
 }
 
 export class BundleBudgetPlugin {
   constructor(private options: BundleBudgetPluginOptions) { }
 
   apply(compiler: Compiler): void {
-    const { budgets } = this.options;
+    const { budgets, baseline } = this.options;
 
     if (!budgets || budgets.length === 0) {
       return;
@@ -31,7 +32,7 @@ export class BundleBudgetPlugin {
       const processResults: ProcessBundleResult[] = [];
 
       const stats = compilation.getStats().toJson();
-      for (const { severity, message } of checkBudgets(budgets, stats, processResults)) {
+      for (const { severity, message } of checkBudgets(budgets, stats, processResults, baseline)) {
         switch (severity) {
           case ThresholdSeverity.Warning:
             addWarning(compilation, `budgets: ${message}`);
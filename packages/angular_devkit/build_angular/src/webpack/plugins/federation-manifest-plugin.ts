@@ -0,0 +1,45 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { Compiler } from 'webpack';
+import { RawSource } from 'webpack-sources';
+
+/**
+ * Describes the Module Federation setup of an application. Shell applications can load it at
+ * runtime to discover their remotes and remote applications use it to describe what they expose.
+ */
+export interface FederationManifest {
+  name?: string;
+  remoteEntry?: string;
+  exposes: string[];
+  remotes: Record<string, string>;
+  shared: string[];
+}
+
+export interface FederationManifestPluginOptions {
+  manifest: FederationManifest;
+  filename: string;
+}
+
+const PLUGIN_NAME = 'federation-manifest-plugin';
+
+export class FederationManifestPlugin {
+  constructor(private readonly options: FederationManifestPluginOptions) {}
+
+  apply(compiler: Compiler) {
+    // Module Federation requires Webpack 5 which replaces the emit hook with the processAssets hook
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, compilation => {
+      // TODO_WEBPACK_5 const stage = Compilation.PROCESS_ASSETS_STAGE_ADDITIONAL;
+      // tslint:disable-next-line: no-any
+      (compilation.hooks as any).processAssets.tap({ name: PLUGIN_NAME, stage: -2000 }, () => {
+        compilation.assets[this.options.filename] = new RawSource(
+          JSON.stringify(this.options.manifest, null, 2),
+        );
+      });
+    });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { Compiler } from 'webpack';
+import { Source } from 'webpack-sources';
+import { FederationManifest, FederationManifestPlugin } from './federation-manifest-plugin';
+
+describe('FederationManifestPlugin', () => {
+  function createHook<T extends unknown[]>() {
+    const callbacks: ((...args: T) => void)[] = [];
+
+    return {
+      tap: (_options: unknown, callback: (...args: T) => void) => callbacks.push(callback),
+      call: (...args: T) => callbacks.forEach((callback) => callback(...args)),
+    };
+  }
+
+  it('emits the manifest when processing the assets', () => {
+    const manifest: FederationManifest = {
+      name: 'mfe',
+      remoteEntry: 'remoteEntry.js',
+      exposes: ['./Module'],
+      remotes: {},
+      shared: ['@angular/core'],
+    };
+    const compilation = {
+      assets: {} as Record<string, Source>,
+      hooks: { processAssets: createHook<[]>() },
+    };
+    const compiler = { hooks: { thisCompilation: createHook<[typeof compilation]>() } };
+
+    new FederationManifestPlugin({ filename: 'federation.manifest.json', manifest })
+      .apply(compiler as unknown as Compiler);
+    compiler.hooks.thisCompilation.call(compilation);
+
+    expect(compilation.assets['federation.manifest.json']).toBeUndefined();
+
+    compilation.hooks.processAssets.call();
+
+    expect(JSON.parse(compilation.assets['federation.manifest.json'].source().toString()))
+      .toEqual(manifest);
+  });
+});
@@ -9,8 +9,10 @@
 // TODO: cleanup this file, it's copied as is from Angular CLI.
 import * as http from 'http';
 import * as path from 'path';
+import * as readline from 'readline';
 import * as glob from 'glob';
 import * as webpack from 'webpack';
+const ContextModule = require('webpack/lib/ContextModule');
 const webpackDevMiddleware = require('webpack-dev-middleware');
 
 import { KarmaWebpackFailureCb } from './karma-webpack-failure-cb';
@@ -20,6 +22,8 @@ import { createConsoleLogger } from '@angular-devkit/core/node';
 import { logging } from '@angular-devkit/core';
 import { WebpackTestOptions } from '../../utils/build-options';
 import { normalizeSourceMaps } from '../../utils/index';
+import { isWebpackFiveOrHigher } from '../../utils/webpack-version';
+import { findAffectedSpecModules } from '../utils/affected-specs';
 
 /**
  * Enumerate needed (but not require/imported) dependencies from this file
@@ -189,7 +193,78 @@ const init: any = (config: any, emitter: any, customFileHandlers: any) => {
 
   compiler.hooks.invalid.tap('karma', () => handler());
 
-  compiler.hooks.watchRun.tapAsync('karma', (_: any, callback: () => void) => handler(callback));
+  // Only run the specs affected by the changed files on rebuilds.
+  const affectedSpecs = !config.singleRun && !!config.buildWebpack.options.affectedSpecs;
+  const mainFilePath = path.normalize(config.buildWebpack.mainFilePath);
+  const changedFiles = new Set<string>();
+  let runAllSpecs = true;
+  if (affectedSpecs) {
+    if (process.stdin.isTTY) {
+      readline.emitKeypressEvents(process.stdin);
+      process.stdin.setRawMode?.(true);
+      process.stdin.on('keypress', (_: string, key: readline.Key) => {
+        if (key.ctrl && key.name === 'c') {
+          // Raw mode disables the default handling of Ctrl+C.
+          process.kill(process.pid, 'SIGINT');
+        } else if (key.name === 'a' && !isBlocked) {
+          logger.info('Running all spec files.');
+          config.client.angularAffectedSpecs = undefined;
+          emitter.refreshFiles();
+        }
+      });
+
+      emitter.on('exit', (done: any) => {
+        process.stdin.setRawMode?.(false);
+        process.stdin.pause();
+        done();
+      });
+    }
+  }
+
+  // Returns the module IDs of the specs affected by the changed files, or undefined to run all specs.
+  function getAffectedSpecs(compilation: any): string[] | undefined {
+    if (runAllSpecs) {
+      return undefined;
+    }
+
+    const isMainModule = (module: any) =>
+      !!module.resource && path.normalize(module.resource) === mainFilePath;
+    const specs = findAffectedSpecModules<any>(
+      compilation.modules,
+      changedFiles,
+      module => isMainModule(module) ||
+        (module instanceof ContextModule && module.reasons.some((reason: any) => reason.module && isMainModule(reason.module))),
+    );
+
+    return specs && [...specs].map(module => String(module.id));
+  }
+
+  // Collects the files changed since the last compilation. Webpack 5 provides them on the compiler
+  // while Webpack 4 only provides the modification times of the watcher. All specs run when the
+  // changed files are unknown.
+  function collectChangedFiles(watchCompiler: any) {
+    const modifiedFiles: Iterable<string> | undefined = isWebpackFiveOrHigher()
+      ? watchCompiler.modifiedFiles
+      : watchCompiler.watchFileSystem?.watcher?.mtimes
+        && Object.keys(watchCompiler.watchFileSystem.watcher.mtimes);
+
+    let hasModifiedFiles = false;
+    for (const file of modifiedFiles || []) {
+      changedFiles.add(file);
+      hasModifiedFiles = true;
+    }
+
+    if (!hasModifiedFiles) {
+      runAllSpecs = true;
+    }
+  }
+
+  compiler.hooks.watchRun.tapAsync('karma', (watchCompiler: any, callback: () => void) => {
+    if (affectedSpecs) {
+      collectChangedFiles(watchCompiler);
+    }
+    handler(callback);
+  });
 
   compiler.hooks.run.tapAsync('karma', (_: any, callback: () => void) => handler(callback));
 
@@ -212,7 +287,27 @@ const init: any = (config: any, emitter: any, customFileHandlers: any) => {
     } else if (stats.hash != lastCompilationHash) {
       // Refresh karma only when there are no webpack errors, and if the compilation changed.
       lastCompilationHash = stats.hash;
+
+      if (affectedSpecs) {
+        const specs = getAffectedSpecs(stats.compilation);
+        changedFiles.clear();
+        runAllSpecs = false;
+        config.client.angularAffectedSpecs = specs;
+
+        if (specs && specs.length === 0) {
+          logger.info('No spec files are affected by the changes. Press "a" to run all spec files.');
+          successCb();
+          unblock();
+
+          return;
+        } else if (specs) {
+          logger.info(`Running ${specs.length} spec file(s) affected by the changes. Press "a" to run all spec files.`);
+        }
+      }
+
       emitter.refreshFiles();
+    } else if (affectedSpecs) {
+      changedFiles.clear();
     }
     unblock();
   });
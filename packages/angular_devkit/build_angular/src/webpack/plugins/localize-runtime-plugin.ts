@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as fs from 'fs';
+import { Compiler } from 'webpack';
+import { RawSource } from 'webpack-sources';
+import { I18nOptions } from '../../utils/i18n-options';
+
+/**
+ * The content of the translation file of a locale. Messages are stored in the format accepted by
+ * the `loadTranslations` function of `@angular/localize`.
+ */
+export interface LocalizeRuntimeTranslationFile {
+  locale: string;
+  translations: Record<string, string>;
+  /** The file name of the locale data script, relative to the translation file. */
+  localeData?: string;
+}
+
+const PLUGIN_NAME = 'localize-runtime-plugin';
+
+// The runtime loader (`localize-runtime.js`) requests the files from this directory
+const OUTPUT_PATH = 'i18n';
+
+function formatTranslation(translation: import('@angular/localize').ɵParsedTranslation): string {
+  let message = translation.messageParts[0];
+  for (let i = 1; i < translation.messageParts.length; i++) {
+    message += `{$${translation.placeholderNames[i - 1]}}${translation.messageParts[i]}`;
+  }
+
+  return message;
+}
+
+/**
+ * Emits a translation file and the locale data for each locale that is localized at runtime.
+ */
+export class LocalizeRuntimePlugin {
+  constructor(private readonly i18n: I18nOptions) {}
+
+  apply(compiler: Compiler) {
+    const i18n = this.i18n;
+    const locales = new Set([i18n.sourceLocale, ...i18n.runtimeLocales]);
+
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, compilation => {
+      compilation.hooks.additionalAssets.tap(PLUGIN_NAME, () => {
+        for (const locale of locales) {
+          const { dataPath, translation = {} } = i18n.locales[locale] || {};
+          const file: LocalizeRuntimeTranslationFile = { locale, translations: {} };
+
+          for (const [id, message] of Object.entries(translation)) {
+            file.translations[id] = formatTranslation(
+              message as import('@angular/localize').ɵParsedTranslation,
+            );
+          }
+
+          if (dataPath) {
+            file.localeData = `${locale}.js`;
+            compilation.assets[`${OUTPUT_PATH}/${file.localeData}`] = new RawSource(
+              fs.readFileSync(dataPath, 'utf8'),
+            );
+          }
+
+          compilation.assets[`${OUTPUT_PATH}/${locale}.json`] = new RawSource(
+            JSON.stringify(file),
+          );
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { Compiler, compilation } from 'webpack';
+import { RawSource, Source } from 'webpack-sources';
+import { I18nOptions, loadTranslations } from '../../utils/i18n-options';
+import { TranslationLoader, createTranslationLoader } from '../../utils/load-translations';
+import { LocalizedBundle, localizeBundle } from '../../utils/process-bundle';
+import { addError, addWarning } from '../../utils/webpack-diagnostics';
+import { isWebpackFiveOrHigher } from '../../utils/webpack-version';
+
+export interface LocalizedBundlesPluginOptions {
+  i18n: I18nOptions;
+  /** The directory of each locale, relative to the output path. */
+  outputPaths: Map<string, string>;
+  workspaceRoot: string;
+  es5: boolean;
+  missingTranslation?: 'error' | 'warning' | 'ignore';
+}
+
+interface LocalizedAsset {
+  files: Map<string, { source: Source; map?: Source }>;
+  diagnostics: LocalizedBundle['diagnostics'];
+}
+
+const PLUGIN_NAME = 'localized-bundles-plugin';
+
+/**
+ * Adds a localized copy of every asset of a compilation to the directory of each locale.
+ * The translation files are watched and the bundles are localized again when they change.
+ */
+export class LocalizedBundlesPlugin {
+  // Webpack reuses the sources of unchanged chunks, which allows reusing their localized bundles.
+  private cache = new WeakMap<Source, LocalizedAsset | undefined>();
+  private readonly translationTimestamps = new Map<string, number>();
+  private loader: TranslationLoader | undefined;
+
+  constructor(private readonly options: LocalizedBundlesPluginOptions) {}
+
+  apply(compiler: Compiler) {
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, compilation => {
+      const callback = async () => {
+        try {
+          await this.reloadTranslations(compilation);
+          await this.localizeAssets(compilation);
+        } catch (error) {
+          addError(compilation, error.message);
+        }
+      };
+
+      if (isWebpackFiveOrHigher()) {
+        // Source maps are added in the dev tooling stage (500) and need to be localized as well.
+        // tslint:disable-next-line: no-any
+        (compilation.hooks as any).processAssets.tapPromise({ name: PLUGIN_NAME, stage: 501 }, callback);
+      } else {
+        compilation.hooks.optimizeAssets.tapPromise(PLUGIN_NAME, callback);
+      }
+    });
+  }
+
+  private async reloadTranslations(compilation: compilation.Compilation): Promise<void> {
+    const { i18n, outputPaths, workspaceRoot } = this.options;
+    let changed = false;
+
+    for (const locale of outputPaths.keys()) {
+      const desc = i18n.locales[locale];
+      if (!desc || desc.files.length === 0) {
+        continue;
+      }
+
+      let modified = false;
+      for (const file of desc.files) {
+        const filePath = path.join(workspaceRoot, file.path);
+        // Trigger a rebuild when a translation file changes.
+        compilation.fileDependencies.add(filePath);
+
+        const timestamp = fs.statSync(filePath).mtimeMs;
+        const previousTimestamp = this.translationTimestamps.get(filePath);
+        this.translationTimestamps.set(filePath, timestamp);
+        // The translations of the first compilation are loaded with the build options.
+        modified = modified || (previousTimestamp !== undefined && previousTimestamp !== timestamp);
+      }
+
+      if (!modified) {
+        continue;
+      }
+
+      this.loader = this.loader || await createTranslationLoader();
+      desc.translation = undefined;
+      loadTranslations(locale, desc, workspaceRoot, this.loader, {
+        warn: message => addWarning(compilation, message),
+      });
+      changed = true;
+    }
+
+    if (changed) {
+      this.cache = new WeakMap();
+    }
+  }
+
+  private async localizeAssets(compilation: compilation.Compilation): Promise<void> {
+    const { outputPaths } = this.options;
+    const assets = compilation.assets as Record<string, Source>;
+
+    // The locale identifier and data are added to the bundles loaded first, same as in builds.
+    const setLocaleFiles = new Set<string>();
+    for (const chunk of compilation.chunks) {
+      if (chunk.name === 'main' || chunk.name === 'vendor') {
+        for (const file of chunk.files) {
+          setLocaleFiles.add(file);
+        }
+      }
+    }
+
+    const localeDirectories = [...outputPaths.values()].map(outputPath => outputPath + '/');
+    for (const [file, asset] of Object.entries(assets)) {
+      if (localeDirectories.some(directory => file.startsWith(directory))) {
+        continue;
+      }
+
+      // Source maps of scripts are handled together with their script.
+      if (file.endsWith('.js.map') && assets[file.slice(0, -4)]) {
+        continue;
+      }
+
+      const mapAsset = file.endsWith('.js') ? assets[file + '.map'] : undefined;
+      let localized: LocalizedAsset | undefined;
+      if (file.endsWith('.js')) {
+        if (this.cache.has(asset)) {
+          localized = this.cache.get(asset);
+        } else {
+          localized = await this.localizeAsset(file, asset, mapAsset, setLocaleFiles.has(file));
+          this.cache.set(asset, localized);
+        }
+
+        for (const { type, message } of localized?.diagnostics || []) {
+          if (type === 'error') {
+            addError(compilation, message);
+          } else {
+            addWarning(compilation, message);
+          }
+        }
+      }
+
+      for (const [locale, outputPath] of outputPaths) {
+        const localizedFile = localized?.files.get(locale);
+        assets[`${outputPath}/${file}`] = localizedFile?.source || asset;
+
+        const localizedMap = localizedFile ? localizedFile.map : mapAsset;
+        if (localizedMap) {
+          assets[`${outputPath}/${file}.map`] = localizedMap;
+        }
+      }
+    }
+  }
+
+  private async localizeAsset(
+    file: string,
+    asset: Source,
+    mapAsset: Source | undefined,
+    setLocale: boolean,
+  ): Promise<LocalizedAsset | undefined> {
+    const { i18n, outputPaths, es5, missingTranslation } = this.options;
+    const localized = await localizeBundle(i18n, outputPaths.keys(), {
+      filename: file,
+      code: asset.source().toString(),
+      map: mapAsset?.source().toString(),
+      es5,
+      missingTranslation,
+      setLocale,
+    });
+
+    if (!localized) {
+      return undefined;
+    }
+
+    const files = new Map<string, { source: Source; map?: Source }>();
+    for (const [locale, source] of localized.sources) {
+      const { source: code, map } = source.sourceAndMap();
+      if (mapAsset && map) {
+        map.file = file;
+        if (localized.mapSourceRoot) {
+          map.sourceRoot = localized.mapSourceRoot;
+        }
+      }
+
+      files.set(locale, {
+        source: new RawSource(code.toString()),
+        map: mapAsset && map ? new RawSource(JSON.stringify(map)) : undefined,
+      });
+    }
+
+    return { files, diagnostics: localized.diagnostics };
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as path from 'path';
+
+/**
+ * The parts of a Webpack module used to walk the module graph.
+ */
+export interface ModuleGraphNode {
+  resource?: string;
+  reasons: { module: ModuleGraphNode | null }[];
+}
+
+/**
+ * Find the spec modules that import any of the changed files, directly or through other modules.
+ * Spec modules are the modules imported by a spec loader; the main test file or the
+ * `require.context()` it creates.
+ *
+ * @param modules The modules of the compilation.
+ * @param changedFiles The absolute paths of the files changed since the last run.
+ * @param isSpecLoader Whether a module loads the spec files.
+ * @returns The affected spec modules, or undefined when all the specs need to run because a
+ * changed file is a spec loader or is not part of the compilation.
+ */
+export function findAffectedSpecModules<T extends ModuleGraphNode>(
+  modules: Iterable<T>,
+  changedFiles: Iterable<string>,
+  isSpecLoader: (module: T) => boolean,
+): Set<T> | undefined {
+  const modulesByFile = new Map<string, T[]>();
+  for (const module of modules) {
+    if (!module.resource) {
+      continue;
+    }
+
+    // Remove the resource query, such as the one of component styles.
+    const file = path.normalize(module.resource.replace(/\?.*$/, ''));
+    const fileModules = modulesByFile.get(file);
+    if (fileModules) {
+      fileModules.push(module);
+    } else {
+      modulesByFile.set(file, [module]);
+    }
+  }
+
+  const queue: T[] = [];
+  for (const file of changedFiles) {
+    const fileModules = modulesByFile.get(path.normalize(file));
+    if (!fileModules || fileModules.some(isSpecLoader)) {
+      return undefined;
+    }
+
+    queue.push(...fileModules);
+  }
+
+  const specs = new Set<T>();
+  const visited = new Set<T>();
+  while (queue.length > 0) {
+    // tslint:disable-next-line: no-non-null-assertion
+    const module = queue.pop()!;
+    if (visited.has(module)) {
+      continue;
+    }
+    visited.add(module);
+
+    for (const { module: importer } of module.reasons) {
+      if (!importer) {
+        continue;
+      }
+
+      if (isSpecLoader(importer as T)) {
+        specs.add(module);
+      } else {
+        queue.push(importer as T);
+      }
+    }
+  }
+
+  return specs;
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as path from 'path';
+import { ModuleGraphNode, findAffectedSpecModules } from './affected-specs';
+
+describe('affected-specs', () => {
+  describe('findAffectedSpecModules()', () => {
+    const root = path.resolve('/project/src');
+    const modules = new Map<string, ModuleGraphNode>();
+
+    function addModule(name: string, ...importers: string[]) {
+      const module: ModuleGraphNode = {
+        resource: path.join(root, name),
+        reasons: importers.map(importer => ({ module: modules.get(importer) || null })),
+      };
+      modules.set(name, module);
+
+      return module;
+    }
+
+    function affected(...changedFiles: string[]) {
+      const specs = findAffectedSpecModules(
+        modules.values(),
+        changedFiles.map(file => path.join(root, file)),
+        module => module === modules.get('test.ts'),
+      );
+
+      return specs && [...specs].map(module => path.relative(root, module.resource || ''));
+    }
+
+    beforeEach(() => {
+      modules.clear();
+      addModule('test.ts');
+      addModule('app/app.component.spec.ts', 'test.ts');
+      addModule('app/shared.service.spec.ts', 'test.ts');
+      addModule('app/app.component.ts', 'app/app.component.spec.ts');
+      addModule('app/shared.service.ts', 'app/app.component.ts', 'app/shared.service.spec.ts');
+      addModule('app/app.component.css?ngResource', 'app/app.component.ts');
+    });
+
+    it('finds the specs which import a changed file', () => {
+      expect(affected('app/app.component.ts')).toEqual(['app/app.component.spec.ts']);
+    });
+
+    it('finds the specs which import a changed file through other modules', () => {
+      expect(affected('app/shared.service.ts')).toEqual(jasmine.arrayWithExactContents([
+        'app/app.component.spec.ts',
+        'app/shared.service.spec.ts',
+      ]));
+    });
+
+    it('finds changed specs', () => {
+      expect(affected('app/shared.service.spec.ts')).toEqual(['app/shared.service.spec.ts']);
+    });
+
+    it('ignores resource queries', () => {
+      expect(affected('app/app.component.css')).toEqual(['app/app.component.spec.ts']);
+    });
+
+    it('returns undefined when a changed file is not in the compilation', () => {
+      expect(affected('app/app.component.ts', 'app/unknown.ts')).toBeUndefined();
+    });
+
+    it('returns undefined when a spec loader changed', () => {
+      expect(affected('test.ts')).toBeUndefined();
+    });
+
+    it('handles circular imports', () => {
+      const a = addModule('app/a.ts');
+      const b = addModule('app/b.ts', 'app/a.ts', 'app/shared.service.spec.ts');
+      a.reasons.push({ module: b });
+
+      expect(affected('app/a.ts')).toEqual(['app/shared.service.spec.ts']);
+    });
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as textTable from 'text-table';
+import * as webpack from 'webpack';
+import { Type } from '../../browser/schema';
+import { SizeManifest, generateSizeManifest } from '../../utils/bundle-calculator';
+import { colors, removeColor } from '../../utils/color';
+import { BundleStats, formatSize, generateBundleStats } from './stats';
+
+type StatsModule = webpack.Stats.FnModules;
+type ArrayElement<T> = T extends Array<infer U> ? U : never;
+type Chunk = ArrayElement<Exclude<webpack.Stats.ToJsonOutput['chunks'], undefined>>;
+
+export interface ModuleSize {
+  name: string;
+  size: number;
+}
+
+export interface DuplicatedPackage {
+  name: string;
+  /** The chunks containing the same modules of the package. */
+  chunks: string[];
+  /** The size of the module copies beyond the first one. */
+  duplicatedSize: number;
+}
+
+export interface ChunkContributors {
+  chunk: BundleStats;
+  /** The size of all modules of the chunk. Module sizes are measured before optimization. */
+  modulesSize: number;
+  /** The largest packages and application modules of the chunk, ordered by size. */
+  contributors: ModuleSize[];
+}
+
+export interface StatsAnalysis {
+  sizes: SizeManifest;
+  modules: Map<string, number>;
+  duplicatedPackages: DuplicatedPackage[];
+  initialChunks: ChunkContributors[];
+}
+
+export interface SizeChange {
+  label: string;
+  baseSize?: number;
+  size?: number;
+}
+
+export interface StatsComparison {
+  analysis: StatsAnalysis;
+  /** Whether the analysis was compared against a previous build. */
+  compared: boolean;
+  sizeChanges: SizeChange[];
+  addedModules: ModuleSize[];
+  removedModules: ModuleSize[];
+}
+
+interface ModuleInfo {
+  size: number;
+  chunks: Set<number | string>;
+}
+
+/**
+ * Returns the name of the package containing a module, or `undefined` for application modules.
+ * Modules of nested packages are attributed to the innermost package.
+ */
+export function getPackageName(moduleName: string): string | undefined {
+  const normalizedName = moduleName.replace(/\\/g, '/');
+  const index = normalizedName.lastIndexOf('node_modules/');
+  if (index === -1) {
+    return undefined;
+  }
+
+  const [scopeOrName, name] = normalizedName.substr(index + 'node_modules/'.length).split('/');
+
+  return scopeOrName.startsWith('@') && name ? `${scopeOrName}/${name}` : scopeOrName;
+}
+
+function collectModules(stats: webpack.Stats.ToJsonOutput): Map<string, ModuleInfo> {
+  const modules = new Map<string, ModuleInfo>();
+  const addModules = (values: StatsModule[] | undefined, chunks?: (number | string)[]) => {
+    for (const module of values || []) {
+      // Modules merged by the module concatenation are listed within the concatenated module.
+      const moduleChunks = chunks || module.chunks || [];
+      if (module.modules?.length) {
+        addModules(module.modules, moduleChunks);
+        continue;
+      }
+
+      let info = modules.get(module.name);
+      if (!info) {
+        info = { size: module.size, chunks: new Set() };
+        modules.set(module.name, info);
+      }
+      moduleChunks.forEach(chunk => info?.chunks.add(chunk));
+    }
+  };
+
+  if (stats.modules?.length) {
+    addModules(stats.modules);
+  } else {
+    for (const chunk of stats.chunks || []) {
+      addModules(chunk.modules, [chunk.id]);
+    }
+  }
+
+  // Modules without chunks are not part of the output.
+  for (const [name, { chunks }] of modules) {
+    if (chunks.size === 0) {
+      modules.delete(name);
+    }
+  }
+
+  return modules;
+}
+
+function getChunkLabel(chunk: Chunk): string {
+  return chunk.names.length ? chunk.names.join(', ') : `${chunk.id}`;
+}
+
+function bySize<T extends { size: number }>(a: T, b: T): number {
+  return b.size - a.size;
+}
+
+/**
+ * Analyzes the modules of a build from its webpack stats.
+ *
+ * @param stats The stats of the build including its chunks, assets and modules, such as the
+ * ones written by the `statsJson` option.
+ * @param maxContributors The number of largest contributors reported for each initial chunk.
+ */
+export function analyzeStats(
+  stats: webpack.Stats.ToJsonOutput,
+  maxContributors = 10,
+): StatsAnalysis {
+  const chunks = stats.chunks || [];
+  const assets = stats.assets || [];
+  const modules = collectModules(stats);
+  const chunkLabels = new Map(chunks.map(chunk => [chunk.id, getChunkLabel(chunk)]));
+
+  const packages = new Map<string, DuplicatedPackage>();
+  for (const [name, { size, chunks: moduleChunks }] of modules) {
+    const packageName = getPackageName(name);
+    if (!packageName || moduleChunks.size < 2) {
+      continue;
+    }
+
+    let duplicatedPackage = packages.get(packageName);
+    if (!duplicatedPackage) {
+      duplicatedPackage = { name: packageName, chunks: [], duplicatedSize: 0 };
+      packages.set(packageName, duplicatedPackage);
+    }
+    duplicatedPackage.duplicatedSize += size * (moduleChunks.size - 1);
+    for (const chunk of moduleChunks) {
+      const label = chunkLabels.get(chunk) ?? `${chunk}`;
+      if (!duplicatedPackage.chunks.includes(label)) {
+        duplicatedPackage.chunks.push(label);
+      }
+    }
+  }
+
+  const initialChunks: ChunkContributors[] = [];
+  for (const chunk of chunks) {
+    if (!chunk.initial) {
+      continue;
+    }
+
+    const size = assets
+      .filter(asset => chunk.files.includes(asset.name) && !asset.name.endsWith('.map'))
+      .reduce((total, asset) => total + asset.size, 0);
+
+    // Modules of the same package are grouped together as a single contributor.
+    const contributors = new Map<string, number>();
+    let modulesSize = 0;
+    for (const [name, info] of modules) {
+      if (info.chunks.has(chunk.id)) {
+        const contributor = getPackageName(name) ?? name;
+        contributors.set(contributor, (contributors.get(contributor) || 0) + info.size);
+        modulesSize += info.size;
+      }
+    }
+
+    initialChunks.push({
+      chunk: generateBundleStats({ ...chunk, size }),
+      modulesSize,
+      contributors: [...contributors]
+        .map(([name, size]) => ({ name, size }))
+        .sort(bySize)
+        .slice(0, maxContributors),
+    });
+  }
+
+  return {
+    sizes: generateSizeManifest(stats, []),
+    modules: new Map([...modules].map(([name, { size }]) => [name, size])),
+    duplicatedPackages: [...packages.values()]
+      .sort((a, b) => b.duplicatedSize - a.duplicatedSize),
+    initialChunks: initialChunks.sort((a, b) => b.modulesSize - a.modulesSize),
+  };
+}
+
+function difference(modules: Map<string, number>, other: Map<string, number>): ModuleSize[] {
+  return [...modules]
+    .filter(([name]) => !other.has(name))
+    .map(([name, size]) => ({ name, size }))
+    .sort(bySize);
+}
+
+/**
+ * Compares the analysis of a build with the analysis of a previous build. The sizes of the
+ * initial chunks and named bundles are matched by their labels, which do not contain hashes.
+ */
+export function compareStats(analysis: StatsAnalysis, base?: StatsAnalysis): StatsComparison {
+  const sizeChanges: SizeChange[] = [];
+  for (const type of [Type.Initial, Type.Bundle]) {
+    const sizes = analysis.sizes.sizes[type] || {};
+    const baseSizes = base?.sizes.sizes[type] || {};
+    for (const label of new Set([...Object.keys(sizes), ...Object.keys(baseSizes)])) {
+      sizeChanges.push({
+        label: type === Type.Initial ? `${label} total` : label,
+        size: sizes[label],
+        baseSize: baseSizes[label],
+      });
+    }
+  }
+
+  return {
+    analysis,
+    compared: !!base,
+    sizeChanges,
+    addedModules: base ? difference(analysis.modules, base.modules) : [],
+    removedModules: base ? difference(base.modules, analysis.modules) : [],
+  };
+}
+
+function formatOptionalSize(size: number | undefined): string {
+  return size === undefined ? '-' : formatSize(size);
+}
+
+function formatSizeDifference({ size = 0, baseSize = 0 }: SizeChange): string {
+  if (size === baseSize) {
+    return '-';
+  }
+
+  return `${size > baseSize ? '+' : '-'}${formatSize(Math.abs(size - baseSize))}`;
+}
+
+function formatPercentage(size: number, total: number): string {
+  return total > 0 ? `${(size / total * 100).toFixed(2)}%` : '-';
+}
+
+function formatTable(title: string, header: string[], rows: string[][], total = rows.length) {
+  const table = textTable(
+    [header.map(value => colors.bold(value)), ...rows],
+    {
+      hsep: colors.dim(' | '),
+      stringLength: value => removeColor(value).length,
+      align: header.map((_, index) => index === 0 ? 'l' : 'r'),
+    },
+  );
+
+  let output = `${colors.bold.white(title)}\n${table}\n`;
+  if (total > rows.length) {
+    output += colors.dim(`... and ${total - rows.length} more\n`);
+  }
+
+  return output;
+}
+
+/**
+ * Formats the comparison of two builds as tables for the terminal.
+ *
+ * @param maxEntries The maximum number of rows of each table.
+ */
+export function formatStatsComparison(comparison: StatsComparison, maxEntries = 10): string {
+  const { analysis, compared, sizeChanges, addedModules, removedModules } = comparison;
+  const sections: string[] = [];
+
+  if (compared) {
+    sections.push(formatTable(
+      'Size changes',
+      ['Bundle', 'Base', 'Current', 'Difference'],
+      sizeChanges.map(change => [
+        change.label,
+        formatOptionalSize(change.baseSize),
+        formatOptionalSize(change.size),
+        formatSizeDifference(change),
+      ]),
+    ));
+
+    for (const [title, modules] of [
+      ['Added modules', addedModules],
+      ['Removed modules', removedModules],
+    ] as const) {
+      if (modules.length) {
+        sections.push(formatTable(
+          title,
+          ['Module', 'Size'],
+          modules.slice(0, maxEntries).map(({ name, size }) => [name, formatSize(size)]),
+          modules.length,
+        ));
+      }
+    }
+  } else {
+    sections.push(formatTable(
+      'Sizes',
+      ['Bundle', 'Size'],
+      sizeChanges.map(change => [change.label, formatOptionalSize(change.size)]),
+    ));
+  }
+
+  if (analysis.duplicatedPackages.length) {
+    sections.push(formatTable(
+      'Packages duplicated across chunks',
+      ['Package', 'Chunks', 'Duplicated size'],
+      analysis.duplicatedPackages
+        .slice(0, maxEntries)
+        .map(({ name, chunks, duplicatedSize }) => [
+          colors.yellowBright(name),
+          chunks.join(', '),
+          formatSize(duplicatedSize),
+        ]),
+      analysis.duplicatedPackages.length,
+    ));
+  }
+
+  for (const { chunk, modulesSize, contributors } of analysis.initialChunks) {
+    const [files, names] = chunk.stats;
+    sections.push(formatTable(
+      `Largest contributors to ${files} (${names})`,
+      ['Module', 'Size', 'Percentage'],
+      contributors.map(({ name, size }) => [
+        getPackageName(name) ? name : colors.greenBright(name),
+        formatSize(size),
+        formatPercentage(size, modulesSize),
+      ]),
+    ));
+  }
+
+  return '\n' + sections.join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlTable(title: string, header: string[], rows: string[][]): string {
+  const cells = (values: string[], tag: string) =>
+    values.map(value => `<${tag}>${value}</${tag}>`).join('');
+
+  return `<section><h2>${escapeHtml(title)}</h2>` +
+    `<table><thead><tr>${cells(header.map(escapeHtml), 'th')}</tr></thead>` +
+    `<tbody>${rows.map(row => `<tr>${cells(row, 'td')}</tr>`).join('')}</tbody></table>` +
+    '</section>';
+}
+
+const REPORT_STYLES = `
+  body { font-family: sans-serif; margin: 2em; color: #222; }
+  table { border-collapse: collapse; margin-bottom: 1em; min-width: 50%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 8px; text-align: left; }
+  td:not(:first-child), th:not(:first-child) { text-align: right; white-space: nowrap; }
+  .added { color: #c62828; }
+  .removed { color: #2e7d32; }
+  .bar { background: #1976d2; display: inline-block; height: 0.8em; margin-right: 0.5em; }
+`;
+
+/**
+ * Generates a standalone HTML report of the comparison of two builds. Unlike the terminal
+ * output, all added and removed modules are listed.
+ */
+export function generateStatsReport(comparison: StatsComparison): string {
+  const { analysis, compared, sizeChanges, addedModules, removedModules } = comparison;
+  const sections: string[] = [];
+
+  if (compared) {
+    sections.push(htmlTable(
+      'Size changes',
+      ['Bundle', 'Base', 'Current', 'Difference'],
+      sizeChanges.map(change => {
+        const className = (change.size || 0) > (change.baseSize || 0) ? 'added' : 'removed';
+
+        return [
+          escapeHtml(change.label),
+          formatOptionalSize(change.baseSize),
+          formatOptionalSize(change.size),
+          `<span class="${className}">${formatSizeDifference(change)}</span>`,
+        ];
+      }),
+    ));
+
+    for (const [title, modules, className] of [
+      ['Added modules', addedModules, 'added'],
+      ['Removed modules', removedModules, 'removed'],
+    ] as const) {
+      sections.push(htmlTable(
+        `${title} (${modules.length})`,
+        ['Module', 'Size'],
+        modules.map(({ name, size }) => [
+          `<span class="${className}">${escapeHtml(name)}</span>`,
+          formatSize(size),
+        ]),
+      ));
+    }
+  } else {
+    sections.push(htmlTable(
+      'Sizes',
+      ['Bundle', 'Size'],
+      sizeChanges.map(change => [escapeHtml(change.label), formatOptionalSize(change.size)]),
+    ));
+  }
+
+  sections.push(htmlTable(
+    'Packages duplicated across chunks',
+    ['Package', 'Chunks', 'Duplicated size'],
+    analysis.duplicatedPackages.map(({ name, chunks, duplicatedSize }) => [
+      escapeHtml(name),
+      escapeHtml(chunks.join(', ')),
+      formatSize(duplicatedSize),
+    ]),
+  ));
+
+  for (const { chunk, modulesSize, contributors } of analysis.initialChunks) {
+    const [files, names, size] = chunk.stats;
+    sections.push(htmlTable(
+      `Largest contributors to ${files} (${names}) - ${
+        typeof size === 'number' ? formatSize(size) : size}`,
+      ['Module', 'Size', 'Percentage'],
+      contributors.map(({ name, size }) => {
+        const percentage = formatPercentage(size, modulesSize);
+        const width = modulesSize > 0 ? Math.round(size / modulesSize * 200) : 0;
+
+        return [
+          escapeHtml(name),
+          formatSize(size),
+          `<span class="bar" style="width: ${width}px"></span>${percentage}`,
+        ];
+      }),
+    ));
+  }
+
+  return '<!DOCTYPE html>\n' +
+    '<html lang="en">\n' +
+    '<head>\n' +
+    '<meta charset="utf-8">\n' +
+    '<title>Bundle Analysis</title>\n' +
+    `<style>${REPORT_STYLES}</style>\n` +
+    '</head>\n' +
+    '<body>\n' +
+    '<h1>Bundle Analysis</h1>\n' +
+    '<p>Module sizes are measured before optimization.</p>\n' +
+    sections.join('\n') + '\n' +
+    '</body>\n' +
+    '</html>\n';
+}
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as webpack from 'webpack';
+import { removeColor } from '../../utils/color';
+import {
+  analyzeStats,
+  compareStats,
+  formatStatsComparison,
+  generateStatsReport,
+  getPackageName,
+} from './stats-analyzer';
+
+function createStats(
+  modules: { name: string, size: number, chunks: number[], modules?: object[] }[],
+): webpack.Stats.ToJsonOutput {
+  return {
+    chunks: [
+      { id: 0, names: ['main'], files: ['main.js'], initial: true, entry: true },
+      { id: 1, names: ['polyfills'], files: ['polyfills.js'], initial: true, entry: true },
+      { id: 2, names: [], files: ['2.js'], initial: false, entry: false },
+    ],
+    assets: [
+      { name: 'main.js', size: 1000 },
+      { name: 'polyfills.js', size: 200 },
+      { name: '2.js', size: 300 },
+    ],
+    modules,
+  } as unknown as webpack.Stats.ToJsonOutput;
+}
+
+describe('stats analyzer', () => {
+  const baseStats = createStats([
+    { name: './src/main.ts', size: 100, chunks: [0] },
+    { name: './node_modules/@angular/core/fesm2015/core.js', size: 800, chunks: [0] },
+    { name: './node_modules/zone.js/dist/zone.js', size: 150, chunks: [1] },
+    { name: './src/app/lazy.ts', size: 50, chunks: [2] },
+  ]);
+  const stats = createStats([
+    {
+      name: './src/main.ts + 2 modules',
+      size: 180,
+      chunks: [0],
+      modules: [
+        { name: './src/main.ts', size: 120 },
+        { name: './src/app/app.component.ts', size: 60 },
+      ],
+    },
+    { name: './node_modules/@angular/core/fesm2015/core.js', size: 800, chunks: [0] },
+    { name: './node_modules/zone.js/dist/zone.js', size: 150, chunks: [1] },
+    { name: './node_modules/lodash/lodash.js', size: 70, chunks: [0, 2] },
+    { name: './node_modules/lodash/_baseGet.js', size: 30, chunks: [0, 2] },
+    { name: './src/app/unused.ts', size: 10, chunks: [] },
+  ]);
+
+  describe('getPackageName', () => {
+    it('returns the name of the innermost package', () => {
+      expect(getPackageName('./node_modules/a/node_modules/b/index.js')).toBe('b');
+      expect(getPackageName('./node_modules/@angular/core/fesm2015/core.js')).toBe('@angular/core');
+      expect(getPackageName('.\\node_modules\\rxjs\\index.js')).toBe('rxjs');
+    });
+
+    it('returns undefined for application modules', () => {
+      expect(getPackageName('./src/main.ts')).toBeUndefined();
+    });
+  });
+
+  describe('analyzeStats', () => {
+    it('lists the modules of concatenated modules and ignores modules without chunks', () => {
+      const { modules } = analyzeStats(stats);
+
+      expect([...modules.keys()]).toEqual([
+        './src/main.ts',
+        './src/app/app.component.ts',
+        './node_modules/@angular/core/fesm2015/core.js',
+        './node_modules/zone.js/dist/zone.js',
+        './node_modules/lodash/lodash.js',
+        './node_modules/lodash/_baseGet.js',
+      ]);
+    });
+
+    it('reports packages duplicated across chunks', () => {
+      const { duplicatedPackages } = analyzeStats(stats);
+
+      expect(duplicatedPackages).toEqual([
+        { name: 'lodash', chunks: ['main', '2'], duplicatedSize: 100 },
+      ]);
+    });
+
+    it('reports the largest contributors to each initial chunk', () => {
+      const { initialChunks } = analyzeStats(stats, 2);
+
+      expect(initialChunks.length).toBe(2);
+      expect(initialChunks[0].chunk.stats).toEqual(['main.js', 'main', 1000]);
+      expect(initialChunks[0].modulesSize).toBe(1080);
+      expect(initialChunks[0].contributors).toEqual([
+        { name: '@angular/core', size: 800 },
+        { name: './src/main.ts', size: 120 },
+      ]);
+      expect(initialChunks[1].chunk.stats).toEqual(['polyfills.js', 'polyfills', 200]);
+    });
+
+    it('reads the modules from the chunks when the stats do not list all modules', () => {
+      const chunkStats = createStats([]);
+      delete chunkStats.modules;
+      (chunkStats.chunks || [])[0].modules = [
+        { name: './src/main.ts', size: 100 },
+      ] as webpack.Stats.FnModules[];
+
+      const { modules, initialChunks } = analyzeStats(chunkStats);
+
+      expect([...modules]).toEqual([['./src/main.ts', 100]]);
+      expect(initialChunks[0].contributors).toEqual([{ name: './src/main.ts', size: 100 }]);
+    });
+  });
+
+  describe('compareStats', () => {
+    it('reports added and removed modules', () => {
+      const { addedModules, removedModules } = compareStats(
+        analyzeStats(stats),
+        analyzeStats(baseStats),
+      );
+
+      expect(addedModules).toEqual([
+        { name: './node_modules/lodash/lodash.js', size: 70 },
+        { name: './src/app/app.component.ts', size: 60 },
+        { name: './node_modules/lodash/_baseGet.js', size: 30 },
+      ]);
+      expect(removedModules).toEqual([{ name: './src/app/lazy.ts', size: 50 }]);
+    });
+
+    it('reports the size changes of the initial chunks and bundles', () => {
+      const base = analyzeStats(createStats([]));
+      const current = analyzeStats(createStats([]));
+      (current.sizes.sizes.bundle || {})['main'] = 1500;
+
+      const { sizeChanges } = compareStats(current, base);
+
+      expect(sizeChanges).toContain({ label: 'initial total', baseSize: 1200, size: 1200 });
+      expect(sizeChanges).toContain({ label: 'main', baseSize: 1000, size: 1500 });
+    });
+
+    it('does not report module changes without a previous build', () => {
+      const comparison = compareStats(analyzeStats(stats));
+
+      expect(comparison.compared).toBe(false);
+      expect(comparison.addedModules).toEqual([]);
+      expect(comparison.removedModules).toEqual([]);
+    });
+  });
+
+  describe('formatStatsComparison', () => {
+    it('limits the number of entries of each table', () => {
+      const output = removeColor(
+        formatStatsComparison(compareStats(analyzeStats(stats), analyzeStats(baseStats)), 1),
+      );
+
+      expect(output).toContain('Added modules');
+      expect(output).toContain('./node_modules/lodash/lodash.js');
+      expect(output).not.toContain('./node_modules/lodash/_baseGet.js');
+      expect(output).toContain('... and 2 more');
+      expect(output).toMatch(/main\s+\|\s+1000 bytes\s+\|\s+1000 bytes\s+\|\s+-/);
+      expect(output).toMatch(/lodash\s+\|\s+main, 2\s+\|\s+100 bytes/);
+    });
+  });
+
+  describe('generateStatsReport', () => {
+    it('creates a standalone HTML document with escaped module names', () => {
+      const report = generateStatsReport(compareStats(analyzeStats(createStats([
+        { name: './src/<script>.ts', size: 10, chunks: [0] },
+      ])), analyzeStats(baseStats)));
+
+      expect(report).toMatch(/^<!DOCTYPE html>/);
+      expect(report).toContain('./src/&lt;script&gt;.ts');
+      expect(report).not.toContain('<script>');
+      expect(report).toContain('Removed modules (4)');
+    });
+  });
+});
@@ -9,6 +9,9 @@
 // Start experimental namespace
 // Start jobs namespace
 export * from './experimental/jobs/job-registry';
+export * from './experimental/jobs/job-worker';
+export * from './experimental/jobs/remote-job-registry';
+export * from './experimental/jobs/remote-protocol';
 // End jobs namespace
 // End experimental namespace
 
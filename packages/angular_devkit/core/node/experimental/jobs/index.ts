@@ -6,3 +6,6 @@
  * found in the LICENSE file at https://angular.io/license
  */
 export * from './job-registry';
+export * from './job-worker';
+export * from './remote-job-registry';
+export * from './remote-protocol';
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { Subscription } from 'rxjs';
+import { JsonValue, experimental as core_experimental, schema } from '../../../src';
+import { JobTransport, RemoteJobMessageKind, serializeError } from './remote-protocol';
+
+interface ServedJob {
+  job: core_experimental.jobs.Job<JsonValue, JsonValue, JsonValue>;
+  subscription: Subscription;
+  // Inbound messages received before the job started, which would otherwise be lost.
+  pending?: core_experimental.jobs.JobInboundMessage<JsonValue>[];
+}
+
+/**
+ * Serve the jobs of a registry to a RemoteJobRegistry at the other end of the transport. Jobs are
+ * run with a SimpleScheduler, so arguments, inputs and outputs are validated in the worker.
+ *
+ * Jobs are stopped when the transport closes or when the returned subscription is unsubscribed.
+ *
+ * @param transport The transport to the RemoteJobRegistry.
+ * @param registry The registry of the jobs that can be scheduled remotely.
+ * @param schemaRegistry The schema registry used to validate the jobs messages.
+ */
+export function serveJobs(
+  transport: JobTransport,
+  registry: core_experimental.jobs.Registry,
+  schemaRegistry?: schema.SchemaRegistry,
+): Subscription {
+  const scheduler = new core_experimental.jobs.SimpleScheduler(registry, schemaRegistry);
+  const jobs = new Map<number, ServedJob>();
+
+  const subscription = new Subscription(() => {
+    for (const { subscription } of jobs.values()) {
+      subscription.unsubscribe();
+    }
+    jobs.clear();
+  });
+
+  subscription.add(transport.messages.subscribe({
+    next(message) {
+      const id = message.id;
+
+      switch (message.kind) {
+        case RemoteJobMessageKind.Describe:
+          scheduler.getDescription(message.name).subscribe(
+            description => transport.send({ kind: RemoteJobMessageKind.Description, id, description }),
+            error => transport.send({ kind: RemoteJobMessageKind.Error, id, error: serializeError(error) }),
+          );
+          break;
+
+        case RemoteJobMessageKind.Schedule: {
+          const job = scheduler.schedule(message.name, message.argument);
+          const entry: ServedJob = { job, subscription: new Subscription(), pending: [] };
+          jobs.set(id, entry);
+
+          entry.subscription.add(job.outboundBus.subscribe({
+            next(outbound) {
+              transport.send({ kind: RemoteJobMessageKind.Outbound, id, message: outbound });
+
+              // The handler listens to the inbound bus once it is called, after OnReady.
+              const pending = entry.pending;
+              if (pending && outbound.kind !== core_experimental.jobs.JobOutboundMessageKind.OnReady) {
+                entry.pending = undefined;
+                pending.forEach(inbound => job.inboundBus.next(inbound));
+              }
+            },
+            error(error) {
+              jobs.delete(id);
+              transport.send({ kind: RemoteJobMessageKind.Error, id, error: serializeError(error) });
+            },
+            complete() {
+              jobs.delete(id);
+              transport.send({ kind: RemoteJobMessageKind.Complete, id });
+            },
+          }));
+          break;
+        }
+
+        case RemoteJobMessageKind.Inbound: {
+          const maybeJob = jobs.get(id);
+          if (maybeJob && maybeJob.pending) {
+            maybeJob.pending.push(message.message);
+          } else if (maybeJob) {
+            maybeJob.job.inboundBus.next(message.message);
+          }
+          break;
+        }
+
+        case RemoteJobMessageKind.Unsubscribe: {
+          const maybeJob = jobs.get(id);
+          if (maybeJob) {
+            jobs.delete(id);
+            maybeJob.subscription.unsubscribe();
+          }
+          break;
+        }
+      }
+    },
+    error() {
+      subscription.unsubscribe();
+    },
+    complete() {
+      subscription.unsubscribe();
+    },
+  }));
+
+  return subscription;
+}
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { Observable } from 'rxjs';
+import { shareReplay } from 'rxjs/operators';
+import { JsonValue, experimental as core_experimental } from '../../../src';
+import {
+  JobTransport,
+  RemoteJobMessage,
+  RemoteJobMessageKind,
+  deserializeError,
+} from './remote-protocol';
+
+type AnyJobHandler = core_experimental.jobs.JobHandler<JsonValue, JsonValue, JsonValue>;
+
+/**
+ * A registry that proxies jobs to a worker over a transport. The worker runs the jobs with
+ * `serveJobs()`; all inbound messages (ping, input, stop) are forwarded to the worker and all
+ * outbound messages, including channel messages, are forwarded back.
+ */
+export class RemoteJobRegistry<MinimumArgumentValueT extends JsonValue = JsonValue,
+  MinimumInputValueT extends JsonValue = JsonValue,
+  MinimumOutputValueT extends JsonValue = JsonValue,
+> implements core_experimental.jobs.Registry<MinimumArgumentValueT,
+  MinimumInputValueT,
+  MinimumOutputValueT> {
+  private _id = 0;
+  private _handlers = new Map<core_experimental.jobs.JobName, Observable<AnyJobHandler | null>>();
+
+  constructor(protected _transport: JobTransport) {}
+
+  /**
+   * Receive the messages of a request or a job, until the worker completes or errors it.
+   */
+  protected _receive(id: number, name: core_experimental.jobs.JobName) {
+    return new Observable<RemoteJobMessage>(subscriber => {
+      return this._transport.messages.subscribe({
+        next(message) {
+          if (message.id !== id) {
+            return;
+          }
+
+          switch (message.kind) {
+            case RemoteJobMessageKind.Error:
+              subscriber.error(deserializeError(message.error));
+              break;
+            case RemoteJobMessageKind.Complete:
+              subscriber.complete();
+              break;
+            default:
+              subscriber.next(message);
+          }
+        },
+        error(error) {
+          subscriber.error(error);
+        },
+        complete() {
+          subscriber.error(new Error(`Job worker closed before job ${JSON.stringify(name)} ended.`));
+        },
+      });
+    });
+  }
+
+  /**
+   * Get a job handler from the worker.
+   *
+   * @param name The name of the job.
+   * @returns A handler, or null if the worker does not know the job.
+   */
+  get<A extends MinimumArgumentValueT,
+    I extends MinimumInputValueT,
+    O extends MinimumOutputValueT,
+    >(
+    name: core_experimental.jobs.JobName,
+  ): Observable<core_experimental.jobs.JobHandler<A, I, O> | null> {
+    // Schedulers get the handler every time they validate a message, so only describe jobs once.
+    let handler = this._handlers.get(name);
+    if (!handler) {
+      handler = this._describe(name).pipe(shareReplay(1));
+      this._handlers.set(name, handler);
+    }
+
+    return handler as Observable<core_experimental.jobs.JobHandler<A, I, O> | null>;
+  }
+
+  protected _describe(
+    name: core_experimental.jobs.JobName,
+  ): Observable<AnyJobHandler | null> {
+    return new Observable<AnyJobHandler | null>(subscriber => {
+      const id = ++this._id;
+      const subscription = this._receive(id, name).subscribe(message => {
+        if (message.kind !== RemoteJobMessageKind.Description) {
+          return;
+        }
+
+        subscriber.next(message.description && this._createHandler(message.description));
+        subscriber.complete();
+      }, error => subscriber.error(error));
+
+      this._transport.send({ kind: RemoteJobMessageKind.Describe, id, name });
+
+      return subscription;
+    });
+  }
+
+  protected _createHandler<A extends JsonValue, I extends JsonValue, O extends JsonValue>(
+    description: core_experimental.jobs.JobDescription,
+  ): core_experimental.jobs.JobHandler<A, I, O> {
+    const transport = this._transport;
+    const name = description.name;
+
+    const handler = (
+      argument: A,
+      context: core_experimental.jobs.JobHandlerContext<A, I, O>,
+    ) => new Observable<core_experimental.jobs.JobOutboundMessage<O>>(subscriber => {
+      const id = ++this._id;
+      let done = false;
+
+      const messages = this._receive(id, name).subscribe({
+        next(message) {
+          if (message.kind === RemoteJobMessageKind.Outbound) {
+            subscriber.next(message.message as core_experimental.jobs.JobOutboundMessage<O>);
+          }
+        },
+        error(error) {
+          done = true;
+          subscriber.error(error);
+        },
+        complete() {
+          done = true;
+          subscriber.complete();
+        },
+      });
+
+      transport.send({ kind: RemoteJobMessageKind.Schedule, id, name, argument });
+      const inbound = context.inboundBus.subscribe(message => {
+        transport.send({ kind: RemoteJobMessageKind.Inbound, id, message });
+      });
+
+      return () => {
+        inbound.unsubscribe();
+        messages.unsubscribe();
+        // Stop the job on the worker when the job is unsubscribed before it ended.
+        if (!done) {
+          transport.send({ kind: RemoteJobMessageKind.Unsubscribe, id });
+        }
+      };
+    });
+
+    return Object.assign(handler, { jobDescription: description });
+  }
+}
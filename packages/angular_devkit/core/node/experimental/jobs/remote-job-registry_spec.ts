@@ -0,0 +1,177 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Observable, Subscription } from 'rxjs';
+import { first, toArray } from 'rxjs/operators';
+import { Transform } from 'stream';
+import { experimental as core_experimental } from '../../../src';
+import { serveJobs } from './job-worker';
+import { RemoteJobRegistry } from './remote-job-registry';
+import { JobTransport, createStreamJobTransport } from './remote-protocol';
+
+const { createJobHandler, JobOutboundMessageKind, SimpleJobRegistry, SimpleScheduler } =
+  core_experimental.jobs;
+
+// Messages are delivered on a later tick, like with a process or a socket.
+function createPipe() {
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      setImmediate(() => callback(undefined, chunk));
+    },
+  });
+}
+
+function waitForStart(job: core_experimental.jobs.Job) {
+  return job.outboundBus.pipe(
+    first(message => message.kind === JobOutboundMessageKind.Start),
+  ).toPromise();
+}
+
+describe('RemoteJobRegistry', () => {
+  let workerRegistry: core_experimental.jobs.SimpleJobRegistry;
+  let clientTransport: JobTransport;
+  let workerTransport: JobTransport;
+  let worker: Subscription;
+  let scheduler: core_experimental.jobs.SimpleScheduler;
+
+  beforeEach(() => {
+    const toWorker = createPipe();
+    const toClient = createPipe();
+    clientTransport = createStreamJobTransport(toClient, toWorker);
+    workerTransport = createStreamJobTransport(toWorker, toClient);
+
+    workerRegistry = new SimpleJobRegistry();
+    worker = serveJobs(workerTransport, workerRegistry);
+    scheduler = new SimpleScheduler(new RemoteJobRegistry(clientTransport));
+  });
+
+  afterEach(() => {
+    worker.unsubscribe();
+    clientTransport.close();
+    workerTransport.close();
+  });
+
+  it('runs jobs in the worker', async () => {
+    workerRegistry.register(
+      'add', createJobHandler((arg: number[]) => arg.reduce((a, c) => a + c, 0)), {
+        argument: { items: { type: 'number' } },
+        output: { type: 'number' },
+      },
+    );
+
+    const job = scheduler.schedule('add', [1, 2, 3]);
+    expect(await job.output.toPromise()).toBe(6);
+    expect(await job.description.toPromise()).toEqual(jasmine.objectContaining({
+      name: 'add',
+      output: { type: 'number' },
+    }));
+  });
+
+  it('does not find jobs unknown to the worker', async () => {
+    expect(await scheduler.has('add').toPromise()).toBe(false);
+  });
+
+  it('forwards inputs and channels', async () => {
+    workerRegistry.register(
+      'echo',
+      createJobHandler<number, number, number>((argument, context) => {
+        const channel = context.createChannel('progress');
+
+        return new Observable<number>(subscriber => {
+          context.input.subscribe(x => {
+            if (x === null) {
+              channel.complete();
+              subscriber.complete();
+            } else {
+              channel.next(`received ${x}`);
+              subscriber.next(x + argument);
+            }
+          });
+        });
+      }),
+    );
+
+    const job = scheduler.schedule('echo', 100);
+    const progress = job.getChannel('progress').pipe(toArray()).toPromise();
+    const outputs = job.output.pipe(toArray()).toPromise();
+    await waitForStart(job);
+
+    job.input.next(1);
+    job.input.next(2);
+    job.input.next(null);
+
+    expect(await outputs).toEqual([101, 102]);
+    expect(await progress).toEqual(['received 1', 'received 2']);
+  });
+
+  it('supports ping and stop', async () => {
+    workerRegistry.register('forever', createJobHandler(() => new Observable<number>()));
+
+    const job = scheduler.schedule('forever', null);
+    const messages = job.outboundBus.pipe(toArray()).toPromise();
+    await waitForStart(job);
+
+    await job.ping().toPromise();
+    job.stop();
+
+    expect((await messages).map(message => message.kind)).toEqual([
+      JobOutboundMessageKind.OnReady,
+      JobOutboundMessageKind.Start,
+      JobOutboundMessageKind.Pong,
+      JobOutboundMessageKind.End,
+    ]);
+  });
+
+  it('propagates errors', async () => {
+    workerRegistry.register('fail', createJobHandler(() => {
+      throw new Error('Failure in the worker.');
+    }));
+
+    await expectAsync(scheduler.schedule('fail', null).output.toPromise())
+      .toBeRejectedWithError('Failure in the worker.');
+  });
+
+  it('errors jobs when the worker closes', async () => {
+    workerRegistry.register('forever', createJobHandler(() => new Observable<number>()));
+
+    const job = scheduler.schedule('forever', null);
+    const output = job.output.toPromise();
+    await waitForStart(job);
+    workerTransport.close();
+
+    await expectAsync(output).toBeRejectedWithError(/Job worker closed/);
+  });
+
+  it('works over a socket', async () => {
+    const socketPath = process.platform === 'win32'
+      ? path.join('\\\\?\\pipe', `angular-devkit-jobs-${process.pid}`)
+      : path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'angular-devkit-jobs-')), 'socket');
+
+    const server = net.createServer(socket => {
+      serveJobs(createStreamJobTransport(socket, socket), workerRegistry);
+    });
+    await new Promise<void>(resolve => server.listen(socketPath, resolve));
+
+    workerRegistry.register(
+      'add', createJobHandler((arg: number[]) => arg.reduce((a, c) => a + c, 0)),
+    );
+
+    const socket = net.connect(socketPath);
+    const transport = createStreamJobTransport(socket, socket);
+    const socketScheduler = new SimpleScheduler(new RemoteJobRegistry(transport));
+    try {
+      expect(await socketScheduler.schedule('add', [4, 5]).output.toPromise()).toBe(9);
+    } finally {
+      transport.close();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
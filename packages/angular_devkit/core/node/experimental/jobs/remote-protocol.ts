@@ -0,0 +1,216 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { ChildProcess, spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { Observable, Subject } from 'rxjs';
+import { JsonValue, experimental as core_experimental } from '../../../src';
+
+/**
+ * The kind of messages exchanged between a RemoteJobRegistry and a job worker.
+ */
+export enum RemoteJobMessageKind {
+  // Messages sent to the worker.
+  Describe = 'd',
+  Schedule = 's',
+  Inbound = 'i',
+  Unsubscribe = 'u',
+
+  // Messages sent from the worker.
+  Description = 'dd',
+  Outbound = 'o',
+  Error = 'e',
+  Complete = 'c',
+}
+
+export interface RemoteJobMessageBase {
+  readonly kind: RemoteJobMessageKind;
+
+  /**
+   * The ID of the request or scheduled job this message refers to. IDs are assigned by the
+   * registry and are unique for a transport.
+   */
+  readonly id: number;
+}
+
+export interface RemoteJobMessageDescribe extends RemoteJobMessageBase {
+  readonly kind: RemoteJobMessageKind.Describe;
+  readonly name: core_experimental.jobs.JobName;
+}
+
+export interface RemoteJobMessageSchedule extends RemoteJobMessageBase {
+  readonly kind: RemoteJobMessageKind.Schedule;
+  readonly name: core_experimental.jobs.JobName;
+  readonly argument: JsonValue;
+}
+
+export interface RemoteJobMessageInbound extends RemoteJobMessageBase {
+  readonly kind: RemoteJobMessageKind.Inbound;
+  readonly message: core_experimental.jobs.JobInboundMessage<JsonValue>;
+}
+
+export interface RemoteJobMessageUnsubscribe extends RemoteJobMessageBase {
+  readonly kind: RemoteJobMessageKind.Unsubscribe;
+}
+
+export interface RemoteJobMessageDescription extends RemoteJobMessageBase {
+  readonly kind: RemoteJobMessageKind.Description;
+  /**
+   * The description of the job, or null if the worker does not know the job.
+   */
+  readonly description: core_experimental.jobs.JobDescription | null;
+}
+
+export interface RemoteJobMessageOutbound extends RemoteJobMessageBase {
+  readonly kind: RemoteJobMessageKind.Outbound;
+  readonly message: core_experimental.jobs.JobOutboundMessage<JsonValue>;
+}
+
+export interface RemoteJobMessageError extends RemoteJobMessageBase {
+  readonly kind: RemoteJobMessageKind.Error;
+  readonly error: { name: string; message: string; stack?: string };
+}
+
+export interface RemoteJobMessageComplete extends RemoteJobMessageBase {
+  readonly kind: RemoteJobMessageKind.Complete;
+}
+
+export type RemoteJobMessage =
+  RemoteJobMessageDescribe
+  | RemoteJobMessageSchedule
+  | RemoteJobMessageInbound
+  | RemoteJobMessageUnsubscribe
+  | RemoteJobMessageDescription
+  | RemoteJobMessageOutbound
+  | RemoteJobMessageError
+  | RemoteJobMessageComplete
+  ;
+
+/**
+ * A bidirectional channel between a RemoteJobRegistry and a job worker. Messages must be
+ * delivered in order.
+ */
+export interface JobTransport {
+  /**
+   * The messages received from the other end. Completes when the other end closes the transport.
+   */
+  readonly messages: Observable<RemoteJobMessage>;
+
+  send(message: RemoteJobMessage): void;
+  close(): void;
+}
+
+export function serializeError(error: unknown): RemoteJobMessageError['error'] {
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: error.message,
+      ...(error.stack !== undefined ? { stack: error.stack } : {}),
+    };
+  }
+
+  return { name: 'Error', message: String(error) };
+}
+
+export function deserializeError({ name, message, stack }: RemoteJobMessageError['error']): Error {
+  const error = new Error(message);
+  error.name = name;
+  if (stack !== undefined) {
+    error.stack = stack;
+  }
+
+  return error;
+}
+
+function isRemoteJobMessage(value: unknown): value is RemoteJobMessage {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as RemoteJobMessage).id === 'number'
+    && typeof (value as RemoteJobMessage).kind === 'string';
+}
+
+/**
+ * Create a transport that sends messages as newline delimited JSON. Works with pipes, stdio and
+ * sockets (use the socket as both the readable and the writable stream).
+ *
+ * Lines that are not messages are ignored, so a worker writing to its standard output does not
+ * break the protocol.
+ */
+export function createStreamJobTransport(
+  readable: NodeJS.ReadableStream,
+  writable: NodeJS.WritableStream,
+): JobTransport {
+  const messages = new Subject<RemoteJobMessage>();
+  let closed = false;
+
+  const lines = createInterface({ input: readable, crlfDelay: Infinity });
+  lines.on('line', (line: string) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    if (isRemoteJobMessage(value)) {
+      messages.next(value);
+    }
+  });
+  lines.on('close', () => {
+    closed = true;
+    messages.complete();
+  });
+  readable.on('error', (error: Error) => messages.error(error));
+
+  return {
+    messages: messages.asObservable(),
+    send(message) {
+      if (!closed) {
+        writable.write(JSON.stringify(message) + '\n');
+      }
+    },
+    close() {
+      if (closed) {
+        return;
+      }
+
+      closed = true;
+      lines.close();
+      if (writable !== process.stdout && writable !== process.stderr) {
+        writable.end();
+      }
+    },
+  };
+}
+
+/**
+ * Create a transport over the standard input and output of the current process. This is the
+ * transport used by workers started with `spawnJobWorker()`.
+ */
+export function createStdioJobTransport(): JobTransport {
+  return createStreamJobTransport(process.stdin, process.stdout);
+}
+
+/**
+ * Start a Node.js script as a job worker and return a transport to it. The worker is expected to
+ * call `serveJobs()` with `createStdioJobTransport()`. Closing the transport ends the standard
+ * input of the worker, which stops serving jobs.
+ * @param modulePath The path of the worker script.
+ * @param args Additional arguments passed to the worker.
+ */
+export function spawnJobWorker(
+  modulePath: string,
+  args: string[] = [],
+): JobTransport & { readonly process: ChildProcess } {
+  const child = spawn(process.execPath, [modulePath, ...args], {
+    stdio: ['pipe', 'pipe', 'inherit'],
+  });
+  // tslint:disable-next-line: no-non-null-assertion
+  const transport = createStreamJobTransport(child.stdout!, child.stdin!);
+
+  return { ...transport, process: child };
+}
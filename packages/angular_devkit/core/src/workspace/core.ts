@@ -10,6 +10,8 @@ import { WorkspaceDefinition } from './definitions';
 import { WorkspaceHost } from './host';
 import { readJsonWorkspace } from './json/reader';
 import { writeJsonWorkspace } from './json/writer';
+import { readYamlWorkspace } from './yaml/reader';
+import { writeYamlWorkspace } from './yaml/writer';
 
 const formatLookup = new WeakMap<WorkspaceDefinition, WorkspaceFormat>();
 
@@ -18,6 +20,14 @@ const formatLookup = new WeakMap<WorkspaceDefinition, WorkspaceFormat>();
  */
 export enum WorkspaceFormat {
   JSON,
+  /**
+   * JSON with comments. Comments and formatting are retained when the workspace is written.
+   */
+  JSONC,
+  /**
+   * YAML. Comments, anchors and key order are retained when the workspace is written.
+   */
+  YAML,
 }
 
 /**
@@ -38,6 +48,12 @@ export function _test_removeWorkspaceFile(name: string): void {
 const workspaceFiles: Record<string, WorkspaceFormat> = {
   'angular.json': WorkspaceFormat.JSON,
   '.angular.json': WorkspaceFormat.JSON,
+  'angular.jsonc': WorkspaceFormat.JSONC,
+  '.angular.jsonc': WorkspaceFormat.JSONC,
+  'angular.yaml': WorkspaceFormat.YAML,
+  '.angular.yaml': WorkspaceFormat.YAML,
+  'angular.yml': WorkspaceFormat.YAML,
+  '.angular.yml': WorkspaceFormat.YAML,
 };
 
 /**
@@ -46,6 +62,12 @@ const workspaceFiles: Record<string, WorkspaceFormat> = {
  * locate a known workspace file.  Currently the following are considered known workspace files:
  * - `angular.json`
  * - `.angular.json`
+ * - `angular.jsonc`
+ * - `.angular.jsonc`
+ * - `angular.yaml`
+ * - `.angular.yaml`
+ * - `angular.yml`
+ * - `.angular.yml`
  *
  * @param path The path to either a workspace file or a directory containing a workspace file.
  * @param host The `WorkspaceHost` to use to access the file and directory data.
@@ -96,13 +118,17 @@ export async function readWorkspace(
   let workspace;
   switch (format) {
     case WorkspaceFormat.JSON:
+    case WorkspaceFormat.JSONC:
       workspace = await readJsonWorkspace(path, host);
       break;
+    case WorkspaceFormat.YAML:
+      workspace = await readYamlWorkspace(path, host);
+      break;
     default:
       throw new Error('Unsupported workspace format.');
   }
 
-  formatLookup.set(workspace, WorkspaceFormat.JSON);
+  formatLookup.set(workspace, format);
 
   return { workspace };
 }
@@ -140,7 +166,10 @@ export async function writeWorkspace(
 
   switch (format) {
     case WorkspaceFormat.JSON:
+    case WorkspaceFormat.JSONC:
       return writeJsonWorkspace(workspace, host, path);
+    case WorkspaceFormat.YAML:
+      return writeYamlWorkspace(workspace, host, path);
     default:
       throw new Error('Unsupported workspace format.');
   }
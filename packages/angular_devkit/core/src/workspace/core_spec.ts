@@ -73,6 +73,38 @@ describe('readWorkspace', () => {
     done();
   });
 
+  it('attempts to read from specified file path [angular.yaml]', async (done) => {
+    const requestedPath = '/path/to/workspace/angular.yaml';
+
+    const host: WorkspaceHost = {
+      async readFile(path) {
+        expect(path).toBe(requestedPath);
+
+        return 'version: 1\n';
+      },
+      async writeFile(path, data) {
+        expect(path).toBe(requestedPath);
+        expect(data).toBe('version: 1\nx-foo: bar\n');
+      },
+      async isFile(path) {
+        return path === requestedPath;
+      },
+      async isDirectory(path) {
+        if (path !== requestedPath) {
+          fail();
+        }
+
+        return false;
+      },
+    };
+
+    const { workspace } = await readWorkspace(requestedPath, host);
+    workspace.extensions['x-foo'] = 'bar';
+    await writeWorkspace(workspace, host);
+
+    done();
+  });
+
   it('attempts to read from specified non-standard file path with format', async (done) => {
     const requestedPath = '/path/to/workspace/abc.json';
 
@@ -27,6 +27,11 @@ export interface TargetDefinition {
   configurations?: Record<string, Record<string, JsonValue | undefined> | undefined>;
 
   builder: string;
+
+  /** Targets that need to run successfully before this target, e.g. `lib:build`. */
+  dependsOn?: string[];
+  /** Files and directories, relative to the workspace root, that this target depends on. */
+  inputs?: string[];
 }
 
 export type DefinitionCollectionListener<V extends object> = (
@@ -234,6 +239,8 @@ export class TargetDefinitionCollection extends DefinitionCollection<TargetDefin
       builder: definition.builder,
       options: definition.options,
       configurations: definition.configurations,
+      dependsOn: definition.dependsOn,
+      inputs: definition.inputs,
     };
 
     super.set(definition.name, target);
@@ -104,6 +104,8 @@ function convertJsonTarget(target: TargetDefinition): JsonObject {
     ...(isEmpty(target.configurations)
       ? {}
       : { configurations: target.configurations as JsonObject }),
+    ...(isEmpty(target.dependsOn) ? {} : { dependsOn: target.dependsOn as string[] }),
+    ...(isEmpty(target.inputs) ? {} : { inputs: target.inputs as string[] }),
   };
 }
 
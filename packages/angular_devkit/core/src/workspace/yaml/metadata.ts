@@ -0,0 +1,24 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { Document } from 'yaml';
+import { JsonObject } from '../../json';
+import { WorkspaceDefinition } from '../definitions';
+
+export const YamlWorkspaceSymbol = Symbol.for('@angular/core:workspace-yaml');
+
+export interface YamlWorkspaceDefinition extends WorkspaceDefinition {
+  [YamlWorkspaceSymbol]: YamlWorkspaceMetadata;
+}
+
+export class YamlWorkspaceMetadata {
+  constructor(
+    readonly filePath: string,
+    readonly document: Document,
+    public value: JsonObject,
+  ) { }
+}
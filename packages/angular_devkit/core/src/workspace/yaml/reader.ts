@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { parseDocument } from 'yaml';
+import { JsonObject, JsonValue, isJsonObject } from '../../json';
+import {
+  ProjectDefinition,
+  ProjectDefinitionCollection,
+  TargetDefinition,
+  TargetDefinitionCollection,
+  WorkspaceDefinition,
+} from '../definitions';
+import { WorkspaceHost } from '../host';
+import { YamlWorkspaceMetadata, YamlWorkspaceSymbol } from './metadata';
+
+export async function readYamlWorkspace(
+  path: string,
+  host: WorkspaceHost,
+): Promise<WorkspaceDefinition> {
+  const raw = await host.readFile(path);
+
+  if (raw === undefined) {
+    throw new Error('Unable to read workspace file.');
+  }
+
+  // Merge keys are commonly used to share target options between projects
+  const document = parseDocument(raw, { merge: true, prettyErrors: true });
+  if (document.errors.length > 0) {
+    throw new Error(`Invalid workspace file - ${document.errors[0].message}`);
+  }
+
+  // Aliased values are resolved to a shared object; copy these to allow independent modification
+  const value = JSON.parse(JSON.stringify(document.toJSON())) as JsonValue;
+  if (!isJsonObject(value)) {
+    throw new Error('Invalid workspace file - expected YAML mapping.');
+  }
+
+  // Version check
+  if (!('version' in value)) {
+    throw new Error('Unknown format - version specifier not found.');
+  }
+  const formatVersion = value.version;
+  if (formatVersion !== 1) {
+    throw new Error(`Invalid format version detected - Expected:[ 1 ] Found: [ ${formatVersion} ]`);
+  }
+
+  // The metadata keeps a separate copy of the original values to compare against when writing
+  const metadata = new YamlWorkspaceMetadata(path, document, JSON.parse(JSON.stringify(value)));
+
+  return parseWorkspace(value, metadata);
+}
+
+function parseWorkspace(value: JsonObject, metadata: YamlWorkspaceMetadata): WorkspaceDefinition {
+  const extensions: Record<string, JsonValue> = Object.create(null);
+  let projects: Record<string, ProjectDefinition> | undefined;
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    if (name === '$schema' || name === 'version') {
+      // skip
+    } else if (name === 'projects') {
+      if (!isJsonObject(propertyValue)) {
+        throw new Error('Invalid "projects" field found; expected an object.');
+      }
+
+      projects = parseProjectsObject(propertyValue);
+    } else {
+      extensions[name] = propertyValue;
+    }
+  }
+
+  return {
+    [YamlWorkspaceSymbol]: metadata,
+    projects: new ProjectDefinitionCollection(projects),
+    extensions,
+  } as WorkspaceDefinition;
+}
+
+function parseProjectsObject(value: JsonObject): Record<string, ProjectDefinition> {
+  const projects: Record<string, ProjectDefinition> = Object.create(null);
+
+  for (const [name, projectValue] of Object.entries(value)) {
+    if (!isJsonObject(projectValue)) {
+      // Skipping invalid project value; expected an object.
+      continue;
+    }
+
+    projects[name] = parseProject(projectValue);
+  }
+
+  return projects;
+}
+
+function parseProject(value: JsonObject): ProjectDefinition {
+  const extensions: Record<string, JsonValue> = Object.create(null);
+  const properties: Record<'root' | 'sourceRoot' | 'prefix', string> = Object.create(null);
+  let targets: Record<string, TargetDefinition> | undefined;
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    switch (name) {
+      case 'targets':
+      case 'architect':
+        if (!isJsonObject(propertyValue)) {
+          throw new Error(`Invalid "${name}" field found; expected an object.`);
+        }
+        targets = parseTargetsObject(propertyValue);
+        break;
+      case 'prefix':
+      case 'root':
+      case 'sourceRoot':
+        properties[name] = propertyValue as string;
+        break;
+      default:
+        extensions[name] = propertyValue;
+        break;
+    }
+  }
+
+  return {
+    targets: new TargetDefinitionCollection(targets),
+    extensions,
+    ...properties,
+  } as ProjectDefinition;
+}
+
+function parseTargetsObject(value: JsonObject): Record<string, TargetDefinition> {
+  const targets: Record<string, TargetDefinition> = Object.create(null);
+
+  for (const [name, targetValue] of Object.entries(value)) {
+    if (!isJsonObject(targetValue)) {
+      // Skipping invalid target value; expected an object.
+      continue;
+    }
+
+    targets[name] = targetValue as unknown as TargetDefinition;
+  }
+
+  return targets;
+}
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+// tslint:disable:no-non-null-assertion
+import { stripIndent } from '../../utils/literals';
+import { readYamlWorkspace } from './reader';
+
+const representativeFile = stripIndent`
+  version: 1
+  # Comment
+  newProjectRoot: projects
+  defaultProject: my-app
+  x-defaults: &buildOptions
+    aot: true
+    sourceMap: false
+  projects:
+    my-app:
+      root: ''
+      sourceRoot: src
+      prefix: app
+      schematics:
+        '@schematics/angular:component':
+          style: scss
+      architect:
+        build:
+          builder: '@angular-devkit/build-angular:browser'
+          options:
+            <<: *buildOptions
+            outputPath: dist/my-app
+    my-lib:
+      root: projects/my-lib
+      targets:
+        build:
+          builder: '@angular-devkit/build-angular:ng-packagr'
+`;
+
+function createTestHost(content: string) {
+  return {
+    async readFile() {
+      return content;
+    },
+    async writeFile() {},
+    async isFile() {
+      return true;
+    },
+    async isDirectory() {
+      return true;
+    },
+  };
+}
+
+describe('readYamlWorkpace Parsing', () => {
+  it('parses a representative file', async () => {
+    const workspace = await readYamlWorkspace('', createTestHost(representativeFile));
+
+    expect(Array.from(workspace.projects.keys())).toEqual(['my-app', 'my-lib']);
+    expect(workspace.extensions['newProjectRoot']).toBe('projects');
+    expect(workspace.extensions['defaultProject']).toBe('my-app');
+
+    const project = workspace.projects.get('my-app')!;
+    expect(project.root).toBe('');
+    expect(project.sourceRoot).toBe('src');
+    expect(project.prefix).toBe('app');
+    expect(project.extensions['schematics']).toEqual({
+      '@schematics/angular:component': { style: 'scss' },
+    });
+    expect(project.targets.get('build')!.builder).toBe('@angular-devkit/build-angular:browser');
+
+    expect(workspace.projects.get('my-lib')!.targets.get('build')!.builder).toBe(
+      '@angular-devkit/build-angular:ng-packagr',
+    );
+  });
+
+  it('resolves anchors and merge keys', async () => {
+    const workspace = await readYamlWorkspace('', createTestHost(representativeFile));
+
+    const target = workspace.projects.get('my-app')!.targets.get('build')!;
+    expect(target.options).toEqual({ aot: true, sourceMap: false, outputPath: 'dist/my-app' });
+  });
+
+  it('errors on invalid version', async () => {
+    const host = createTestHost(stripIndent`
+      version: 99
+      x-bar: 5
+    `);
+
+    try {
+      await readYamlWorkspace('', host);
+      fail();
+    } catch (e) {
+      expect(e.message).toContain('Invalid format version detected');
+    }
+  });
+
+  it('errors on missing version', async () => {
+    const host = createTestHost(stripIndent`
+      x-bar: 5
+    `);
+
+    try {
+      await readYamlWorkspace('', host);
+      fail();
+    } catch (e) {
+      expect(e.message).toContain('version specifier not found');
+    }
+  });
+
+  it('errors on a document that is not a mapping', async () => {
+    const host = createTestHost(stripIndent`
+      - version: 1
+    `);
+
+    try {
+      await readYamlWorkspace('', host);
+      fail();
+    } catch (e) {
+      expect(e.message).toContain('expected YAML mapping');
+    }
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { createNode, stringify } from 'yaml';
+import { Collection, Scalar, YAMLMap, YAMLSeq } from 'yaml/types';
+import { JsonObject, JsonValue, isJsonArray, isJsonObject } from '../../json';
+import { ProjectDefinition, TargetDefinition, WorkspaceDefinition } from '../definitions';
+import { WorkspaceHost } from '../host';
+import { YamlWorkspaceDefinition, YamlWorkspaceSymbol } from './metadata';
+
+export async function writeYamlWorkspace(
+  workspace: WorkspaceDefinition,
+  host: WorkspaceHost,
+  path?: string,
+  options: {
+    schema?: string;
+  } = {},
+): Promise<void> {
+  const metadata = (workspace as YamlWorkspaceDefinition)[YamlWorkspaceSymbol];
+
+  if (metadata) {
+    const value = convertYamlWorkspace(workspace, metadata.value);
+    if (!updateYamlMap(metadata.document.contents, metadata.value, value)) {
+      // nothing to do
+      return;
+    }
+
+    // The document now reflects the new values which become the base for any future changes
+    metadata.value = JSON.parse(JSON.stringify(value));
+
+    return host.writeFile(path || metadata.filePath, metadata.document.toString());
+  } else {
+    // serialize directly
+    if (!path) {
+      throw new Error('path option is required');
+    }
+
+    const obj = convertYamlWorkspace(workspace, undefined, options.schema);
+
+    return host.writeFile(path, stringify(obj));
+  }
+}
+
+function convertYamlWorkspace(
+  workspace: WorkspaceDefinition,
+  original?: JsonObject,
+  schema?: string,
+): JsonObject {
+  const originalProjects =
+    original && isJsonObject(original.projects) ? original.projects : undefined;
+
+  const projects = Object.create(null) as JsonObject;
+  for (const [projectName, project] of workspace.projects) {
+    const originalProject = originalProjects?.[projectName];
+    // Retain the property name used by an existing project for its targets
+    const targetsKey =
+      originalProject !== undefined && isJsonObject(originalProject) && 'targets' in originalProject
+        ? 'targets'
+        : 'architect';
+
+    projects[projectName] = convertYamlProject(project, targetsKey);
+  }
+
+  if (!original) {
+    return {
+      $schema: schema || './node_modules/@angular/cli/lib/config/schema.json',
+      version: 1,
+      ...workspace.extensions,
+      projects,
+    } as JsonObject;
+  }
+
+  return {
+    ...(original.$schema === undefined ? {} : { $schema: original.$schema }),
+    version: 1,
+    ...workspace.extensions,
+    ...(originalProjects === undefined && workspace.projects.size === 0 ? {} : { projects }),
+  } as JsonObject;
+}
+
+function convertYamlProject(
+  project: ProjectDefinition,
+  targetsKey: 'architect' | 'targets',
+): JsonObject {
+  let targets: JsonObject | undefined;
+  if (project.targets.size > 0) {
+    targets = Object.create(null) as JsonObject;
+    for (const [targetName, target] of project.targets) {
+      targets[targetName] = convertYamlTarget(target);
+    }
+  }
+
+  return {
+    ...project.extensions,
+    root: project.root,
+    ...(project.sourceRoot === undefined ? {} : { sourceRoot: project.sourceRoot }),
+    ...(project.prefix === undefined ? {} : { prefix: project.prefix }),
+    ...(targets === undefined ? {} : { [targetsKey]: targets }),
+  } as JsonObject;
+}
+
+function isEmpty(obj?: object): boolean {
+  return obj === undefined || Object.keys(obj).length === 0;
+}
+
+function convertYamlTarget(target: TargetDefinition): JsonObject {
+  return {
+    builder: target.builder,
+    ...(isEmpty(target.options) ? {} : { options: target.options as JsonObject }),
+    ...(isEmpty(target.configurations)
+      ? {}
+      : { configurations: target.configurations as JsonObject }),
+    ...(isEmpty(target.dependsOn) ? {} : { dependsOn: target.dependsOn as string[] }),
+    ...(isEmpty(target.inputs) ? {} : { inputs: target.inputs as string[] }),
+  };
+}
+
+function isDeepEqual(a: JsonValue | undefined, b: JsonValue | undefined): boolean {
+  if (a === b) {
+    return true;
+  } else if (a === undefined || b === undefined) {
+    return false;
+  }
+
+  if (isJsonArray(a) && isJsonArray(b)) {
+    return a.length === b.length && a.every((element, index) => isDeepEqual(element, b[index]));
+  }
+
+  if (isJsonObject(a) && isJsonObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isDeepEqual(a[key], b[key])) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Applies the differences between two values to an existing YAML map node. Nodes are only
+ * replaced when their value changes which retains the comments, key order and formatting of
+ * all unchanged content.
+ *
+ * @return `true` if the map node was modified; `false`, otherwise.
+ */
+function updateYamlMap(map: YAMLMap, oldValue: JsonObject, newValue: JsonObject): boolean {
+  let modified = false;
+
+  for (const key of Object.keys(oldValue)) {
+    if (!(key in newValue)) {
+      modified = updateYamlNode(map, key, oldValue[key], undefined) || modified;
+    }
+  }
+  for (const [key, value] of Object.entries(newValue)) {
+    modified = updateYamlNode(map, key, oldValue[key], value) || modified;
+  }
+
+  return modified;
+}
+
+function updateYamlNode(
+  collection: Collection,
+  key: string | number,
+  oldValue: JsonValue | undefined,
+  newValue: JsonValue | undefined,
+): boolean {
+  if (isDeepEqual(oldValue, newValue)) {
+    return false;
+  }
+
+  if (newValue === undefined) {
+    collection.delete(key);
+
+    return true;
+  } else if (oldValue === undefined) {
+    collection.set(key, createNode(newValue));
+
+    return true;
+  }
+
+  // Aliased and merged values are not owned by this node; these are replaced instead of modified
+  // to avoid changing any other references to the same anchor.
+  const node = collection.get(key, true);
+  if (node instanceof YAMLMap && isJsonObject(oldValue) && isJsonObject(newValue)) {
+    updateYamlMap(node, oldValue, newValue);
+  } else if (
+    node instanceof YAMLSeq &&
+    isJsonArray(oldValue) &&
+    isJsonArray(newValue) &&
+    oldValue.length === newValue.length
+  ) {
+    newValue.forEach((element, index) => updateYamlNode(node, index, oldValue[index], element));
+  } else if (node instanceof Scalar && (newValue === null || typeof newValue !== 'object')) {
+    node.value = newValue;
+  } else {
+    collection.set(key, createNode(newValue));
+  }
+
+  return true;
+}
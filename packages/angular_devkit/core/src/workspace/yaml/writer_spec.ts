@@ -0,0 +1,242 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+// tslint:disable:no-non-null-assertion
+import { stripIndent } from '../../utils/literals';
+import { ProjectDefinitionCollection, WorkspaceDefinition } from '../definitions';
+import { readYamlWorkspace } from './reader';
+import { writeYamlWorkspace } from './writer';
+
+const basicFile = stripIndent`
+  # Workspace comment
+  version: 1
+  x-defaults: &defaults
+    aot: true # inline comment
+  projects:
+    my-app:
+      root: '' # project root
+      architect:
+        build:
+          builder: '@angular-devkit/build-angular:browser'
+          options: *defaults
+        test:
+          builder: '@angular-devkit/build-angular:karma'
+          options: *defaults
+`;
+
+function createTestHost(content = '', onWrite?: (path: string, data: string) => void) {
+  return {
+    async readFile() {
+      return content;
+    },
+    async writeFile(path: string, data: string) {
+      if (onWrite) {
+        onWrite(path, data);
+      } else {
+        fail('Unexpected write');
+      }
+    },
+    async isFile() {
+      return true;
+    },
+    async isDirectory() {
+      return true;
+    },
+  };
+}
+
+describe('writeYamlWorkpace', () => {
+  it('does not modify a file without changes', async () => {
+    const host = createTestHost(basicFile);
+
+    const workspace = await readYamlWorkspace('angular.yaml', host);
+    await writeYamlWorkspace(workspace, host);
+  });
+
+  it('writes a new workspace', async () => {
+    let output = '';
+    const host = createTestHost('', (_path, data) => (output = data));
+
+    const workspace: WorkspaceDefinition = {
+      extensions: {
+        newProjectRoot: 'projects',
+      },
+      projects: new ProjectDefinitionCollection(),
+    };
+    workspace.projects.add({
+      name: 'my-app',
+      root: 'projects/my-app',
+      targets: {
+        build: {
+          builder: '@angular-devkit/build-angular:browser',
+          options: { aot: true },
+        },
+      },
+    });
+
+    await writeYamlWorkspace(workspace, host, 'angular.yaml');
+
+    expect(output).toBe(stripIndent`
+      $schema: ./node_modules/@angular/cli/lib/config/schema.json
+      version: 1
+      newProjectRoot: projects
+      projects:
+        my-app:
+          root: projects/my-app
+          architect:
+            build:
+              builder: "@angular-devkit/build-angular:browser"
+              options:
+                aot: true
+    ` + '\n');
+  });
+
+  it('retains comments and key order when modifying the workspace', async () => {
+    let output = '';
+    const host = createTestHost(basicFile, (_path, data) => (output = data));
+
+    const workspace = await readYamlWorkspace('angular.yaml', host);
+    workspace.extensions['x-baz'] = 10;
+    workspace.projects.get('my-app')!.sourceRoot = 'src';
+
+    await writeYamlWorkspace(workspace, host);
+
+    expect(output).toBe(stripIndent`
+      # Workspace comment
+      version: 1
+      x-defaults:
+        &defaults
+        aot: true # inline comment
+      projects:
+        my-app:
+          root: '' # project root
+          architect:
+            build:
+              builder: '@angular-devkit/build-angular:browser'
+              options: *defaults
+            test:
+              builder: '@angular-devkit/build-angular:karma'
+              options: *defaults
+          sourceRoot: src
+      x-baz: 10
+    ` + '\n');
+  });
+
+  it('does not modify other references when changing an aliased value', async () => {
+    let output = '';
+    const host = createTestHost(basicFile, (_path, data) => (output = data));
+
+    const workspace = await readYamlWorkspace('angular.yaml', host);
+    const project = workspace.projects.get('my-app')!;
+    project.targets.get('test')!.options!['aot'] = false;
+
+    await writeYamlWorkspace(workspace, host);
+
+    const result = await readYamlWorkspace('angular.yaml', createTestHost(output));
+    const resultProject = result.projects.get('my-app')!;
+    expect(resultProject.targets.get('build')!.options).toEqual({ aot: true });
+    expect(resultProject.targets.get('test')!.options).toEqual({ aot: false });
+    expect(output).toContain('options: *defaults');
+  });
+
+  it('removes a target', async () => {
+    let output = '';
+    const host = createTestHost(basicFile, (_path, data) => (output = data));
+
+    const workspace = await readYamlWorkspace('angular.yaml', host);
+    workspace.projects.get('my-app')!.targets.delete('test');
+
+    await writeYamlWorkspace(workspace, host);
+
+    expect(output).not.toContain('test:');
+    expect(output).toContain('# Workspace comment');
+  });
+
+  it('adds a project using the existing targets property name', async () => {
+    let output = '';
+    const host = createTestHost(basicFile, (_path, data) => (output = data));
+
+    const workspace = await readYamlWorkspace('angular.yaml', host);
+    workspace.projects.add({
+      name: 'my-lib',
+      root: 'projects/my-lib',
+      targets: {
+        build: {
+          builder: '@angular-devkit/build-angular:ng-packagr',
+        },
+      },
+    });
+
+    await writeYamlWorkspace(workspace, host);
+
+    const result = await readYamlWorkspace('angular.yaml', createTestHost(output));
+    expect(Array.from(result.projects.keys())).toEqual(['my-app', 'my-lib']);
+    expect(result.projects.get('my-lib')!.targets.get('build')!.builder).toBe(
+      '@angular-devkit/build-angular:ng-packagr',
+    );
+  });
+
+  it('retains and writes the target dependencies and inputs', async () => {
+    let output = '';
+    const host = createTestHost(
+      basicFile.replace(
+        `options: *defaults\n      test:`,
+        `options: *defaults\n        dependsOn: [ '^build' ]\n        inputs: [ 'src/**' ]\n      test:`,
+      ),
+      (_path, data) => (output = data),
+    );
+
+    const workspace = await readYamlWorkspace('angular.yaml', host);
+    const project = workspace.projects.get('my-app')!;
+    expect(project.targets.get('build')!.dependsOn).toEqual(['^build']);
+    expect(project.targets.get('build')!.inputs).toEqual(['src/**']);
+
+    project.targets.get('test')!.dependsOn = ['build'];
+    project.targets.add({
+      name: 'lint',
+      builder: '@angular-devkit/build-angular:eslint',
+      inputs: ['src/**/*.ts'],
+    });
+
+    await writeYamlWorkspace(workspace, host);
+
+    const result = await readYamlWorkspace('angular.yaml', createTestHost(output));
+    const resultProject = result.projects.get('my-app')!;
+    expect(resultProject.targets.get('build')!.dependsOn).toEqual(['^build']);
+    expect(resultProject.targets.get('build')!.inputs).toEqual(['src/**']);
+    expect(resultProject.targets.get('test')!.dependsOn).toEqual(['build']);
+    expect(resultProject.targets.get('lint')!.inputs).toEqual(['src/**/*.ts']);
+  });
+
+  it('writes the target dependencies and inputs of a new workspace', async () => {
+    let output = '';
+    const host = createTestHost('', (_path, data) => (output = data));
+
+    const workspace: WorkspaceDefinition = {
+      extensions: {},
+      projects: new ProjectDefinitionCollection(),
+    };
+    workspace.projects.add({
+      name: 'my-app',
+      root: '',
+      targets: {
+        build: {
+          builder: '@angular-devkit/build-angular:browser',
+          dependsOn: ['^build'],
+          inputs: ['src/**'],
+        },
+      },
+    });
+
+    await writeYamlWorkspace(workspace, host, 'angular.yaml');
+
+    const result = await readYamlWorkspace('angular.yaml', createTestHost(output));
+    const target = result.projects.get('my-app')!.targets.get('build')!;
+    expect(target.dependsOn).toEqual(['^build']);
+    expect(target.inputs).toEqual(['src/**']);
+  });
+});
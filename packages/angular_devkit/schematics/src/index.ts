@@ -30,6 +30,7 @@ export * from './engine/schematic';
 export * from './sink/dryrun';
 export * from './sink/host';
 export * from './sink/sink';
+export * from './utility/diff';
 
 import * as formats from './formats/index';
 export { formats };
@@ -5,9 +5,10 @@
  * Use of this source code is governed by an MIT-style license that can be
  * found in the LICENSE file at https://angular.io/license
  */
-import { normalize, virtualFs } from '@angular-devkit/core';
+import { JsonObject, Path, normalize, virtualFs } from '@angular-devkit/core';
 import { NodeJsSyncHost } from '@angular-devkit/core/node';
 import { Observable, Subject, of } from 'rxjs';
+import { catchError, concatMap } from 'rxjs/operators';
 import { HostSink } from './host';
 
 
@@ -29,6 +30,8 @@ export interface DryRunUpdateEvent {
   kind: 'update';
   path: string;
   content: Buffer;
+  /** The content of the file before the update, if it could be read. */
+  original?: Buffer;
 }
 export interface DryRunRenameEvent {
   kind: 'rename';
@@ -47,6 +50,7 @@ export class DryRunSink extends HostSink {
   protected _subject = new Subject<DryRunEvent>();
   protected _fileDoesNotExistExceptionSet = new Set<string>();
   protected _fileAlreadyExistExceptionSet = new Set<string>();
+  protected _originalContent = new Map<Path, Buffer>();
 
   readonly reporter: Observable<DryRunEvent> = this._subject.asObservable();
 
@@ -71,6 +75,24 @@ export class DryRunSink extends HostSink {
     this._fileDoesNotExistExceptionSet.add(path);
   }
 
+  protected _overwriteFile(path: Path, content: Buffer): Observable<void> {
+    if (this._originalContent.has(path)) {
+      return super._overwriteFile(path, content);
+    }
+
+    // Keep the content currently on the host so the update can be compared against it.
+    return this._host.read(path).pipe(
+      catchError(() => of(undefined)),
+      concatMap(original => {
+        if (original !== undefined) {
+          this._originalContent.set(path, Buffer.from(original));
+        }
+
+        return super._overwriteFile(path, content);
+      }),
+    );
+  }
+
   _done() {
     this._fileAlreadyExistExceptionSet.forEach(path => {
       this._subject.next({
@@ -117,7 +139,12 @@ export class DryRunSink extends HostSink {
       this._subject.next({ kind: 'create', path, content: content.generate() });
     });
     this._filesToUpdate.forEach((content, path) => {
-      this._subject.next({ kind: 'update', path, content: content.generate() });
+      this._subject.next({
+        kind: 'update',
+        path,
+        content: content.generate(),
+        original: this._originalContent.get(path),
+      });
     });
 
     this._subject.complete();
@@ -125,3 +152,34 @@ export class DryRunSink extends HostSink {
     return of<void>(undefined);
   }
 }
+
+
+/**
+ * Converts a dry run event into a JSON serializable object. File contents are represented as
+ * UTF-8 text, or as base64 for binary files, and the `encoding` property is set accordingly.
+ * The content of an updated file before the update is stored in the `original` property.
+ */
+export function serializeDryRunEvent(event: DryRunEvent): JsonObject {
+  switch (event.kind) {
+    case 'create':
+    case 'update':
+      const contents = [event.content];
+      if (event.kind === 'update' && event.original) {
+        contents.push(event.original);
+      }
+      // Contents containing a NUL byte are considered binary and cannot be represented as text.
+      const encoding = contents.some(content => content.includes(0)) ? 'base64' : 'utf8';
+
+      return {
+        kind: event.kind,
+        path: event.path,
+        encoding,
+        content: event.content.toString(encoding),
+        ...(event.kind === 'update' && event.original
+          ? { original: event.original.toString(encoding) }
+          : {}),
+      };
+    default:
+      return { ...event };
+  }
+}
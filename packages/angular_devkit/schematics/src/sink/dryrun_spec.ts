@@ -9,7 +9,7 @@
 import { Path, normalize, virtualFs } from '@angular-devkit/core';
 import { toArray } from 'rxjs/operators';
 import { HostCreateTree, HostTree } from '../tree/host-tree';
-import { DryRunSink } from './dryrun';
+import { DryRunEvent, DryRunSink, serializeDryRunEvent } from './dryrun';
 
 
 const host = new virtualFs.test.TestHost({
@@ -80,4 +80,51 @@ describe('DryRunSink', () => {
     sink.commit(tree)
       .toPromise().then(done, done.fail);
   });
+
+  it('reports the original content of updated files', async () => {
+    const outputHost = new virtualFs.SimpleMemoryHost();
+    outputHost.write(normalize('/hello'), virtualFs.stringToFileBuffer('hello')).subscribe();
+
+    const tree = new HostTree(outputHost);
+    tree.overwrite('/hello', 'world');
+
+    const sink = new DryRunSink(outputHost);
+    const events = sink.reporter.pipe(toArray()).toPromise();
+    await sink.commit(tree).toPromise();
+
+    const [event] = await events;
+    expect(event.kind).toBe('update');
+    expect(event.kind === 'update' && event.original?.toString()).toBe('hello');
+    expect(event.kind === 'update' && event.content.toString()).toBe('world');
+  });
+});
+
+describe('serializeDryRunEvent', () => {
+  it('serializes text contents as UTF-8', () => {
+    const event: DryRunEvent = {
+      kind: 'update',
+      path: '/hello',
+      content: Buffer.from('world'),
+      original: Buffer.from('hello'),
+    };
+
+    expect(serializeDryRunEvent(event)).toEqual({
+      kind: 'update',
+      path: '/hello',
+      encoding: 'utf8',
+      content: 'world',
+      original: 'hello',
+    });
+  });
+
+  it('serializes binary contents as base64', () => {
+    const event: DryRunEvent = { kind: 'create', path: '/image', content: Buffer.from([0, 1, 2]) };
+
+    expect(serializeDryRunEvent(event)).toEqual({
+      kind: 'create',
+      path: '/image',
+      encoding: 'base64',
+      content: 'AAEC',
+    });
+  });
 });
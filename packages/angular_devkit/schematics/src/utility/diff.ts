@@ -0,0 +1,224 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+interface LineEdit {
+  kind: ' ' | '-' | '+';
+  line: string;
+}
+
+/**
+ * Above this number of edits the diff is not minimized anymore, and the remaining lines are
+ * reported as removed and added. This bounds the memory used for completely rewritten files.
+ */
+const maxEditDistance = 1000;
+
+/** Splits a text into lines. Each line retains its line terminator, except the last one. */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Computes the line edits transforming `a` into `b` using the Myers algorithm.
+ * See "An O(ND) Difference Algorithm and Its Variations", Eugene W. Myers.
+ */
+function diffLines(a: string[], b: string[]): LineEdit[] {
+  // Common leading and trailing lines do not need to go through the algorithm.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < a.length - start && end < b.length - start
+    && a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const head = a.slice(0, start).map(line => ({ kind: ' ', line } as LineEdit));
+  const tail = a.slice(a.length - end).map(line => ({ kind: ' ', line } as LineEdit));
+  const oldLines = a.slice(start, a.length - end);
+  const newLines = b.slice(start, b.length - end);
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // `v[k]` holds the furthest reaching x position on diagonal k; `trace[d]` is `v` before step d.
+  const v = new Map<number, number>([[1, 0]]);
+  const trace: Map<number, number>[] = [];
+  let found = false;
+  for (let d = 0; d <= Math.min(n + m, maxEditDistance) && !found; d++) {
+    trace.push(new Map(v));
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && (v.get(k - 1) ?? -1) < (v.get(k + 1) ?? -1));
+      let x = down ? (v.get(k + 1) ?? 0) : (v.get(k - 1) ?? 0) + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v.set(k, x);
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...head,
+      ...oldLines.map(line => ({ kind: '-', line } as LineEdit)),
+      ...newLines.map(line => ({ kind: '+', line } as LineEdit)),
+      ...tail,
+    ];
+  }
+
+  // Walk back through the trace to collect the edits of the shortest edit script.
+  const edits: LineEdit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const down = k === -d
+      || (k !== d && (previous.get(k - 1) ?? -1) < (previous.get(k + 1) ?? -1));
+    const previousK = down ? k + 1 : k - 1;
+    const previousX = previous.get(previousK) ?? 0;
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push({ kind: ' ', line: oldLines[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (down) {
+        edits.push({ kind: '+', line: newLines[--y] });
+      } else {
+        edits.push({ kind: '-', line: oldLines[--x] });
+      }
+    }
+  }
+
+  return [...head, ...edits.reverse(), ...tail];
+}
+
+function formatRange(start: number, count: number): string {
+  // An empty range refers to the line preceding it.
+  const line = count === 0 ? start : start + 1;
+
+  return count === 1 ? `${line}` : `${line},${count}`;
+}
+
+function formatLine(edit: LineEdit): string {
+  return edit.line.endsWith('\n')
+    ? edit.kind + edit.line
+    : `${edit.kind}${edit.line}\n\\ No newline at end of file\n`;
+}
+
+/**
+ * Creates a unified diff between two versions of a file, in the format used by `diff -u` and
+ * `git diff`.
+ *
+ * @param path The path of the file shown in the diff headers.
+ * @param original The content of the file before the change, or `undefined` if it is created.
+ * @param modified The content of the file after the change, or `undefined` if it is deleted.
+ * @param context The number of unchanged lines shown around each change.
+ * @return The diff, or an empty string if both contents are equal.
+ */
+export function createUnifiedDiff(
+  path: string,
+  original: string | undefined,
+  modified: string | undefined,
+  context = 3,
+): string {
+  if (original === modified) {
+    return '';
+  }
+
+  // Strip leading slash to keep the paths relative.
+  const relativePath = path.startsWith('/') ? path.substr(1) : path;
+  const originalPath = original === undefined ? '/dev/null' : `a/${relativePath}`;
+  const modifiedPath = modified === undefined ? '/dev/null' : `b/${relativePath}`;
+
+  if (original?.includes('\0') || modified?.includes('\0')) {
+    return `Binary files ${originalPath} and ${modifiedPath} differ\n`;
+  }
+
+  const edits = diffLines(splitLines(original || ''), splitLines(modified || ''));
+  let diff = `--- ${originalPath}\n+++ ${modifiedPath}\n`;
+
+  // Changes separated by at most twice the context are shown in the same hunk.
+  let index = 0;
+  let oldLine = 0;
+  let newLine = 0;
+  while (index < edits.length) {
+    const firstChange = edits.findIndex((edit, i) => i >= index && edit.kind !== ' ');
+    if (firstChange === -1) {
+      break;
+    }
+
+    let lastChange = firstChange;
+    for (let i = firstChange + 1; i < edits.length && i - lastChange <= context * 2 + 1; i++) {
+      if (edits[i].kind !== ' ') {
+        lastChange = i;
+      }
+    }
+
+    // Only unchanged lines precede the hunk.
+    const hunkStart = Math.max(index, firstChange - context);
+    oldLine += hunkStart - index;
+    newLine += hunkStart - index;
+
+    const hunkEnd = Math.min(edits.length, lastChange + context + 1);
+    const hunkEdits = edits.slice(hunkStart, hunkEnd);
+    const oldCount = hunkEdits.filter(edit => edit.kind !== '+').length;
+    const newCount = hunkEdits.filter(edit => edit.kind !== '-').length;
+
+    diff += `@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@\n`;
+    diff += hunkEdits.map(formatLine).join('');
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = hunkEnd;
+  }
+
+  return diff;
+}
+
+/**
+ * The formatters used to colorize the lines of a unified diff.
+ */
+export interface UnifiedDiffColors {
+  added(line: string): string;
+  removed(line: string): string;
+  hunk(line: string): string;
+}
+
+/**
+ * Colorizes the added and removed lines and the hunk headers of a unified diff.
+ *
+ * @param diff The diff, as created by `createUnifiedDiff`.
+ * @param colors The formatters applied to each kind of line.
+ * @return The colorized diff.
+ */
+export function colorizeUnifiedDiff(diff: string, colors: UnifiedDiffColors): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+')) {
+        return colors.added(line);
+      } else if (line.startsWith('-')) {
+        return colors.removed(line);
+      } else if (line.startsWith('@@')) {
+        return colors.hunk(line);
+      }
+
+      return line;
+    })
+    .join('\n');
+}
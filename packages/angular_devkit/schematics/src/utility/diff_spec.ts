@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { colorizeUnifiedDiff, createUnifiedDiff } from './diff';
+
+describe('createUnifiedDiff', () => {
+  const lines = (...values: (string | number)[]) => values.map(value => `${value}\n`).join('');
+
+  it('returns an empty string for equal contents', () => {
+    expect(createUnifiedDiff('/file', 'a\n', 'a\n')).toBe('');
+  });
+
+  it('shows changes with context lines', () => {
+    const original = lines(1, 2, 3, 4, 5, 6, 7, 8, 9, 10);
+    const modified = lines(1, 2, 3, 4, 'five', 6, 7, 8, 9, 10);
+
+    expect(createUnifiedDiff('/src/file.ts', original, modified)).toBe(
+      '--- a/src/file.ts\n' +
+      '+++ b/src/file.ts\n' +
+      '@@ -2,7 +2,7 @@\n' +
+      lines(' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8'),
+    );
+  });
+
+  it('separates distant changes into hunks', () => {
+    const original = lines(1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12);
+    const modified = lines(0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11);
+
+    expect(createUnifiedDiff('file', original, modified)).toBe(
+      '--- a/file\n' +
+      '+++ b/file\n' +
+      '@@ -1,3 +1,4 @@\n' +
+      lines('+0', ' 1', ' 2', ' 3') +
+      '@@ -9,4 +10,3 @@\n' +
+      lines(' 9', ' 10', ' 11', '-12'),
+    );
+  });
+
+  it('merges changes with overlapping context into one hunk', () => {
+    const original = lines(1, 2, 3, 4, 5, 6, 7, 8);
+    const modified = lines('one', 2, 3, 4, 5, 6, 7, 'eight');
+
+    expect(createUnifiedDiff('file', original, modified)).toBe(
+      '--- a/file\n' +
+      '+++ b/file\n' +
+      '@@ -1,8 +1,8 @@\n' +
+      lines('-1', '+one', ' 2', ' 3', ' 4', ' 5', ' 6', ' 7', '-8', '+eight'),
+    );
+  });
+
+  it('shows the full content of created files', () => {
+    expect(createUnifiedDiff('/new', undefined, lines('a', 'b'))).toBe(
+      '--- /dev/null\n' +
+      '+++ b/new\n' +
+      '@@ -0,0 +1,2 @@\n' +
+      lines('+a', '+b'),
+    );
+  });
+
+  it('marks missing newlines at the end of files', () => {
+    expect(createUnifiedDiff('file', 'a\nb', 'a\nb\n')).toBe(
+      '--- a/file\n' +
+      '+++ b/file\n' +
+      '@@ -1,2 +1,2 @@\n' +
+      ' a\n' +
+      '-b\n' +
+      '\\ No newline at end of file\n' +
+      '+b\n',
+    );
+  });
+
+  it('does not show the content of binary files', () => {
+    expect(createUnifiedDiff('image.png', 'a\0', 'b\0'))
+      .toBe('Binary files a/image.png and b/image.png differ\n');
+  });
+});
+
+describe('colorizeUnifiedDiff', () => {
+  it('colorizes the added and removed lines and the hunk headers', () => {
+    const colors = {
+      added: (line: string) => `<added>${line}`,
+      removed: (line: string) => `<removed>${line}`,
+      hunk: (line: string) => `<hunk>${line}`,
+    };
+
+    expect(colorizeUnifiedDiff('@@ -1,2 +1,2 @@\n 1\n-2\n+two\n', colors)).toBe(
+      '<hunk>@@ -1,2 +1,2 @@\n 1\n<removed>-2\n<added>+two\n',
+    );
+  });
+});
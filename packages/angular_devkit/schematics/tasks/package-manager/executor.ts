@@ -6,7 +6,8 @@
  * found in the LICENSE file at https://angular.io/license
  */
 import { BaseException } from '@angular-devkit/core';
-import { SpawnOptions, spawn } from 'child_process';
+import { SpawnOptions, execSync, spawn } from 'child_process';
+import { existsSync } from 'fs';
 import * as ora from 'ora';
 import * as path from 'path';
 import { Observable } from 'rxjs';
@@ -45,11 +46,39 @@ const packageManagers: { [name: string]: PackageManagerProfile } = {
     quietArgument: '--silent',
     commands: {
       installAll: 'install',
-      installPackage: 'install',
+      installPackage: 'add',
     },
   },
 };
 
+// Yarn 2 and later do not support the quiet argument of Yarn 1.
+const yarnBerryProfile: PackageManagerProfile = {
+  commands: {
+    installAll: 'install',
+    installPackage: 'add',
+  },
+};
+
+/**
+ * Whether Yarn 2 or later is used within a directory, either configured by a `.yarnrc.yml` file
+ * or installed globally.
+ * This mirrors `isYarnBerry` of `@angular/cli`, which cannot be imported as the CLI depends on
+ * this package.
+ */
+function isYarnBerry(cwd: string): boolean {
+  if (existsSync(path.join(cwd, '.yarnrc.yml'))) {
+    return true;
+  }
+
+  try {
+    const version = execSync('yarn --version', { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] });
+
+    return +version.split('.')[0] >= 2;
+  } catch {
+    return false;
+  }
+}
+
 export class UnknownPackageManagerException extends BaseException {
   constructor(name: string) {
     super(`Unknown package manager "${name}".`);
@@ -66,6 +95,8 @@ export default function(
   }
 
   const rootDirectory = factoryOptions.rootDirectory || process.cwd();
+  // Checking the Yarn release spawns a process, so it is only done once for each directory
+  const yarnBerryDirectories = new Map<string, boolean>();
 
   return (options: NodePackageTaskOptions = { command: 'install' }) => {
     let taskPackageManagerProfile = packageManagerProfile;
@@ -79,11 +110,20 @@ export default function(
     }
 
     const bufferedOutput: {stream: NodeJS.WriteStream, data: Buffer}[] = [];
+    const cwd = path.join(rootDirectory, options.workingDirectory || '');
     const spawnOptions: SpawnOptions = {
       stdio: !!options.hideOutput ? 'pipe' : 'inherit',
       shell: true,
-      cwd: path.join(rootDirectory, options.workingDirectory || ''),
+      cwd,
     };
+    let yarnBerry = false;
+    if (taskPackageManagerName === 'yarn') {
+      yarnBerry = yarnBerryDirectories.get(cwd) ?? isYarnBerry(cwd);
+      yarnBerryDirectories.set(cwd, yarnBerry);
+    }
+    if (yarnBerry) {
+      taskPackageManagerProfile = yarnBerryProfile;
+    }
     const args: string[] = [];
 
     if (options.packageName) {
@@ -100,7 +140,12 @@ export default function(
     }
 
     if (factoryOptions.registry) {
-      args.push(`--registry="${factoryOptions.registry}"`);
+      if (yarnBerry) {
+        // Yarn 2 and later only support configuring the registry with an environment variable.
+        spawnOptions.env = { ...process.env, YARN_NPM_REGISTRY_SERVER: factoryOptions.registry };
+      } else {
+        args.push(`--registry="${factoryOptions.registry}"`);
+      }
     }
 
     return new Observable(obs => {
@@ -10,9 +10,14 @@
 // symbol polyfill must go first
 import 'symbol-observable';
 // tslint:disable-next-line:ordered-imports import-groups
-import { logging, schema, tags } from '@angular-devkit/core';
+import { JsonObject, logging, schema, tags } from '@angular-devkit/core';
 import { ProcessOutput, createConsoleLogger } from '@angular-devkit/core/node';
-import { UnsuccessfulWorkflowExecution } from '@angular-devkit/schematics';
+import {
+  UnsuccessfulWorkflowExecution,
+  colorizeUnifiedDiff,
+  createUnifiedDiff,
+  serializeDryRunEvent,
+} from '@angular-devkit/schematics';
 import { NodeWorkflow } from '@angular-devkit/schematics/tools';
 import * as ansiColors from 'ansi-colors';
 import * as inquirer from 'inquirer';
@@ -146,6 +151,12 @@ export async function main({
   const dryRun: boolean = argv['dry-run'] === null ? debug : argv['dry-run'];
   const force = argv['force'];
   const allowPrivate = argv['allow-private'];
+  const dryRunFormat: string = argv['dry-run-format'] || 'summary';
+  if (!dryRunFormats.includes(dryRunFormat)) {
+    logger.fatal(`Invalid dry run format '${dryRunFormat}'. Valid formats are: ${dryRunFormats.join(', ')}.`);
+
+    return 1;
+  }
 
   /** Create the workflow scoped to the working directory that will be executed with this run. */
   const workflow = new NodeWorkflow(process.cwd(), {
@@ -173,8 +184,12 @@ export async function main({
   // Logging queue that receives all the messages to show the users. This only get shown when no
   // errors happened.
   let loggingQueue: string[] = [];
+  let eventQueue: JsonObject[] = [];
+  const reportedEvents: JsonObject[] = [];
   let error = false;
 
+  const diffColors = { added: colors.green, removed: colors.red, hunk: colors.cyan };
+
   /**
    * Logs out dry run events.
    *
@@ -190,18 +205,39 @@ export async function main({
     // Strip leading slash to prevent confusion.
     const eventPath = event.path.startsWith('/') ? event.path.substr(1) : event.path;
 
-    switch (event.kind) {
-      case 'error':
-        error = true;
+    if (event.kind == 'error') {
+      error = true;
 
-        const desc = event.description == 'alreadyExist' ? 'already exists' : 'does not exist';
-        logger.error(`ERROR! ${eventPath} ${desc}.`);
-        break;
+      const desc = event.description == 'alreadyExist' ? 'already exists' : 'does not exist';
+      logger.error(`ERROR! ${eventPath} ${desc}.`);
+
+      return;
+    }
+
+    if (dryRunFormat == 'json') {
+      eventQueue.push(serializeDryRunEvent(event));
+
+      return;
+    }
+
+    switch (event.kind) {
       case 'update':
         loggingQueue.push(`${colors.cyan('UPDATE')} ${eventPath} (${event.content.length} bytes)`);
+        if (dryRunFormat == 'diff' && event.original) {
+          loggingQueue.push(colorizeUnifiedDiff(
+            createUnifiedDiff(eventPath, event.original.toString(), event.content.toString()),
+            diffColors,
+          ));
+        }
         break;
       case 'create':
         loggingQueue.push(`${colors.green('CREATE')} ${eventPath} (${event.content.length} bytes)`);
+        if (dryRunFormat == 'diff') {
+          loggingQueue.push(colorizeUnifiedDiff(
+            createUnifiedDiff(eventPath, undefined, event.content.toString()),
+            diffColors,
+          ));
+        }
         break;
       case 'delete':
         loggingQueue.push(`${colors.yellow('DELETE')} ${eventPath}`);
@@ -222,9 +258,11 @@ export async function main({
       if (!error) {
         // Flush the log queue and clean the error state.
         loggingQueue.forEach(log => logger.info(log));
+        reportedEvents.push(...eventQueue);
       }
 
       loggingQueue = [];
+      eventQueue = [];
       error = false;
     }
   });
@@ -235,7 +273,7 @@ export async function main({
    */
   const parsedArgs = Object.assign({}, argv) as Record<string, unknown>;
   delete parsedArgs['--'];
-  for (const key of booleanArgs) {
+  for (const key of [...booleanArgs, ...stringArgs]) {
     delete parsedArgs[key];
   }
 
@@ -274,6 +312,20 @@ export async function main({
    *  step of the workflow failed (sink or task), with details included, and will only complete
    *  when everything is done.
    */
+  // The JSON output is the only content written to stdout. Informational messages of the schematic
+  // are written to stderr instead.
+  let schematicLogger = logger;
+  if (dryRunFormat == 'json') {
+    schematicLogger = new logging.Logger('schematic');
+    schematicLogger.subscribe(entry => {
+      if (entry.level == 'info') {
+        stderr.write(entry.message + '\n');
+      } else {
+        logger.log(entry.level, entry.message);
+      }
+    });
+  }
+
   try {
     await workflow.execute({
       collection: collectionName,
@@ -281,11 +333,13 @@ export async function main({
       options: parsedArgs,
       allowPrivate: allowPrivate,
       debug: debug,
-      logger: logger,
+      logger: schematicLogger,
     })
       .toPromise();
 
-    if (nothingDone) {
+    if (dryRunFormat == 'json') {
+      logger.info(JSON.stringify(reportedEvents, null, 2));
+    } else if (nothingDone) {
       logger.info('Nothing to be done.');
     }
 
@@ -325,6 +379,11 @@ function getUsage(): string {
       --dry-run           Do not output anything, but instead just show what actions would be
                           performed. Default to true if debug is also true.
 
+      --dry-run-format    The format used to report the changes: "summary" (default) lists
+                          the changed files, "diff" also shows a unified diff of each change
+                          and "json" outputs all changes including file contents as a JSON
+                          array.
+
       --force             Force overwriting files that would otherwise be an error.
 
       --list-schematics   List all schematics from the collection, by name. A collection name
@@ -354,12 +413,19 @@ const booleanArgs = [
   'verbose',
   'interactive',
 ];
+const stringArgs = [
+  'dry-run-format',
+  'dryRunFormat',
+];
+const dryRunFormats = ['summary', 'diff', 'json'];
 
 function parseArgs(args: string[] | undefined): minimist.ParsedArgs {
     return minimist(args, {
       boolean: booleanArgs,
+      string: stringArgs,
       alias: {
         'dryRun': 'dry-run',
+        'dryRunFormat': 'dry-run-format',
         'listSchematics': 'list-schematics',
         'allowPrivate': 'allow-private',
       },
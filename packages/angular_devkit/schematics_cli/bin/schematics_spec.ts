@@ -63,6 +63,32 @@ describe('schematics-cli binary', () => {
     expect(res).toEqual(0);
   });
 
+  it('dry-run-format=diff shows the content of created files', async () => {
+    const args = ['blank', 'foo', '--dry-run', '--dry-run-format=diff'];
+    const res = await main({ args, stdout, stderr });
+    expect(stdout.lines).toMatch(/CREATE foo\/README.md/);
+    expect(stdout.lines).toMatch(/\+\+\+ b\/foo\/README.md/);
+    expect(res).toEqual(0);
+  });
+
+  it('dry-run-format=json outputs the events as JSON', async () => {
+    const args = ['blank', 'foo', '--dry-run', '--dry-run-format=json'];
+    const res = await main({ args, stdout, stderr });
+    expect(res).toEqual(0);
+
+    const events = JSON.parse(stdout.lines.join(''));
+    const readme = events.find((event: { path: string }) => event.path === '/foo/README.md');
+    expect(readme).toEqual(jasmine.objectContaining({ kind: 'create', encoding: 'utf8' }));
+    expect(readme.content).toContain('Getting Started With Schematics');
+  });
+
+  it('error when dry-run-format is invalid', async () => {
+    const args = ['blank', 'foo', '--dry-run', '--dry-run-format=xml'];
+    const res = await main({ args, stdout, stderr });
+    expect(stderr.lines).toMatch(/Invalid dry run format 'xml'/);
+    expect(res).toEqual(1);
+  });
+
   it('error when no name is provided', async () => {
     const args = ['blank'];
     const res = await main({ args, stdout, stderr });
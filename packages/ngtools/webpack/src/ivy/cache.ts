@@ -5,6 +5,9 @@
  * Use of this source code is governed by an MIT-style license that can be
  * found in the LICENSE file at https://angular.io/license
  */
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import * as path from 'path';
 import * as ts from 'typescript';
 import { normalizePath } from './paths';
 
@@ -28,3 +31,54 @@ export class SourceFileCache extends Map<string, ts.SourceFile> {
     return changedFiles;
   }
 }
+
+/**
+ * A cache of compilation results that is stored on disk and shared between processes.
+ * Entries are JSON files named by a key which is derived from the cache key data provided
+ * on creation (package versions, compiler options, etc.) and additional entry specific data.
+ */
+export class PersistentCache {
+  private readonly baseKey: string;
+
+  constructor(readonly directory: string, keyData: unknown) {
+    this.baseKey = createHash('sha1').update(JSON.stringify(keyData)).digest('hex');
+  }
+
+  createKey(parts: Iterable<string>): string {
+    const hash = createHash('sha1').update(this.baseKey);
+    for (const part of parts) {
+      // Separate parts to prevent collisions between different part boundaries
+      hash.update(part).update('\0');
+    }
+
+    return hash.digest('hex');
+  }
+
+  get<T>(key: string): T | undefined {
+    try {
+      return JSON.parse(readFileSync(this.getEntryPath(key), 'utf8')) as T;
+    } catch {
+      // Missing or unreadable entries are cache misses
+      return undefined;
+    }
+  }
+
+  put(key: string, value: unknown): void {
+    const entryPath = this.getEntryPath(key);
+    try {
+      mkdirSync(path.dirname(entryPath), { recursive: true });
+
+      // Write to a temporary file first to prevent other processes from reading partial entries
+      const temporaryPath = `${entryPath}.${process.pid}.tmp`;
+      writeFileSync(temporaryPath, JSON.stringify(value));
+      renameSync(temporaryPath, entryPath);
+    } catch {
+      // Failing to store an entry only affects the performance of future builds
+    }
+  }
+
+  private getEntryPath(key: string): string {
+    return path.join(this.directory, key.slice(0, 2), `${key}.json`);
+  }
+}
+
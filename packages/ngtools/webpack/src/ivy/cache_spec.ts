@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PersistentCache } from './cache';
+
+describe('PersistentCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'ngtools-webpack-cache-'));
+  });
+
+  it('stores and retrieves entries across instances', () => {
+    const cache = new PersistentCache(directory, { version: '1' });
+    const key = cache.createKey(['file.ts', 'content']);
+    cache.put(key, { content: 'output' });
+
+    const otherCache = new PersistentCache(directory, { version: '1' });
+    expect(otherCache.get<{ content: string }>(otherCache.createKey(['file.ts', 'content']))).toEqual({
+      content: 'output',
+    });
+  });
+
+  it('returns undefined for missing entries', () => {
+    const cache = new PersistentCache(directory, { version: '1' });
+    expect(cache.get(cache.createKey(['missing']))).toBeUndefined();
+  });
+
+  it('creates different keys for different key data', () => {
+    const cache = new PersistentCache(directory, { version: '1' });
+    const otherCache = new PersistentCache(directory, { version: '2' });
+
+    expect(cache.createKey(['file.ts'])).not.toBe(otherCache.createKey(['file.ts']));
+  });
+
+  it('creates different keys for different part boundaries', () => {
+    const cache = new PersistentCache(directory, { version: '1' });
+
+    expect(cache.createKey(['ab', 'c'])).not.toBe(cache.createKey(['a', 'bc']));
+  });
+
+});
@@ -11,6 +11,14 @@ import { addError, addWarning } from '../webpack-diagnostics';
 
 export type DiagnosticsReporter = (diagnostics: Diagnostics) => void;
 
+/**
+ * A formatted diagnostic that can be stored in a persistent cache.
+ */
+export interface CachedDiagnostic {
+  error: boolean;
+  text: string;
+}
+
 export function createDiagnosticsReporter(
   compilation: import('webpack').compilation.Compilation,
 ): DiagnosticsReporter {
@@ -25,3 +33,23 @@ export function createDiagnosticsReporter(
     }
   };
 }
+
+export function createCachedDiagnostics(diagnostics: Diagnostics): CachedDiagnostic[] {
+  return diagnostics.map((diagnostic) => ({
+    error: diagnostic.category === DiagnosticCategory.Error,
+    text: formatDiagnostics([diagnostic]),
+  }));
+}
+
+export function reportCachedDiagnostics(
+  compilation: import('webpack').compilation.Compilation,
+  diagnostics: Iterable<CachedDiagnostic>,
+): void {
+  for (const { error, text } of diagnostics) {
+    if (error) {
+      addError(compilation, text);
+    } else {
+      addWarning(compilation, text);
+    }
+  }
+}
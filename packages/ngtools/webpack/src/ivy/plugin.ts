@@ -5,8 +5,9 @@
  * Use of this source code is governed by an MIT-style license that can be
  * found in the LICENSE file at https://angular.io/license
  */
-import { CompilerHost, CompilerOptions, readConfiguration } from '@angular/compiler-cli';
+import { CompilerHost, CompilerOptions, VERSION, readConfiguration } from '@angular/compiler-cli';
 import { NgtscProgram } from '@angular/compiler-cli/src/ngtsc/program';
+import { readFileSync } from 'fs';
 import * as path from 'path';
 import * as ts from 'typescript';
 import {
@@ -20,8 +21,14 @@ import { TypeScriptPathsPlugin } from '../paths-plugin';
 import { WebpackResourceLoader } from '../resource_loader';
 import { addError, addWarning } from '../webpack-diagnostics';
 import { isWebpackFiveOrHigher, mergeResolverMainFields } from '../webpack-version';
-import { SourceFileCache } from './cache';
-import { DiagnosticsReporter, createDiagnosticsReporter } from './diagnostics';
+import { PersistentCache, SourceFileCache } from './cache';
+import {
+  CachedDiagnostic,
+  DiagnosticsReporter,
+  createCachedDiagnostics,
+  createDiagnosticsReporter,
+  reportCachedDiagnostics,
+} from './diagnostics';
 import {
   augmentHostWithCaching,
   augmentHostWithNgcc,
@@ -31,7 +38,7 @@ import {
   augmentProgramWithVersioning,
 } from './host';
 import { externalizePath, normalizePath } from './paths';
-import { AngularPluginSymbol, FileEmitter } from './symbol';
+import { AngularPluginSymbol, EmitFileResult, FileEmitter } from './symbol';
 import { createWebpackSystem } from './system';
 import { createAotTransformers, createJitTransformers, mergeTransformers } from './transformation';
 
@@ -44,6 +51,34 @@ export interface AngularPluginOptions {
   emitClassMetadata: boolean;
   emitNgModuleScope: boolean;
   suppressZoneJsIncompatibilityWarning: boolean;
+  /**
+   * Directory of a cache that stores the diagnostics and emit results of AOT compilations on disk
+   * for each source file. Only used when not in watch mode.
+   */
+  persistentCachePath?: string;
+}
+
+/**
+ * Results of the AOT compilation of a source file that are stored in the persistent cache.
+ */
+interface CachedSourceFile {
+  diagnostics: CachedDiagnostic[];
+  lazyRoutes: Record<string, string>;
+  /** Content hashes of the component resources of the file and their dependencies */
+  resources: Record<string, string>;
+  /** Base64 encoded assets emitted when loading the component resources of the file */
+  assets: Record<string, string>;
+  /** Not present until the file is requested by Webpack */
+  emitResult?: EmitFileResult;
+}
+
+/**
+ * Diagnostics of the source files of an AOT program that are reported and collected separately.
+ */
+interface SourceFileDiagnostics {
+  /** Files whose diagnostics were already reported from the persistent cache */
+  skippedFiles: ReadonlySet<ts.SourceFile>;
+  collect(sourceFile: ts.SourceFile, diagnostics: CachedDiagnostic[]): void;
 }
 
 // Add support for missing properties in Webpack types as well as the loader's file emitter
@@ -77,6 +112,72 @@ function initializeNgccProcessor(
 
 const PLUGIN_NAME = 'angular-compiler';
 
+// tslint:disable-next-line: no-var-requires
+const PLUGIN_VERSION: string = require('../../package.json').version;
+
+function hashResource(cache: PersistentCache, resource: string): string {
+  try {
+    return cache.createKey([readFileSync(resource, 'utf8')]);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Angular decorators of classes whose compilation depends on the compilation scopes of the program.
+ */
+const SCOPED_DECORATOR_REGEXP = /@(?:Component|Directive|Pipe|NgModule)\s*\(/;
+
+/**
+ * Creates the persistent cache keys of the source files of a program, except Angular internal
+ * files which are generated from the other files. A key covers the content of the file and of all
+ * the files it depends on. Compilation scopes are not expressed as imports, so the keys of files
+ * with scoped Angular classes also cover all the other such files and the declaration files.
+ */
+function createSourceFileKeys(
+  cache: PersistentCache,
+  builder: ts.BuilderProgram,
+  internalFiles: ReadonlySet<ts.SourceFile>,
+): Map<ts.SourceFile, string> {
+  const contentHashes = new Map<string, string>();
+  const getContentHash = (fileName: string) => {
+    let hash = contentHashes.get(fileName);
+    if (hash === undefined) {
+      hash = cache.createKey([builder.getSourceFile(fileName)?.text ?? '']);
+      contentHashes.set(fileName, hash);
+    }
+
+    return hash;
+  };
+
+  const sourceFiles = builder.getSourceFiles().filter((sourceFile) => !internalFiles.has(sourceFile));
+  const isScoped = (sourceFile: ts.SourceFile) =>
+    !sourceFile.isDeclarationFile && SCOPED_DECORATOR_REGEXP.test(sourceFile.text);
+
+  const scopeKeyParts = [];
+  for (const sourceFile of sourceFiles) {
+    if (sourceFile.isDeclarationFile || isScoped(sourceFile)) {
+      scopeKeyParts.push(sourceFile.fileName, getContentHash(sourceFile.fileName));
+    }
+  }
+  const scopeKey = cache.createKey(scopeKeyParts);
+
+  const keys = new Map<ts.SourceFile, string>();
+  for (const sourceFile of sourceFiles) {
+    // The dependencies include the file itself
+    const keyParts = [];
+    for (const dependency of [...builder.getAllDependencies(sourceFile)].sort()) {
+      keyParts.push(dependency, getContentHash(dependency));
+    }
+    if (isScoped(sourceFile)) {
+      keyParts.push(scopeKey);
+    }
+    keys.set(sourceFile, cache.createKey([sourceFile.fileName, ...keyParts]));
+  }
+
+  return keys;
+}
+
 export class AngularWebpackPlugin {
   private readonly pluginOptions: AngularPluginOptions;
   private watchMode?: boolean;
@@ -175,6 +276,9 @@ export class AngularWebpackPlugin {
       const diagnosticsReporter = createDiagnosticsReporter(compilation);
       diagnosticsReporter(errors);
 
+      // Setup the persistent cache for builds that are not in watch mode
+      const persistentCache = this.createPersistentCache(compilerOptions);
+
       // Update TypeScript path mapping plugin with new configuration
       pathsPlugin.update(compilerOptions);
 
@@ -230,6 +334,7 @@ export class AngularWebpackPlugin {
             host,
             diagnosticsReporter,
             resourceLoader,
+            persistentCache && { cache: persistentCache, compilation },
           );
 
       const allProgramFiles = builder
@@ -335,12 +440,28 @@ export class AngularWebpackPlugin {
     return { compilerOptions, rootNames, errors };
   }
 
+  private createPersistentCache(compilerOptions: CompilerOptions): PersistentCache | undefined {
+    const directory = this.pluginOptions.persistentCachePath;
+    if (!directory || this.watchMode) {
+      return undefined;
+    }
+
+    return new PersistentCache(directory, {
+      version: PLUGIN_VERSION,
+      angularVersion: VERSION.full,
+      typescriptVersion: ts.version,
+      compilerOptions,
+      pluginOptions: { ...this.pluginOptions, persistentCachePath: undefined },
+    });
+  }
+
   private updateAotProgram(
     compilerOptions: CompilerOptions,
     rootNames: string[],
     host: CompilerHost,
     diagnosticsReporter: DiagnosticsReporter,
     resourceLoader: WebpackResourceLoader,
+    persistentCache?: { cache: PersistentCache; compilation: WebpackCompilation },
   ) {
     // Create the Angular specific program that contains the Angular compiler
     const angularProgram = new NgtscProgram(
@@ -349,15 +470,6 @@ export class AngularWebpackPlugin {
       host,
       this.ngtscNextProgram,
     );
-    const angularCompiler = angularProgram.compiler;
-
-    // The `ignoreForEmit` return value can be safely ignored when emitting. Only files
-    // that will be bundled (requested by Webpack) will be emitted. Combined with TypeScript's
-    // eliding of type only imports, this will cause type only files to be automatically ignored.
-    // Internal Angular type check files are also not resolvable by the bundler. Even if they
-    // were somehow errantly imported, the bundler would error before an emit was attempted.
-    // Diagnostics are still collected for all files which requires using `ignoreForDiagnostics`.
-    const { ignoreForDiagnostics, ignoreForEmit } = angularCompiler;
 
     // SourceFile versions are required for builder programs.
     // The wrapped host inside NgtscProgram adds additional files that will not have versions.
@@ -376,11 +488,67 @@ export class AngularWebpackPlugin {
       this.ngtscNextProgram = angularProgram;
     }
 
+    let pendingAnalysis: Promise<FileEmitter>;
+    if (persistentCache) {
+      pendingAnalysis = this.analyzeAotProgramWithCache(
+        angularProgram,
+        builder,
+        diagnosticsReporter,
+        resourceLoader,
+        persistentCache.cache,
+        persistentCache.compilation,
+      );
+    } else {
+      pendingAnalysis = this.analyzeAotProgram(
+        angularProgram,
+        builder,
+        diagnosticsReporter,
+        resourceLoader,
+      );
+    }
+
+    const analyzingFileEmitter: FileEmitter = async (file) => {
+      const innerFileEmitter = await pendingAnalysis;
+
+      return innerFileEmitter(file);
+    };
+
+    return {
+      fileEmitter: analyzingFileEmitter,
+      builder,
+      internalFiles: angularProgram.compiler.ignoreForEmit,
+    };
+  }
+
+  private analyzeAotProgram(
+    angularProgram: NgtscProgram,
+    builder: ts.EmitAndSemanticDiagnosticsBuilderProgram,
+    diagnosticsReporter: DiagnosticsReporter,
+    resourceLoader: WebpackResourceLoader,
+    sourceFileDiagnostics?: SourceFileDiagnostics,
+  ): Promise<FileEmitter> {
+    const angularCompiler = angularProgram.compiler;
+
+    // The `ignoreForEmit` return value can be safely ignored when emitting. Only files
+    // that will be bundled (requested by Webpack) will be emitted. Combined with TypeScript's
+    // eliding of type only imports, this will cause type only files to be automatically ignored.
+    // Internal Angular type check files are also not resolvable by the bundler. Even if they
+    // were somehow errantly imported, the bundler would error before an emit was attempted.
+    // Diagnostics are still collected for all files which requires using `ignoreForDiagnostics`.
+    const { ignoreForDiagnostics, ignoreForEmit } = angularCompiler;
+    const skipDiagnostics = (sourceFile: ts.SourceFile) =>
+      ignoreForDiagnostics.has(sourceFile) || !!sourceFileDiagnostics?.skippedFiles.has(sourceFile);
+    const reportSourceFileDiagnostics = (
+      sourceFile: ts.SourceFile,
+      diagnostics: readonly ts.Diagnostic[],
+    ) => {
+      diagnosticsReporter(diagnostics);
+      sourceFileDiagnostics?.collect(sourceFile, createCachedDiagnostics(diagnostics));
+    };
+
     // Update semantic diagnostics cache
     while (true) {
-      const result = builder.getSemanticDiagnosticsOfNextAffectedFile(undefined, (sourceFile) =>
-        ignoreForDiagnostics.has(sourceFile),
-      );
+      const result = builder.getSemanticDiagnosticsOfNextAffectedFile(undefined, skipDiagnostics);
       if (!result) {
         break;
       }
@@ -391,14 +559,18 @@ export class AngularWebpackPlugin {
       ...angularCompiler.getOptionDiagnostics(),
       ...builder.getOptionsDiagnostics(),
       ...builder.getGlobalDiagnostics(),
-      ...builder.getSyntacticDiagnostics(),
     ];
     diagnosticsReporter(diagnostics);
+    for (const sourceFile of builder.getSourceFiles()) {
+      if (!skipDiagnostics(sourceFile)) {
+        reportSourceFileDiagnostics(sourceFile, builder.getSyntacticDiagnostics(sourceFile));
+      }
+    }
 
     // Collect semantic diagnostics
     for (const sourceFile of builder.getSourceFiles()) {
-      if (!ignoreForDiagnostics.has(sourceFile)) {
-        diagnosticsReporter(builder.getSemanticDiagnostics(sourceFile));
+      if (!skipDiagnostics(sourceFile)) {
+        reportSourceFileDiagnostics(sourceFile, builder.getSemanticDiagnostics(sourceFile));
       }
     }
 
@@ -419,13 +591,13 @@ export class AngularWebpackPlugin {
 
     // Required to support asynchronous resource loading
     // Must be done before creating transformers or getting template diagnostics
-    const pendingAnalysis = angularCompiler.analyzeAsync().then(() => {
+    return angularCompiler.analyzeAsync().then(() => {
       this.requiredFilesToEmit.clear();
 
       for (const sourceFile of builder.getSourceFiles()) {
         // Collect Angular template diagnostics
-        if (!ignoreForDiagnostics.has(sourceFile)) {
-          diagnosticsReporter(angularCompiler.getDiagnostics(sourceFile));
+        if (!skipDiagnostics(sourceFile)) {
+          reportSourceFileDiagnostics(sourceFile, angularCompiler.getDiagnostics(sourceFile));
         }
 
         // Collect sources that are required to be emitted
@@ -454,17 +626,135 @@ export class AngularWebpackPlugin {
         },
       );
     });
-    const analyzingFileEmitter: FileEmitter = async (file) => {
-      const innerFileEmitter = await pendingAnalysis;
+  }
 
-      return innerFileEmitter(file);
+  private analyzeAotProgramWithCache(
+    angularProgram: NgtscProgram,
+    builder: ts.EmitAndSemanticDiagnosticsBuilderProgram,
+    diagnosticsReporter: DiagnosticsReporter,
+    resourceLoader: WebpackResourceLoader,
+    cache: PersistentCache,
+    compilation: WebpackCompilation,
+  ): Promise<FileEmitter> {
+    const angularCompiler = angularProgram.compiler;
+    const sourceFileKeys = createSourceFileKeys(cache, builder, angularCompiler.ignoreForEmit);
+
+    // Entries are only valid if the component resources of the file are unchanged
+    const cachedSourceFiles = new Map<ts.SourceFile, CachedSourceFile>();
+    for (const [sourceFile, key] of sourceFileKeys) {
+      const cachedSourceFile = cache.get<CachedSourceFile>(key);
+      if (
+        cachedSourceFile &&
+        Object.entries(cachedSourceFile.resources).every(
+          ([resource, hash]) => hashResource(cache, resource) === hash,
+        )
+      ) {
+        cachedSourceFiles.set(sourceFile, cachedSourceFile);
+      }
+    }
+
+    for (const { diagnostics, lazyRoutes, assets } of cachedSourceFiles.values()) {
+      reportCachedDiagnostics(compilation, diagnostics);
+      Object.assign(this.lazyRouteMap, lazyRoutes);
+      resourceLoader.restoreResourceAssets(assets);
+    }
+
+    // Only the files without a cached entry are type checked
+    const collectedDiagnostics = new Map<ts.SourceFile, CachedDiagnostic[]>();
+    const sourceFileDiagnostics: SourceFileDiagnostics = {
+      skippedFiles: new Set(cachedSourceFiles.keys()),
+      collect(sourceFile, diagnostics) {
+        const fileDiagnostics = collectedDiagnostics.get(sourceFile);
+        if (fileDiagnostics) {
+          fileDiagnostics.push(...diagnostics);
+        } else {
+          collectedDiagnostics.set(sourceFile, diagnostics);
+        }
+      },
     };
 
-    return {
-      fileEmitter: analyzingFileEmitter,
-      builder,
-      internalFiles: ignoreForEmit,
+    // Emit results are stored with the entry of the file once the file is requested by Webpack
+    const createCachingFileEmitter = (fileEmitter: FileEmitter): FileEmitter => async (file) => {
+      const sourceFile = builder.getSourceFile(file);
+      const cachedSourceFile = sourceFile && cachedSourceFiles.get(sourceFile);
+      if (cachedSourceFile?.emitResult) {
+        return cachedSourceFile.emitResult;
+      }
+
+      const result = await fileEmitter(file);
+      if (sourceFile && cachedSourceFile && result) {
+        cachedSourceFile.emitResult = result;
+        cache.put(sourceFileKeys.get(sourceFile) as string, cachedSourceFile);
+      }
+
+      return result;
     };
+
+    if (cachedSourceFiles.size === sourceFileKeys.size) {
+      // The diagnostics of the program itself are not stored
+      diagnosticsReporter([
+        ...angularCompiler.getOptionDiagnostics(),
+        ...builder.getOptionsDiagnostics(),
+        ...builder.getGlobalDiagnostics(),
+      ]);
+
+      // Files without a cached emit result require an analysis of the program
+      let pendingAnalysis: Promise<FileEmitter> | undefined;
+      const analyzingFileEmitter: FileEmitter = async (file) => {
+        pendingAnalysis =
+          pendingAnalysis ||
+          this.analyzeAotProgram(angularProgram, builder, () => {}, resourceLoader, sourceFileDiagnostics);
+
+        return (await pendingAnalysis)(file);
+      };
+
+      return Promise.resolve(createCachingFileEmitter(analyzingFileEmitter));
+    }
+
+    const pendingAnalysis = this.analyzeAotProgram(
+      angularProgram,
+      builder,
+      diagnosticsReporter,
+      resourceLoader,
+      sourceFileDiagnostics,
+    );
+
+    return pendingAnalysis.then((fileEmitter) => {
+      const lazyRoutes = new Map<string, Record<string, string>>();
+      for (const lazyRoute of angularCompiler.listLazyRoutes()) {
+        const moduleFile = normalizePath(lazyRoute.module.filePath);
+        const [routeKey] = lazyRoute.route.split('#');
+        lazyRoutes.set(moduleFile, {
+          ...lazyRoutes.get(moduleFile),
+          [routeKey]: lazyRoute.referencedModule.filePath,
+        });
+      }
+
+      for (const [sourceFile, key] of sourceFileKeys) {
+        if (cachedSourceFiles.has(sourceFile)) {
+          continue;
+        }
+
+        const resourceFiles = angularCompiler.getResourceDependencies(sourceFile);
+        const resources: Record<string, string> = {};
+        for (const resourcePath of resourceFiles) {
+          for (const file of [resourcePath, ...resourceLoader.getResourceDependencies(resourcePath)]) {
+            resources[file] = hashResource(cache, file);
+          }
+        }
+
+        const cachedSourceFile: CachedSourceFile = {
+          diagnostics: collectedDiagnostics.get(sourceFile) || [],
+          lazyRoutes: lazyRoutes.get(normalizePath(sourceFile.fileName)) || {},
+          resources,
+          assets: resourceLoader.getResourceAssets(resourceFiles),
+        };
+        cache.put(key, cachedSourceFile);
+        cachedSourceFiles.set(sourceFile, cachedSourceFile);
+      }
+
+      return createCachingFileEmitter(fileEmitter);
+    });
   }
 
   private updateJitProgram(
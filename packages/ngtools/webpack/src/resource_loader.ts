@@ -28,6 +28,7 @@ export class WebpackResourceLoader {
   private _parentCompilation: any;
   private _context = '';
   private _fileDependencies = new Map<string, Set<string>>();
+  private _fileAssets = new Map<string, Set<string>>();
   private _reverseDependencies = new Map<string, Set<string>>();
   private _cachedSources = new Map<string, string>();
   private _cachedEvaluatedSources = new Map<string, RawSource>();
@@ -61,6 +62,36 @@ export class WebpackResourceLoader {
     return this._fileDependencies.get(filePath) || [];
   }
 
+  /**
+   * Retrieves the base64 encoded contents of the assets that were added to the parent compilation
+   * when loading the given resources.
+   */
+  getResourceAssets(filePaths: Iterable<string>): Record<string, string> {
+    const assets: Record<string, string> = {};
+    for (const filePath of filePaths) {
+      for (const assetName of this._fileAssets.get(filePath) || []) {
+        const asset = this._parentCompilation?.assets[assetName];
+        if (asset) {
+          const source = asset.source();
+          assets[assetName] = (Buffer.isBuffer(source) ? source : Buffer.from(source)).toString('base64');
+        }
+      }
+    }
+
+    return assets;
+  }
+
+  /**
+   * Adds assets that were retrieved with `getResourceAssets` to the parent compilation.
+   */
+  restoreResourceAssets(assets: Record<string, string>) {
+    for (const [assetName, content] of Object.entries(assets)) {
+      if (this._parentCompilation.assets[assetName] == undefined) {
+        this._parentCompilation.assets[assetName] = new RawSource(Buffer.from(content, 'base64') as any);
+      }
+    }
+  }
+
   getAffectedResources(file: string) {
     return this._reverseDependencies.get(file) || [];
   }
@@ -139,17 +170,18 @@ export class WebpackResourceLoader {
       this._parentCompilation.errors.push(...errors);
     }
 
+    const fileAssets = new Set<string>();
     Object.keys(childCompilation.assets).forEach(assetName => {
       // Add all new assets to the parent compilation, with the exception of
       // the file we're loading and its sourcemap.
-      if (
-        assetName !== filePath
-        && assetName !== `${filePath}.map`
-        && this._parentCompilation.assets[assetName] == undefined
-      ) {
-        this._parentCompilation.assets[assetName] = childCompilation.assets[assetName];
+      if (assetName !== filePath && assetName !== `${filePath}.map`) {
+        fileAssets.add(assetName);
+        if (this._parentCompilation.assets[assetName] == undefined) {
+          this._parentCompilation.assets[assetName] = childCompilation.assets[assetName];
+        }
       }
     });
+    this._fileAssets.set(filePath, fileAssets);
 
     // Save the dependencies for this resource.
     this._fileDependencies.set(filePath, new Set(childCompilation.fileDependencies));
@@ -38,7 +38,7 @@ import { relativePathToWorkspaceRoot } from '../utility/paths';
 import { validateProjectName } from '../utility/validation';
 import { getWorkspace, updateWorkspace } from '../utility/workspace';
 import { Builders, ProjectType } from '../utility/workspace-models';
-import { Schema as ApplicationOptions, Style } from './schema';
+import { Schema as ApplicationOptions, Style, TestRunner } from './schema';
 
 function addDependenciesToPackageJson(options: ApplicationOptions) {
   return (host: Tree, context: SchematicContext) => {
@@ -60,6 +60,21 @@ function addDependenciesToPackageJson(options: ApplicationOptions) {
       },
     ].forEach(dependency => addPackageJsonDependency(host, dependency));
 
+    if (options.testRunner === TestRunner.Jest) {
+      [
+        {
+          type: NodeDependencyType.Dev,
+          name: 'jest',
+          version: latestVersions.Jest,
+        },
+        {
+          type: NodeDependencyType.Dev,
+          name: '@types/jest',
+          version: latestVersions.TypesJest,
+        },
+      ].forEach(dependency => addPackageJsonDependency(host, dependency));
+    }
+
     if (!options.skipInstall) {
       context.addTask(new NodePackageInstallTask());
     }
@@ -223,12 +238,12 @@ function addAppToWorkspaceFile(options: ApplicationOptions, appDir: string): Rul
         },
       },
       test: options.minimal ? undefined : {
-        builder: Builders.Karma,
+        builder: options.testRunner === TestRunner.Jest ? Builders.Jest : Builders.Karma,
         options: {
           main: `${sourceRoot}/test.ts`,
           polyfills: `${sourceRoot}/polyfills.ts`,
           tsConfig: `${projectRoot}tsconfig.spec.json`,
-          karmaConfig: `${projectRoot}karma.conf.js`,
+          karmaConfig: options.testRunner === TestRunner.Jest ? undefined : `${projectRoot}karma.conf.js`,
           assets: [
             `${sourceRoot}/favicon.ico`,
             `${sourceRoot}/assets`,
@@ -271,6 +286,10 @@ function minimalPathFilter(path: string): boolean {
   return !toRemoveList.test(path);
 }
 
+function jestPathFilter(path: string): boolean {
+  return !path.endsWith('karma.conf.js.template');
+}
+
 export default function (options: ApplicationOptions): Rule {
   return async (host: Tree) => {
     if (!options.name) {
@@ -314,6 +333,7 @@ export default function (options: ApplicationOptions): Rule {
       mergeWith(
         apply(url('./files'), [
           options.minimal ? filter(minimalPathFilter) : noop(),
+          options.testRunner === TestRunner.Jest ? filter(jestPathFilter) : noop(),
           applyTemplates({
             utils: strings,
             ...options,
@@ -11,7 +11,7 @@ import { parse as parseJson } from 'jsonc-parser';
 import { latestVersions } from '../utility/latest-versions';
 import { getFileContent } from '../utility/test';
 import { Schema as WorkspaceOptions } from '../workspace/schema';
-import { Schema as ApplicationOptions, Style, ViewEncapsulation } from './schema';
+import { Schema as ApplicationOptions, Style, TestRunner, ViewEncapsulation } from './schema';
 
 // tslint:disable-next-line: no-any
 function readJsonFile(tree: UnitTestTree, path: string): any {
@@ -511,6 +511,49 @@ describe('Application Schematic', () => {
     expect(content).toContain('not IE 11');
   });
 
+  describe(`'testRunner' option`, () => {
+    it(`should use the Karma builder by default`, async () => {
+      const tree = await schematicRunner.runSchematicAsync('application', defaultOptions, workspaceTree)
+        .toPromise();
+      const config = JSON.parse(tree.readContent('/angular.json'));
+      const testTarget = config.projects.foo.architect.test;
+      expect(testTarget.builder).toBe('@angular-devkit/build-angular:karma');
+      expect(testTarget.options.karmaConfig).toBe('projects/foo/karma.conf.js');
+    });
+
+    it(`should use the Jest builder when 'testRunner' is 'jest'`, async () => {
+      const options = { ...defaultOptions, testRunner: TestRunner.Jest };
+      const tree = await schematicRunner.runSchematicAsync('application', options, workspaceTree)
+        .toPromise();
+      const config = JSON.parse(tree.readContent('/angular.json'));
+      const testTarget = config.projects.foo.architect.test;
+      expect(testTarget.builder).toBe('@angular-devkit/build-angular:jest');
+      expect(testTarget.options.karmaConfig).toBeUndefined();
+      expect(testTarget.options.main).toBe('projects/foo/src/test.ts');
+      expect(testTarget.options.tsConfig).toBe('projects/foo/tsconfig.spec.json');
+    });
+
+    it(`should not create a Karma configuration when 'testRunner' is 'jest'`, async () => {
+      const options = { ...defaultOptions, testRunner: TestRunner.Jest };
+      const tree = await schematicRunner.runSchematicAsync('application', options, workspaceTree)
+        .toPromise();
+      expect(tree.exists('/projects/foo/karma.conf.js')).toBeFalse();
+      expect(tree.exists('/projects/foo/src/test.ts')).toBeTrue();
+
+      const tsConfig = readJsonFile(tree, '/projects/foo/tsconfig.spec.json');
+      expect(tsConfig.compilerOptions.types).toEqual(['jest']);
+    });
+
+    it(`should add the Jest dependencies when 'testRunner' is 'jest'`, async () => {
+      const options = { ...defaultOptions, testRunner: TestRunner.Jest };
+      const tree = await schematicRunner.runSchematicAsync('application', options, workspaceTree)
+        .toPromise();
+      const { devDependencies } = JSON.parse(tree.readContent('/package.json'));
+      expect(devDependencies['jest']).toBe(latestVersions.Jest);
+      expect(devDependencies['@types/jest']).toBe(latestVersions.TypesJest);
+    });
+  });
+
   it(`should create kebab-case project folder names with camelCase project name`, async () => {
     const options: ApplicationOptions = { ...defaultOptions, name: 'myCool' };
     const tree = await schematicRunner.runSchematicAsync('application', options, workspaceTree)
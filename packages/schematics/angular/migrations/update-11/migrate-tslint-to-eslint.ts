@@ -0,0 +1,517 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { JsonObject, JsonValue, dirname, isJsonObject, join, normalize, relative } from '@angular-devkit/core';
+import { Rule, SchematicContext, Tree } from '@angular-devkit/schematics';
+import { NodePackageInstallTask } from '@angular-devkit/schematics/tasks';
+import {
+  NodeDependencyType,
+  addPackageJsonDependency,
+  removePackageJsonDependency,
+} from '../../utility/dependencies';
+import { JSONFile } from '../../utility/json-file';
+import { latestVersions } from '../../utility/latest-versions';
+import { allTargetOptions, allWorkspaceTargets, updateWorkspace } from '../../utility/workspace';
+import { Builders } from '../../utility/workspace-models';
+
+type Severity = 'error' | 'warn' | 'off';
+
+/** Converts the options of a TSLint rule into ESLint rules and their options. */
+type RuleConverter = (options: JsonValue[]) => Record<string, JsonValue[]>;
+
+const ESLINT_CONFIG_NAME = '.eslintrc.json';
+const TEMPLATE_RULE_PREFIX = '@angular-eslint/template/';
+
+const CONSOLE_METHODS = [
+  'assert', 'clear', 'count', 'countReset', 'debug', 'dir', 'dirxml', 'error', 'group',
+  'groupCollapsed', 'groupEnd', 'info', 'log', 'table', 'time', 'timeEnd', 'timeLog', 'trace',
+  'warn',
+];
+
+const strings = (values: JsonValue[]) => values.filter((value): value is string => typeof value === 'string');
+
+const same = (name: string): RuleConverter => () => ({ [name]: [] });
+
+const RULE_CONVERTERS: Record<string, RuleConverter> = {
+  // TSLint core rules
+  'adjacent-overload-signatures': same('@typescript-eslint/adjacent-overload-signatures'),
+  'array-type': ([type]) => ({
+    '@typescript-eslint/array-type': typeof type === 'string' ? [{ default: type }] : [],
+  }),
+  'arrow-return-shorthand': () => ({ 'arrow-body-style': ['as-needed'] }),
+  'ban-comma-operator': same('no-sequences'),
+  'callable-types': same('@typescript-eslint/prefer-function-type'),
+  'curly': ([option]) => ({ curly: option === 'ignore-same-line' ? ['multi-line'] : [] }),
+  'cyclomatic-complexity': ([max]) => ({ complexity: typeof max === 'number' ? [max] : [] }),
+  'eofline': same('eol-last'),
+  'forin': same('guard-for-in'),
+  'import-blacklist': options => ({ 'no-restricted-imports': [{ paths: strings(options) }] }),
+  'interface-over-type-literal': same('@typescript-eslint/consistent-type-definitions'),
+  'max-classes-per-file': ([max]) => ({ 'max-classes-per-file': [typeof max === 'number' ? max : 1] }),
+  'max-file-line-count': ([max]) => ({ 'max-lines': typeof max === 'number' ? [max] : [] }),
+  'max-line-length': ([option]) => {
+    const code = isJsonObject(option) ? option.limit : option;
+
+    return { 'max-len': typeof code === 'number' ? [{ code }] : [] };
+  },
+  'member-access': same('@typescript-eslint/explicit-member-accessibility'),
+  'member-ordering': ([option]) => {
+    const order = isJsonObject(option) && Array.isArray(option.order) ? strings(option.order) : [];
+
+    return { '@typescript-eslint/member-ordering': order.length ? [{ default: order }] : [] };
+  },
+  'new-parens': same('new-parens'),
+  'no-angle-bracket-type-assertion': same('@typescript-eslint/consistent-type-assertions'),
+  'no-any': same('@typescript-eslint/no-explicit-any'),
+  'no-arg': same('no-caller'),
+  'no-bitwise': same('no-bitwise'),
+  'no-conditional-assignment': same('no-cond-assign'),
+  'no-console': options => {
+    // TSLint lists the banned methods while ESLint lists the allowed ones.
+    const banned = strings(options);
+
+    return {
+      'no-console': banned.length
+        ? [{ allow: CONSOLE_METHODS.filter(method => !banned.includes(method)) }]
+        : [],
+    };
+  },
+  'no-construct': same('no-new-wrappers'),
+  'no-debugger': same('no-debugger'),
+  'no-duplicate-imports': same('no-duplicate-imports'),
+  'no-duplicate-super': same('constructor-super'),
+  'no-duplicate-variable': same('no-redeclare'),
+  'no-empty': same('no-empty'),
+  'no-empty-interface': same('@typescript-eslint/no-empty-interface'),
+  'no-eval': same('no-eval'),
+  'no-inferrable-types': options => ({
+    '@typescript-eslint/no-inferrable-types': [{
+      ignoreParameters: options.includes('ignore-params'),
+      ignoreProperties: options.includes('ignore-properties'),
+    }],
+  }),
+  'no-internal-module': same('@typescript-eslint/prefer-namespace-keyword'),
+  'no-invalid-this': same('no-invalid-this'),
+  'no-misused-new': same('@typescript-eslint/no-misused-new'),
+  'no-namespace': same('@typescript-eslint/no-namespace'),
+  'no-non-null-assertion': same('@typescript-eslint/no-non-null-assertion'),
+  'no-parameter-reassignment': same('no-param-reassign'),
+  'no-require-imports': same('@typescript-eslint/no-require-imports'),
+  'no-shadowed-variable': same('@typescript-eslint/no-shadow'),
+  'no-sparse-arrays': same('no-sparse-arrays'),
+  'no-string-literal': same('dot-notation'),
+  'no-switch-case-fall-through': same('no-fallthrough'),
+  'no-this-assignment': same('@typescript-eslint/no-this-alias'),
+  'no-trailing-whitespace': same('no-trailing-spaces'),
+  'no-unnecessary-initializer': same('no-undef-init'),
+  'no-unsafe-finally': same('no-unsafe-finally'),
+  'no-unused-expression': same('no-unused-expressions'),
+  'no-var-keyword': same('no-var'),
+  'no-var-requires': same('@typescript-eslint/no-var-requires'),
+  'object-literal-key-quotes': ([option]) => ({
+    'quote-props': [typeof option === 'string' ? option : 'as-needed'],
+  }),
+  'object-literal-shorthand': same('object-shorthand'),
+  'one-variable-per-declaration': () => ({ 'one-var': ['never'] }),
+  'prefer-const': same('prefer-const'),
+  'prefer-for-of': same('@typescript-eslint/prefer-for-of'),
+  'prefer-template': same('prefer-template'),
+  'quotemark': options => ({
+    '@typescript-eslint/quotes': [
+      options.includes('single') ? 'single' : 'double',
+      ...(options.includes('avoid-escape') ? [{ avoidEscape: true }] : []),
+    ],
+  }),
+  'radix': same('radix'),
+  'semicolon': ([option]) => ({ '@typescript-eslint/semi': [option === 'never' ? 'never' : 'always'] }),
+  'space-before-function-paren': ([option]) => {
+    if (!isJsonObject(option)) {
+      return { 'space-before-function-paren': [option === 'never' ? 'never' : 'always'] };
+    }
+
+    const spacing: JsonObject = {};
+    for (const key of ['anonymous', 'named', 'asyncArrow']) {
+      spacing[key] = typeof option[key] === 'string' ? option[key] : 'ignore';
+    }
+
+    return { 'space-before-function-paren': [spacing] };
+  },
+  'triple-equals': options => ({
+    eqeqeq: [options.includes('allow-null-check') ? 'smart' : 'always'],
+  }),
+  'typedef': options => {
+    const rules: Record<string, JsonValue[]> = {};
+    if (options.includes('call-signature')) {
+      rules['@typescript-eslint/explicit-function-return-type'] = [];
+    }
+
+    const typedef: JsonObject = {};
+    for (const [option, key] of [
+      ['arrow-parameter', 'arrowParameter'],
+      ['member-variable-declaration', 'memberVariableDeclaration'],
+      ['parameter', 'parameter'],
+      ['property-declaration', 'propertyDeclaration'],
+      ['variable-declaration', 'variableDeclaration'],
+    ]) {
+      if (options.includes(option)) {
+        typedef[key] = true;
+      }
+    }
+    if (Object.keys(typedef).length) {
+      rules['@typescript-eslint/typedef'] = [typedef];
+    }
+
+    return rules;
+  },
+  'typedef-whitespace': same('@typescript-eslint/type-annotation-spacing'),
+  'unified-signatures': same('@typescript-eslint/unified-signatures'),
+  'use-isnan': same('use-isnan'),
+
+  // Codelyzer rules
+  'component-class-suffix': options => ({
+    '@angular-eslint/component-class-suffix': options.length ? [{ suffixes: strings(options) }] : [],
+  }),
+  'component-selector': ([type, prefix, style]) => ({
+    '@angular-eslint/component-selector': [{ type, prefix, style }],
+  }),
+  'contextual-lifecycle': same('@angular-eslint/contextual-lifecycle'),
+  'directive-class-suffix': options => ({
+    '@angular-eslint/directive-class-suffix': options.length ? [{ suffixes: strings(options) }] : [],
+  }),
+  'directive-selector': ([type, prefix, style]) => ({
+    '@angular-eslint/directive-selector': [{ type, prefix, style }],
+  }),
+  'no-attribute-decorator': same('@angular-eslint/no-attribute-decorator'),
+  'no-conflicting-lifecycle': same('@angular-eslint/no-conflicting-lifecycle'),
+  'no-forward-ref': same('@angular-eslint/no-forward-ref'),
+  'no-host-metadata-property': same('@angular-eslint/no-host-metadata-property'),
+  'no-input-rename': same('@angular-eslint/no-input-rename'),
+  'no-inputs-metadata-property': same('@angular-eslint/no-inputs-metadata-property'),
+  'no-lifecycle-call': same('@angular-eslint/no-lifecycle-call'),
+  'no-output-native': same('@angular-eslint/no-output-native'),
+  'no-output-on-prefix': same('@angular-eslint/no-output-on-prefix'),
+  'no-output-rename': same('@angular-eslint/no-output-rename'),
+  'no-outputs-metadata-property': same('@angular-eslint/no-outputs-metadata-property'),
+  'no-pipe-impure': same('@angular-eslint/no-pipe-impure'),
+  'no-queries-metadata-property': same('@angular-eslint/no-queries-metadata-property'),
+  'prefer-on-push-component-change-detection':
+    same('@angular-eslint/prefer-on-push-component-change-detection'),
+  'prefer-output-readonly': same('@angular-eslint/prefer-output-readonly'),
+  'relative-url-prefix': same('@angular-eslint/relative-url-prefix'),
+  'use-component-selector': same('@angular-eslint/use-component-selector'),
+  'use-component-view-encapsulation': same('@angular-eslint/use-component-view-encapsulation'),
+  'use-lifecycle-interface': same('@angular-eslint/use-lifecycle-interface'),
+  'use-pipe-transform-interface': same('@angular-eslint/use-pipe-transform-interface'),
+  'template-banana-in-box': same(`${TEMPLATE_RULE_PREFIX}banana-in-box`),
+  'template-cyclomatic-complexity': same(`${TEMPLATE_RULE_PREFIX}cyclomatic-complexity`),
+  'template-no-any': same(`${TEMPLATE_RULE_PREFIX}no-any`),
+  'template-no-call-expression': same(`${TEMPLATE_RULE_PREFIX}no-call-expression`),
+  'template-no-negated-async': same(`${TEMPLATE_RULE_PREFIX}no-negated-async`),
+  'template-use-track-by-function': same(`${TEMPLATE_RULE_PREFIX}use-track-by-function`),
+};
+
+/** The TSLint presets and their closest ESLint equivalent. */
+const PRESETS: Record<string, string[]> = {
+  'tslint:recommended': ['eslint:recommended', 'plugin:@typescript-eslint/recommended'],
+  'tslint:latest': ['eslint:recommended', 'plugin:@typescript-eslint/recommended'],
+  'tslint:all': ['eslint:all', 'plugin:@typescript-eslint/all'],
+};
+
+export const ESLINT_DEPENDENCIES: Record<string, string> = {
+  '@angular-eslint/eslint-plugin': latestVersions.AngularEsLint,
+  '@angular-eslint/eslint-plugin-template': latestVersions.AngularEsLint,
+  '@angular-eslint/template-parser': latestVersions.AngularEsLint,
+  '@typescript-eslint/eslint-plugin': latestVersions.TypeScriptEsLint,
+  '@typescript-eslint/parser': latestVersions.TypeScriptEsLint,
+  'eslint': latestVersions.EsLint,
+};
+
+function getSeverity(value: JsonValue | undefined, defaultSeverity: Severity): Severity {
+  switch (value) {
+    case 'error':
+      return 'error';
+    case 'warn':
+    case 'warning':
+      return 'warn';
+    case 'off':
+    case 'none':
+      return 'off';
+    default:
+      return defaultSeverity;
+  }
+}
+
+/**
+ * Parses the value of a TSLint rule, which is either a boolean, an array with the enabled state
+ * followed by the options, or an object with a severity and options.
+ */
+function parseRule(value: JsonValue, defaultSeverity: Severity): [Severity, JsonValue[]] {
+  if (Array.isArray(value)) {
+    const [enabled, ...options] = value;
+
+    return [enabled === false ? 'off' : defaultSeverity, options];
+  }
+
+  if (isJsonObject(value)) {
+    const { severity, options } = value;
+
+    return [
+      getSeverity(severity, defaultSeverity),
+      options === undefined ? [] : Array.isArray(options) ? options : [options],
+    ];
+  }
+
+  return [value === false ? 'off' : defaultSeverity, []];
+}
+
+class TslintConfigConverter {
+  /** The paths of the converted ESLint configurations keyed by the TSLint configuration path. */
+  private readonly converted = new Map<string, string | null>();
+
+  constructor(private readonly tree: Tree, private readonly context: SchematicContext) {}
+
+  get convertedConfigs(): string[] {
+    return [...this.converted.keys()].filter(path => !!this.converted.get(path));
+  }
+
+  /**
+   * Converts a TSLint configuration and the configurations it extends.
+   *
+   * @returns The path of the ESLint configuration or `null` if the configuration cannot be converted.
+   */
+  convert(tslintConfigPath: string): string | null {
+    // Workspace paths are relative to the workspace root.
+    const path = normalize(tslintConfigPath.startsWith('/') ? tslintConfigPath : `/${tslintConfigPath}`);
+    let eslintConfigPath = this.converted.get(path);
+    if (eslintConfigPath !== undefined) {
+      return eslintConfigPath;
+    }
+
+    // Prevents cycles in the configurations.
+    this.converted.set(path, null);
+    eslintConfigPath = this.convertFile(path);
+    this.converted.set(path, eslintConfigPath);
+
+    return eslintConfigPath;
+  }
+
+  private convertFile(path: string): string | null {
+    const logger = this.context.logger;
+    if (!path.endsWith('.json') || !this.tree.exists(path)) {
+      logger.warn(`Cannot find TSLint JSON configuration file "${path}".`);
+
+      return null;
+    }
+
+    let tslintConfig;
+    try {
+      tslintConfig = new JSONFile(this.tree, path).get([]) as JsonValue;
+    } catch (error) {
+      logger.warn(`Cannot parse TSLint configuration file "${path}": ${error.message}`);
+
+      return null;
+    }
+
+    if (!isJsonObject(tslintConfig)) {
+      logger.warn(`TSLint configuration file "${path}" does not contain an object.`);
+
+      return null;
+    }
+
+    const eslintConfigPath = join(dirname(normalize(path)), ESLINT_CONFIG_NAME);
+    if (this.tree.exists(eslintConfigPath)) {
+      logger.info(`ESLint configuration "${eslintConfigPath}" already exists and is used as is.`);
+
+      return eslintConfigPath;
+    }
+
+    const unconverted: string[] = [];
+    const extendedConfigs: string[] = [];
+    const presets: string[] = [];
+    const values = tslintConfig.extends;
+    for (const value of Array.isArray(values) ? values : values === undefined ? [] : [values]) {
+      if (typeof value !== 'string') {
+        continue;
+      }
+
+      if (PRESETS[value]) {
+        presets.push(...PRESETS[value]);
+      } else if (value.startsWith('.') || value.startsWith('/')) {
+        const extendedPath = this.convert(
+          value.startsWith('/') ? value : join(dirname(normalize(path)), value),
+        );
+        if (extendedPath) {
+          // ESLint resolves extended configurations without a leading dot as packages.
+          const relativePath = relative(dirname(eslintConfigPath), normalize(extendedPath));
+          extendedConfigs.push(relativePath.startsWith('.') ? relativePath : `./${relativePath}`);
+        } else {
+          unconverted.push(`extends "${value}"`);
+        }
+      } else if (value !== 'codelyzer') {
+        unconverted.push(`extends "${value}"`);
+      }
+    }
+
+    const defaultSeverity = getSeverity(tslintConfig.defaultSeverity, 'error');
+    const scriptRules: JsonObject = {};
+    const templateRules: JsonObject = {};
+    const tslintRules = isJsonObject(tslintConfig.rules) ? tslintConfig.rules : {};
+    for (const [name, value] of Object.entries(tslintRules)) {
+      const converter = RULE_CONVERTERS[name];
+      const [severity, options] = parseRule(value, defaultSeverity);
+      if (!converter) {
+        // Disabled rules do not need an equivalent.
+        if (severity !== 'off') {
+          unconverted.push(name);
+        }
+        continue;
+      }
+
+      for (const [eslintName, eslintOptions] of Object.entries(converter(options))) {
+        const rules = eslintName.startsWith(TEMPLATE_RULE_PREFIX) ? templateRules : scriptRules;
+        rules[eslintName] = severity === 'off' ? 'off' : [severity, ...eslintOptions];
+      }
+    }
+
+    // Configurations that do not extend another workspace configuration define the parsers.
+    const isRoot = extendedConfigs.length === 0;
+    const overrides: JsonObject[] = [
+      {
+        files: ['*.ts'],
+        ...(isRoot && {
+          parser: '@typescript-eslint/parser',
+          plugins: ['@typescript-eslint', '@angular-eslint'],
+        }),
+        ...(presets.length && { extends: presets }),
+        rules: scriptRules,
+      },
+    ];
+    if (isRoot || Object.keys(templateRules).length) {
+      overrides.push({
+        files: ['*.html'],
+        ...(isRoot && {
+          parser: '@angular-eslint/template-parser',
+          plugins: ['@angular-eslint/template'],
+        }),
+        rules: templateRules,
+      });
+    }
+
+    const eslintConfig: JsonObject = {
+      ...(isRoot ? { root: true } : { extends: extendedConfigs }),
+      overrides,
+    };
+    this.tree.create(eslintConfigPath, JSON.stringify(eslintConfig, undefined, 2) + '\n');
+
+    if (unconverted.length) {
+      logger.warn(
+        `The following TSLint configuration in "${path}" has no ESLint equivalent and was not migrated:\n` +
+        unconverted.map(entry => `  - ${entry}`).join('\n'),
+      );
+    }
+
+    return eslintConfigPath;
+  }
+}
+
+/** The TSLint formatters and their ESLint equivalent. Formatters without equivalent are removed. */
+const FORMATS: Record<string, string | undefined> = {
+  checkstyle: 'checkstyle',
+  codeFrame: 'codeframe',
+  json: 'json',
+  junit: 'junit',
+  msbuild: 'visualstudio',
+  prose: 'stylish',
+  stylish: 'stylish',
+  tap: 'tap',
+  verbose: 'stylish',
+  vso: 'visualstudio',
+};
+
+export default function (): Rule {
+  return (tree, context) => {
+    const converter = new TslintConfigConverter(tree, context);
+    let hasTslintTargets = false;
+
+    return updateWorkspace(workspace => {
+      for (const [targetName, target, projectName, project] of allWorkspaceTargets(workspace)) {
+        if (target.builder !== Builders.TsLint) {
+          continue;
+        }
+
+        const projectRoot = project.root || '';
+        const tslintConfigPath = typeof target.options?.tslintConfig === 'string'
+          ? target.options.tslintConfig
+          : [join(normalize(projectRoot), 'tslint.json'), 'tslint.json'].find(p => tree.exists(p));
+
+        const eslintConfigPath = tslintConfigPath && converter.convert(tslintConfigPath);
+        if (!eslintConfigPath) {
+          context.logger.warn(
+            `Lint target "${projectName}:${targetName}" was not migrated to ESLint as its TSLint configuration cannot be converted.`,
+          );
+          hasTslintTargets = true;
+          continue;
+        }
+
+        target.builder = Builders.EsLint;
+        for (const [, targetOptions] of allTargetOptions(target)) {
+          if (typeof targetOptions.tslintConfig === 'string') {
+            targetOptions.eslintConfig = eslintConfigPath.replace(/^\//, '');
+          }
+
+          const format = typeof targetOptions.format === 'string'
+            ? FORMATS[targetOptions.format]
+            : undefined;
+          if (format) {
+            targetOptions.format = format;
+          } else {
+            delete targetOptions.format;
+          }
+
+          delete targetOptions.tslintConfig;
+          delete targetOptions.tsConfig;
+          delete targetOptions.typeCheck;
+        }
+
+        // The TSLint builder lints the files of the TypeScript programs when no files are listed.
+        if (!target.options) {
+          target.options = {};
+        }
+        if (!Array.isArray(target.options.files) || !target.options.files.length) {
+          const sourceRoot = project.sourceRoot ?? join(normalize(projectRoot), 'src');
+          target.options.files = [`${sourceRoot}/**/*.ts`, `${sourceRoot}/**/*.html`];
+        }
+      }
+
+      return host => {
+        if (converter.convertedConfigs.length === 0) {
+          return;
+        }
+
+        for (const [name, version] of Object.entries(ESLINT_DEPENDENCIES)) {
+          addPackageJsonDependency(host, {
+            type: NodeDependencyType.Dev,
+            name,
+            version,
+            overwrite: false,
+          });
+        }
+
+        // TSLint is still needed for the targets that were not migrated.
+        if (!hasTslintTargets) {
+          for (const path of converter.convertedConfigs) {
+            host.delete(path);
+          }
+          removePackageJsonDependency(host, 'tslint');
+          removePackageJsonDependency(host, 'codelyzer');
+        }
+
+        context.addTask(new NodePackageInstallTask());
+      };
+    });
+  };
+}
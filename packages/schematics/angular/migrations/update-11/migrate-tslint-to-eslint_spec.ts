@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { EmptyTree } from '@angular-devkit/schematics';
+import { SchematicTestRunner, UnitTestTree } from '@angular-devkit/schematics/testing';
+import { Builders, ProjectType, WorkspaceSchema } from '../../utility/workspace-models';
+
+function createWorkSpaceConfig(tree: UnitTestTree, lintOptions: object = {}) {
+  const angularConfig: WorkspaceSchema = {
+    version: 1,
+    projects: {
+      app: {
+        root: '',
+        sourceRoot: 'src',
+        projectType: ProjectType.Application,
+        prefix: 'app',
+        architect: {
+          lint: {
+            builder: Builders.TsLint,
+            options: {
+              tsConfig: ['tsconfig.app.json', 'tsconfig.spec.json'],
+              exclude: ['**/node_modules/**'],
+              ...lintOptions,
+            },
+            configurations: {
+              ci: {
+                format: 'prose',
+              },
+            },
+          // tslint:disable-next-line: no-any
+          } as any,
+        },
+      },
+      lib: {
+        root: 'projects/lib',
+        sourceRoot: 'projects/lib/src',
+        projectType: ProjectType.Library,
+        prefix: 'lib',
+        architect: {
+          lint: {
+            builder: Builders.TsLint,
+            options: {
+              tsConfig: 'projects/lib/tsconfig.lib.json',
+            },
+          // tslint:disable-next-line: no-any
+          } as any,
+        },
+      },
+    },
+  };
+
+  tree.create('/angular.json', JSON.stringify(angularConfig, undefined, 2));
+}
+
+describe('Migration from TSLint to ESLint', () => {
+  const schematicName = 'migrate-tslint-to-eslint';
+
+  const schematicRunner = new SchematicTestRunner(
+    'migrations',
+    require.resolve('../migration-collection.json'),
+  );
+
+  let tree: UnitTestTree;
+  beforeEach(() => {
+    tree = new UnitTestTree(new EmptyTree());
+    createWorkSpaceConfig(tree);
+    tree.create('/package.json', JSON.stringify({
+      devDependencies: {
+        codelyzer: '^6.0.0',
+        tslint: '~6.1.0',
+      },
+    }, undefined, 2));
+    tree.create('/tslint.json', JSON.stringify({
+      extends: 'tslint:recommended',
+      rulesDirectory: ['codelyzer'],
+      rules: {
+        'deprecation': { severity: 'warning' },
+        'max-line-length': [true, 140],
+        'no-console': [true, 'debug', 'info', 'time', 'timeEnd', 'trace'],
+        'no-empty': false,
+        'quotemark': [true, 'single'],
+        'semicolon': { options: ['always'] },
+        'component-selector': [true, 'element', 'app', 'kebab-case'],
+        'template-banana-in-box': true,
+      },
+    }, undefined, 2));
+    tree.create('/projects/lib/tslint.json', JSON.stringify({
+      extends: '../../tslint.json',
+      rules: {
+        'component-selector': [true, 'element', 'lib', 'kebab-case'],
+      },
+    }, undefined, 2));
+  });
+
+  it('should convert the TSLint rules', async () => {
+    const newTree = await schematicRunner.runSchematicAsync(schematicName, {}, tree).toPromise();
+    const { root, overrides } = JSON.parse(newTree.readContent('/.eslintrc.json'));
+
+    expect(root).toBe(true);
+    expect(overrides[0].files).toEqual(['*.ts']);
+    expect(overrides[0].parser).toBe('@typescript-eslint/parser');
+    expect(overrides[0].extends).toEqual([
+      'eslint:recommended',
+      'plugin:@typescript-eslint/recommended',
+    ]);
+    expect(overrides[0].rules).toEqual({
+      'max-len': ['error', { code: 140 }],
+      'no-console': ['error', { allow: jasmine.arrayContaining(['log', 'warn']) }],
+      'no-empty': 'off',
+      '@typescript-eslint/quotes': ['error', 'single'],
+      '@typescript-eslint/semi': ['error', 'always'],
+      '@angular-eslint/component-selector': [
+        'error',
+        { type: 'element', prefix: 'app', style: 'kebab-case' },
+      ],
+    });
+    expect(overrides[0].rules['no-console'][1].allow).not.toContain('debug');
+    expect(overrides[1].files).toEqual(['*.html']);
+    expect(overrides[1].rules).toEqual({ '@angular-eslint/template/banana-in-box': ['error'] });
+  });
+
+  it('should extend the converted configurations of extended TSLint configurations', async () => {
+    const newTree = await schematicRunner.runSchematicAsync(schematicName, {}, tree).toPromise();
+    const { root, extends: extendedConfigs, overrides } =
+      JSON.parse(newTree.readContent('/projects/lib/.eslintrc.json'));
+
+    expect(root).toBeUndefined();
+    expect(extendedConfigs).toEqual(['../../.eslintrc.json']);
+    expect(overrides.length).toBe(1);
+    expect(overrides[0].parser).toBeUndefined();
+    expect(overrides[0].rules['@angular-eslint/component-selector'][1].prefix).toBe('lib');
+  });
+
+  it('should report TSLint rules without ESLint equivalent', async () => {
+    const logs: string[] = [];
+    schematicRunner.logger.subscribe(({ message }) => logs.push(message));
+
+    await schematicRunner.runSchematicAsync(schematicName, {}, tree).toPromise();
+
+    expect(logs.join()).toContain('  - deprecation');
+  });
+
+  it('should update the lint targets', async () => {
+    const newTree = await schematicRunner.runSchematicAsync(schematicName, {}, tree).toPromise();
+    const { projects: { app, lib } } = JSON.parse(newTree.readContent('/angular.json'));
+
+    expect(app.architect.lint.builder).toBe(Builders.EsLint);
+    expect(app.architect.lint.options).toEqual({
+      exclude: ['**/node_modules/**'],
+      files: ['src/**/*.ts', 'src/**/*.html'],
+    });
+    expect(app.architect.lint.configurations.ci).toEqual({ format: 'stylish' });
+    expect(lib.architect.lint.options.files)
+      .toEqual(['projects/lib/src/**/*.ts', 'projects/lib/src/**/*.html']);
+  });
+
+  it('should keep listed files and set the converted configuration file', async () => {
+    tree.delete('/angular.json');
+    createWorkSpaceConfig(tree, { tslintConfig: 'projects/lib/tslint.json', files: ['src/**/*.ts'] });
+
+    const newTree = await schematicRunner.runSchematicAsync(schematicName, {}, tree).toPromise();
+    const { projects: { app } } = JSON.parse(newTree.readContent('/angular.json'));
+
+    expect(app.architect.lint.options.files).toEqual(['src/**/*.ts']);
+    expect(app.architect.lint.options.eslintConfig).toBe('projects/lib/.eslintrc.json');
+  });
+
+  it('should replace the TSLint dependencies', async () => {
+    const newTree = await schematicRunner.runSchematicAsync(schematicName, {}, tree).toPromise();
+    const { devDependencies } = JSON.parse(newTree.readContent('/package.json'));
+
+    expect(devDependencies['tslint']).toBeUndefined();
+    expect(devDependencies['codelyzer']).toBeUndefined();
+    expect(devDependencies['eslint']).toBeDefined();
+    expect(devDependencies['@angular-eslint/eslint-plugin']).toBeDefined();
+    expect(newTree.exists('/tslint.json')).toBe(false);
+    expect(schematicRunner.tasks.some(task => task.name === 'node-package')).toBe(true);
+  });
+
+  it('should keep TSLint when a configuration cannot be converted', async () => {
+    const angularConfig = JSON.parse(tree.readContent('/angular.json'));
+    angularConfig.projects.lib.architect.lint.options.tslintConfig = 'projects/lib/tslint.yaml';
+    tree.overwrite('/angular.json', JSON.stringify(angularConfig, undefined, 2));
+    tree.create('/projects/lib/tslint.yaml', '');
+
+    const newTree = await schematicRunner.runSchematicAsync(schematicName, {}, tree).toPromise();
+    const { projects: { app, lib } } = JSON.parse(newTree.readContent('/angular.json'));
+    const { devDependencies } = JSON.parse(newTree.readContent('/package.json'));
+
+    expect(app.architect.lint.builder).toBe(Builders.EsLint);
+    expect(lib.architect.lint.builder).toBe(Builders.TsLint);
+    expect(devDependencies['tslint']).toBeDefined();
+    expect(devDependencies['eslint']).toBeDefined();
+    expect(newTree.exists('/tslint.json')).toBe(true);
+  });
+
+  it('should not migrate lint targets without TSLint configuration', async () => {
+    tree.delete('/tslint.json');
+    tree.delete('/projects/lib/tslint.json');
+
+    const newTree = await schematicRunner.runSchematicAsync(schematicName, {}, tree).toPromise();
+    const { projects: { app } } = JSON.parse(newTree.readContent('/angular.json'));
+    const { devDependencies } = JSON.parse(newTree.readContent('/package.json'));
+
+    expect(app.architect.lint.builder).toBe(Builders.TsLint);
+    expect(devDependencies['tslint']).toBeDefined();
+    expect(devDependencies['eslint']).toBeUndefined();
+  });
+});
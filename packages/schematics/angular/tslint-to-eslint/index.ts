@@ -0,0 +1,10 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+// The conversion also runs as an `ng update` migration; this entry point runs it on demand.
+export { default } from '../migrations/update-11/migrate-tslint-to-eslint';
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { EmptyTree } from '@angular-devkit/schematics';
+import { SchematicTestRunner, UnitTestTree } from '@angular-devkit/schematics/testing';
+import { Builders, ProjectType, WorkspaceSchema } from '../utility/workspace-models';
+
+describe('TSLint to ESLint Schematic', () => {
+  const schematicRunner = new SchematicTestRunner(
+    '@schematics/angular',
+    require.resolve('../collection.json'),
+  );
+
+  it('should migrate the lint targets', async () => {
+    const tree = new UnitTestTree(new EmptyTree());
+    const angularConfig: WorkspaceSchema = {
+      version: 1,
+      projects: {
+        app: {
+          root: '',
+          sourceRoot: 'src',
+          projectType: ProjectType.Application,
+          prefix: 'app',
+          architect: {
+            lint: {
+              builder: Builders.TsLint,
+              options: {},
+            // tslint:disable-next-line: no-any
+            } as any,
+          },
+        },
+      },
+    };
+    tree.create('/angular.json', JSON.stringify(angularConfig));
+    tree.create('/package.json', JSON.stringify({ devDependencies: { tslint: '~6.1.0' } }));
+    tree.create('/tslint.json', JSON.stringify({ rules: { 'no-debugger': true } }));
+
+    const newTree = await schematicRunner.runSchematicAsync('tslint-to-eslint', {}, tree).toPromise();
+    const { projects: { app } } = JSON.parse(newTree.readContent('/angular.json'));
+
+    expect(app.architect.lint.builder).toBe(Builders.EsLint);
+    expect(newTree.exists('/.eslintrc.json')).toBe(true);
+  });
+});
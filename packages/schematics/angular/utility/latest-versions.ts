@@ -23,4 +23,11 @@ export const latestVersions = {
   DevkitBuildWebpack: '~0.1101.0-next.3',
 
   ngPackagr: '^11.0.0',
+
+  EsLint: '^7.6.0',
+  TypeScriptEsLint: '^4.3.0',
+  AngularEsLint: '^1.0.0',
+
+  Jest: '^26.6.3',
+  TypesJest: '^26.0.15',
 };
@@ -0,0 +1,271 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { join, normalize } from '@angular-devkit/core';
+import { DirEntry, Rule, SchematicsException, Tree } from '@angular-devkit/schematics';
+import * as ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+
+export interface RefactorOptions {
+  /**
+   * The directory containing the TypeScript files of the project. Defaults to the root of the tree.
+   * `node_modules` directories are never part of the project.
+   */
+  root?: string;
+  /** The compiler options used to resolve the modules, such as `baseUrl` and `paths`. */
+  compilerOptions?: ts.CompilerOptions;
+}
+
+function findSourceFiles(dir: DirEntry, files: string[] = []): string[] {
+  for (const file of dir.subfiles) {
+    if (file.endsWith('.ts') || file.endsWith('.tsx')) {
+      files.push(join(dir.path, file));
+    }
+  }
+
+  for (const subdir of dir.subdirs) {
+    if (subdir !== 'node_modules' && !subdir.startsWith('.')) {
+      findSourceFiles(dir.dir(subdir), files);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * A language service host which reads the files of a tree. The tree is read lazily, so a
+ * language service created with it only sees the files as they were when it was first used.
+ */
+class TreeLanguageServiceHost implements ts.LanguageServiceHost {
+  private readonly files: string[];
+
+  constructor(
+    private readonly tree: Tree,
+    private readonly options: RefactorOptions,
+  ) {
+    this.files = findSourceFiles(tree.getDir(options.root || '/'));
+  }
+
+  getScriptFileNames(): string[] {
+    return this.files;
+  }
+
+  getScriptVersion(): string {
+    return '0';
+  }
+
+  getScriptSnapshot(fileName: string): ts.IScriptSnapshot | undefined {
+    const content = this.readFile(fileName);
+
+    return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+  }
+
+  getCurrentDirectory(): string {
+    return '/';
+  }
+
+  getCompilationSettings(): ts.CompilerOptions {
+    return {
+      // The default library is not in the tree, and is not needed to find references.
+      noLib: true,
+      ...this.options.compilerOptions,
+    };
+  }
+
+  getDefaultLibFileName(options: ts.CompilerOptions): string {
+    return ts.getDefaultLibFileName(options);
+  }
+
+  useCaseSensitiveFileNames(): boolean {
+    return true;
+  }
+
+  fileExists(path: string): boolean {
+    return this.tree.exists(path);
+  }
+
+  readFile(path: string): string | undefined {
+    return this.tree.read(path)?.toString();
+  }
+
+  directoryExists(path: string): boolean {
+    const dir = this.tree.getDir(path);
+
+    return dir.subdirs.length > 0 || dir.subfiles.length > 0;
+  }
+
+  getDirectories(path: string): string[] {
+    return this.tree.getDir(path).subdirs;
+  }
+}
+
+/**
+ * Create a TypeScript language service for the TypeScript files of a tree.
+ */
+export function createLanguageService(tree: Tree, options: RefactorOptions = {}): ts.LanguageService {
+  return ts.createLanguageService(new TreeLanguageServiceHost(tree, options), ts.createDocumentRegistry());
+}
+
+function isProjectFile(fileName: string): boolean {
+  return !fileName.split('/').includes('node_modules');
+}
+
+/**
+ * Apply text changes computed on the original content of the files of a tree.
+ */
+function applyTextChanges(tree: Tree, changes: Map<string, ts.TextChange[]>): void {
+  for (const [fileName, textChanges] of changes) {
+    const recorder = tree.beginUpdate(fileName);
+    for (const { span, newText } of textChanges) {
+      recorder.remove(span.start, span.length);
+      recorder.insertLeft(span.start, newText);
+    }
+    tree.commitUpdate(recorder);
+  }
+}
+
+function addTextChange(changes: Map<string, ts.TextChange[]>, fileName: string, change: ts.TextChange) {
+  const textChanges = changes.get(fileName);
+  if (textChanges) {
+    textChanges.push(change);
+  } else {
+    changes.set(fileName, [change]);
+  }
+}
+
+/**
+ * Rename an exported symbol, with its references in the project, including the imports.
+ * @param file The file exporting the symbol.
+ * @param name The exported name of the symbol.
+ * @param newName The new name of the symbol.
+ */
+export function renameExport(
+  file: string,
+  name: string,
+  newName: string,
+  options: RefactorOptions = {},
+): Rule {
+  return tree => {
+    const fileName = normalize('/' + file);
+    const languageService = createLanguageService(tree, options);
+    const program = languageService.getProgram();
+    const sourceFile = program?.getSourceFile(fileName);
+    if (!program || !sourceFile) {
+      throw new SchematicsException(`Could not find the TypeScript file "${fileName}".`);
+    }
+
+    const typeChecker = program.getTypeChecker();
+    const moduleSymbol = typeChecker.getSymbolAtLocation(sourceFile);
+    const exportSymbol = moduleSymbol && typeChecker.getExportsOfModule(moduleSymbol)
+      .find(symbol => symbol.name === name);
+    const declaration = exportSymbol?.declarations?.find(node => node.getSourceFile() === sourceFile);
+    const declarationName = declaration && ts.getNameOfDeclaration(declaration);
+    if (!declarationName) {
+      throw new SchematicsException(`Could not find the export "${name}" in "${fileName}".`);
+    }
+
+    const locations = languageService.findRenameLocations(
+      fileName,
+      declarationName.getStart(),
+      false,
+      false,
+    ) || [];
+
+    const changes = new Map<string, ts.TextChange[]>();
+    for (const { fileName: locationFileName, textSpan } of locations) {
+      if (isProjectFile(locationFileName)) {
+        addTextChange(changes, locationFileName, { span: textSpan, newText: newName });
+      }
+    }
+    applyTextChanges(tree, changes);
+  };
+}
+
+/**
+ * Move a TypeScript file, updating the imports of the moved file and the imports of the files
+ * of the project which refer to it.
+ * @param from The path of the file to move.
+ * @param to The new path of the file.
+ */
+export function moveFile(from: string, to: string, options: RefactorOptions = {}): Rule {
+  return tree => {
+    const fromPath = normalize('/' + from);
+    const toPath = normalize('/' + to);
+    if (!tree.exists(fromPath)) {
+      throw new SchematicsException(`Could not find the file "${fromPath}".`);
+    } else if (tree.exists(toPath)) {
+      throw new SchematicsException(`Cannot move "${fromPath}" to "${toPath}" as the file already exists.`);
+    }
+
+    const languageService = createLanguageService(tree, options);
+    const fileChanges = languageService.getEditsForFileRename(fromPath, toPath, {}, {});
+
+    const changes = new Map<string, ts.TextChange[]>();
+    for (const { fileName, textChanges } of fileChanges) {
+      if (isProjectFile(fileName)) {
+        for (const change of textChanges) {
+          addTextChange(changes, fileName, change);
+        }
+      }
+    }
+    applyTextChanges(tree, changes);
+
+    tree.rename(fromPath, toPath);
+  };
+}
+
+function getModuleSpecifier(node: ts.Node): ts.StringLiteralLike | undefined {
+  let specifier: ts.Node | undefined;
+  if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+    specifier = node.moduleSpecifier;
+  } else if (ts.isExternalModuleReference(node)) {
+    specifier = node.expression;
+  } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+    specifier = node.argument.literal;
+  } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+    specifier = node.arguments[0];
+  }
+
+  return specifier && ts.isStringLiteralLike(specifier) ? specifier : undefined;
+}
+
+/**
+ * Change the module specifier of the imports and exports of a module in the project, including
+ * dynamic imports. The deep imports of the module are updated as well: with `@my/lib` changed to
+ * `@my/new-lib`, `@my/lib/testing` is changed to `@my/new-lib/testing`.
+ * @param from The module specifier to change.
+ * @param to The new module specifier.
+ */
+export function updateModuleSpecifier(from: string, to: string, options: RefactorOptions = {}): Rule {
+  return tree => {
+    const program = createLanguageService(tree, options).getProgram();
+    if (!program) {
+      return;
+    }
+
+    const changes = new Map<string, ts.TextChange[]>();
+    for (const fileName of program.getRootFileNames()) {
+      const sourceFile = program.getSourceFile(fileName);
+      if (!sourceFile) {
+        continue;
+      }
+
+      const visit = (node: ts.Node) => {
+        const specifier = getModuleSpecifier(node);
+        if (specifier && (specifier.text === from || specifier.text.startsWith(from + '/'))) {
+          // Keep the quotes of the literal.
+          addTextChange(changes, sourceFile.fileName, {
+            span: { start: specifier.getStart() + 1, length: specifier.getWidth() - 2 },
+            newText: to + specifier.text.slice(from.length),
+          });
+        }
+        ts.forEachChild(node, visit);
+      };
+      ts.forEachChild(sourceFile, visit);
+    }
+    applyTextChanges(tree, changes);
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { EmptyTree, Rule, SchematicContext, callRule } from '@angular-devkit/schematics';
+import { UnitTestTree } from '@angular-devkit/schematics/testing';
+import { moveFile, renameExport, updateModuleSpecifier } from './refactor';
+
+describe('refactor', () => {
+  let tree: UnitTestTree;
+
+  async function runRule(rule: Rule) {
+    await callRule(rule, tree, {} as unknown as SchematicContext).toPromise();
+  }
+
+  beforeEach(() => {
+    tree = new UnitTestTree(new EmptyTree());
+    tree.create('/src/app/user.ts', `export class User {}\nexport function createUser(): User { return new User(); }\n`);
+    tree.create('/src/app/user-list.ts', `import { User, createUser } from './user';\n\nexport const users: User[] = [createUser()];\n`);
+    tree.create('/src/main.ts', `import { users } from './app/user-list';\nimport { of } from 'rxjs';\nimport { map } from 'rxjs/operators';\n\nof(users);\n`);
+  });
+
+  describe('renameExport', () => {
+    it('renames the export and its imports', async () => {
+      await runRule(renameExport('src/app/user.ts', 'User', 'Account'));
+
+      expect(tree.readContent('/src/app/user.ts'))
+        .toBe(`export class Account {}\nexport function createUser(): Account { return new Account(); }\n`);
+      expect(tree.readContent('/src/app/user-list.ts'))
+        .toBe(`import { Account, createUser } from './user';\n\nexport const users: Account[] = [createUser()];\n`);
+    });
+
+    it('throws when the file does not export the symbol', async () => {
+      await expectAsync(runRule(renameExport('src/app/user.ts', 'Unknown', 'Account')))
+        .toBeRejectedWithError(`Could not find the export "Unknown" in "/src/app/user.ts".`);
+    });
+  });
+
+  describe('moveFile', () => {
+    it('moves the file and updates the relative imports', async () => {
+      await runRule(moveFile('/src/app/user-list.ts', '/src/app/users/user-list.ts'));
+
+      expect(tree.exists('/src/app/user-list.ts')).toBe(false);
+      expect(tree.readContent('/src/app/users/user-list.ts')).toContain(`from '../user';`);
+      expect(tree.readContent('/src/main.ts')).toContain(`import { users } from './app/users/user-list';`);
+    });
+
+    it('throws when the destination exists', async () => {
+      await expectAsync(runRule(moveFile('/src/app/user-list.ts', '/src/main.ts')))
+        .toBeRejectedWithError(/already exists/);
+    });
+  });
+
+  describe('updateModuleSpecifier', () => {
+    it('updates the imports of the module and its deep imports', async () => {
+      tree.create('/src/lazy.ts', `export const load = () => import('rxjs').then(m => m.of);\n`);
+
+      await runRule(updateModuleSpecifier('rxjs', 'rxjs-compat'));
+
+      expect(tree.readContent('/src/main.ts')).toContain(`import { of } from 'rxjs-compat';`);
+      expect(tree.readContent('/src/main.ts')).toContain(`import { map } from 'rxjs-compat/operators';`);
+      expect(tree.readContent('/src/lazy.ts')).toContain(`import('rxjs-compat')`);
+    });
+
+    it('does not update the modules starting with the same name', async () => {
+      tree.create('/src/other.ts', `import { x } from 'rxjs-other';\n`);
+
+      await runRule(updateModuleSpecifier('rxjs', 'rxjs-compat'));
+
+      expect(tree.readContent('/src/other.ts')).toContain(`from 'rxjs-other'`);
+    });
+  });
+});
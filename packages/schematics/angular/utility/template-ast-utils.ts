@@ -0,0 +1,410 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { dirname, join, normalize } from '@angular-devkit/core';
+import { SchematicsException, Tree } from '@angular-devkit/schematics';
+import type {
+  BindingPipe,
+  TmplAstBoundAttribute,
+  TmplAstBoundEvent,
+  TmplAstBoundText,
+  TmplAstElement,
+  TmplAstNode,
+  TmplAstTemplate,
+  TmplAstTextAttribute,
+} from '@angular/compiler';
+import * as ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+import { getDecoratorMetadata, getMetadataField } from './ast-utils';
+import { Change, InsertChange, RemoveChange, ReplaceChange } from './change';
+
+/** An element of a template. `ng-template` elements are parsed as templates. */
+export type TemplateElement = TmplAstElement | TmplAstTemplate;
+
+export interface TemplateAttribute {
+  attribute: TmplAstTextAttribute;
+  element: TemplateElement;
+}
+
+export interface TemplateBinding {
+  binding: TmplAstBoundAttribute | TmplAstBoundEvent;
+  /**
+   * The element of the binding. The bindings of structural directives, such as `*ngIf`, belong to
+   * the template wrapping the element.
+   */
+  element: TemplateElement;
+}
+
+/**
+ * A parsed Angular template. The source spans of the template nodes are relative to the content
+ * of the template, and converted to positions in the file containing the template by the changes.
+ */
+export interface Template {
+  /** The path of the file containing the template: the HTML file, or the component file. */
+  readonly filePath: string;
+  readonly content: string;
+  readonly inline: boolean;
+  readonly nodes: TmplAstNode[];
+  /** The elements, in document order. */
+  readonly elements: TemplateElement[];
+  readonly attributes: TemplateAttribute[];
+  readonly bindings: TemplateBinding[];
+  readonly pipes: BindingPipe[];
+  /** Convert a position in the content of the template to a position in its file. */
+  getFilePosition(offset: number): number;
+  /** Get the text of the file between two positions in the content of the template. */
+  getFileText(start: number, end: number): string;
+}
+
+export interface ParseTemplateOptions {
+  /** Whether the template is inline in a component file. */
+  inline?: boolean;
+  /** The position of the template in its file. */
+  offset?: number;
+  /**
+   * The positions in the file of each character of the content, for inline templates containing
+   * escape sequences.
+   */
+  positions?: number[];
+  /** The content of the file, required with `positions`. */
+  fileContent?: string;
+}
+
+type CompilerModule = typeof import('@angular/compiler');
+
+async function loadCompiler(): Promise<CompilerModule> {
+  try {
+    // The compiler of the workspace parses the templates as the application does.
+    return await import('@angular/compiler');
+  } catch {
+    throw new SchematicsException('The "@angular/compiler" package is required to parse Angular templates.');
+  }
+}
+
+function indexTemplate(compiler: CompilerModule, template: Template): void {
+  const { elements, attributes, bindings, pipes } = template;
+
+  class PipeVisitor extends compiler.RecursiveAstVisitor {
+    visitPipe(ast: BindingPipe, context: unknown) {
+      pipes.push(ast);
+
+      return super.visitPipe(ast, context);
+    }
+  }
+  const pipeVisitor = new PipeVisitor();
+
+  const addElement = (element: TemplateElement) => {
+    for (const attribute of element.attributes) {
+      attributes.push({ attribute, element });
+    }
+
+    for (const binding of element.inputs) {
+      bindings.push({ binding, element });
+      binding.value.visit(pipeVisitor);
+    }
+
+    for (const binding of element.outputs) {
+      bindings.push({ binding, element });
+      binding.handler.visit(pipeVisitor);
+    }
+  };
+
+  class TemplateVisitor extends compiler.TmplAstRecursiveVisitor {
+    visitElement(element: TmplAstElement) {
+      elements.push(element);
+      addElement(element);
+      super.visitElement(element);
+    }
+
+    visitTemplate(node: TmplAstTemplate) {
+      // Templates of structural directives wrap the element they apply to, and have copies of
+      // its attributes and bindings.
+      if (node.tagName === 'ng-template') {
+        elements.push(node);
+        addElement(node);
+      }
+
+      for (const attribute of node.templateAttrs) {
+        if (attribute instanceof compiler.TmplAstBoundAttribute) {
+          bindings.push({ binding: attribute, element: node });
+          attribute.value.visit(pipeVisitor);
+        } else {
+          attributes.push({ attribute, element: node });
+        }
+      }
+      super.visitTemplate(node);
+    }
+
+    visitBoundText(text: TmplAstBoundText) {
+      text.value.visit(pipeVisitor);
+    }
+  }
+
+  const visitor = new TemplateVisitor();
+  for (const node of template.nodes) {
+    node.visit(visitor);
+  }
+}
+
+/**
+ * Parse an Angular template with the template parser of the compiler.
+ * @param content The content of the template.
+ * @param filePath The path of the file containing the template.
+ */
+export async function parseTemplate(
+  content: string,
+  filePath: string,
+  options: ParseTemplateOptions = {},
+): Promise<Template> {
+  const compiler = await loadCompiler();
+  const { errors, nodes } = compiler.parseTemplate(content, filePath, {
+    preserveWhitespaces: true,
+    leadingTriviaChars: [],
+  });
+  if (errors?.length) {
+    throw new SchematicsException(
+      `Could not parse the template of "${filePath}":\n` + errors.map(error => error.toString()).join('\n'),
+    );
+  }
+
+  const { inline = false, offset = 0, positions, fileContent } = options;
+  const getFilePosition = (position: number) => positions ? positions[position] : offset + position;
+  const template: Template = {
+    filePath,
+    content,
+    inline,
+    nodes,
+    elements: [],
+    attributes: [],
+    bindings: [],
+    pipes: [],
+    getFilePosition,
+    getFileText: (start, end) => positions && fileContent !== undefined
+      ? fileContent.slice(getFilePosition(start), getFilePosition(end))
+      : content.slice(start, end),
+  };
+  indexTemplate(compiler, template);
+
+  return template;
+}
+
+/**
+ * Compute the positions in the source of each character of the value of a string literal or of
+ * a template literal without substitutions, as escape sequences are longer than the characters
+ * they represent.
+ * @returns The positions, or `undefined` when the escape sequences are not supported.
+ */
+function getLiteralPositions(literal: ts.StringLiteral | ts.NoSubstitutionTemplateLiteral): number[] | undefined {
+  const start = literal.getStart() + 1;
+  const raw = literal.getText().slice(1, -1);
+  const positions: number[] = [];
+
+  for (let i = 0; i < raw.length; i++) {
+    positions.push(start + i);
+    if (raw[i] === '\r' && raw[i + 1] === '\n') {
+      // Line endings of template literals are normalized.
+      i++;
+    } else if (raw[i] === '\\') {
+      const escape = raw.slice(i + 1).match(/^(\r\n|[\r\n\u2028\u2029]|x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|[^u])/);
+      if (!escape) {
+        // Code point escapes can represent two characters.
+        return undefined;
+      } else if (/^[\r\n\u2028\u2029]/.test(escape[0])) {
+        // Line continuations do not represent a character.
+        positions.pop();
+      }
+      i += escape[0].length;
+    }
+  }
+  positions.push(start + raw.length);
+
+  return positions.length === literal.text.length + 1 ? positions : undefined;
+}
+
+/**
+ * Parse the inline and external templates of the components of a file.
+ * @param tree The tree containing the component and its templates.
+ * @param componentPath The path of the component file.
+ */
+export async function getComponentTemplates(tree: Tree, componentPath: string): Promise<Template[]> {
+  const buffer = tree.read(componentPath);
+  if (!buffer) {
+    throw new SchematicsException(`Could not read "${componentPath}".`);
+  }
+  const content = buffer.toString();
+  const source = ts.createSourceFile(componentPath, content, ts.ScriptTarget.Latest, true);
+
+  const templates: Template[] = [];
+  for (const metadata of getDecoratorMetadata(source, 'Component', '@angular/core')) {
+    for (const field of getMetadataField(metadata as ts.ObjectLiteralExpression, 'template')) {
+      const initializer = (field as ts.PropertyAssignment).initializer;
+      if (!ts.isStringLiteral(initializer) && !ts.isNoSubstitutionTemplateLiteral(initializer)) {
+        continue;
+      }
+
+      const positions = getLiteralPositions(initializer);
+      if (!positions) {
+        throw new SchematicsException(
+          `The template of "${componentPath}" contains unsupported escape sequences.`,
+        );
+      }
+      templates.push(await parseTemplate(initializer.text, componentPath, {
+        inline: true,
+        positions,
+        fileContent: content,
+      }));
+    }
+
+    for (const field of getMetadataField(metadata as ts.ObjectLiteralExpression, 'templateUrl')) {
+      const initializer = (field as ts.PropertyAssignment).initializer;
+      if (!ts.isStringLiteralLike(initializer)) {
+        continue;
+      }
+
+      const templatePath = join(dirname(normalize(componentPath)), initializer.text);
+      const templateBuffer = tree.read(templatePath);
+      if (!templateBuffer) {
+        throw new SchematicsException(`Could not read the template "${templatePath}" of "${componentPath}".`);
+      }
+      templates.push(await parseTemplate(templateBuffer.toString(), templatePath));
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Find the elements of a template with a tag name, such as `mat-button` or `ng-template`.
+ */
+export function findElements(template: Template, tagName: string): TemplateElement[] {
+  return template.elements.filter(element => getTagName(element) === tagName);
+}
+
+/**
+ * Find the static attributes of a template with a name, such as `class`.
+ */
+export function findAttributes(template: Template, name: string): TemplateAttribute[] {
+  return template.attributes.filter(({ attribute }) => attribute.name === name);
+}
+
+/**
+ * Find the property, attribute, event and structural directive bindings of a template with a
+ * name, such as `ngModel` for `[(ngModel)]` or `ngIf` for `*ngIf`.
+ */
+export function findBindings(template: Template, name: string): TemplateBinding[] {
+  return template.bindings.filter(({ binding }) => binding.name === name);
+}
+
+/**
+ * Find the usages of a pipe in the expressions of a template.
+ */
+export function findPipes(template: Template, name: string): BindingPipe[] {
+  return template.pipes.filter(pipe => pipe.name === name);
+}
+
+function getTagName(element: TemplateElement): string {
+  return 'tagName' in element ? element.tagName : element.name;
+}
+
+/**
+ * Rename the start and end tags of an element.
+ */
+export function renameElement(template: Template, element: TmplAstElement, newName: string): Change[] {
+  const { startSourceSpan, endSourceSpan } = element;
+  const changes: Change[] = [
+    new ReplaceChange(
+      template.filePath,
+      template.getFilePosition(startSourceSpan.start.offset + 1),
+      element.name,
+      newName,
+    ),
+  ];
+
+  // Void elements do not have an end tag.
+  if (endSourceSpan && endSourceSpan.start.offset !== startSourceSpan.start.offset) {
+    changes.push(new ReplaceChange(
+      template.filePath,
+      template.getFilePosition(endSourceSpan.start.offset + 2),
+      element.name,
+      newName,
+    ));
+  }
+
+  return changes;
+}
+
+/**
+ * Add an attribute, or a binding, after the tag name of an element.
+ * @param text The text of the attribute, such as `color="primary"` or `[disabled]="true"`.
+ */
+export function addAttribute(template: Template, element: TemplateElement, text: string): Change {
+  const position = element.startSourceSpan.start.offset + 1 + getTagName(element).length;
+
+  return new InsertChange(template.filePath, template.getFilePosition(position), ' ' + text);
+}
+
+/**
+ * Rename a static attribute or a binding, keeping its value. The prefixes and suffixes of the
+ * bindings are kept: renaming `aria-label` in `[attr.aria-label]` changes only `aria-label`.
+ */
+export function renameAttribute(
+  template: Template,
+  attribute: TmplAstTextAttribute | TmplAstBoundAttribute | TmplAstBoundEvent,
+  newName: string,
+): Change {
+  const { keySpan } = attribute;
+  if (!keySpan) {
+    throw new SchematicsException(`Attribute "${attribute.name}" has no source in "${template.filePath}".`);
+  }
+
+  const key = template.content.slice(keySpan.start.offset, keySpan.end.offset);
+  const position = keySpan.start.offset + key.lastIndexOf(attribute.name);
+
+  return new ReplaceChange(template.filePath, template.getFilePosition(position), attribute.name, newName);
+}
+
+/**
+ * Remove a static attribute or a binding, with its value and the whitespaces preceding it.
+ * Removing the binding of a structural directive, such as `ngIf` for `*ngIf`, removes the
+ * whole directive.
+ */
+export function removeAttribute(
+  template: Template,
+  attribute: TmplAstTextAttribute | TmplAstBoundAttribute | TmplAstBoundEvent,
+): Change {
+  const { content } = template;
+  let start = attribute.sourceSpan.start.offset;
+  let end = attribute.sourceSpan.end.offset;
+
+  // The source spans of structural directives do not include the asterisk, and only cover the
+  // first expression of their value.
+  if (content[start - 1] === '*') {
+    start--;
+    const keyEnd = attribute.keySpan?.end.offset ?? end;
+    const value = content.slice(keyEnd).match(/^\s*=\s*(["'])/);
+    if (value) {
+      end = content.indexOf(value[1], keyEnd + value[0].length) + 1 || end;
+    }
+  }
+
+  while (start > 0 && /\s/.test(content[start - 1])) {
+    start--;
+  }
+
+  return new RemoveChange(template.filePath, template.getFilePosition(start), template.getFileText(start, end));
+}
+
+/**
+ * Rename a pipe in an expression, keeping its arguments.
+ */
+export function renamePipe(template: Template, pipe: BindingPipe, newName: string): Change {
+  return new ReplaceChange(
+    template.filePath,
+    template.getFilePosition(pipe.nameSpan.start),
+    pipe.name,
+    newName,
+  );
+}
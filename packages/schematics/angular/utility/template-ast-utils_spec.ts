@@ -0,0 +1,143 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+import { EmptyTree } from '@angular-devkit/schematics';
+import { UnitTestTree } from '@angular-devkit/schematics/testing';
+import { Change, applyToUpdateRecorder } from './change';
+import {
+  Template,
+  addAttribute,
+  findAttributes,
+  findBindings,
+  findElements,
+  findPipes,
+  getComponentTemplates,
+  parseTemplate,
+  removeAttribute,
+  renameAttribute,
+  renameElement,
+  renamePipe,
+} from './template-ast-utils';
+
+describe('template-ast-utils', () => {
+  let tree: UnitTestTree;
+
+  function applyChanges(path: string, changes: Change[]): string {
+    const recorder = tree.beginUpdate(path);
+    applyToUpdateRecorder(recorder, changes);
+    tree.commitUpdate(recorder);
+
+    return tree.readContent(path);
+  }
+
+  beforeEach(() => {
+    tree = new UnitTestTree(new EmptyTree());
+  });
+
+  describe('getComponentTemplates', () => {
+    it('parses the external templates', async () => {
+      tree.create('/src/app/app.component.ts', `
+        import { Component } from '@angular/core';
+
+        @Component({ selector: 'app-root', templateUrl: './app.component.html' })
+        export class AppComponent {}
+      `);
+      tree.create('/src/app/app.component.html', `<h1 class="title">{{ title | uppercase }}</h1>`);
+
+      const [template] = await getComponentTemplates(tree, '/src/app/app.component.ts');
+
+      expect(template.filePath).toBe('/src/app/app.component.html');
+      expect(template.inline).toBe(false);
+      expect(findElements(template, 'h1').length).toBe(1);
+      expect(applyChanges(template.filePath, [renamePipe(template, findPipes(template, 'uppercase')[0], 'titlecase')]))
+        .toBe(`<h1 class="title">{{ title | titlecase }}</h1>`);
+    });
+
+    it('maps the positions of inline templates with escape sequences', async () => {
+      const content = `
+        import { Component } from '@angular/core';
+
+        @Component({ selector: 'app-root', template: '<p title=\\'a\\'>\\n{{ x | date }}</p>' })
+        export class AppComponent {}
+      `;
+      tree.create('/src/app/app.component.ts', content);
+
+      const [template] = await getComponentTemplates(tree, '/src/app/app.component.ts');
+
+      expect(template.filePath).toBe('/src/app/app.component.ts');
+      expect(template.inline).toBe(true);
+      expect(template.content).toBe(`<p title='a'>\n{{ x | date }}</p>`);
+      expect(applyChanges(template.filePath, [
+        renamePipe(template, findPipes(template, 'date')[0], 'localDate'),
+        removeAttribute(template, findAttributes(template, 'title')[0].attribute),
+      ])).toBe(content.replace(`<p title=\\'a\\'>\\n{{ x | date }}`, `<p>\\n{{ x | localDate }}`));
+    });
+  });
+
+  describe('parseTemplate', () => {
+    const path = '/src/app/app.component.html';
+    let template: Template;
+
+    beforeEach(async () => {
+      const content =
+        `<mat-list *ngIf="items | async; let list" class="list">` +
+        `<mat-item [disableRipple]="true" (click)="select()" [attr.aria-label]="label"></mat-item><br>` +
+        `</mat-list>` +
+        `<ng-template [ngIf]="other" let-value></ng-template>`;
+      tree.create(path, content);
+      template = await parseTemplate(content, path);
+    });
+
+    it('locates the elements, attributes, bindings and pipes', () => {
+      expect(template.elements.map(element => 'tagName' in element ? element.tagName : element.name))
+        .toEqual(['mat-list', 'mat-item', 'br', 'ng-template']);
+      expect(findAttributes(template, 'class').map(({ element }) => element))
+        .toEqual(findElements(template, 'mat-list'));
+      expect(findBindings(template, 'ngIf').length).toBe(2);
+      expect(findBindings(template, 'click').length).toBe(1);
+      expect(findPipes(template, 'async').length).toBe(1);
+    });
+
+    it('renames the elements', () => {
+      const [element] = findElements(template, 'mat-list');
+      const [voidElement] = findElements(template, 'br');
+      if ('tagName' in element || 'tagName' in voidElement) {
+        throw new Error('Expected elements.');
+      }
+
+      const content = applyChanges(path, [
+        ...renameElement(template, element, 'mat-nav-list'),
+        ...renameElement(template, voidElement, 'hr'),
+      ]);
+
+      expect(content).toMatch(/^<mat-nav-list \*ngIf/);
+      expect(content).toContain('</mat-item><hr></mat-nav-list><ng-template');
+    });
+
+    it('renames, adds and removes the attributes', () => {
+      const [item] = findElements(template, 'mat-item');
+      const content = applyChanges(path, [
+        renameAttribute(template, findBindings(template, 'disableRipple')[0].binding, 'noRipple'),
+        renameAttribute(template, findBindings(template, 'aria-label')[0].binding, 'aria-description'),
+        removeAttribute(template, findBindings(template, 'click')[0].binding),
+        removeAttribute(template, findBindings(template, 'ngIf')[0].binding),
+        addAttribute(template, item, 'color="primary"'),
+      ]);
+
+      expect(content).toBe(
+        `<mat-list class="list">` +
+        `<mat-item color="primary" [noRipple]="true" [attr.aria-description]="label"></mat-item><br>` +
+        `</mat-list>` +
+        `<ng-template [ngIf]="other" let-value></ng-template>`,
+      );
+    });
+
+    it('throws for invalid templates', async () => {
+      await expectAsync(parseTemplate('<div></span>', path)).toBeRejectedWithError(/Could not parse the template/);
+    });
+  });
+});
@@ -15,7 +15,9 @@ export enum Builders {
     Server = '@angular-devkit/build-angular:server',
     Browser = '@angular-devkit/build-angular:browser',
     Karma = '@angular-devkit/build-angular:karma',
+    Jest = '@angular-devkit/build-angular:jest',
     TsLint = '@angular-devkit/build-angular:tslint',
+    EsLint = '@angular-devkit/build-angular:eslint',
     DeprecatedNgPackagr = '@angular-devkit/build-ng-packagr:build',
     NgPackagr = '@angular-devkit/build-angular:ng-packagr',
     DevServer = '@angular-devkit/build-angular:dev-server',
@@ -95,7 +97,8 @@ export interface AppShellBuilderOptions {
 }
 
 export interface TestBuilderOptions extends Partial<BrowserBuilderBaseOptions> {
-    karmaConfig: string;
+    karmaConfig?: string;
+    jestConfig?: string;
 }
 
 export interface LintBuilderOptions {
@@ -126,7 +129,7 @@ export type BrowserBuilderTarget = BuilderTarget<Builders.Browser, BrowserBuilde
 export type ServerBuilderTarget = BuilderTarget<Builders.Server, ServerBuilderOptions>;
 export type AppShellBuilderTarget = BuilderTarget<Builders.AppShell, AppShellBuilderOptions>;
 export type LintBuilderTarget = BuilderTarget<Builders.TsLint, LintBuilderOptions>;
-export type TestBuilderTarget = BuilderTarget<Builders.Karma, TestBuilderOptions>;
+export type TestBuilderTarget = BuilderTarget<Builders.Karma | Builders.Jest, TestBuilderOptions>;
 export type ServeBuilderTarget = BuilderTarget<Builders.DevServer, ServeBuilderOptions>;
 export type ExtractI18nBuilderTarget = BuilderTarget<Builders.ExtractI18n, ExtractI18nOptions>;
 export type E2EBuilderTarget = BuilderTarget<Builders.Protractor, E2EOptions>;
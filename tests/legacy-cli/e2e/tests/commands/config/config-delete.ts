@@ -0,0 +1,18 @@
+import { readFile } from '../../../utils/fs';
+import { ng } from '../../../utils/process';
+import { expectToFail } from '../../../utils/utils';
+
+export default async function() {
+  const optionsPath = 'projects.test-project.architect.build.options';
+
+  await ng('config', `${optionsPath}.aot`, '--delete');
+  const { projects } = JSON.parse(await readFile('angular.json'));
+  if ('aot' in projects['test-project'].architect.build.options) {
+    throw new Error('Expected the "aot" option to be deleted.');
+  }
+
+  // Missing keys cannot be deleted.
+  await expectToFail(() => ng('config', `${optionsPath}.aot`, '--delete'));
+  // A value cannot be used with the option.
+  await expectToFail(() => ng('config', `${optionsPath}.sourceMap`, 'true', '--delete'));
+}
@@ -0,0 +1,38 @@
+import { readFile } from '../../../utils/fs';
+import { ng } from '../../../utils/process';
+import { expectToFail } from '../../../utils/utils';
+
+async function getBuildOptions() {
+  const { projects } = JSON.parse(await readFile('angular.json'));
+
+  return projects['test-project'].architect.build.options;
+}
+
+function expectArray(name: string, actual: string[], expected: string[]) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`Expected "${name}" to be ${JSON.stringify(expected)}, received ${JSON.stringify(actual)}.`);
+  }
+}
+
+export default async function() {
+  const optionsPath = 'projects.test-project.architect.build.options';
+
+  // Pushing to a missing array creates it.
+  await ng('config', `${optionsPath}.allowedCommonJsDependencies`, 'lodash', '--push');
+  expectArray('allowedCommonJsDependencies', (await getBuildOptions()).allowedCommonJsDependencies, ['lodash']);
+
+  // Pushing to an existing array appends the value.
+  const { styles } = await getBuildOptions();
+  await ng('config', `${optionsPath}.styles`, 'src/theme.css', '--push');
+  expectArray('styles', (await getBuildOptions()).styles, [...styles, 'src/theme.css']);
+
+  await ng('config', `${optionsPath}.styles[0]`, 'src/reset.css', '--insert');
+  expectArray('styles', (await getBuildOptions()).styles, ['src/reset.css', ...styles, 'src/theme.css']);
+
+  // Values cannot be inserted after the end of the array.
+  await expectToFail(() => ng('config', `${optionsPath}.styles[10]`, 'src/other.css', '--insert'));
+  expectArray('styles', (await getBuildOptions()).styles, ['src/reset.css', ...styles, 'src/theme.css']);
+
+  // Values cannot be pushed to keys which are not arrays.
+  await expectToFail(() => ng('config', `${optionsPath}.index`, 'src/other.html', '--push'));
+}
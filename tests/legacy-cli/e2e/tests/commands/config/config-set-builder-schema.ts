@@ -0,0 +1,16 @@
+import { expectFileToMatch } from '../../../utils/fs';
+import { ng } from '../../../utils/process';
+import { expectToFail } from '../../../utils/utils';
+
+export default async function() {
+  const optionsPath = 'projects.test-project.architect.build.options';
+
+  // Values which are not allowed by the schema of the builder are rejected.
+  await expectToFail(() => ng('config', `${optionsPath}.outputHashing`, 'sometimes'));
+  await expectToFail(() => ng('config', `${optionsPath}.unknownOption`, 'true'));
+  await expectToFail(() => ng('config', 'projects.test-project.architect.build.configurations.production.optimization', 'fast'));
+  await expectToFail(() => expectFileToMatch('angular.json', /sometimes|unknownOption|"fast"/));
+
+  await ng('config', `${optionsPath}.outputHashing`, 'bundles');
+  await expectFileToMatch('angular.json', /"outputHashing": "bundles"/);
+}